@@ -7,6 +7,8 @@ import { BrowserRouter, Routes, Route, useNavigate, useLocation } from "react-ro
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import BlogPost from "./pages/BlogPost";
+import Auth from "./pages/Auth";
+import { RequireAuth } from "@/components/auth/RequireAuth";
 import './styles/blog-components.css';
 
 const queryClient = new QueryClient();
@@ -229,7 +231,8 @@ const App = () => (
         <BrowserRouter>
           <SPARedirectHandler />
           <Routes>
-            <Route path="/" element={<Index />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/" element={<RequireAuth><Index /></RequireAuth>} />
             <Route path="/blog/:slug" element={<BlogPost />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
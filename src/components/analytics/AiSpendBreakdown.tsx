@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { DollarSign, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAnalyticsStore, type SpendBucket } from '@/stores/analytics-store';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { cn } from '@/lib/utils';
+
+const formatCost = (usd: number) => `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K` : `${tokens}`;
+
+function SpendList({ buckets }: { buckets: SpendBucket[] }) {
+  if (buckets.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-6">
+        No AI usage recorded yet
+      </p>
+    );
+  }
+
+  const maxCost = Math.max(...buckets.map((b) => b.costUsd)) || 1;
+
+  return (
+    <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+      {buckets.slice(0, 25).map((bucket, i) => (
+        <motion.div
+          key={bucket.key}
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: i * 0.03 }}
+          className="space-y-1"
+        >
+          <div className="flex items-center justify-between gap-3 text-xs">
+            <span className="truncate" title={bucket.label}>{bucket.label}</span>
+            <span className="font-mono text-muted-foreground whitespace-nowrap">
+              {formatTokens(bucket.tokens)} · {bucket.jobs} job{bucket.jobs === 1 ? '' : 's'} ·{' '}
+              <span className="text-foreground">{formatCost(bucket.costUsd)}</span>
+            </span>
+          </div>
+          <div className="h-1.5 bg-muted/30 rounded overflow-hidden">
+            <motion.div
+              initial={{ width: 0 }}
+              animate={{ width: `${(bucket.costUsd / maxCost) * 100}%` }}
+              transition={{ duration: 0.5, delay: i * 0.03 }}
+              className="h-full rounded bg-primary"
+            />
+          </div>
+        </motion.div>
+      ))}
+    </div>
+  );
+}
+
+export function AiSpendBreakdown() {
+  const { aiSpend, loadAiSpend } = useAnalyticsStore();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!isSupabaseConfigured()) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      await loadAiSpend();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load AI spend');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadAiSpend]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return (
+    <Card className="glass-panel border-border/50">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <DollarSign className="w-4 h-4 text-primary" />
+            AI Spend
+          </CardTitle>
+          <div className="flex items-center gap-3">
+            {aiSpend && (
+              <span className="text-xs text-muted-foreground font-mono">
+                {formatTokens(aiSpend.totalTokens)} tokens · {formatCost(aiSpend.totalCostUsd)}
+              </span>
+            )}
+            <Button variant="ghost" size="sm" onClick={refresh} disabled={isLoading}>
+              <RefreshCw className={cn('w-4 h-4', isLoading && 'animate-spin')} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-destructive mb-3">{error}</p>}
+        <Tabs defaultValue="page">
+          <TabsList className="mb-4">
+            <TabsTrigger value="page">Per Page</TabsTrigger>
+            <TabsTrigger value="site">Per Site</TabsTrigger>
+            <TabsTrigger value="day">Per Day</TabsTrigger>
+          </TabsList>
+          <TabsContent value="page">
+            <SpendList buckets={aiSpend?.byPage || []} />
+          </TabsContent>
+          <TabsContent value="site">
+            <SpendList buckets={aiSpend?.bySite || []} />
+          </TabsContent>
+          <TabsContent value="day">
+            <SpendList buckets={aiSpend?.byDay || []} />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
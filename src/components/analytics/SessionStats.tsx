@@ -61,8 +61,8 @@ export function SessionStats() {
         />
         <MetricCard
           icon={DollarSign}
-          value={`$${sessionStats.totalAiCostUsd.toFixed(2)}`}
-          label="AI Cost"
+          value={`$${sessionStats.totalAiCostUsd.toFixed(sessionStats.totalAiCostUsd < 1 ? 4 : 2)}`}
+          label={`AI Cost (${(sessionStats.totalAiTokens / 1000).toFixed(1)}K tokens)`}
         />
       </div>
 
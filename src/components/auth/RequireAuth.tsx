@@ -0,0 +1,57 @@
+import { useEffect, type ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { vaultLegacySecrets } from '@/lib/credentials';
+import { useConfigStore } from '@/stores/config-store';
+import { usePagesStore } from '@/stores/pages-store';
+
+interface RequireAuthProps {
+  children: ReactNode;
+}
+
+// Without a backend there is nothing to sign in to, so the app stays open
+// and the "Backend Not Connected" badge explains why nothing works
+export function RequireAuth({ children }: RequireAuthProps) {
+  const { user, isLoading } = useAuth();
+  const location = useLocation();
+  const ownerId = useConfigStore((state) => state.ownerId);
+  const bindOwner = useConfigStore((state) => state.bindOwner);
+  const backendConfigured = isSupabaseConfigured();
+
+  // The persisted stores outlive a sign-out; another account signing in on
+  // this browser must not see the previous account's sites or queue
+  useEffect(() => {
+    if (!user || user.id === ownerId) return;
+    if (ownerId) {
+      const { clearPages, clearActivityLog } = usePagesStore.getState();
+      clearPages();
+      clearActivityLog();
+    }
+    bindOwner(user.id);
+  }, [user, ownerId, bindOwner]);
+
+  // Secrets an older version left in localStorage go to the vault as soon as
+  // there is an owner to file them under
+  const isBound = backendConfigured && !!user && user.id === ownerId;
+  useEffect(() => {
+    if (isBound) void vaultLegacySecrets();
+  }, [isBound]);
+
+  if (!backendConfigured) return <>{children}</>;
+
+  if (!isLoading && !user) {
+    return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  }
+
+  if (isLoading || user?.id !== ownerId) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,35 @@
+import { LogOut, UserRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/hooks/useAuth';
+
+export function UserMenu() {
+  const { user, signOut } = useAuth();
+  if (!user) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="rounded-full" aria-label="Account">
+          <UserRound className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">Signed in as</DropdownMenuLabel>
+        <p className="px-2 pb-1.5 truncate text-sm">{user.email}</p>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => signOut()} className="gap-2">
+          <LogOut className="w-4 h-4" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
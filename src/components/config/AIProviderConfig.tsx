@@ -1,14 +1,16 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Bot, Sparkles, Brain, Zap, Network, Loader2, CheckCircle2, AlertCircle, Shield, CloudOff } from 'lucide-react';
+import { Bot, Sparkles, Brain, Zap, Network, Loader2, CheckCircle2, AlertCircle, Shield, CloudOff, Plus, Trash2, ArrowUp, ArrowDown, Layers, Server, FlaskConical } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { PasswordInput } from '@/components/shared/PasswordInput';
-import { useConfigStore, AIProvider } from '@/stores/config-store';
+import { useConfigStore, AIProvider, AIFallbackProvider, isProviderConfigured, isSecretHeader } from '@/stores/config-store';
 import { invokeEdgeFunction, isSupabaseConfigured } from '@/lib/supabase';
+import { saveCredential, savedSecretPlaceholder, toCredentialRef, type CredentialMetadata } from '@/lib/credentials';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
@@ -18,6 +20,8 @@ const providers: { id: AIProvider; name: string; icon: typeof Bot; color: string
   { id: 'openai', name: 'OpenAI', icon: Bot, color: 'text-green-400', allowCustomModel: false },
   { id: 'anthropic', name: 'Anthropic', icon: Brain, color: 'text-orange-400', allowCustomModel: false },
   { id: 'groq', name: 'Groq', icon: Zap, color: 'text-yellow-400', allowCustomModel: true },
+  { id: 'custom', name: 'Custom', icon: Server, color: 'text-cyan-400', allowCustomModel: true },
+  { id: 'mock', name: 'Mock', icon: FlaskConical, color: 'text-pink-400', allowCustomModel: false },
 ];
 
 const modelsByProvider: Record<AIProvider, { value: string; label: string }[]> = {
@@ -46,8 +50,116 @@ const modelsByProvider: Record<AIProvider, { value: string; label: string }[]> =
     { value: 'google/gemini-pro', label: 'Gemini Pro' },
     { value: 'meta-llama/llama-3.3-70b-instruct', label: 'Llama 3.3 70B' },
   ],
+  custom: [
+    { value: 'llama3.1:8b', label: 'Llama 3.1 8B (Ollama)' },
+    { value: 'qwen2.5:14b', label: 'Qwen 2.5 14B (Ollama)' },
+    { value: 'mistral-nemo', label: 'Mistral Nemo' },
+    { value: 'gpt-4o', label: 'GPT-4o (Azure deployment)' },
+  ],
+  // Offline and deterministic; the failing variants exercise the fallback chain
+  mock: [
+    { value: 'mock-default', label: 'Mock - valid article' },
+    { value: 'mock-rate-limit', label: 'Mock - always rate limited' },
+    { value: 'mock-unavailable', label: 'Mock - provider outage' },
+    { value: 'mock-refusal', label: 'Mock - refuses' },
+    { value: 'mock-invalid-json', label: 'Mock - invalid JSON' },
+  ],
+};
+
+// Custom endpoint headers are edited as "Name: value" lines
+const formatHeaders = (headers?: Record<string, string>) =>
+  Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+const parseHeaders = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach((line) => {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+    const name = line.slice(0, separator).trim();
+    if (name) headers[name] = line.slice(separator + 1).trim();
+  });
+  return headers;
 };
 
+interface CustomEndpointFieldsProps {
+  idPrefix: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  apiKeyHeader?: string;
+  onChange: (updates: { baseUrl?: string; headers?: Record<string, string>; apiKeyHeader?: string }) => void;
+}
+
+function CustomEndpointFields({ idPrefix, baseUrl, headers, apiKeyHeader, onChange }: CustomEndpointFieldsProps) {
+  // Keep the raw text so half-typed lines aren't dropped while editing
+  const [headersText, setHeadersText] = useState(() => formatHeaders(headers));
+  const secretHeaders = Object.keys(parseHeaders(headersText)).filter(isSecretHeader);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-baseUrl`} className="text-sm font-medium">
+          Base URL <span className="text-destructive">*</span>
+        </Label>
+        <Input
+          id={`${idPrefix}-baseUrl`}
+          placeholder="https://ollama.example.com/v1"
+          value={baseUrl || ''}
+          onChange={(e) => onChange({ baseUrl: e.target.value })}
+          className="bg-muted/50 font-mono text-sm"
+        />
+        <p className="text-xs text-muted-foreground">
+          OpenAI-compatible server reachable from the internet. For Azure, paste the full
+          chat completions URL including <code>api-version</code>.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-headers`} className="text-sm font-medium">
+          Extra Headers <span className="text-muted-foreground">(Optional)</span>
+        </Label>
+        <Textarea
+          id={`${idPrefix}-headers`}
+          placeholder={'X-Team: content'}
+          value={headersText}
+          onChange={(e) => {
+            setHeadersText(e.target.value);
+            onChange({ headers: parseHeaders(e.target.value) });
+          }}
+          className="bg-muted/50 font-mono text-sm min-h-[72px]"
+        />
+        <p className="text-xs text-muted-foreground">One <code>Name: value</code> per line</p>
+        {secretHeaders.length > 0 && (
+          <p className="text-xs text-warning flex items-center gap-1">
+            <AlertCircle className="w-3 h-3 shrink-0" />
+            {secretHeaders.join(', ')} won't be saved or sent. Put the key in the API key field and its header name below.
+          </p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-keyHeader`} className="text-sm font-medium">
+          API Key Header <span className="text-muted-foreground">(Optional)</span>
+        </Label>
+        <Input
+          id={`${idPrefix}-keyHeader`}
+          placeholder="Authorization"
+          value={apiKeyHeader || ''}
+          onChange={(e) => onChange({ apiKeyHeader: e.target.value.trim() || undefined })}
+          className="bg-muted/50 font-mono text-sm"
+        />
+        <p className="text-xs text-muted-foreground">
+          The API key is sent as a Bearer token unless you name another header here, e.g.{' '}
+          <code>api-key</code> for Azure.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+const MAX_FALLBACKS = 4;
+
+// A typed key can be validated (which vaults it) before the entry counts as configured
+const canValidateEntry = (entry: AIFallbackProvider) =>
+  isProviderConfigured(entry) || Boolean(entry.model && entry.apiKey);
+
 interface ValidationResult {
   success: boolean;
   message: string;
@@ -57,6 +169,8 @@ interface ValidationResult {
     id: string;
     name?: string;
   };
+  // The vaulted key, when one was typed in
+  credential?: CredentialMetadata;
   error?: string;
   errorCode?: string;
 }
@@ -66,14 +180,19 @@ export function AIProviderConfig() {
   const [isValidating, setIsValidating] = useState(false);
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
   const [customModel, setCustomModel] = useState('');
+  const [isSavingSerper, setIsSavingSerper] = useState(false);
+
+  const [fallbackStatus, setFallbackStatus] = useState<Record<number, 'validating' | 'valid' | 'invalid'>>({});
 
+  const fallbacks = ai.fallbacks || [];
   const backendConfigured = isSupabaseConfigured();
   const currentProvider = providers.find(p => p.id === ai.provider);
   const allowsCustomModel = currentProvider?.allowCustomModel || false;
 
   const handleProviderChange = (provider: AIProvider) => {
     const defaultModel = modelsByProvider[provider][0].value;
-    setAI({ provider, model: defaultModel });
+    // A saved key belongs to the provider it was validated against
+    setAI({ provider, model: defaultModel, apiKeyCredential: undefined });
     setValidationResult(null);
     setCustomModel('');
   };
@@ -91,8 +210,15 @@ export function AIProviderConfig() {
     setValidationResult(null);
   };
 
+  const isCustom = ai.provider === 'custom';
+  const isMock = ai.provider === 'mock';
+
   const handleValidateAPI = async () => {
-    if (!ai.apiKey) {
+    if (isCustom && !ai.baseUrl) {
+      toast.error('Please enter the base URL of your endpoint');
+      return;
+    }
+    if (!ai.apiKey && !ai.apiKeyCredential && !isCustom && !isMock) {
       toast.error('Please enter your API key');
       return;
     }
@@ -114,8 +240,9 @@ export function AIProviderConfig() {
 
     const { data, error } = await invokeEdgeFunction<ValidationResult>('validate-ai-provider', {
       provider: ai.provider,
-      apiKey: ai.apiKey,
+      ...(ai.apiKey ? { apiKey: ai.apiKey } : { apiKeyCredentialId: ai.apiKeyCredential?.id }),
       model: ai.model,
+      ...(isCustom ? { baseUrl: ai.baseUrl, headers: ai.headers || {}, apiKeyHeader: ai.apiKeyHeader } : {}),
     });
 
     if (error) {
@@ -139,6 +266,9 @@ export function AIProviderConfig() {
     setValidationResult(result);
 
     if (result.success) {
+      if (result.credential) {
+        setAI({ apiKeyCredential: toCredentialRef(result.credential), apiKey: '' });
+      }
       toast.success('API key validated!', {
         description: `Successfully connected to ${result.provider}`,
       });
@@ -151,6 +281,90 @@ export function AIProviderConfig() {
     setIsValidating(false);
   };
 
+  const setFallbacks = (next: AIFallbackProvider[]) => {
+    setAI({ fallbacks: next });
+    setFallbackStatus({});
+  };
+
+  const handleAddFallback = () => {
+    // Default to the first provider not already in the chain
+    const used = new Set([ai.provider, ...fallbacks.map(f => f.provider)]);
+    const provider = providers.find(p => !used.has(p.id))?.id || 'openrouter';
+    setFallbacks([...fallbacks, { provider, apiKey: '', model: modelsByProvider[provider][0].value }]);
+  };
+
+  const handleUpdateFallback = (index: number, updates: Partial<AIFallbackProvider>) => {
+    setFallbacks(fallbacks.map((entry, i) => {
+      if (i !== index) return entry;
+      const next = { ...entry, ...updates };
+      if (updates.provider && updates.provider !== entry.provider) {
+        next.model = modelsByProvider[updates.provider][0].value;
+        // Same provider as the primary usually means the same key
+        const sameAsPrimary = updates.provider === ai.provider;
+        next.apiKey = sameAsPrimary ? ai.apiKey : '';
+        next.apiKeyCredential = sameAsPrimary ? ai.apiKeyCredential : undefined;
+      }
+      return next;
+    }));
+  };
+
+  const handleMoveFallback = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= fallbacks.length) return;
+    const next = [...fallbacks];
+    [next[index], next[target]] = [next[target], next[index]];
+    setFallbacks(next);
+  };
+
+  const handleRemoveFallback = (index: number) => {
+    setFallbacks(fallbacks.filter((_, i) => i !== index));
+  };
+
+  const handleValidateFallback = async (index: number) => {
+    const entry = fallbacks[index];
+    if (!entry || !canValidateEntry(entry) || !backendConfigured) return;
+
+    setFallbackStatus(prev => ({ ...prev, [index]: 'validating' }));
+    const { data, error } = await invokeEdgeFunction<ValidationResult>('validate-ai-provider', {
+      provider: entry.provider,
+      ...(entry.apiKey ? { apiKey: entry.apiKey } : { apiKeyCredentialId: entry.apiKeyCredential?.id }),
+      model: entry.model,
+      ...(entry.provider === 'custom' ? { baseUrl: entry.baseUrl, headers: entry.headers || {}, apiKeyHeader: entry.apiKeyHeader } : {}),
+    });
+
+    const valid = !error && Boolean(data?.success);
+    const credential = valid ? data?.credential : undefined;
+    if (credential) {
+      // Read the chain fresh: it may have changed while the request ran
+      const current = useConfigStore.getState().ai.fallbacks || [];
+      setAI({
+        fallbacks: current.map((item, i) =>
+          i === index ? { ...item, apiKey: '', apiKeyCredential: toCredentialRef(credential) } : item),
+      });
+    }
+    setFallbackStatus(prev => ({ ...prev, [index]: valid ? 'valid' : 'invalid' }));
+    if (valid) {
+      toast.success(`Fallback ${index + 1} validated`, { description: `${entry.provider} • ${entry.model}` });
+    } else {
+      toast.error(`Fallback ${index + 1} failed validation`, {
+        description: error?.message || data?.error || data?.message,
+      });
+    }
+  };
+
+  const handleSaveSerperKey = async () => {
+    if (!ai.serperApiKey) return;
+    setIsSavingSerper(true);
+    const { credential, error } = await saveCredential('serper_api_key', ai.serperApiKey);
+    setIsSavingSerper(false);
+    if (!credential) {
+      toast.error('Serper key not saved', { description: error });
+      return;
+    }
+    setAI({ serperCredential: credential, serperApiKey: undefined });
+    toast.success('Serper key saved');
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 10 }}
@@ -191,7 +405,7 @@ export function AIProviderConfig() {
 
           <div className="space-y-2">
             <Label className="text-sm font-medium">Select Provider</Label>
-            <div className="grid grid-cols-5 gap-2">
+            <div className="grid grid-cols-4 md:grid-cols-7 gap-2">
               {providers.map((provider) => {
                 const Icon = provider.icon;
                 const isSelected = ai.provider === provider.id;
@@ -225,14 +439,32 @@ export function AIProviderConfig() {
             </div>
           </div>
 
+          {isCustom && (
+            <CustomEndpointFields
+              idPrefix="custom"
+              baseUrl={ai.baseUrl}
+              headers={ai.headers}
+              apiKeyHeader={ai.apiKeyHeader}
+              onChange={(updates) => {
+                setAI(updates);
+                setValidationResult(null);
+              }}
+            />
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="apiKey" className="text-sm font-medium">
-                API Key <span className="text-destructive">*</span>
+                API Key {isMock
+                  ? <span className="text-muted-foreground">(Not needed)</span>
+                  : isCustom
+                  ? <span className="text-muted-foreground">(Optional)</span>
+                  : <span className="text-destructive">*</span>}
               </Label>
               <PasswordInput
                 id="apiKey"
-                placeholder="Enter your API key..."
+                placeholder={isMock ? 'The mock provider runs offline' : savedSecretPlaceholder(ai.apiKeyCredential) || 'Enter your API key...'}
+                disabled={isMock}
                 value={ai.apiKey}
                 onChange={(e) => {
                   setAI({ apiKey: e.target.value });
@@ -320,7 +552,7 @@ export function AIProviderConfig() {
           <div className="flex items-center gap-3 pt-2">
             <Button
               onClick={handleValidateAPI}
-              disabled={isValidating || !ai.apiKey || !ai.model || !backendConfigured}
+              disabled={isValidating || !isProviderConfigured(ai) || !backendConfigured}
               variant="outline"
               className="gap-2"
             >
@@ -329,7 +561,7 @@ export function AIProviderConfig() {
               ) : (
                 <Shield className="w-4 h-4" />
               )}
-              {isValidating ? 'Validating...' : 'Validate API Key'}
+              {isValidating ? 'Validating...' : isMock ? 'Test Provider' : 'Validate API Key'}
             </Button>
 
             {validationResult && (
@@ -385,17 +617,183 @@ export function AIProviderConfig() {
             </motion.div>
           )}
 
+          {/* Fallback chain */}
+          <div className="space-y-3 pt-2 border-t border-border/50">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-sm font-medium flex items-center gap-2">
+                  <Layers className="w-4 h-4 text-primary" />
+                  Fallback Providers <span className="text-muted-foreground">(Optional)</span>
+                </Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Tried in order when {ai.provider} times out, hits a rate limit, refuses or returns unusable output
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={handleAddFallback}
+                disabled={fallbacks.length >= MAX_FALLBACKS}
+              >
+                <Plus className="w-4 h-4" />
+                Add
+              </Button>
+            </div>
+
+            {fallbacks.map((entry, index) => {
+              const status = fallbackStatus[index];
+              const entryProvider = providers.find(p => p.id === entry.provider);
+
+              return (
+                <motion.div
+                  key={index}
+                  initial={{ opacity: 0, y: -5 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="p-3 rounded-lg bg-muted/30 border border-border/50 space-y-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-mono text-muted-foreground w-5">{index + 1}.</span>
+                    <Select
+                      value={entry.provider}
+                      onValueChange={(value) => handleUpdateFallback(index, { provider: value as AIProvider })}
+                    >
+                      <SelectTrigger className="bg-muted/50 w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {providers.map((provider) => (
+                          <SelectItem key={provider.id} value={provider.id}>
+                            {provider.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {entryProvider?.allowCustomModel ? (
+                      <Input
+                        list={`fallback-models-${index}`}
+                        placeholder="Model ID..."
+                        value={entry.model}
+                        onChange={(e) => handleUpdateFallback(index, { model: e.target.value })}
+                        className="bg-muted/50 font-mono text-sm flex-1"
+                      />
+                    ) : (
+                      <Select
+                        value={entry.model}
+                        onValueChange={(value) => handleUpdateFallback(index, { model: value })}
+                      >
+                        <SelectTrigger className="bg-muted/50 flex-1">
+                          <SelectValue placeholder="Select a model" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {modelsByProvider[entry.provider].map((model) => (
+                            <SelectItem key={model.value} value={model.value}>
+                              {model.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {entryProvider?.allowCustomModel && (
+                      <datalist id={`fallback-models-${index}`}>
+                        {modelsByProvider[entry.provider].map((model) => (
+                          <option key={model.value} value={model.value}>{model.label}</option>
+                        ))}
+                      </datalist>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleMoveFallback(index, -1)}
+                      disabled={index === 0}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleMoveFallback(index, 1)}
+                      disabled={index === fallbacks.length - 1}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleRemoveFallback(index)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {entry.provider === 'custom' && (
+                    <div className="pl-7">
+                      <CustomEndpointFields
+                        idPrefix={`fallback-${index}`}
+                        baseUrl={entry.baseUrl}
+                        headers={entry.headers}
+                        apiKeyHeader={entry.apiKeyHeader}
+                        onChange={(updates) => handleUpdateFallback(index, updates)}
+                      />
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2 pl-7">
+                    <PasswordInput
+                      placeholder={savedSecretPlaceholder(entry.apiKeyCredential) || `${entryProvider?.name || entry.provider} API key${entry.provider === 'custom' ? ' (optional)' : entry.provider === 'mock' ? ' (not needed)' : ''}...`}
+                      disabled={entry.provider === 'mock'}
+                      value={entry.apiKey}
+                      onChange={(e) => handleUpdateFallback(index, { apiKey: e.target.value })}
+                      className="bg-muted/50 font-mono"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1 shrink-0"
+                      onClick={() => handleValidateFallback(index)}
+                      disabled={!canValidateEntry(entry) || !backendConfigured || status === 'validating'}
+                    >
+                      {status === 'validating' ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : status === 'valid' ? (
+                        <CheckCircle2 className="w-4 h-4 text-success" />
+                      ) : status === 'invalid' ? (
+                        <AlertCircle className="w-4 h-4 text-destructive" />
+                      ) : (
+                        <Shield className="w-4 h-4" />
+                      )}
+                      Validate
+                    </Button>
+                  </div>
+                </motion.div>
+              );
+            })}
+          </div>
+
           <div className="space-y-2 pt-2 border-t border-border/50">
             <Label htmlFor="serperKey" className="text-sm font-medium">
               Serper API Key <span className="text-muted-foreground">(Optional)</span>
             </Label>
-            <PasswordInput
-              id="serperKey"
-              placeholder="For SERP analysis & entity gap detection..."
-              value={ai.serperApiKey || ''}
-              onChange={(e) => setAI({ serperApiKey: e.target.value })}
-              className="bg-muted/50 font-mono"
-            />
+            <div className="flex items-center gap-2">
+              <PasswordInput
+                id="serperKey"
+                placeholder={savedSecretPlaceholder(ai.serperCredential) || 'For SERP analysis & entity gap detection...'}
+                value={ai.serperApiKey || ''}
+                onChange={(e) => setAI({ serperApiKey: e.target.value })}
+                className="bg-muted/50 font-mono"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1 shrink-0"
+                onClick={handleSaveSerperKey}
+                disabled={!ai.serperApiKey || !backendConfigured || isSavingSerper}
+              >
+                {isSavingSerper ? <Loader2 className="w-4 h-4 animate-spin" /> : <Shield className="w-4 h-4" />}
+                Save
+              </Button>
+            </div>
             <p className="text-xs text-muted-foreground">
               Enables competitor analysis, entity gaps, and PAA coverage
             </p>
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { KeyRound, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { deleteCredential, forgetCredential, type CredentialKind } from '@/lib/credentials';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+
+interface VaultEntry {
+  id: string;
+  kind: CredentialKind;
+  provider: string;
+  siteName: string | null;
+  hint: string;
+  createdAt: string;
+  rotatedAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedBy: string | null;
+}
+
+const KIND_LABELS: Record<CredentialKind, string> = {
+  wordpress_password: 'WordPress application password',
+  ai_api_key: 'AI provider key',
+  serper_api_key: 'Serper key',
+  neuronwriter_api_key: 'NeuronWriter key',
+};
+
+const ago = (timestamp: string) => formatDistanceToNow(new Date(timestamp), { addSuffix: true });
+
+// Saved secrets for the whole workspace. Only metadata is readable from the
+// browser; secrets are replaced by saving them again from their own card.
+export function CredentialVault() {
+  const [entries, setEntries] = useState<VaultEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const backendConfigured = isSupabaseConfigured();
+
+  const fetchEntries = useCallback(async () => {
+    if (!isSupabaseConfigured()) return;
+    setIsLoading(true);
+    const [{ data, error }, { data: sites }] = await Promise.all([
+      supabase
+        .from('credentials')
+        .select('id, kind, provider, site_id, hint, created_at, rotated_at, last_used_at, last_used_by')
+        .order('created_at', { ascending: true }),
+      supabase.from('wp_sites').select('id, site_name, site_url'),
+    ]);
+    setIsLoading(false);
+
+    if (error) {
+      console.error('[CredentialVault] Error fetching credentials:', error);
+      return;
+    }
+    const siteNames = new Map((sites || []).map(site => [site.id, site.site_name || site.site_url]));
+    setEntries((data || []).map(row => ({
+      id: row.id,
+      kind: row.kind as CredentialKind,
+      provider: row.provider,
+      siteName: row.site_id ? siteNames.get(row.site_id) || null : null,
+      hint: row.hint,
+      createdAt: row.created_at,
+      rotatedAt: row.rotated_at,
+      lastUsedAt: row.last_used_at,
+      lastUsedBy: row.last_used_by,
+    })));
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const handleDelete = async (entry: VaultEntry) => {
+    setDeletingId(entry.id);
+    const error = await deleteCredential(entry.id);
+    setDeletingId(null);
+    if (error) {
+      toast.error('Credential not deleted', { description: error });
+      return;
+    }
+    forgetCredential(entry.id);
+    setEntries(prev => prev.filter(item => item.id !== entry.id));
+    toast.success(`${KIND_LABELS[entry.kind]} deleted`);
+  };
+
+  if (!backendConfigured) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+    >
+      <Card className="glass-panel border-border/50">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <KeyRound className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-lg">Credential Vault</CardTitle>
+                <CardDescription>
+                  Passwords and API keys are stored encrypted on the server and only decrypted by edge functions
+                </CardDescription>
+              </div>
+            </div>
+            <Button variant="ghost" size="sm" onClick={fetchEntries} disabled={isLoading} aria-label="Refresh">
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nothing saved yet. Secrets are added when a connection or key is validated.
+            </p>
+          ) : (
+            entries.map(entry => (
+              <div
+                key={entry.id}
+                className="flex items-center gap-3 p-3 rounded-lg border border-border/50 bg-muted/30"
+              >
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-sm font-medium">{KIND_LABELS[entry.kind] || entry.kind}</span>
+                    {entry.provider && <Badge variant="outline" className="text-xs">{entry.provider}</Badge>}
+                    <Badge variant="secondary" className="text-xs">{entry.siteName || 'All sites'}</Badge>
+                    {entry.hint && <span className="text-xs font-mono text-muted-foreground">••••{entry.hint}</span>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.rotatedAt ? `Rotated ${ago(entry.rotatedAt)}` : `Saved ${ago(entry.createdAt)}`}
+                    {' • '}
+                    {entry.lastUsedAt
+                      ? `Last used ${ago(entry.lastUsedAt)}${entry.lastUsedBy ? ` by ${entry.lastUsedBy}` : ''}`
+                      : 'Never used'}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-muted-foreground hover:text-destructive"
+                  onClick={() => handleDelete(entry)}
+                  disabled={deletingId === entry.id}
+                  aria-label="Delete credential"
+                >
+                  {deletingId === entry.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
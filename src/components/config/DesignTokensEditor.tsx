@@ -0,0 +1,135 @@
+import { Palette, RotateCcw } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { useConfigStore, DEFAULT_DESIGN_TOKENS, type DesignTokens } from '@/stores/config-store';
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const colorFields: { key: 'primaryColor' | 'textColor'; label: string }[] = [
+  { key: 'primaryColor', label: 'Primary Color' },
+  { key: 'textColor', label: 'Text Color' },
+];
+
+const fontFields: { key: 'headingFont' | 'bodyFont'; label: string }[] = [
+  { key: 'headingFont', label: 'Heading Font' },
+  { key: 'bodyFont', label: 'Body Font' },
+];
+
+// Edits the tokens the themed content format turns into a stylesheet, with a
+// small preview of the components in those tokens
+export function DesignTokensEditor() {
+  const { wordpress, setWordPress } = useConfigStore();
+  const tokens: DesignTokens = { ...DEFAULT_DESIGN_TOKENS, ...wordpress.designTokens };
+
+  const update = (changes: Partial<DesignTokens>) => {
+    setWordPress({ designTokens: { ...tokens, ...changes } });
+  };
+
+  // The color picker needs six-digit hex; shorthand is expanded for it
+  const pickerValue = (color: string) => HEX_COLOR.test(color)
+    ? color.length === 4 ? `#${[...color.slice(1)].map(c => c + c).join('')}` : color
+    : '#000000';
+
+  const previewFont = (font: string) => (font === 'inherit' ? undefined : font);
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border/50 p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <Palette className="w-4 h-4 text-primary" />
+          Design Tokens
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 gap-1 text-xs"
+          onClick={() => setWordPress({ designTokens: DEFAULT_DESIGN_TOKENS })}
+        >
+          <RotateCcw className="w-3 h-3" />
+          Reset
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {colorFields.map(({ key, label }) => (
+          <div key={key} className="space-y-2">
+            <Label htmlFor={key} className="text-sm">{label}</Label>
+            <div className="flex gap-2">
+              <input
+                type="color"
+                aria-label={label}
+                value={pickerValue(tokens[key])}
+                onChange={(e) => update({ [key]: e.target.value })}
+                className="h-10 w-12 shrink-0 cursor-pointer rounded border border-border/50 bg-transparent"
+              />
+              <Input
+                id={key}
+                value={tokens[key]}
+                onChange={(e) => update({ [key]: e.target.value.trim() })}
+                className="bg-muted/50 font-mono"
+              />
+            </div>
+            {!HEX_COLOR.test(tokens[key]) && (
+              <p className="text-xs text-destructive">Use a hex color like #6366f1; the default is used until then</p>
+            )}
+          </div>
+        ))}
+
+        {fontFields.map(({ key, label }) => (
+          <div key={key} className="space-y-2">
+            <Label htmlFor={key} className="text-sm">{label}</Label>
+            <Input
+              id={key}
+              placeholder="inherit"
+              value={tokens[key]}
+              onChange={(e) => update({ [key]: e.target.value })}
+              className="bg-muted/50"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm">Corner Radius</Label>
+          <span className="text-xs text-muted-foreground font-mono">{tokens.radius}px</span>
+        </div>
+        <Slider
+          min={0}
+          max={32}
+          step={1}
+          value={[tokens.radius]}
+          onValueChange={([radius]) => update({ radius })}
+        />
+      </div>
+
+      <div
+        className="p-4 border"
+        style={{
+          borderRadius: tokens.radius,
+          borderColor: tokens.primaryColor,
+          color: tokens.textColor,
+          fontFamily: previewFont(tokens.bodyFont),
+          background: `color-mix(in srgb, ${tokens.primaryColor} 8%, transparent)`,
+        }}
+      >
+        <p className="font-bold uppercase text-sm tracking-wide mb-2" style={{ fontFamily: previewFont(tokens.headingFont) }}>
+          🎯 Key Takeaways
+        </p>
+        <p className="text-sm mb-3">Components pick up these tokens from one stylesheet embedded in the post.</p>
+        <span
+          className="inline-block px-4 py-1.5 text-sm font-semibold text-white"
+          style={{ background: tokens.primaryColor, borderRadius: tokens.radius }}
+        >
+          Call to action →
+        </span>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        WordPress keeps the embedded stylesheet only for users allowed to post unfiltered HTML (administrators and editors).
+      </p>
+    </div>
+  );
+}
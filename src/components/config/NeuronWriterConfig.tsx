@@ -25,6 +25,7 @@ import { Badge } from '@/components/ui/badge';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { useConfigStore } from '@/stores/config-store';
 import { invokeEdgeFunction, isSupabaseConfigured } from '@/lib/supabase';
+import { savedSecretPlaceholder, toCredentialRef, type CredentialMetadata } from '@/lib/credentials';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
@@ -58,20 +59,20 @@ export function NeuronWriterConfig() {
 
   // Fetch projects when API key changes and is valid
   useEffect(() => {
-    if (neuronWriter.isValidated && neuronWriter.apiKey) {
+    if (neuronWriter.isValidated && neuronWriter.apiKeyCredential) {
       fetchProjects();
     }
   }, [neuronWriter.isValidated]);
 
   // Fetch queries when project changes
   useEffect(() => {
-    if (neuronWriter.selectedProjectId && neuronWriter.apiKey) {
+    if (neuronWriter.selectedProjectId && neuronWriter.apiKeyCredential) {
       fetchQueries();
     }
   }, [neuronWriter.selectedProjectId]);
 
   const handleValidateKey = async () => {
-    if (!neuronWriter.apiKey) {
+    if (!neuronWriter.apiKey && !neuronWriter.apiKeyCredential) {
       toast.error('Please enter your NeuronWriter API key');
       return;
     }
@@ -83,11 +84,19 @@ export function NeuronWriterConfig() {
 
     setIsValidating(true);
 
-    const { data, error } = await invokeEdgeFunction<{ success: boolean; projects?: NeuronProject[]; error?: string }>(
+    const { data, error } = await invokeEdgeFunction<{
+      success: boolean;
+      projects?: NeuronProject[];
+      credential?: CredentialMetadata;
+      error?: string;
+    }>(
       'neuronwriter',
       {
         action: 'list-projects',
-        apiKey: neuronWriter.apiKey,
+        // A newly typed key is vaulted once NeuronWriter accepts it
+        ...(neuronWriter.apiKey
+          ? { apiKey: neuronWriter.apiKey }
+          : { apiKeyCredentialId: neuronWriter.apiKeyCredential?.id }),
       }
     );
 
@@ -101,7 +110,10 @@ export function NeuronWriterConfig() {
     }
 
     setProjects(data.projects || []);
-    setNeuronWriter({ isValidated: true });
+    setNeuronWriter({
+      isValidated: true,
+      ...(data.credential ? { apiKeyCredential: toCredentialRef(data.credential), apiKey: '' } : {}),
+    });
     toast.success('NeuronWriter connected!', {
       description: `Found ${data.projects?.length || 0} projects`,
     });
@@ -110,7 +122,7 @@ export function NeuronWriterConfig() {
   };
 
   const fetchProjects = async () => {
-    if (!neuronWriter.apiKey) return;
+    if (!neuronWriter.apiKeyCredential) return;
     
     setIsFetchingProjects(true);
     
@@ -118,7 +130,7 @@ export function NeuronWriterConfig() {
       'neuronwriter',
       {
         action: 'list-projects',
-        apiKey: neuronWriter.apiKey,
+        apiKeyCredentialId: neuronWriter.apiKeyCredential.id,
       }
     );
 
@@ -133,7 +145,7 @@ export function NeuronWriterConfig() {
   };
 
   const fetchQueries = async () => {
-    if (!neuronWriter.apiKey || !neuronWriter.selectedProjectId) return;
+    if (!neuronWriter.apiKeyCredential || !neuronWriter.selectedProjectId) return;
     
     setIsFetchingQueries(true);
     
@@ -141,7 +153,7 @@ export function NeuronWriterConfig() {
       'neuronwriter',
       {
         action: 'list-queries',
-        apiKey: neuronWriter.apiKey,
+        apiKeyCredentialId: neuronWriter.apiKeyCredential.id,
         projectId: neuronWriter.selectedProjectId,
       }
     );
@@ -232,7 +244,7 @@ export function NeuronWriterConfig() {
                   </Label>
                   <div className="flex gap-2">
                     <PasswordInput
-                      placeholder="n-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx"
+                      placeholder={savedSecretPlaceholder(neuronWriter.apiKeyCredential) || 'n-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx'}
                       value={neuronWriter.apiKey}
                       onChange={(e) => {
                         setNeuronWriter({ 
@@ -248,7 +260,7 @@ export function NeuronWriterConfig() {
                     />
                     <Button
                       onClick={handleValidateKey}
-                      disabled={isValidating || !neuronWriter.apiKey || !backendConfigured}
+                      disabled={isValidating || !(neuronWriter.apiKey || neuronWriter.apiKeyCredential) || !backendConfigured}
                       variant={neuronWriter.isValidated ? 'outline' : 'default'}
                       className="gap-2 min-w-[120px]"
                     >
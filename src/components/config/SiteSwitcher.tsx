@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Check, ChevronsUpDown, Globe, KeyRound, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { useConfigStore } from '@/stores/config-store';
+import { toast } from 'sonner';
+
+interface WorkspaceSite {
+  id: string;
+  name: string;
+  url: string;
+  username: string;
+  // Settings saved in this browser; otherwise they start from the active site's
+  hasProfile: boolean;
+}
+
+const hostOf = (url: string) => url.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+
+interface SiteSwitcherProps {
+  // Called after switching or adding, so the page can show the site's settings
+  onSiteChange?: (isNew: boolean) => void;
+}
+
+export function SiteSwitcher({ onSiteChange }: SiteSwitcherProps) {
+  const { wordpress, sites, switchSite, addSite, setWordPress } = useConfigStore();
+  const [remoteSites, setRemoteSites] = useState<WorkspaceSite[]>([]);
+
+  const fetchSites = useCallback(async () => {
+    if (!isSupabaseConfigured()) return;
+    const { data, error } = await supabase
+      .from('wp_sites')
+      .select('id, site_url, site_name, username')
+      .order('site_name', { ascending: true });
+
+    if (error) {
+      console.error('[SiteSwitcher] Error fetching sites:', error);
+      return;
+    }
+    setRemoteSites((data || []).map(site => ({
+      id: site.id,
+      name: site.site_name || hostOf(site.site_url),
+      url: site.site_url,
+      username: site.username,
+      hasProfile: false,
+    })));
+  }, []);
+
+  useEffect(() => {
+    fetchSites();
+  }, [fetchSites, wordpress.siteId]);
+
+  // Profiles in this browser, plus sites other browsers connected
+  const workspaceSites = useMemo(() => {
+    const local: WorkspaceSite[] = Object.entries(sites).map(([id, profile]) => ({
+      id,
+      name: profile.wordpress.siteName || hostOf(profile.wordpress.siteUrl),
+      url: profile.wordpress.siteUrl,
+      username: profile.wordpress.username,
+      hasProfile: true,
+    }));
+    const remote = remoteSites.filter(site => !sites[site.id]);
+    return [...local, ...remote].sort((a, b) => a.name.localeCompare(b.name));
+  }, [sites, remoteSites]);
+
+  const handleSwitch = async (site: WorkspaceSite) => {
+    if (site.id === wordpress.siteId) return;
+    switchSite(site.id, { siteUrl: site.url, username: site.username, siteName: site.name });
+    onSiteChange?.(!site.hasProfile);
+    if (site.hasProfile) return;
+
+    // Another browser may already have vaulted the site's password
+    const { data: saved } = await supabase
+      .from('credentials')
+      .select('id, hint')
+      .eq('site_id', site.id)
+      .eq('kind', 'wordpress_password')
+      .maybeSingle();
+    if (saved && useConfigStore.getState().wordpress.siteId === site.id) {
+      setWordPress({ passwordCredential: { id: saved.id, hint: saved.hint } });
+      return;
+    }
+    toast.info(`Enter the application password for ${site.name}`, {
+      description: 'No password has been saved for this site yet.',
+    });
+  };
+
+  const handleAdd = () => {
+    addSite();
+    onSiteChange?.(true);
+  };
+
+  const activeLabel = wordpress.siteId
+    ? wordpress.siteName || hostOf(wordpress.siteUrl)
+    : 'New site';
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && fetchSites()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2 max-w-[220px] bg-muted/50 border-border/50">
+          <Globe className="w-3.5 h-3.5 text-primary shrink-0" />
+          <span className="truncate text-xs font-medium">{activeLabel}</span>
+          <ChevronsUpDown className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">
+          Workspace sites ({workspaceSites.length})
+        </DropdownMenuLabel>
+        {workspaceSites.length === 0 ? (
+          <p className="px-2 py-1.5 text-xs text-muted-foreground">Connect a WordPress site to add it here.</p>
+        ) : (
+          workspaceSites.map(site => (
+            <DropdownMenuItem key={site.id} onSelect={() => handleSwitch(site)} className="gap-2">
+              <Check className={site.id === wordpress.siteId ? 'w-4 h-4 text-primary' : 'w-4 h-4 opacity-0'} />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm">{site.name}</p>
+                <p className="truncate text-xs text-muted-foreground">{hostOf(site.url)}</p>
+              </div>
+              {!site.hasProfile && <KeyRound className="w-3.5 h-3.5 text-muted-foreground" aria-label="Needs credentials" />}
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={handleAdd} className="gap-2">
+          <Plus className="w-4 h-4" />
+          Add site
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,13 +1,16 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Globe, Loader2, CheckCircle2, AlertCircle, Link, Shield, User, Server, CloudOff } from 'lucide-react';
+import { Globe, Loader2, CheckCircle2, AlertCircle, Link, Shield, User, Server, CloudOff, LayoutGrid } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { PasswordInput } from '@/components/shared/PasswordInput';
-import { useConfigStore } from '@/stores/config-store';
+import { DesignTokensEditor } from '@/components/config/DesignTokensEditor';
+import { useConfigStore, type ContentFormat, type WordPressPostType } from '@/stores/config-store';
 import { invokeEdgeFunction, isSupabaseConfigured } from '@/lib/supabase';
+import { savedSecretPlaceholder, toCredentialRef, type CredentialMetadata } from '@/lib/credentials';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
@@ -20,6 +23,8 @@ interface ValidationResult {
     description: string;
     url: string;
     version?: string;
+    gmtOffset?: number;
+    timezone?: string;
   };
   userInfo?: {
     id: number;
@@ -33,6 +38,9 @@ interface ValidationResult {
     canPublish: boolean;
     canManageOptions: boolean;
   };
+  postTypes?: WordPressPostType[];
+  // The vaulted password, when one was typed in
+  credential?: CredentialMetadata;
   error?: string;
   errorCode?: string;
 }
@@ -54,7 +62,7 @@ export function WordPressConnection() {
       toast.error('Please enter your WordPress username');
       return;
     }
-    if (!wordpress.applicationPassword) {
+    if (!wordpress.applicationPassword && !wordpress.passwordCredential) {
       toast.error('Please enter your Application Password');
       return;
     }
@@ -73,7 +81,10 @@ export function WordPressConnection() {
     const { data, error } = await invokeEdgeFunction<ValidationResult>('validate-wordpress', {
       siteUrl: wordpress.siteUrl,
       username: wordpress.username,
-      applicationPassword: wordpress.applicationPassword,
+      // A newly typed password replaces the saved one
+      ...(wordpress.applicationPassword
+        ? { applicationPassword: wordpress.applicationPassword }
+        : { passwordCredentialId: wordpress.passwordCredential?.id }),
     });
 
     if (error) {
@@ -98,8 +109,15 @@ export function WordPressConnection() {
     if (result.success) {
       setWordPress({
         siteId: result.siteId,
+        siteName: result.siteInfo?.name,
         isConnected: true,
         lastConnectedAt: new Date().toISOString(),
+        postTypes: result.postTypes?.map(({ slug, name, restBase }) => ({ slug, name, restBase })),
+        gmtOffset: result.siteInfo?.gmtOffset,
+        timezone: result.siteInfo?.timezone,
+        ...(result.credential
+          ? { passwordCredential: toCredentialRef(result.credential), applicationPassword: '' }
+          : {}),
       });
       toast.success('WordPress connected successfully!', {
         description: `Connected to ${result.siteInfo?.name || wordpress.siteUrl}`,
@@ -114,7 +132,7 @@ export function WordPressConnection() {
     setIsTesting(false);
   };
 
-  const isFormValid = wordpress.siteUrl && wordpress.username && wordpress.applicationPassword;
+  const isFormValid = wordpress.siteUrl && wordpress.username && (wordpress.applicationPassword || wordpress.passwordCredential);
 
   return (
     <motion.div
@@ -197,7 +215,7 @@ export function WordPressConnection() {
             </Label>
             <PasswordInput
               id="appPassword"
-              placeholder="xxxx xxxx xxxx xxxx xxxx xxxx"
+              placeholder={savedSecretPlaceholder(wordpress.passwordCredential) || 'xxxx xxxx xxxx xxxx xxxx xxxx'}
               value={wordpress.applicationPassword}
               onChange={(e) => {
                 setWordPress({ applicationPassword: e.target.value, isConnected: false });
@@ -211,6 +229,31 @@ export function WordPressConnection() {
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="contentFormat" className="text-sm font-medium">
+              Content Format
+            </Label>
+            <Select
+              value={wordpress.contentFormat || 'classic'}
+              onValueChange={(value) => setWordPress({ contentFormat: value as ContentFormat })}
+            >
+              <SelectTrigger id="contentFormat" className="bg-muted/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="classic">Classic HTML (single Classic block)</SelectItem>
+                <SelectItem value="themed">Themed HTML (class names + design tokens)</SelectItem>
+                <SelectItem value="blocks">Gutenberg blocks (editable in the block editor)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+              <LayoutGrid className="w-3 h-3" />
+              Themed and blocks output fit the site's theme instead of using inline CSS
+            </p>
+          </div>
+
+          {wordpress.contentFormat === 'themed' && <DesignTokensEditor />}
+
           <div className="flex items-center gap-3 pt-2">
             <Button
               onClick={handleTestConnection}
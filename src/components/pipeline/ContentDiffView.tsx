@@ -0,0 +1,129 @@
+// src/components/pipeline/ContentDiffView.tsx
+// ============================================================================
+// CONTENT DIFF VIEW - Live post vs optimized content, accept/reject per hunk
+// ============================================================================
+
+import { useEffect, useMemo, useState } from 'react';
+import { Check, Undo2, CheckCheck, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  diffContent,
+  isHunkAccepted,
+  mergeContent,
+  type DiffBlock,
+  type DiffHunk,
+  type HunkDecisions,
+} from '@/lib/html/ContentDiff';
+import { cn } from '@/lib/utils';
+
+interface ContentDiffViewProps {
+  original: string;
+  optimized: string;
+  onMergedChange: (html: string) => void;
+}
+
+function BlockList({ blocks, emptyLabel }: { blocks: DiffBlock[]; emptyLabel: string }) {
+  if (blocks.length === 0) {
+    return <p className="text-xs italic text-muted-foreground">{emptyLabel}</p>;
+  }
+
+  return (
+    <div
+      className="prose prose-sm max-w-none"
+      dangerouslySetInnerHTML={{ __html: blocks.map(block => block.html).join('\n') }}
+    />
+  );
+}
+
+function HunkView({ hunk, accepted, onToggle }: { hunk: DiffHunk; accepted: boolean; onToggle: () => void }) {
+  return (
+    <div className={cn('rounded-lg border', accepted ? 'border-green-500/40' : 'border-muted')}>
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b bg-muted/30">
+        <p className="text-xs font-medium truncate">{hunk.section}</p>
+        <Button size="sm" variant={accepted ? 'default' : 'outline'} className="h-7" onClick={onToggle}>
+          {accepted ? <Check className="w-3 h-3 mr-1" /> : <Undo2 className="w-3 h-3 mr-1" />}
+          {accepted ? 'Accepted' : 'Kept original'}
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 divide-x">
+        <div className={cn('p-3', accepted ? 'bg-red-500/5 opacity-60' : 'bg-background')}>
+          <BlockList blocks={hunk.removed} emptyLabel="Not in the live post" />
+        </div>
+        <div className={cn('p-3', accepted ? 'bg-green-500/10' : 'bg-background opacity-60')}>
+          <BlockList blocks={hunk.added} emptyLabel="Removed in the optimized version" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ContentDiffView({ original, optimized, onMergedChange }: ContentDiffViewProps) {
+  const segments = useMemo(() => diffContent(original, optimized), [original, optimized]);
+  const hunks = useMemo(
+    () => segments.filter((segment): segment is DiffHunk => segment.type === 'hunk'),
+    [segments]
+  );
+  const [decisions, setDecisions] = useState<HunkDecisions>({});
+
+  // Hunk ids are positional, so earlier decisions do not carry over to a new diff
+  useEffect(() => {
+    setDecisions({});
+  }, [segments]);
+
+  useEffect(() => {
+    onMergedChange(mergeContent(segments, decisions));
+  }, [segments, decisions, onMergedChange]);
+
+  const setAll = (accepted: boolean) => {
+    setDecisions(Object.fromEntries(hunks.map(hunk => [hunk.id, accepted])));
+  };
+
+  const acceptedCount = hunks.filter(hunk => isHunkAccepted(hunk, decisions)).length;
+
+  if (hunks.length === 0) {
+    return <p className="text-sm p-2 rounded bg-muted/50">The optimized content is identical to the live post</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Badge variant="secondary">
+          {acceptedCount} of {hunks.length} changes accepted
+        </Badge>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" className="h-7" onClick={() => setAll(true)}>
+            <CheckCheck className="w-3 h-3 mr-1" />
+            Accept all
+          </Button>
+          <Button size="sm" variant="outline" className="h-7" onClick={() => setAll(false)}>
+            <XCircle className="w-3 h-3 mr-1" />
+            Reject all
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 text-xs font-medium text-muted-foreground px-3">
+        <span>Live post</span>
+        <span className="pl-3">Optimized</span>
+      </div>
+
+      {segments.map((segment, i) =>
+        segment.type === 'equal' ? (
+          <p key={`equal-${i}`} className="text-xs text-center text-muted-foreground">
+            ⋯ {segment.blocks.length} unchanged block{segment.blocks.length === 1 ? '' : 's'} ⋯
+          </p>
+        ) : (
+          <HunkView
+            key={segment.id}
+            hunk={segment}
+            accepted={isHunkAccepted(segment, decisions)}
+            onToggle={() => setDecisions(prev => ({ ...prev, [segment.id]: !isHunkAccepted(segment, prev) }))}
+          />
+        )
+      )}
+    </div>
+  );
+}
+
+export default ContentDiffView;
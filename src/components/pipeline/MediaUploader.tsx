@@ -0,0 +1,185 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import { ImagePlus, Link2, Loader2, Sparkles, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { invokeEdgeFunction } from '@/lib/supabase';
+import { useConfigStore, buildAIConfigPayload, hasWordPressCredentials } from '@/stores/config-store';
+import { toast } from 'sonner';
+
+// Larger files are rejected by upload-media anyway; fail before sending them
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export interface UploadedMedia {
+  id: number;
+  sourceUrl: string;
+  title: string;
+  caption: string;
+  altText: string;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+}
+
+interface UploadMediaResponse {
+  success: boolean;
+  message: string;
+  error?: string;
+  mediaId?: number;
+  media?: UploadedMedia;
+  altTextGenerated?: boolean;
+  html?: string;
+}
+
+interface MediaUploaderProps {
+  media: UploadedMedia | null;
+  onChange: (media: UploadedMedia | null) => void;
+  postId?: number | null;
+  defaultTitle?: string;
+  // Article details the AI uses to write alt text
+  context?: { topic?: string; keyword?: string };
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error || new Error('Could not read the file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+export function MediaUploader({ media, onChange, postId, defaultTitle, context }: MediaUploaderProps) {
+  const { wordpress, ai } = useConfigStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [imageUrl, setImageUrl] = useState('');
+  const [altText, setAltText] = useState('');
+  const [caption, setCaption] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [altTextGenerated, setAltTextGenerated] = useState(false);
+
+  const upload = async (source: { sourceUrl?: string; data?: string; filename?: string; mimeType?: string }) => {
+    if (!hasWordPressCredentials(wordpress)) {
+      toast.error('WordPress not configured');
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const { data, error } = await invokeEdgeFunction<UploadMediaResponse>('upload-media', {
+        siteUrl: wordpress.siteUrl,
+        username: wordpress.username,
+        passwordCredentialId: wordpress.passwordCredential?.id,
+        ...source,
+        title: defaultTitle,
+        caption: caption || undefined,
+        altText: altText || undefined,
+        postId: postId || undefined,
+        aiConfig: altText ? undefined : buildAIConfigPayload(ai),
+        context,
+      });
+
+      if (error) throw new Error(error.message);
+      if (!data?.success || !data.media) {
+        throw new Error(data?.message || data?.error || 'Upload failed');
+      }
+
+      onChange(data.media);
+      setAltTextGenerated(Boolean(data.altTextGenerated));
+      setImageUrl('');
+      toast.success('Image uploaded to the media library', {
+        description: `Attachment #${data.media.id}`,
+      });
+    } catch (err) {
+      console.error('[MediaUploader] Upload error:', err);
+      toast.error('Image upload failed', {
+        description: err instanceof Error ? err.message : 'Check console for details',
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      toast.error('Image is too large', { description: 'The limit is 10 MB.' });
+      return;
+    }
+
+    await upload({ data: await readAsDataUrl(file), filename: file.name, mimeType: file.type });
+  };
+
+  if (media) {
+    return (
+      <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50">
+        <img src={media.sourceUrl} alt={media.altText} className="w-20 h-20 rounded object-cover shrink-0" />
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium truncate">{media.title || `Attachment #${media.id}`}</span>
+            <Badge variant="secondary" className="text-[10px]">#{media.id}</Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Alt: {media.altText || '(none)'}
+            {altTextGenerated && <Sparkles className="inline w-3 h-3 ml-1 text-primary" />}
+          </p>
+          {media.caption && <p className="text-xs text-muted-foreground">Caption: {media.caption}</p>}
+        </div>
+        <Button variant="ghost" size="icon" className="h-7 w-7" title="Remove" onClick={() => onChange(null)}>
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          placeholder="https://example.com/image.jpg"
+          value={imageUrl}
+          onChange={(e) => setImageUrl(e.target.value)}
+          disabled={isUploading}
+        />
+        <Button
+          variant="secondary"
+          onClick={() => upload({ sourceUrl: imageUrl.trim() })}
+          disabled={isUploading || !imageUrl.trim()}
+        >
+          {isUploading ? <Loader2 className="w-4 h-4 animate-spin mr-1" /> : <Link2 className="w-4 h-4 mr-1" />}
+          From URL
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+          <Upload className="w-4 h-4 mr-1" />
+          File
+        </Button>
+        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          placeholder="Alt text (blank: written by AI)"
+          value={altText}
+          onChange={(e) => setAltText(e.target.value)}
+          disabled={isUploading}
+        />
+        <Input
+          placeholder="Caption (optional)"
+          value={caption}
+          onChange={(e) => setCaption(e.target.value)}
+          disabled={isUploading}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground flex items-center gap-1">
+        <ImagePlus className="w-3 h-3" />
+        Uploaded to the WordPress media library and set as the featured image on publish.
+      </p>
+    </div>
+  );
+}
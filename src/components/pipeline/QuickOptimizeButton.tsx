@@ -4,13 +4,14 @@
 // ============================================================================
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Zap, Loader2, CheckCircle, XCircle, Clock, RefreshCw, Settings } from 'lucide-react';
+import { Zap, Loader2, CheckCircle, XCircle, Clock, RefreshCw, Settings, Play, Square } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
-import { useConfigStore } from '@/stores/config-store'; // CRITICAL: Import config store
+import { cancelJob, resumeJob } from '@/lib/supabase';
+import { useConfigStore, buildAIConfigPayload, isProviderConfigured } from '@/stores/config-store'; // CRITICAL: Import config store
 
 // ============================================================================
 // TYPES
@@ -39,14 +40,14 @@ interface OptimizationResult {
 
 interface JobRecord {
   id: string;
-  status: 'pending' | 'queued' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress: number | null;
   current_step: string | null;
   result: OptimizationResult | null;
   error_message: string | null;
 }
 
-type OptimizeState = 'idle' | 'starting' | 'polling' | 'complete' | 'error';
+type OptimizeState = 'idle' | 'starting' | 'polling' | 'complete' | 'error' | 'cancelled';
 
 // ============================================================================
 // MAIN COMPONENT
@@ -60,7 +61,7 @@ export function QuickOptimizeButton({
   onError
 }: QuickOptimizeButtonProps) {
   // CRITICAL: Get AI configuration from store
-  const { ai, siteContext, advanced } = useConfigStore();
+  const { ai, siteContext, advanced, wordpress } = useConfigStore();
   
   // State
   const [state, setState] = useState<OptimizeState>('idle');
@@ -79,7 +80,7 @@ export function QuickOptimizeButton({
   const pollCountRef = useRef(0);
 
   // Check if AI is configured
-  const isAiConfigured = Boolean(ai.apiKey && ai.provider && ai.model);
+  const isAiConfigured = isProviderConfigured(ai);
 
   // ========================================================================
   // CLEANUP
@@ -172,11 +173,36 @@ export function QuickOptimizeButton({
         }
       }
 
+      if (job.status === 'cancelled') {
+        console.log(`[Poll #${pollNum}] ⏹️ Job cancelled`);
+        stopAllIntervals();
+        setState('cancelled');
+      }
+
     } catch (err) {
       console.error(`[Poll #${pollNum}] Exception:`, err);
     }
   }, [stopAllIntervals, onComplete, onError]);
 
+  const startTimer = useCallback(() => {
+    if (timeIntervalRef.current) clearInterval(timeIntervalRef.current);
+    timeIntervalRef.current = setInterval(() => {
+      if (mountedRef.current) {
+        setElapsedTime(Math.floor((Date.now() - startTimeRef.current) / 1000));
+      }
+    }, 1000);
+  }, []);
+
+  const startPolling = useCallback((targetJobId: string) => {
+    if (pollIntervalRef.current) clearInterval(pollIntervalRef.current);
+    pollJobStatus(targetJobId);
+    pollIntervalRef.current = setInterval(() => {
+      if (mountedRef.current) {
+        pollJobStatus(targetJobId);
+      }
+    }, 1000);
+  }, [pollJobStatus]);
+
   // ========================================================================
   // START OPTIMIZATION - NOW PASSES AI CONFIG!
   // ========================================================================
@@ -206,17 +232,13 @@ export function QuickOptimizeButton({
     startTimeRef.current = Date.now();
 
     // Start timer
-    timeIntervalRef.current = setInterval(() => {
-      if (mountedRef.current) {
-        setElapsedTime(Math.floor((Date.now() - startTimeRef.current) / 1000));
-      }
-    }, 1000);
+    startTimer();
 
     try {
       console.log('[Optimize] Starting optimization for:', url);
       console.log('[Optimize] AI Config:', {
         provider: ai.provider,
-        hasApiKey: !!ai.apiKey,
+        hasApiKey: !!ai.apiKeyCredential,
         model: ai.model,
         isConfigured: isAiConfigured,
       });
@@ -224,17 +246,14 @@ export function QuickOptimizeButton({
       // ====================================================================
       // CRITICAL FIX: Build AI config payload
       // ====================================================================
-      const aiConfigPayload = isAiConfigured ? {
-        provider: ai.provider,
-        apiKey: ai.apiKey,
-        model: ai.model,
-      } : undefined;
+      const aiConfigPayload = buildAIConfigPayload(ai);
 
       // Call Edge Function WITH AI CONFIG
       const { data, error: invokeError } = await supabase.functions.invoke(
         'optimize-content',
         {
           body: { 
+            siteId: wordpress.siteId,
             url, 
             siteUrl: url,
             postTitle: title || url,
@@ -286,13 +305,7 @@ export function QuickOptimizeButton({
       setCurrentStep('Job started, waiting for updates...');
 
       // Start polling
-      pollJobStatus(newJobId);
-      
-      pollIntervalRef.current = setInterval(() => {
-        if (mountedRef.current) {
-          pollJobStatus(newJobId);
-        }
-      }, 1000);
+      startPolling(newJobId);
 
     } catch (err) {
       console.error('[Optimize] Error:', err);
@@ -311,16 +324,66 @@ export function QuickOptimizeButton({
   };
 
   // ========================================================================
-  // CANCEL / RETRY / RESET
+  // CANCEL / RESUME / RETRY / RESET
   // ========================================================================
   
-  const handleCancel = () => {
+  const handleCancel = async () => {
     stopAllIntervals();
-    setState('idle');
-    setJobId(null);
-    setProgress(0);
-    setCurrentStep('');
-    toast.info('Optimization cancelled');
+
+    // Nothing on the server yet - just reset locally
+    if (!jobId) {
+      setState('idle');
+      setProgress(0);
+      setCurrentStep('');
+      toast.info('Optimization cancelled');
+      return;
+    }
+
+    setCurrentStep('Cancelling...');
+    const { data, error: cancelError } = await cancelJob(jobId);
+
+    if (!mountedRef.current) return;
+
+    if (cancelError || !data?.success) {
+      toast.error('Could not cancel optimization', {
+        description: cancelError?.message || data?.message || 'Unknown error',
+      });
+      // Keep watching so the UI reflects whatever the job actually did
+      startTimer();
+      startPolling(jobId);
+      return;
+    }
+
+    setState('cancelled');
+    setCurrentStep('Cancelled');
+    toast.info('Optimization cancelled', {
+      description: 'Completed stages are saved. You can resume later.',
+    });
+  };
+
+  const handleResume = async () => {
+    if (!jobId) return;
+
+    const { data, error: resumeError } = await resumeJob(jobId);
+
+    if (!mountedRef.current) return;
+
+    if (resumeError || !data?.success) {
+      toast.error('Could not resume optimization', {
+        description: resumeError?.message || data?.message || 'Unknown error',
+      });
+      return;
+    }
+
+    setState('polling');
+    setError(null);
+    setCurrentStep(data.resumeFromStage ? `Resuming from ${data.resumeFromStage}...` : 'Resuming...');
+    pollCountRef.current = 0;
+    startTimeRef.current = Date.now();
+    setElapsedTime(0);
+    startTimer();
+    startPolling(jobId);
+    toast.info('Optimization resumed');
   };
 
   const handleRetry = () => {
@@ -355,6 +418,10 @@ export function QuickOptimizeButton({
         'publish-to-wordpress',
         {
           body: {
+            siteId: wordpress.siteId,
+            wpUrl: wordpress.siteUrl,
+            wpUsername: wordpress.username,
+            passwordCredentialId: wordpress.passwordCredential?.id,
             pageId: jobId,
             title: result.title || result.optimizedTitle || 'Optimized Post',
             content: result.optimizedContent || result.content || '',
@@ -474,6 +541,16 @@ export function QuickOptimizeButton({
           </div>
           <p className="text-sm text-red-600 mb-3">{error}</p>
           <div className="flex gap-2">
+            {jobId && (
+              <Button 
+                size="sm" 
+                onClick={handleResume}
+                className="flex-1"
+              >
+                <Play className="w-4 h-4 mr-1" />
+                Resume
+              </Button>
+            )}
             <Button 
               variant="outline" 
               size="sm" 
@@ -495,6 +572,37 @@ export function QuickOptimizeButton({
         </div>
       )}
 
+      {/* Cancelled State */}
+      {state === 'cancelled' && (
+        <div className="p-4 bg-gray-50 rounded-xl border border-gray-200">
+          <div className="flex items-center gap-2 text-gray-700 mb-2">
+            <Square className="w-5 h-5" />
+            <span className="font-semibold">Optimization Cancelled</span>
+          </div>
+          <p className="text-sm text-gray-600 mb-3">
+            Completed stages were kept. Resume to continue where it stopped.
+          </p>
+          <div className="flex gap-2">
+            <Button 
+              size="sm" 
+              onClick={handleResume}
+              className="flex-1"
+            >
+              <Play className="w-4 h-4 mr-1" />
+              Resume
+            </Button>
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              onClick={handleReset}
+              className="flex-1"
+            >
+              Dismiss
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Complete State */}
       {state === 'complete' && result && (
         <div className="p-4 bg-gradient-to-br from-green-50 to-emerald-50 rounded-xl border border-green-200">
@@ -4,10 +4,13 @@
 // ============================================================================
 
 import React, { useState } from 'react';
-import { X, Copy, Download, Send, FileText, CheckCircle } from 'lucide-react';
+import { X, Copy, Download, Send, FileText, CheckCircle, GitCompare, Eye, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { ContentDiffView } from './ContentDiffView';
 import { supabase } from '@/integrations/supabase/client';
+import { useLivePost } from '@/hooks/useLivePost';
+import { useConfigStore } from '@/stores/config-store';
 import { toast } from 'sonner';
 
 interface ResultsModalProps {
@@ -18,20 +21,37 @@ interface ResultsModalProps {
 }
 
 export function ResultsModal({ isOpen, onClose, result, pageId }: ResultsModalProps) {
+  const wordpress = useConfigStore((state) => state.wordpress);
   const [isPublishing, setIsPublishing] = useState(false);
   const [publishStatus, setPublishStatus] = useState<'idle' | 'draft' | 'published'>('idle');
+  const [view, setView] = useState<'preview' | 'compare'>('preview');
+  // Live post merged with the accepted hunks; null until the diff has loaded
+  const [reviewedContent, setReviewedContent] = useState<string | null>(null);
+
+  const { post: livePost, isLoading: isLoadingLivePost, error: livePostError } = useLivePost({
+    pageId,
+    enabled: isOpen && Boolean(result?.optimizedContent),
+  });
 
   if (!isOpen || !result) return null;
 
+  const contentToPublish = reviewedContent ?? result.optimizedContent ?? '';
+
   const handlePublish = async (status: 'draft' | 'publish') => {
     setIsPublishing(true);
     
     try {
       const { data, error } = await supabase.functions.invoke('publish-to-wordpress', {
         body: {
+          siteId: wordpress.siteId,
+          wpUrl: wordpress.siteUrl,
+          wpUsername: wordpress.username,
+          passwordCredentialId: wordpress.passwordCredential?.id,
           pageId: pageId,
+          // The reviewed merge is based on the live post, so it updates that post
+          postId: reviewedContent !== null ? livePost?.id : undefined,
           title: result.title || result.optimizedTitle || 'Optimized Post',
-          content: result.optimizedContent || '',
+          content: contentToPublish,
           status: status,
         },
       });
@@ -56,8 +76,7 @@ export function ResultsModal({ isOpen, onClose, result, pageId }: ResultsModalPr
   };
 
   const handleCopyContent = () => {
-    const content = result.optimizedContent || '';
-    navigator.clipboard.writeText(content);
+    navigator.clipboard.writeText(contentToPublish);
     toast.success('Content copied to clipboard!');
   };
 
@@ -96,12 +115,30 @@ export function ResultsModal({ isOpen, onClose, result, pageId }: ResultsModalPr
           </div>
         </div>
 
-        {/* Content Preview */}
+        {/* Content Preview / Diff against the live post (kept mounted so hunk decisions survive) */}
         <div className="p-6 overflow-y-auto max-h-[50vh]">
-          <div 
-            className="prose prose-lg max-w-none"
+          <div
+            className={view === 'preview' ? 'prose prose-lg max-w-none' : 'hidden'}
             dangerouslySetInnerHTML={{ __html: result.optimizedContent || '<p>No content generated</p>' }}
           />
+          <div className={view === 'compare' ? undefined : 'hidden'}>
+            {isLoadingLivePost ? (
+              <div className="flex items-center justify-center py-8 text-sm text-gray-500">
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                Loading the live post...
+              </div>
+            ) : livePost && result.optimizedContent ? (
+              <ContentDiffView
+                original={livePost.content}
+                optimized={result.optimizedContent}
+                onMergedChange={setReviewedContent}
+              />
+            ) : (
+              <p className="text-sm p-2 rounded bg-gray-100">
+                Could not load the live post{livePostError ? `: ${livePostError}` : ''}. Publishing will use the full optimized content.
+              </p>
+            )}
+          </div>
         </div>
 
         {/* Actions */}
@@ -115,6 +152,14 @@ export function ResultsModal({ isOpen, onClose, result, pageId }: ResultsModalPr
                 <Copy className="w-4 h-4 mr-2" />
                 Copy HTML
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => setView(view === 'preview' ? 'compare' : 'preview')}
+                disabled={!result.optimizedContent}
+              >
+                {view === 'preview' ? <GitCompare className="w-4 h-4 mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
+                {view === 'preview' ? 'Compare with Live Post' : 'Show Preview'}
+              </Button>
             </div>
 
             <div className="flex gap-2">
@@ -0,0 +1,310 @@
+import type {
+  ArticleComponent,
+  CalloutBlock,
+  ChecklistItem,
+  ComparisonTableBlock,
+  DoAvoidItem,
+  VideoBlock,
+} from '@/lib/pipeline/types';
+import { cn } from '@/lib/utils';
+
+// Mirrors supabase/functions/_shared/ArticleComponentRenderer.ts: same order,
+// labels and structure, so the preview matches what gets published. A new
+// component type needs a case in both.
+
+const CALLOUT_STYLES: Record<CalloutBlock['style'], { icon: string; className: string }> = {
+  info: { icon: 'ℹ️', className: 'border-blue-500 bg-blue-500/10' },
+  warning: { icon: '⚠️', className: 'border-amber-500 bg-amber-500/10' },
+  success: { icon: '✅', className: 'border-emerald-500 bg-emerald-500/10' },
+  error: { icon: '⛔', className: 'border-red-500 bg-red-500/10' },
+  tip: { icon: '💡', className: 'border-primary bg-primary/10' },
+};
+
+const boxClassName = 'my-6 p-5 rounded-xl border border-border/50 bg-primary/5';
+const boxTitleClassName = 'mb-3 font-bold uppercase tracking-wide text-sm flex items-center gap-2';
+
+function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+function embedUrl(url: string): string | null {
+  const youtube = url.match(/(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/)|youtu\.be\/)([\w-]{11})/);
+  if (youtube) return `https://www.youtube.com/embed/${youtube[1]}`;
+  const vimeo = url.match(/vimeo\.com\/(?:video\/)?(\d+)/);
+  if (vimeo) return `https://player.vimeo.com/video/${vimeo[1]}`;
+  return null;
+}
+
+function MarkedList({ items, marker }: { items: React.ReactNode[]; marker: (index: number) => React.ReactNode }) {
+  return (
+    <ul className="space-y-0 divide-y divide-border/50">
+      {items.map((item, i) => (
+        <li key={i} className="flex items-start gap-3 py-2">
+          <span className="shrink-0 min-w-5 font-bold text-primary">{marker(i)}</span>
+          <span>{item}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function DoAvoidColumn({ kind, items }: { kind: 'do' | 'avoid'; items: DoAvoidItem[] }) {
+  return (
+    <div className={cn('pt-3 border-t-[3px]', kind === 'do' ? 'border-emerald-500' : 'border-red-500')}>
+      <h4 className="font-bold mb-2">{kind === 'do' ? '✅ Do' : '❌ Avoid'}</h4>
+      <MarkedList
+        marker={() => (kind === 'do' ? '✓' : '✗')}
+        items={items.map((item, i) => (
+          <span key={i}>
+            {item.text}
+            {item.explanation && <span className="block text-sm text-muted-foreground">{item.explanation}</span>}
+          </span>
+        ))}
+      />
+    </div>
+  );
+}
+
+function ChecklistRows({ items, nested = false }: { items: ChecklistItem[]; nested?: boolean }) {
+  return (
+    <ul className={cn(nested ? 'ml-7 mt-1' : 'divide-y divide-border/50')}>
+      {items.map(item => (
+        <li key={item.id} className="flex items-start gap-3 py-2">
+          <span className="shrink-0 font-bold text-primary">{item.checked ? '☑' : '☐'}</span>
+          <span>
+            {item.text}
+            {item.subItems && item.subItems.length > 0 && <ChecklistRows items={item.subItems} nested />}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function VideoPreview({ block }: { block: VideoBlock }) {
+  const src = embedUrl(block.url);
+  const timestamps = (block.timestamps || []).filter(stamp => stamp.label);
+  return (
+    <div className="my-6">
+      <h3 className="font-bold mb-2">▶ {block.title || 'Video'}</h3>
+      {src ? (
+        <div className="relative aspect-video rounded-xl overflow-hidden">
+          <iframe src={src} title={block.title} allowFullScreen className="absolute inset-0 w-full h-full" />
+        </div>
+      ) : (
+        <a href={block.url} target="_blank" rel="noopener noreferrer" className="text-primary font-semibold">
+          ▶ {block.title || block.url}
+        </a>
+      )}
+      {timestamps.length > 0 && (
+        <MarkedList
+          marker={i => <span className="font-mono text-xs">{formatTimestamp(timestamps[i].time)}</span>}
+          items={timestamps.map((stamp, i) => (
+            <span key={i}>
+              {stamp.label}
+              {stamp.description && <span className="block text-sm text-muted-foreground">{stamp.description}</span>}
+            </span>
+          ))}
+        />
+      )}
+    </div>
+  );
+}
+
+function ComparisonTablePreview({ block }: { block: ComparisonTableBlock }) {
+  const columns = Math.max(...block.rows.map(row => row.cells.length));
+  const headers = block.headers.length > columns ? block.headers : ['', ...block.headers];
+  const isBest = (column: number) => block.bestChoice === column;
+
+  return (
+    <div className="my-6 overflow-x-auto">
+      {block.title && <h3 className="font-bold mb-2">{block.title}</h3>}
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr>
+            {headers.map((header, i) => (
+              <th key={i} className={cn('p-2 text-left border-b border-border/50', i > 0 && isBest(i - 1) && 'bg-primary/10')}>
+                {header}{i > 0 && isBest(i - 1) && ' ⭐'}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {block.rows.map((row, r) => (
+            <tr key={r}>
+              <th scope="row" className="p-2 text-left border-b border-border/50">{row.feature}</th>
+              {row.cells.map((cell, i) => (
+                <td key={i} className={cn('p-2 border-b border-border/50', (isBest(i) || row.highlight) && 'bg-primary/10 font-semibold')}>
+                  {cell}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ComponentPreview({ component }: { component: ArticleComponent }) {
+  switch (component.type) {
+    case 'introduction':
+      return <div className="prose prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: component.content }} />;
+
+    case 'heading': {
+      const Tag = `h${Math.min(Math.max(component.level || 2, 2), 4)}` as 'h2' | 'h3' | 'h4';
+      return (
+        <Tag id={component.slug} className={cn('font-bold mt-8 mb-3', component.level === 2 || !component.level ? 'text-2xl pb-2 border-b-[3px] border-primary' : 'text-xl')}>
+          {component.text}
+        </Tag>
+      );
+    }
+
+    case 'paragraph':
+      return (
+        <div
+          className={cn('prose prose-invert max-w-none', component.emphasis && 'my-4 pl-4 border-l-[3px] border-primary text-lg')}
+          dangerouslySetInnerHTML={{ __html: component.content }}
+        />
+      );
+
+    case 'tldr': {
+      const bullets = component.bullets.filter(Boolean);
+      if (bullets.length === 0) return null;
+      return (
+        <div className={cn(boxClassName, 'bg-primary text-primary-foreground border-primary')}>
+          <p className={boxTitleClassName}>⚡ {component.title || 'TL;DR'}</p>
+          {bullets.length === 1 ? <p>{bullets[0]}</p> : <MarkedList items={bullets} marker={() => '•'} />}
+        </div>
+      );
+    }
+
+    case 'key_takeaways':
+      if (component.items.length === 0) return null;
+      return (
+        <div className={cn(boxClassName, 'border-l-4 border-l-primary')}>
+          <h3 className={boxTitleClassName}>🎯 {component.title || 'Key Takeaways'}</h3>
+          <MarkedList
+            marker={() => '✓'}
+            items={component.items.map((item, i) => (
+              <span key={i}>{item.title && <strong>{item.title}: </strong>}{item.description}</span>
+            ))}
+          />
+        </div>
+      );
+
+    case 'do_avoid':
+      if (component.dos.length + component.donts.length === 0) return null;
+      return (
+        <div className={boxClassName}>
+          <h3 className={boxTitleClassName}>{component.icon || '⚖️'} {component.title || 'Do & Avoid'}</h3>
+          <div className="grid md:grid-cols-2 gap-5">
+            {component.dos.length > 0 && <DoAvoidColumn kind="do" items={component.dos} />}
+            {component.donts.length > 0 && <DoAvoidColumn kind="avoid" items={component.donts} />}
+          </div>
+        </div>
+      );
+
+    case 'checklist':
+      if (component.items.length === 0) return null;
+      return (
+        <div className={boxClassName}>
+          <h3 className={boxTitleClassName}>📋 {component.title || 'Checklist'}</h3>
+          <ChecklistRows items={component.items} />
+        </div>
+      );
+
+    case 'callout': {
+      if (!component.content) return null;
+      const style = CALLOUT_STYLES[component.style] || CALLOUT_STYLES.info;
+      return (
+        <div className={cn(boxClassName, 'border-l-4', style.className)}>
+          {component.title && <p className={boxTitleClassName}>{component.icon || style.icon} {component.title}</p>}
+          <p>{component.content}</p>
+          {component.cta?.text && (
+            <a href={component.cta.href || '#'} className="inline-block mt-2 text-primary font-semibold">{component.cta.text} →</a>
+          )}
+        </div>
+      );
+    }
+
+    case 'quote':
+      if (!component.text) return null;
+      return (
+        <blockquote className="my-6 p-5 border-l-4 border-primary rounded-r-xl bg-primary/5">
+          <p className="text-lg italic mb-2">{component.text}</p>
+          {component.author && (
+            <footer>
+              <cite className="not-italic font-semibold">{component.author}</cite>
+              {component.source && <span className="text-sm text-muted-foreground"> {component.source}</span>}
+            </footer>
+          )}
+        </blockquote>
+      );
+
+    case 'video':
+      return component.url ? <VideoPreview block={component} /> : null;
+
+    case 'faq':
+      if (component.items.length === 0) return null;
+      return (
+        <div className="my-6">
+          <h2 className="text-2xl font-bold mb-3 pb-2 border-b-[3px] border-primary">{component.title || 'Frequently Asked Questions'}</h2>
+          {component.items.map((item, i) => (
+            <details key={i} className="mb-3 rounded-xl border border-border/50 overflow-hidden">
+              <summary className="p-4 cursor-pointer font-semibold bg-primary/5">{item.question}</summary>
+              <p className="p-4 text-muted-foreground">{item.answer}</p>
+            </details>
+          ))}
+        </div>
+      );
+
+    case 'comparison_table':
+      return component.rows.length > 0 ? <ComparisonTablePreview block={component} /> : null;
+
+    case 'conclusion':
+      return (
+        <div className={cn(boxClassName, 'border-t-[3px] border-t-primary')}>
+          <h3 className={boxTitleClassName}>📝 Conclusion</h3>
+          {component.summary && <p className="mb-2">{component.summary}</p>}
+          {component.keyPoints.length > 0 && <MarkedList items={component.keyPoints} marker={() => '✓'} />}
+        </div>
+      );
+
+    case 'cta':
+      return (
+        <div className={cn(boxClassName, 'text-center')}>
+          {component.title && <h3 className="font-bold text-lg mb-1">{component.title}</h3>}
+          {component.description && <p className="mb-3">{component.description}</p>}
+          {component.buttonText && (
+            <a href={component.buttonUrl || '#'} className="inline-block px-6 py-2 rounded-xl bg-primary text-primary-foreground font-semibold">
+              {component.buttonText} →
+            </a>
+          )}
+        </div>
+      );
+
+    default:
+      return null;
+  }
+}
+
+interface ArticleComponentPreviewProps {
+  components: ArticleComponent[];
+  className?: string;
+}
+
+export function ArticleComponentPreview({ components, className }: ArticleComponentPreviewProps) {
+  const ordered = [...components].sort((a, b) => a.order - b.order);
+  return (
+    <article className={cn('max-w-3xl mx-auto leading-relaxed', className)}>
+      {ordered.map(component => (
+        <ComponentPreview key={component.id} component={component} />
+      ))}
+    </article>
+  );
+}
@@ -1,5 +1,5 @@
 import { cn } from '@/lib/utils';
-import { CheckCircle2, Circle, Clock, Loader2, XCircle, SkipForward } from 'lucide-react';
+import { CalendarClock, CheckCircle2, Circle, Clock, Loader2, XCircle, SkipForward } from 'lucide-react';
 import { PageStatus } from '@/stores/pages-store';
 
 interface StatusBadgeProps {
@@ -31,6 +31,11 @@ const statusConfig: Record<
     label: 'Completed',
     className: 'text-success bg-success/20',
   },
+  scheduled: {
+    icon: CalendarClock,
+    label: 'Scheduled',
+    className: 'text-info bg-info/20',
+  },
   failed: {
     icon: XCircle,
     label: 'Failed',
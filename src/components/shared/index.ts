@@ -8,3 +8,4 @@ export { StatusBadge } from './StatusBadge';
 export * from './ContentBlocks';
 export { OptimizedContentRenderer } from './OptimizedContentRenderer';
 export type { OptimizationResult } from './OptimizedContentRenderer';
+export { ArticleComponentPreview } from './ArticleComponentPreview';
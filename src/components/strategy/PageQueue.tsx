@@ -3,10 +3,12 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { 
   List, Search, Filter, Zap, Eye, Trash2, RotateCcw, FileText, 
   ChevronLeft, ChevronRight, RefreshCw, Loader2, CheckCircle2, 
-  XCircle, Upload, Send, AlertTriangle, Info, CheckCheck
+  XCircle, Upload, Send, AlertTriangle, Info, CheckCheck, History, CalendarClock
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -16,18 +18,31 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { StatusBadge } from '@/components/shared/StatusBadge';
 import { ScoreIndicator } from '@/components/shared/ScoreIndicator';
 import { OptimizationProgress, DEFAULT_STEPS, OptimizationStep } from './OptimizationProgress';
+import { ContentDiffView } from '@/components/pipeline/ContentDiffView';
+import { MediaUploader, type UploadedMedia } from '@/components/pipeline/MediaUploader';
 import { supabase } from '@/integrations/supabase/client';
 import { invokeEdgeFunction } from '@/lib/supabase';
-import { useConfigStore } from '@/stores/config-store';
+import { useConfigStore, buildAIConfigPayload, hasWordPressCredentials, type OptimizationMode } from '@/stores/config-store';
+import { ArticleComponentPreview } from '@/components/shared/ArticleComponentPreview';
+import type { ArticleComponent, ContentPatch, PatchOperation } from '@/lib/pipeline/types';
 import { useJobProgress } from '@/hooks/useJobProgress';
+import { useLivePost } from '@/hooks/useLivePost';
+import { buildPublishSchedule, toSiteLocal, wallClockDate, type ScheduleOptions } from '@/lib/publishing/PublishSchedule';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
 
 const ITEMS_PER_PAGE = 10;
 
+// Optimized pages that can be (re)sent to WordPress
+const PUBLISHABLE_STATUSES = ['completed', 'scheduled'];
+
+type PublishStatus = 'draft' | 'publish' | 'future';
+
 interface DBPage {
   id: string;
   url: string;
@@ -37,11 +52,23 @@ interface DBPage {
   status: string | null;
   score_before: unknown;
   score_after: unknown;
+  // Filled in by analyze-pages after a crawl; { error } when the page couldn't be read
+  analysis: unknown;
+  analyzed_at: string | null;
+  // Kept up to date by incremental crawls
+  lastmod: string | null;
+  stale_since: string | null;
+  gone_since: string | null;
+  // robots.txt line against the URL, e.g. "Disallow: /shop/"
+  robots_rule: string | null;
+  // WordPress's own status when the page was discovered over REST
+  wp_status: string | null;
   post_id: number | null;
   post_type: string | null;
   categories: string[] | null;
   tags: string[] | null;
   featured_image: string | null;
+  scheduled_for: string | null;
   created_at: string | null;
   updated_at: string | null;
 }
@@ -77,6 +104,15 @@ interface OptimizationResult {
   engagementScore?: number;
   estimatedRankPosition?: number;
   confidenceLevel?: number;
+  mode?: OptimizationMode;
+  patch?: ContentPatch;
+  // Attachment uploaded through upload-media, sent as featured_media
+  featuredMediaId?: number;
+  // Suggested term names; publish-to-wordpress maps them to term IDs
+  categories?: string[];
+  tags?: string[];
+  // Structured article the rendered HTML was built from (full rewrites)
+  articleComponents?: ArticleComponent[];
 }
 
 // ============================================================================
@@ -99,6 +135,17 @@ interface BlogPostContent {
   sections?: BlogPostSection[];
 }
 
+interface PostRevision {
+  id: string;
+  job_id: string | null;
+  post_id: number;
+  reason: string;
+  title: string;
+  slug: string | null;
+  created_at: string;
+  restored_at: string | null;
+}
+
 interface ValidationCheck {
   name: string;
   passed: boolean;
@@ -242,9 +289,30 @@ function normalizeOptimizationResult(rawResult: unknown): OptimizationResult {
     engagementScore: newResult.engagementScore || 0,
     estimatedRankPosition: newResult.estimatedRankPosition || 10,
     confidenceLevel: newResult.confidenceLevel || 75,
+    mode: newResult.mode,
+    patch: newResult.patch,
+    categories: newResult.categories,
+    tags: newResult.tags,
   };
 }
 
+const INSERTED_BLOCK_LABELS: Record<string, string> = {
+  toc: 'Table of contents',
+  key_takeaways: 'Key takeaways',
+  faq: 'FAQ section',
+};
+
+function describePatchOperation(operation: PatchOperation): string {
+  switch (operation.op) {
+    case 'replace_section':
+      return `Rewrote "${operation.heading}" — ${operation.reason}`;
+    case 'set_alt_text':
+      return `Alt text for ${operation.src.split('/').pop()}: "${operation.after}"`;
+    case 'insert_block':
+      return `Added ${INSERTED_BLOCK_LABELS[operation.block] || operation.block}`;
+  }
+}
+
 export function PageQueue() {
   const [pages, setPages] = useState<DBPage[]>([]);
   const [selectedPages, setSelectedPages] = useState<string[]>([]);
@@ -273,17 +341,58 @@ export function PageQueue() {
   const [showValidationDialog, setShowValidationDialog] = useState(false);
   const [showPublishDialog, setShowPublishDialog] = useState(false);
   const [showBatchDialog, setShowBatchDialog] = useState(false);
-  const [selectedPageResult, setSelectedPageResult] = useState<{ page: DBPage; result: OptimizationResult | null } | null>(null);
+  const [selectedPageResult, setSelectedPageResult] = useState<{ page: DBPage; result: OptimizationResult | null; jobId?: string } | null>(null);
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
+  // Live post merged with the accepted hunks; null until the diff has loaded
+  const [reviewedContent, setReviewedContent] = useState<string | null>(null);
+  const [featuredMedia, setFeaturedMedia] = useState<UploadedMedia | null>(null);
   const [publishProgress, setPublishProgress] = useState<{ current: number; total: number; status: string }>({ current: 0, total: 0, status: '' });
+  const [revisionsPage, setRevisionsPage] = useState<DBPage | null>(null);
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [isLoadingRevisions, setIsLoadingRevisions] = useState(false);
+  const [restoringRevisionId, setRestoringRevisionId] = useState<string | null>(null);
+  const [showScheduleDialog, setShowScheduleDialog] = useState(false);
+  const [scheduleOptions, setScheduleOptions] = useState<ScheduleOptions>({
+    startDate: '',
+    time: '09:00',
+    perDay: 3,
+    intervalMinutes: 120,
+    weekdaysOnly: true,
+  });
   
   const { wordpress, ai, neuronWriter, optimization: optimizationSettings, advanced, siteContext } = useConfigStore();
 
+  const { post: livePost, isLoading: isLoadingLivePost, error: livePostError } = useLivePost({
+    pageUrl: selectedPageResult?.page.url,
+    postId: selectedPageResult?.page.post_id,
+    postType: selectedPageResult?.page.post_type,
+    enabled: showResultDialog && Boolean(selectedPageResult?.result?.optimizedContent),
+  });
+
+  useEffect(() => {
+    setReviewedContent(null);
+    setFeaturedMedia(null);
+  }, [selectedPageResult]);
+
+  // What gets validated and published: the reviewed merge when available,
+  // plus any featured image uploaded from the results dialog
+  const getReviewedResult = (): OptimizationResult | null => {
+    if (!selectedPageResult?.result) return null;
+    return {
+      ...selectedPageResult.result,
+      ...(reviewedContent !== null ? { optimizedContent: reviewedContent } : {}),
+      ...(featuredMedia ? { featuredMediaId: featuredMedia.id } : {}),
+    };
+  };
+
   // ============================================================================
   // FIX: Use ref to always have access to fresh pages data in callbacks
   // ============================================================================
   const pagesRef = useRef<DBPage[]>([]);
   const batchProgressRef = useRef<BatchProgress>(batchProgress);
+  // The active site's queue is what fetchPages loads, from any callback
+  const siteIdRef = useRef(wordpress.siteId);
+  siteIdRef.current = wordpress.siteId;
 
   // Keep refs in sync with state
   useEffect(() => {
@@ -319,7 +428,7 @@ export function PageQueue() {
             // NORMALIZE the result to handle both old and new formats
             const optimization = normalizeOptimizationResult(job.result);
             
-            setSelectedPageResult({ page: pageToShow, result: optimization });
+            setSelectedPageResult({ page: pageToShow, result: optimization, jobId: job.id });
             setShowResultDialog(true);
             
             // Safe access to properties
@@ -395,10 +504,13 @@ export function PageQueue() {
   const fetchPages = async () => {
     setIsLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('pages')
-        .select('*')
-        .order('created_at', { ascending: false });
+      // Each workspace site has its own queue; pages crawled before sites
+      // were tracked have no site and stay visible everywhere
+      let query = supabase.from('pages').select('*');
+      if (siteIdRef.current) {
+        query = query.or(`site_id.eq.${siteIdRef.current},site_id.is.null`);
+      }
+      const { data, error } = await query.order('created_at', { ascending: false });
 
       if (error) throw error;
       const fetchedPages = data || [];
@@ -414,7 +526,7 @@ export function PageQueue() {
 
   useEffect(() => {
     fetchPages();
-  }, []);
+  }, [wordpress.siteId]);
 
   const togglePageSelection = (id: string) => {
     setSelectedPages(prev =>
@@ -436,19 +548,15 @@ export function PageQueue() {
   const startOptimizationJob = useCallback(async (
     pageId: string
   ): Promise<{ success: boolean; jobId?: string; error?: string }> => {
-    if (!wordpress.siteUrl || !wordpress.username || !wordpress.applicationPassword) {
+    if (!hasWordPressCredentials(wordpress)) {
       return { success: false, error: 'WordPress not configured' };
     }
 
-    const aiConfigPayload = ai.apiKey && ai.model && ai.provider ? {
-      provider: ai.provider,
-      apiKey: ai.apiKey,
-      model: ai.model,
-    } : undefined;
+    const aiConfigPayload = buildAIConfigPayload(ai);
 
-    const neuronWriterPayload = neuronWriter.enabled && neuronWriter.isValidated && neuronWriter.apiKey && neuronWriter.selectedProjectId ? {
+    const neuronWriterPayload = neuronWriter.enabled && neuronWriter.isValidated && neuronWriter.apiKeyCredential && neuronWriter.selectedProjectId ? {
       enabled: true,
-      apiKey: neuronWriter.apiKey,
+      apiKeyCredentialId: neuronWriter.apiKeyCredential.id,
       projectId: neuronWriter.selectedProjectId,
       projectName: neuronWriter.selectedProjectName,
     } : undefined;
@@ -464,9 +572,15 @@ export function PageQueue() {
         pageId,
         siteUrl: wordpress.siteUrl,
         username: wordpress.username,
-        applicationPassword: wordpress.applicationPassword,
+        passwordCredentialId: wordpress.passwordCredential?.id,
         aiConfig: aiConfigPayload,
         neuronWriter: neuronWriterPayload,
+        contentFormat: wordpress.contentFormat || 'classic',
+        optimization: {
+          mode: optimizationSettings.mode,
+          preserveImages: optimizationSettings.preserveImages,
+          optimizeAltText: optimizationSettings.optimizeAltText,
+        },
         advanced: {
           targetScore: advanced.targetScore,
           minWordCount: advanced.minWordCount,
@@ -500,7 +614,7 @@ export function PageQueue() {
       console.error(`[Optimize] Exception for ${pageId}:`, err);
       return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
     }
-  }, [wordpress, ai, neuronWriter, advanced, siteContext]);
+  }, [wordpress, ai, neuronWriter, optimizationSettings, advanced, siteContext]);
 
   // Wait for a job to complete by polling the database
   const waitForJobCompletion = async (pageId: string, jobId: string, timeoutMs: number = 600000): Promise<{ success: boolean; error?: string }> => {
@@ -527,6 +641,10 @@ export function PageQueue() {
         if (jobData?.status === 'failed') {
           return { success: false, error: jobData.error_message || 'Job failed' };
         }
+
+        if (jobData?.status === 'cancelled') {
+          return { success: false, error: 'Job was cancelled' };
+        }
       } catch (err) {
         console.error(`[WaitForJob] Exception polling job ${jobId}:`, err);
       }
@@ -539,46 +657,27 @@ export function PageQueue() {
   };
 
   const validateWordPressConnection = useCallback(async (): Promise<{ valid: boolean; error?: string }> => {
-    const { siteUrl, username, applicationPassword } = wordpress;
-    
-    if (!siteUrl || !username || !applicationPassword) {
+    if (!hasWordPressCredentials(wordpress)) {
       return { valid: false, error: 'WordPress credentials missing. Go to Configuration tab.' };
     }
 
-    try {
-      let normalizedUrl = siteUrl.trim();
-      if (!normalizedUrl.startsWith('http://') && !normalizedUrl.startsWith('https://')) {
-        normalizedUrl = 'https://' + normalizedUrl;
-      }
-      normalizedUrl = normalizedUrl.replace(/\/+$/, '');
-
-      const credentials = `${username}:${applicationPassword}`;
-      const authHeader = 'Basic ' + btoa(credentials);
-
-      const response = await fetch(`${normalizedUrl}/wp-json/wp/v2/posts?per_page=1`, {
-        headers: {
-          'Authorization': authHeader,
-          'User-Agent': 'WP-Perfector/1.0',
-        },
-      });
-
-      if (response.status === 401) {
-        return { valid: false, error: 'Invalid WordPress credentials' };
-      }
-      if (response.status === 403) {
-        return { valid: false, error: 'User lacks permissions (edit_posts required)' };
-      }
-      if (!response.ok) {
-        return { valid: false, error: `WordPress API error: ${response.status}` };
+    // The password stays in the vault, so the check runs on the edge
+    const { data, error } = await invokeEdgeFunction<{ success: boolean; message?: string; error?: string }>(
+      'validate-wordpress',
+      {
+        siteUrl: wordpress.siteUrl,
+        username: wordpress.username,
+        passwordCredentialId: wordpress.passwordCredential?.id,
       }
+    );
 
-      return { valid: true };
-    } catch (err) {
-      return { 
-        valid: false, 
-        error: `Cannot connect to WordPress: ${err instanceof Error ? err.message : 'Unknown error'}`
+    if (error || !data?.success) {
+      return {
+        valid: false,
+        error: `Cannot connect to WordPress: ${data?.error || data?.message || error?.message || 'Unknown error'}`,
       };
     }
+    return { valid: true };
   }, [wordpress]);
 
   // ============================================================
@@ -765,7 +864,7 @@ export function PageQueue() {
     try {
       const { data: jobData, error: jobError } = await supabase
         .from('jobs')
-        .select('result')
+        .select('id, result')
         .eq('page_id', page.id)
         .eq('status', 'completed')
         .order('completed_at', { ascending: false })
@@ -788,7 +887,7 @@ export function PageQueue() {
         });
       }
       
-      setSelectedPageResult({ page, result });
+      setSelectedPageResult({ page, result, jobId: jobData?.[0]?.id });
       setShowResultDialog(true);
     } catch (err) {
       console.error('[handleViewResult] Error:', err);
@@ -816,35 +915,48 @@ export function PageQueue() {
   };
 
   const publishToWordPress = async (
-    pageId: string, 
+    page: DBPage,
     optimization: OptimizationResult,
-    publishStatus: 'draft' | 'publish' = 'draft'
-  ): Promise<{ success: boolean; error?: string; postUrl?: string }> => {
-    if (!wordpress.siteUrl || !wordpress.username || !wordpress.applicationPassword) {
+    publishStatus: PublishStatus = 'draft',
+    jobId?: string,
+    scheduledDate?: string
+  ): Promise<{ success: boolean; error?: string; postUrl?: string; createdTerms?: string[] }> => {
+    const pageId = page.id;
+    if (!hasWordPressCredentials(wordpress)) {
       return { success: false, error: 'WordPress not configured' };
     }
 
+    // Terms are only sent when they may change; an update without them keeps the post's own
+    const categories = optimizationSettings.preserveCategories ? [] : safeGetArray(optimization.categories ?? page.categories);
+    const tags = optimizationSettings.preserveTags ? [] : safeGetArray(optimization.tags ?? page.tags);
+
     try {
       const { data, error } = await invokeEdgeFunction<{
         success: boolean;
         message: string;
         error?: string;
         postUrl?: string;
+        terms?: Partial<Record<'categories' | 'tags', { created: string[] }>>;
       }>('publish-to-wordpress', {
         pageId,
+        jobId,
         siteUrl: wordpress.siteUrl,
         username: wordpress.username,
-        applicationPassword: wordpress.applicationPassword,
-        publishStatus,
-        optimization: {
-          optimizedTitle: optimization.optimizedTitle,
-          metaDescription: optimization.metaDescription,
-          h1: optimization.h1,
-          h2s: optimization.h2s,
-          optimizedContent: optimization.optimizedContent,
-          schema: optimization.schema,
-          internalLinks: optimization.internalLinks,
-        },
+        passwordCredentialId: wordpress.passwordCredential?.id,
+        postId: page.post_id || undefined,
+        postType: page.post_type || 'post',
+        title: optimization.optimizedTitle || page.title,
+        content: optimization.optimizedContent,
+        contentFormat: wordpress.contentFormat || 'classic',
+        designTokens: wordpress.designTokens,
+        status: publishStatus,
+        // Site-local publish time for scheduled posts
+        ...(scheduledDate ? { date: scheduledDate } : {}),
+        metaDescription: optimization.metaDescription,
+        ...(optimization.featuredMediaId ? { featuredMediaId: optimization.featuredMediaId } : {}),
+        ...(categories.length > 0 ? { categories } : {}),
+        ...(tags.length > 0 ? { tags } : {}),
+        createMissingTerms: true,
         options: {
           preserveCategories: optimizationSettings.preserveCategories,
           preserveTags: optimizationSettings.preserveTags,
@@ -865,7 +977,11 @@ export function PageQueue() {
         return { success: false, error: data?.error || data?.message || 'Unknown error' };
       }
 
-      return { success: true, postUrl: data.postUrl };
+      const createdTerms = [
+        ...safeGetArray(data.terms?.categories?.created),
+        ...safeGetArray(data.terms?.tags?.created),
+      ];
+      return { success: true, postUrl: data.postUrl, createdTerms };
     } catch (err) {
       console.error(`[publishToWordPress] Exception for ${pageId}:`, err);
       return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
@@ -873,21 +989,24 @@ export function PageQueue() {
   };
 
   const handleValidateAndPublish = async () => {
-    if (!selectedPageResult?.result) return;
+    const reviewed = getReviewedResult();
+    if (!reviewed) return;
 
-    const validation = await validateOptimization(selectedPageResult.result);
+    const validation = await validateOptimization(reviewed);
     setValidationResult(validation);
     setShowValidationDialog(true);
   };
 
   const handlePublishSingle = async (publishStatus: 'draft' | 'publish') => {
-    if (!selectedPageResult?.result) return;
+    const reviewed = getReviewedResult();
+    if (!selectedPageResult || !reviewed) return;
 
     setIsPublishing(true);
     const result = await publishToWordPress(
-      selectedPageResult.page.id,
-      selectedPageResult.result,
-      publishStatus
+      selectedPageResult.page,
+      reviewed,
+      publishStatus,
+      selectedPageResult.jobId
     );
     setIsPublishing(false);
 
@@ -895,6 +1014,11 @@ export function PageQueue() {
       toast.success(`Published as ${publishStatus}!`, {
         description: result.postUrl ? `View: ${result.postUrl}` : undefined,
       });
+      if (result.createdTerms && result.createdTerms.length > 0) {
+        toast.info(`Created ${result.createdTerms.length} new term${result.createdTerms.length === 1 ? '' : 's'}`, {
+          description: result.createdTerms.join(', '),
+        });
+      }
       setShowValidationDialog(false);
       setShowResultDialog(false);
       await fetchPages();
@@ -905,9 +1029,26 @@ export function PageQueue() {
     }
   };
 
-  const handlePublishSelected = async (publishStatus: 'draft' | 'publish') => {
+  // Slots for the selected pages under the current schedule options, skipping
+  // any that are already in the past on the site
+  const getScheduleSlots = (count: number): string[] => {
+    if (!scheduleOptions.startDate || !scheduleOptions.time) return [];
+    return buildPublishSchedule(count, {
+      ...scheduleOptions,
+      notBefore: toSiteLocal(new Date(), wordpress.gmtOffset),
+    });
+  };
+
+  const handleOpenSchedule = () => {
+    // Default to tomorrow in site time
+    const tomorrow = toSiteLocal(new Date(Date.now() + 24 * 60 * 60 * 1000), wordpress.gmtOffset);
+    setScheduleOptions(prev => ({ ...prev, startDate: prev.startDate || tomorrow.slice(0, 10) }));
+    setShowScheduleDialog(true);
+  };
+
+  const handlePublishSelected = async (publishStatus: PublishStatus, schedule: string[] = []) => {
     const completedPages = pages.filter(
-      p => selectedPages.includes(p.id) && p.status === 'completed'
+      p => selectedPages.includes(p.id) && PUBLISHABLE_STATUSES.includes(p.status || '')
     );
 
     if (completedPages.length === 0) {
@@ -917,6 +1058,15 @@ export function PageQueue() {
       return;
     }
 
+    if (publishStatus === 'future' && schedule.length < completedPages.length) {
+      toast.error('Not enough publish slots', {
+        description: 'Adjust the schedule so every selected page gets a date.',
+      });
+      return;
+    }
+
+    setShowScheduleDialog(false);
+
     setShowPublishDialog(true);
     setIsPublishing(true);
     setPublishProgress({ current: 0, total: completedPages.length, status: 'Starting...' });
@@ -929,13 +1079,15 @@ export function PageQueue() {
       setPublishProgress({ 
         current: i + 1, 
         total: completedPages.length, 
-        status: `Publishing: ${page.slug || page.title}` 
+        status: publishStatus === 'future'
+          ? `Scheduling: ${page.slug || page.title} for ${schedule[i].replace('T', ' ').slice(0, 16)}`
+          : `Publishing: ${page.slug || page.title}`
       });
 
       try {
         const { data: jobData, error: jobError } = await supabase
           .from('jobs')
-          .select('result')
+          .select('id, result')
           .eq('page_id', page.id)
           .eq('status', 'completed')
           .order('completed_at', { ascending: false })
@@ -955,7 +1107,13 @@ export function PageQueue() {
           continue;
         }
 
-        const result = await publishToWordPress(page.id, optimization, publishStatus);
+        const result = await publishToWordPress(
+          page,
+          optimization,
+          publishStatus,
+          jobData[0].id,
+          publishStatus === 'future' ? schedule[i] : undefined
+        );
         if (result.success) {
           successCount++;
         } else {
@@ -973,15 +1131,86 @@ export function PageQueue() {
     setSelectedPages([]);
     await fetchPages();
 
+    const verb = publishStatus === 'future' ? 'Scheduled' : 'Published';
     if (successCount > 0 && errorCount === 0) {
-      toast.success(`Published ${successCount} pages as ${publishStatus}!`);
+      toast.success(publishStatus === 'future'
+        ? `Scheduled ${successCount} pages!`
+        : `Published ${successCount} pages as ${publishStatus}!`);
     } else if (successCount > 0) {
-      toast.warning(`Published ${successCount} pages, ${errorCount} failed`);
+      toast.warning(`${verb} ${successCount} pages, ${errorCount} failed`);
     } else {
       toast.error('All publishes failed');
     }
   };
 
+  // ============================================================================
+  // REVISION SNAPSHOTS & ROLLBACK
+  // ============================================================================
+  const loadRevisions = async (page: DBPage) => {
+    setIsLoadingRevisions(true);
+    try {
+      const { data, error } = await supabase
+        .from('post_revisions')
+        .select('id, job_id, post_id, reason, title, slug, created_at, restored_at')
+        .eq('page_id', page.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRevisions(data || []);
+    } catch (err) {
+      console.error('[loadRevisions] Error:', err);
+      toast.error('Failed to load revision history');
+      setRevisions([]);
+    } finally {
+      setIsLoadingRevisions(false);
+    }
+  };
+
+  const handleOpenRevisions = (page: DBPage) => {
+    setRevisionsPage(page);
+    setRevisions([]);
+    loadRevisions(page);
+  };
+
+  const handleRestoreRevision = async (revision: PostRevision) => {
+    if (!revisionsPage) return;
+    if (!hasWordPressCredentials(wordpress)) {
+      toast.error('WordPress not configured');
+      return;
+    }
+
+    setRestoringRevisionId(revision.id);
+    try {
+      const { data, error } = await invokeEdgeFunction<{
+        success: boolean;
+        message: string;
+        error?: string;
+        postUrl?: string;
+      }>('restore-revision', {
+        revisionId: revision.id,
+        siteUrl: wordpress.siteUrl,
+        username: wordpress.username,
+        passwordCredentialId: wordpress.passwordCredential?.id,
+      });
+
+      if (error || !data?.success) {
+        throw new Error(data?.message || data?.error || error?.message || 'Rollback failed');
+      }
+
+      toast.success('Post restored', {
+        description: data.postUrl ? `View: ${data.postUrl}` : undefined,
+      });
+      await loadRevisions(revisionsPage);
+    } catch (err) {
+      console.error('[handleRestoreRevision] Error:', err);
+      toast.error('Rollback failed', {
+        description: err instanceof Error ? err.message : 'Check console for details',
+      });
+    } finally {
+      setRestoringRevisionId(null);
+    }
+  };
+
   const handleDelete = async (id: string) => {
     try {
       const { error } = await supabase.from('pages').delete().eq('id', id);
@@ -995,10 +1224,23 @@ export function PageQueue() {
     }
   };
 
-  const getScore = (page: DBPage): number => {
+  const getScore = (page: DBPage): number | null => {
     const scoreAfter = page.score_after as { overall?: number } | null;
     const scoreBefore = page.score_before as { overall?: number } | null;
-    return scoreAfter?.overall || scoreBefore?.overall || 0;
+    return scoreAfter?.overall ?? scoreBefore?.overall ?? null;
+  };
+
+  // Why a crawled page has no score yet
+  const getScoreHint = (page: DBPage): string => {
+    const analysisError = (page.analysis as { error?: string } | null)?.error;
+    if (analysisError) return `Could not analyze: ${analysisError}`;
+    return page.analyzed_at ? 'Not scored' : 'Waiting for analysis';
+  };
+
+  // Why search engines won't index a page, if they won't
+  const getIndexWarning = (page: DBPage): string | null => {
+    if (page.robots_rule) return `robots.txt: ${page.robots_rule}`;
+    return (page.analysis as { noindex?: boolean } | null)?.noindex ? 'The page asks search engines not to index it (noindex)' : null;
   };
 
   const filteredPages = pages.filter((page) => {
@@ -1017,9 +1259,11 @@ export function PageQueue() {
   const visibleIds = paginatedPages.map(p => p.id);
   const allVisibleSelected = visibleIds.length > 0 && visibleIds.every(id => selectedPages.includes(id));
   
-  const selectedCompletedCount = pages.filter(
-    p => selectedPages.includes(p.id) && p.status === 'completed'
-  ).length;
+  const selectedPublishable = pages.filter(
+    p => selectedPages.includes(p.id) && PUBLISHABLE_STATUSES.includes(p.status || '')
+  );
+  const selectedCompletedCount = selectedPublishable.length;
+  const schedulePreview = showScheduleDialog ? getScheduleSlots(selectedCompletedCount) : [];
 
   return (
     <>
@@ -1061,6 +1305,16 @@ export function PageQueue() {
                         <Upload className="w-3.5 h-3.5" />
                         Save as Draft ({selectedCompletedCount})
                       </Button>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        className="h-8 gap-1"
+                        onClick={handleOpenSchedule}
+                        disabled={isOptimizing || isPublishing}
+                      >
+                        <CalendarClock className="w-3.5 h-3.5" />
+                        Schedule ({selectedCompletedCount})
+                      </Button>
                       <Button
                         size="sm"
                         variant="default"
@@ -1106,6 +1360,7 @@ export function PageQueue() {
                   <SelectItem value="pending">Pending</SelectItem>
                   <SelectItem value="optimizing">Optimizing</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
                   <SelectItem value="published">Published</SelectItem>
                   <SelectItem value="failed">Failed</SelectItem>
                 </SelectContent>
@@ -1167,10 +1422,59 @@ export function PageQueue() {
                             </div>
                           </TableCell>
                           <TableCell className="text-center">
-                            <ScoreIndicator score={getScore(page)} size="sm" />
+                            {getScore(page) !== null ? (
+                              <ScoreIndicator score={getScore(page)!} size="sm" />
+                            ) : (
+                              <span className="text-xs text-muted-foreground" title={getScoreHint(page)}>—</span>
+                            )}
                           </TableCell>
                           <TableCell>
                             <StatusBadge status={page.status as any || 'pending'} />
+                            {(page.stale_since || page.gone_since || getIndexWarning(page) || (page.wp_status && page.wp_status !== 'publish')) && (
+                              <div className="flex gap-1 mt-1">
+                                {page.wp_status && page.wp_status !== 'publish' && (
+                                  <Badge
+                                    variant="outline"
+                                    className="text-[10px] px-1.5 py-0 capitalize"
+                                    title={`WordPress status: ${page.wp_status}`}
+                                  >
+                                    {page.wp_status === 'future' ? 'Scheduled in WP' : page.wp_status}
+                                  </Badge>
+                                )}
+                                {page.stale_since && (
+                                  <Badge
+                                    variant="outline"
+                                    className="text-[10px] px-1.5 py-0 border-warning/40 text-warning"
+                                    title={`Edited in WordPress after it was optimized (flagged ${format(new Date(page.stale_since), 'MMM d, HH:mm')})`}
+                                  >
+                                    Stale
+                                  </Badge>
+                                )}
+                                {page.gone_since && (
+                                  <Badge
+                                    variant="outline"
+                                    className="text-[10px] px-1.5 py-0 border-destructive/40 text-destructive"
+                                    title={`Not in the sitemap since ${format(new Date(page.gone_since), 'MMM d, HH:mm')}`}
+                                  >
+                                    Gone
+                                  </Badge>
+                                )}
+                                {getIndexWarning(page) && (
+                                  <Badge
+                                    variant="outline"
+                                    className="text-[10px] px-1.5 py-0 border-warning/40 text-warning"
+                                    title={getIndexWarning(page)!}
+                                  >
+                                    {page.robots_rule?.startsWith('Disallow') ? 'Blocked' : 'Noindex'}
+                                  </Badge>
+                                )}
+                              </div>
+                            )}
+                            {page.status === 'scheduled' && page.scheduled_for && (
+                              <span className="block text-[10px] text-muted-foreground mt-1">
+                                {format(wallClockDate(toSiteLocal(page.scheduled_for, wordpress.gmtOffset)), 'MMM d, HH:mm')}
+                              </span>
+                            )}
                           </TableCell>
                           <TableCell>
                             <div className="flex items-center justify-end gap-1">
@@ -1201,7 +1505,7 @@ export function PageQueue() {
                                   <RotateCcw className="w-3.5 h-3.5" />
                                 </Button>
                               )}
-                              {(page.status === 'completed' || page.status === 'published') && (
+                              {(page.status === 'completed' || page.status === 'published' || page.status === 'scheduled') && (
                                 <>
                                   <Button 
                                     variant="ghost" 
@@ -1222,7 +1526,7 @@ export function PageQueue() {
                                         try {
                                           const { data: jobData } = await supabase
                                             .from('jobs')
-                                            .select('result')
+                                            .select('id, result')
                                             .eq('page_id', page.id)
                                             .eq('status', 'completed')
                                             .order('completed_at', { ascending: false })
@@ -1232,7 +1536,7 @@ export function PageQueue() {
                                           if (jobData?.result) {
                                             // NORMALIZE the result
                                             const normalizedResult = normalizeOptimizationResult(jobData.result);
-                                            setSelectedPageResult({ page, result: normalizedResult });
+                                            setSelectedPageResult({ page, result: normalizedResult, jobId: jobData.id });
                                             handleValidateAndPublish();
                                           }
                                         } catch (err) {
@@ -1249,6 +1553,17 @@ export function PageQueue() {
                               {page.status === 'published' && (
                                 <CheckCheck className="w-4 h-4 text-green-500" />
                               )}
+                              {page.post_id && (page.status === 'completed' || page.status === 'published' || page.status === 'scheduled') && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-7 w-7"
+                                  title="Revision History"
+                                  onClick={() => handleOpenRevisions(page)}
+                                >
+                                  <History className="w-3.5 h-3.5" />
+                                </Button>
+                              )}
                               <Button
                                 variant="ghost"
                                 size="icon"
@@ -1334,7 +1649,7 @@ export function PageQueue() {
 
       {/* Result Dialog - WITH FORMAT NORMALIZATION */}
       <Dialog open={showResultDialog} onOpenChange={setShowResultDialog}>
-        <DialogContent className="max-w-2xl max-h-[80vh]">
+        <DialogContent className="max-w-5xl max-h-[85vh]">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <FileText className="w-5 h-5 text-primary" />
@@ -1345,81 +1660,153 @@ export function PageQueue() {
             </DialogDescription>
           </DialogHeader>
           
-          <ScrollArea className="max-h-[50vh] pr-4">
-            {selectedPageResult?.result ? (
-              <div className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="p-3 rounded-lg bg-muted/50">
-                    <p className="text-xs text-muted-foreground mb-1">Quality Score</p>
-                    <p className="text-2xl font-bold text-primary">
-                      {safeGetNumber(selectedPageResult.result.qualityScore, 0)}
-                    </p>
+          <Tabs defaultValue="summary">
+            <TabsList>
+              <TabsTrigger value="summary">Summary</TabsTrigger>
+              <TabsTrigger value="changes" disabled={!selectedPageResult?.result?.optimizedContent}>
+                Compare with Live Post
+              </TabsTrigger>
+              {selectedPageResult?.result?.articleComponents?.length ? (
+                <TabsTrigger value="preview">Preview</TabsTrigger>
+              ) : null}
+            </TabsList>
+
+            <TabsContent value="summary">
+              <ScrollArea className="max-h-[50vh] pr-4">
+                {selectedPageResult?.result ? (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="p-3 rounded-lg bg-muted/50">
+                        <p className="text-xs text-muted-foreground mb-1">Quality Score</p>
+                        <p className="text-2xl font-bold text-primary">
+                          {safeGetNumber(selectedPageResult.result.qualityScore, 0)}
+                        </p>
+                      </div>
+                      <div className="p-3 rounded-lg bg-muted/50">
+                        <p className="text-xs text-muted-foreground mb-1">Word Count</p>
+                        <p className="text-2xl font-bold">
+                          {safeGetNumber(selectedPageResult.result.contentStrategy?.wordCount, 0) || 'N/A'}
+                        </p>
+                      </div>
+                    </div>
+                    <Separator />
+                    <div>
+                      <p className="text-sm font-medium mb-2">Featured Image</p>
+                      <MediaUploader
+                        media={featuredMedia}
+                        onChange={setFeaturedMedia}
+                        postId={selectedPageResult.page.post_id}
+                        defaultTitle={selectedPageResult.result.optimizedTitle || selectedPageResult.page.title}
+                        context={{ topic: selectedPageResult.result.optimizedTitle || selectedPageResult.page.title }}
+                      />
+                    </div>
+                    {selectedPageResult.result.patch && (
+                      <div>
+                        <p className="text-sm font-medium mb-2">
+                          Surgical Changes ({selectedPageResult.result.patch.operations.length})
+                        </p>
+                        {selectedPageResult.result.patch.operations.length > 0 ? (
+                          <ul className="space-y-1">
+                            {selectedPageResult.result.patch.operations.map((operation) => (
+                              <li key={operation.id} className="text-sm p-2 rounded bg-primary/10">
+                                {describePatchOperation(operation)}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-sm p-2 rounded bg-muted/50">The post was already in good shape — nothing changed</p>
+                        )}
+                      </div>
+                    )}
+                    <div>
+                      <p className="text-sm font-medium mb-2">Optimized Title</p>
+                      <p className="text-sm p-2 rounded bg-muted/50">
+                        {safeGetString(selectedPageResult.result.optimizedTitle, 'No title generated')}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium mb-2">Meta Description</p>
+                      <p className="text-sm p-2 rounded bg-muted/50">
+                        {safeGetString(selectedPageResult.result.metaDescription, 'No description generated')}
+                      </p>
+                    </div>
+                    {safeGetArray(selectedPageResult.result.h2s).length > 0 && (
+                      <div>
+                        <p className="text-sm font-medium mb-2">H2 Headings</p>
+                        <ul className="space-y-1">
+                          {safeGetArray(selectedPageResult.result.h2s).map((h2, i) => (
+                            <li key={i} className="text-sm p-2 rounded bg-muted/50">• {h2}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {safeGetArray(selectedPageResult.result.tldrSummary).length > 0 && (
+                      <div>
+                        <p className="text-sm font-medium mb-2">TL;DR Summary</p>
+                        <ul className="space-y-1">
+                          {safeGetArray(selectedPageResult.result.tldrSummary).map((point, i) => (
+                            <li key={i} className="text-sm p-2 rounded bg-blue-500/10">{point}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {safeGetArray(selectedPageResult.result.keyTakeaways).length > 0 && (
+                      <div>
+                        <p className="text-sm font-medium mb-2">Key Takeaways</p>
+                        <ul className="space-y-1">
+                          {safeGetArray(selectedPageResult.result.keyTakeaways).map((takeaway, i) => (
+                            <li key={i} className="text-sm p-2 rounded bg-green-500/10">✓ {takeaway}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {safeGetArray(selectedPageResult.result.contentStrategy?.lsiKeywords).length > 0 && (
+                      <div>
+                        <p className="text-sm font-medium mb-2">LSI Keywords</p>
+                        <div className="flex flex-wrap gap-1">
+                          {safeGetArray(selectedPageResult.result.contentStrategy?.lsiKeywords).map((kw, i) => (
+                            <Badge key={i} variant="secondary">{kw}</Badge>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
-                  <div className="p-3 rounded-lg bg-muted/50">
-                    <p className="text-xs text-muted-foreground mb-1">Word Count</p>
-                    <p className="text-2xl font-bold">
-                      {safeGetNumber(selectedPageResult.result.contentStrategy?.wordCount, 0) || 'N/A'}
-                    </p>
+                ) : (
+                  <p className="text-muted-foreground text-center py-8">No optimization data</p>
+                )}
+              </ScrollArea>
+            </TabsContent>
+
+            {/* Kept mounted so hunk decisions survive switching tabs */}
+            <TabsContent value="changes" forceMount className="data-[state=inactive]:hidden">
+              <ScrollArea className="h-[55vh] pr-4">
+                {isLoadingLivePost ? (
+                  <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                    Loading the live post...
                   </div>
-                </div>
-                <Separator />
-                <div>
-                  <p className="text-sm font-medium mb-2">Optimized Title</p>
-                  <p className="text-sm p-2 rounded bg-muted/50">
-                    {safeGetString(selectedPageResult.result.optimizedTitle, 'No title generated')}
-                  </p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium mb-2">Meta Description</p>
+                ) : livePost && selectedPageResult?.result?.optimizedContent ? (
+                  <ContentDiffView
+                    original={livePost.content}
+                    optimized={selectedPageResult.result.optimizedContent}
+                    onMergedChange={setReviewedContent}
+                  />
+                ) : (
                   <p className="text-sm p-2 rounded bg-muted/50">
-                    {safeGetString(selectedPageResult.result.metaDescription, 'No description generated')}
+                    Could not load the live post{livePostError ? `: ${livePostError}` : ''}. Publishing will use the full optimized content.
                   </p>
-                </div>
-                {safeGetArray(selectedPageResult.result.h2s).length > 0 && (
-                  <div>
-                    <p className="text-sm font-medium mb-2">H2 Headings</p>
-                    <ul className="space-y-1">
-                      {safeGetArray(selectedPageResult.result.h2s).map((h2, i) => (
-                        <li key={i} className="text-sm p-2 rounded bg-muted/50">• {h2}</li>
-                      ))}
-                    </ul>
-                  </div>
-                )}
-                {safeGetArray(selectedPageResult.result.tldrSummary).length > 0 && (
-                  <div>
-                    <p className="text-sm font-medium mb-2">TL;DR Summary</p>
-                    <ul className="space-y-1">
-                      {safeGetArray(selectedPageResult.result.tldrSummary).map((point, i) => (
-                        <li key={i} className="text-sm p-2 rounded bg-blue-500/10">{point}</li>
-                      ))}
-                    </ul>
-                  </div>
-                )}
-                {safeGetArray(selectedPageResult.result.keyTakeaways).length > 0 && (
-                  <div>
-                    <p className="text-sm font-medium mb-2">Key Takeaways</p>
-                    <ul className="space-y-1">
-                      {safeGetArray(selectedPageResult.result.keyTakeaways).map((takeaway, i) => (
-                        <li key={i} className="text-sm p-2 rounded bg-green-500/10">✓ {takeaway}</li>
-                      ))}
-                    </ul>
-                  </div>
                 )}
-                {safeGetArray(selectedPageResult.result.contentStrategy?.lsiKeywords).length > 0 && (
-                  <div>
-                    <p className="text-sm font-medium mb-2">LSI Keywords</p>
-                    <div className="flex flex-wrap gap-1">
-                      {safeGetArray(selectedPageResult.result.contentStrategy?.lsiKeywords).map((kw, i) => (
-                        <Badge key={i} variant="secondary">{kw}</Badge>
-                      ))}
-                    </div>
-                  </div>
-                )}
-              </div>
-            ) : (
-              <p className="text-muted-foreground text-center py-8">No optimization data</p>
-            )}
-          </ScrollArea>
+              </ScrollArea>
+            </TabsContent>
+
+            {selectedPageResult?.result?.articleComponents?.length ? (
+              <TabsContent value="preview">
+                <ScrollArea className="h-[55vh] pr-4">
+                  <ArticleComponentPreview components={selectedPageResult.result.articleComponents} />
+                </ScrollArea>
+              </TabsContent>
+            ) : null}
+          </Tabs>
 
           <DialogFooter className="gap-2">
             <Button variant="outline" onClick={() => setShowResultDialog(false)}>Close</Button>
@@ -1486,6 +1873,156 @@ export function PageQueue() {
         </DialogContent>
       </Dialog>
 
+      {/* Revision History Dialog */}
+      <Dialog open={!!revisionsPage} onOpenChange={(open) => !open && setRevisionsPage(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="w-5 h-5 text-primary" />
+              Revision History
+            </DialogTitle>
+            <DialogDescription>
+              Snapshots of {revisionsPage?.title || 'this post'} taken before each update
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-[50vh] pr-4">
+            {isLoadingRevisions ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : revisions.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8 text-sm">
+                No snapshots yet. One is saved every time this post is updated from here.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {revisions.map((revision) => (
+                  <div key={revision.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/50">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{revision.title || '(untitled)'}</p>
+                      <div className="flex items-center gap-2 mt-1">
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(revision.created_at).toLocaleString()}
+                        </span>
+                        <Badge variant="secondary" className="text-[10px]">
+                          {revision.reason === 'rollback' ? 'Before rollback' : 'Before publish'}
+                        </Badge>
+                        {revision.restored_at && (
+                          <Badge variant="outline" className="text-[10px]">
+                            Restored {new Date(revision.restored_at).toLocaleString()}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRestoreRevision(revision)}
+                      disabled={restoringRevisionId !== null}
+                    >
+                      {restoringRevisionId === revision.id
+                        ? <Loader2 className="w-3.5 h-3.5 animate-spin mr-1" />
+                        : <RotateCcw className="w-3.5 h-3.5 mr-1" />}
+                      Restore
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      {/* Schedule Dialog */}
+      <Dialog open={showScheduleDialog} onOpenChange={setShowScheduleDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <CalendarClock className="w-5 h-5 text-primary" />
+              Schedule {selectedCompletedCount} Pages
+            </DialogTitle>
+            <DialogDescription>
+              Pages are spread over publish slots in site time
+              {wordpress.timezone ? ` (${wordpress.timezone})` : wordpress.gmtOffset ? ` (UTC${wordpress.gmtOffset >= 0 ? '+' : ''}${wordpress.gmtOffset})` : ''}.
+              Posts that are already live cannot be scheduled.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="schedule-start">First day</Label>
+              <Input
+                id="schedule-start"
+                type="date"
+                value={scheduleOptions.startDate}
+                onChange={(e) => setScheduleOptions(prev => ({ ...prev, startDate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="schedule-time">First post at</Label>
+              <Input
+                id="schedule-time"
+                type="time"
+                value={scheduleOptions.time}
+                onChange={(e) => setScheduleOptions(prev => ({ ...prev, time: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="schedule-per-day">Posts per day</Label>
+              <Input
+                id="schedule-per-day"
+                type="number"
+                min={1}
+                max={24}
+                value={scheduleOptions.perDay}
+                onChange={(e) => setScheduleOptions(prev => ({ ...prev, perDay: Math.max(1, Number(e.target.value) || 1) }))}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="schedule-interval">Minutes between posts</Label>
+              <Input
+                id="schedule-interval"
+                type="number"
+                min={0}
+                step={15}
+                value={scheduleOptions.intervalMinutes}
+                onChange={(e) => setScheduleOptions(prev => ({ ...prev, intervalMinutes: Math.max(0, Number(e.target.value) || 0) }))}
+              />
+            </div>
+            <div className="col-span-2 flex items-center justify-between">
+              <Label htmlFor="schedule-weekdays">Weekdays only</Label>
+              <Switch
+                id="schedule-weekdays"
+                checked={scheduleOptions.weekdaysOnly}
+                onCheckedChange={(checked) => setScheduleOptions(prev => ({ ...prev, weekdaysOnly: checked }))}
+              />
+            </div>
+          </div>
+          <Separator />
+          <ScrollArea className="max-h-[30vh] pr-4">
+            <div className="space-y-1">
+              {schedulePreview.map((slot, index) => (
+                <div key={slot + index} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-muted-foreground truncate">
+                    {selectedPublishable[index]?.slug || selectedPublishable[index]?.title}
+                  </span>
+                  <span className="font-mono text-xs whitespace-nowrap">{format(wallClockDate(slot), 'EEE, MMM d yyyy · HH:mm')}</span>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowScheduleDialog(false)}>Cancel</Button>
+            <Button
+              onClick={() => handlePublishSelected('future', schedulePreview)}
+              disabled={isPublishing || schedulePreview.length < selectedCompletedCount}
+            >
+              <CalendarClock className="w-4 h-4 mr-2" />
+              Schedule {selectedCompletedCount} Pages
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Publish Progress Dialog */}
       <Dialog open={showPublishDialog} onOpenChange={() => {}}>
         <DialogContent className="max-w-md">
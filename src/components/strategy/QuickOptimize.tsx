@@ -14,7 +14,7 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { usePagesStore } from '@/stores/pages-store';
-import { useConfigStore } from '@/stores/config-store';
+import { useConfigStore, buildAIConfigPayload, hasWordPressCredentials, isProviderConfigured } from '@/stores/config-store';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -68,7 +68,7 @@ class RenderErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundarySta
 // Types
 interface JobData {
   id: string;
-  status: 'pending' | 'queued' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   current_step: string;
   result?: any;
@@ -108,8 +108,8 @@ export function QuickOptimize() {
   const startTimeRef = useRef(0);
 
   // Check if AI is configured
-  const isAiConfigured = Boolean(ai.apiKey && ai.provider && ai.model);
-  const isWpConfigured = Boolean(wordpress.siteUrl && wordpress.username && wordpress.applicationPassword);
+  const isAiConfigured = isProviderConfigured(ai);
+  const isWpConfigured = hasWordPressCredentials(wordpress);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -166,8 +166,8 @@ export function QuickOptimize() {
         }
       }
 
-      // Handle failure
-      if (job.status === 'failed') {
+      // Handle failure (a job cancelled elsewhere ends the same way here)
+      if (job.status === 'failed' || job.status === 'cancelled') {
         if (pollingRef.current) {
           clearInterval(pollingRef.current);
           pollingRef.current = null;
@@ -178,7 +178,7 @@ export function QuickOptimize() {
         }
 
         if (mountedRef.current) {
-          setError(job.error_message || 'Optimization failed');
+          setError(job.status === 'cancelled' ? 'Optimization was cancelled' : job.error_message || 'Optimization failed');
           setIsOptimizing(false);
           setIsComplete(true);
           
@@ -230,11 +230,7 @@ export function QuickOptimize() {
       console.log('[QuickOptimize] Word count settings:', advanced.minWordCount, '-', advanced.maxWordCount);
 
       // Build AI config payload
-      const aiConfigPayload = {
-        provider: ai.provider,
-        apiKey: ai.apiKey,
-        model: ai.model,
-      };
+      const aiConfigPayload = buildAIConfigPayload(ai);
 
       // Build content settings from advanced config
       const contentSettings = {
@@ -250,6 +246,7 @@ export function QuickOptimize() {
       // Call edge function WITH AI CONFIG AND CONTENT SETTINGS
       const { data, error: invokeError } = await supabase.functions.invoke('optimize-content', {
         body: {
+          siteId: wordpress.siteId,
           url: pageUrl,
           siteUrl: pageUrl,
           postTitle: targetKeyword || pageUrl,
@@ -257,6 +254,7 @@ export function QuickOptimize() {
           outputMode: outputMode,
           aiConfig: aiConfigPayload,
           contentSettings: contentSettings, // CRITICAL: Pass word count settings!
+          contentFormat: wordpress.contentFormat || 'classic',
         }
       });
 
@@ -329,15 +327,18 @@ export function QuickOptimize() {
 
       const { data, error: publishError } = await supabase.functions.invoke('publish-to-wordpress', {
         body: {
+          siteId: wordpress.siteId,
           title: blogPost.title || blogPost.optimizedTitle,
           content: blogPost.content || blogPost.optimizedContent,
           excerpt: blogPost.excerpt,
           metaDescription: blogPost.metaDescription,
+          contentFormat: wordpress.contentFormat || 'classic',
+          designTokens: wordpress.designTokens,
           status: outputMode === 'publish' ? 'publish' : 'draft',
-          // WordPress credentials from config
+          // WordPress credentials from config; the password stays in the vault
           wpUrl: wordpress.siteUrl,
           wpUsername: wordpress.username,
-          wpPassword: wordpress.applicationPassword,
+          passwordCredentialId: wordpress.passwordCredential?.id,
         }
       });
 
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { CalendarClock, ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Calendar } from '@/components/ui/calendar';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { supabase } from '@/integrations/supabase/client';
+import { useConfigStore } from '@/stores/config-store';
+import { siteDayKey, toSiteLocal, wallClockDate } from '@/lib/publishing/PublishSchedule';
+import { cn } from '@/lib/utils';
+
+const UPCOMING_LIMIT = 10;
+
+interface ScheduledPage {
+  id: string;
+  url: string;
+  slug: string;
+  title: string;
+  scheduledFor: string; // UTC, as stored
+  siteLocal: string; // the same moment in site time
+}
+
+export function ScheduleCalendar() {
+  const { wordpress } = useConfigStore();
+  const [entries, setEntries] = useState<ScheduledPage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+
+  const fetchSchedule = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      let query = supabase
+        .from('pages')
+        .select('id, url, slug, title, scheduled_for')
+        .not('scheduled_for', 'is', null);
+      if (wordpress.siteId) {
+        query = query.or(`site_id.eq.${wordpress.siteId},site_id.is.null`);
+      }
+      const { data, error } = await query.order('scheduled_for', { ascending: true });
+
+      if (error) throw error;
+      setEntries((data || []).map(page => ({
+        id: page.id,
+        url: page.url,
+        slug: page.slug,
+        title: page.title,
+        scheduledFor: page.scheduled_for as string,
+        siteLocal: toSiteLocal(page.scheduled_for as string, wordpress.gmtOffset),
+      })));
+    } catch (error) {
+      console.error('[ScheduleCalendar] Error fetching schedule:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [wordpress.gmtOffset, wordpress.siteId]);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  // Site-local day → pages going live that day
+  const byDay = useMemo(() => {
+    const groups = new Map<string, ScheduledPage[]>();
+    for (const entry of entries) {
+      const key = siteDayKey(entry.siteLocal);
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    }
+    return groups;
+  }, [entries]);
+
+  const scheduledDays = useMemo(
+    () => [...byDay.keys()].map(key => wallClockDate(key)),
+    [byDay]
+  );
+
+  const now = Date.now();
+  const visible = selectedDay
+    ? byDay.get(format(selectedDay, 'yyyy-MM-dd')) || []
+    : entries.filter(entry => new Date(entry.scheduledFor).getTime() >= now).slice(0, UPCOMING_LIMIT);
+
+  return (
+    <Card className="glass-panel border-border/50">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <CalendarClock className="w-4 h-4 text-primary" />
+            Publishing Schedule
+            <span className="text-muted-foreground font-normal text-sm">
+              ({entries.length} scheduled)
+            </span>
+          </CardTitle>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={fetchSchedule} disabled={isLoading}>
+            <RefreshCw className={cn('w-3.5 h-3.5', isLoading && 'animate-spin')} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col md:flex-row gap-4">
+          <Calendar
+            mode="single"
+            selected={selectedDay}
+            onSelect={setSelectedDay}
+            modifiers={{ scheduled: scheduledDays }}
+            modifiersClassNames={{ scheduled: 'bg-primary/20 text-primary font-semibold' }}
+            className="rounded-md border border-border/50 self-start"
+          />
+
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-medium">
+                {selectedDay ? format(selectedDay, 'EEEE, MMM d') : 'Up next'}
+              </p>
+              <span className="text-xs text-muted-foreground">
+                Site time{wordpress.timezone ? ` · ${wordpress.timezone}` : ''}
+              </span>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : visible.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8 text-sm">
+                {selectedDay ? 'Nothing goes live this day.' : 'No upcoming posts. Schedule pages from the queue below.'}
+              </p>
+            ) : (
+              <ScrollArea className="h-[260px] pr-4">
+                <div className="space-y-2">
+                  {visible.map(entry => {
+                    const isLive = new Date(entry.scheduledFor).getTime() <= now;
+                    return (
+                      <div key={entry.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
+                        <span className="font-mono text-xs text-primary whitespace-nowrap">
+                          {format(wallClockDate(entry.siteLocal), selectedDay ? 'HH:mm' : 'MMM d, HH:mm')}
+                        </span>
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm font-medium truncate">{entry.title || entry.slug}</p>
+                          <p className="text-xs text-muted-foreground truncate">{entry.slug || entry.url}</p>
+                        </div>
+                        <Badge variant={isLive ? 'secondary' : 'outline'} className="text-[10px]">
+                          {isLive ? 'Live' : 'Scheduled'}
+                        </Badge>
+                        <a href={entry.url} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-primary">
+                          <ExternalLink className="w-3.5 h-3.5" />
+                        </a>
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -63,7 +63,7 @@ export function SerpIntelligence() {
   const [relatedOpen, setRelatedOpen] = useState(false);
 
   const backendConfigured = isSupabaseConfigured();
-  const hasSerperKey = Boolean(ai.serperApiKey);
+  const hasSerperKey = Boolean(ai.serperCredential);
 
   const handleAnalyze = async () => {
     if (!query.trim()) {
@@ -73,7 +73,7 @@ export function SerpIntelligence() {
 
     if (!hasSerperKey) {
       toast.error('Serper API key required', {
-        description: 'Add your Serper API key in Configuration → AI Provider',
+        description: 'Add and save your Serper API key in Configuration → AI Provider',
       });
       return;
     }
@@ -85,7 +85,7 @@ export function SerpIntelligence() {
       query: query.trim(),
       gl: country,
       hl: 'en',
-      serperApiKey: ai.serperApiKey,
+      serperCredentialId: ai.serperCredential?.id,
     });
 
     setIsLoading(false);
@@ -7,8 +7,9 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { usePagesStore } from '@/stores/pages-store';
-import { useConfigStore } from '@/stores/config-store';
+import { useConfigStore, type WordPressPostType } from '@/stores/config-store';
 import { invokeEdgeFunction, isSupabaseConfigured } from '@/lib/supabase';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
@@ -20,24 +21,100 @@ interface CrawlResult {
   pagesKept: number;
   pagesDeleted: number;
   totalFound: number;
+  // Incremental mode only
+  pagesUpdated?: number;
+  pagesStale?: number;
+  pagesGone?: number;
+  pagesUnchanged?: number;
+  // What the URL rules, post type filter and robots.txt left out or flagged
+  urlsExcluded?: number;
+  skippedSitemaps?: string[];
+  robotsBlocked?: number;
+  robotsWarnings?: Array<{ url: string; rule: string }>;
+  source?: 'sitemap' | 'rest';
   errors?: string[];
 }
 
+// incremental: sync the queue with the sitemap by URL, keeping every row's state
+// replace: delete everything not yet optimized and start the queue over
+type CrawlMode = 'incremental' | 'replace';
+
+// auto: the sitemap, falling back to the REST API when it is missing or empty
+type DiscoveryMode = 'auto' | 'sitemap' | 'rest';
+
+interface AnalysisProgress {
+  analyzed: number;
+  failed: number;
+  skipped: number;
+  remaining: number;
+}
+
+interface AnalyzeResult extends AnalysisProgress {
+  success: boolean;
+  message?: string;
+}
+
+// Shown until a connection test has discovered the site's own post types
+const DEFAULT_POST_TYPES: WordPressPostType[] = [
+  { slug: 'post', name: 'Posts', restBase: 'posts' },
+  { slug: 'page', name: 'Pages', restBase: 'pages' },
+  { slug: 'product', name: 'Products', restBase: 'product' },
+];
+
+// crawl-sitemap's postType for every type the sitemap lists
+const ALL_POST_TYPES = 'all';
+
+// Tag, author and paginated archives rarely belong in the queue
+const ARCHIVE_EXCLUDE_RULES = ['/tag/', '/category/', '/author/', '*/page/*'];
+
+// One rule per line; see _shared/crawl-rules.ts for the syntax
+const parseRules = (text: string): string[] =>
+  text.split('\n').map(rule => rule.trim()).filter(Boolean);
+
+// analyze-pages skips pending pages at or above this when "Score < 70 only" is on
+const LOW_SCORE_THRESHOLD = 70;
+
 export function SitemapCrawler() {
   const { addActivityLog } = usePagesStore();
   const { wordpress } = useConfigStore();
   const [sitemapUrl, setSitemapUrl] = useState('/sitemap.xml');
-  const [postType, setPostType] = useState('post');
+  const [postType, setPostType] = useState(ALL_POST_TYPES);
   const [maxPages, setMaxPages] = useState('0'); // 0 = ALL
+  const [mode, setMode] = useState<CrawlMode>('incremental');
+  const [discovery, setDiscovery] = useState<DiscoveryMode>('auto');
+  const [includeRules, setIncludeRules] = useState('');
+  const [excludeRules, setExcludeRules] = useState('');
   const [excludeOptimized, setExcludeOptimized] = useState(false);
   const [lowScoreOnly, setLowScoreOnly] = useState(false);
   const [isCrawling, setIsCrawling] = useState(false);
   const [crawlResult, setCrawlResult] = useState<CrawlResult | null>(null);
+  const [analysis, setAnalysis] = useState<AnalysisProgress | null>(null);
 
   const backendConfigured = isSupabaseConfigured();
   const wpConnected = wordpress.isConnected;
   const canCrawl = backendConfigured && wpConnected;
 
+  // Reads every new page and scores it; each call handles a time-boxed batch
+  const analyzePages = async (): Promise<AnalysisProgress> => {
+    const totals: AnalysisProgress = { analyzed: 0, failed: 0, skipped: 0, remaining: 0 };
+    setAnalysis({ ...totals });
+    for (;;) {
+      const { data, error } = await invokeEdgeFunction<AnalyzeResult>('analyze-pages', { lowScoreOnly });
+      if (error || !data?.success) {
+        toast.error('Page analysis stopped', {
+          description: data?.message || error?.message || 'Unscored pages are analyzed on the next crawl.',
+        });
+        return totals;
+      }
+      totals.analyzed += data.analyzed;
+      totals.failed += data.failed;
+      totals.skipped += data.skipped;
+      totals.remaining = data.remaining;
+      setAnalysis({ ...totals });
+      if (data.remaining === 0 || data.analyzed + data.failed === 0) return totals;
+    }
+  };
+
   const handleCrawl = async () => {
     // CRITICAL: Do NOT allow crawling without proper configuration
     if (!wordpress.siteUrl) {
@@ -63,11 +140,14 @@ export function SitemapCrawler() {
 
     setIsCrawling(true);
     setCrawlResult(null);
+    setAnalysis(null);
 
     addActivityLog({
       type: 'info',
       pageUrl: sitemapUrl,
-      message: 'Starting sitemap crawl (replacing non-optimized pages)...',
+      message: mode === 'incremental'
+        ? 'Starting incremental sitemap crawl...'
+        : 'Starting sitemap crawl (replacing non-optimized pages)...',
     });
 
     const { data, error } = await invokeEdgeFunction<CrawlResult>('crawl-sitemap', {
@@ -75,12 +155,15 @@ export function SitemapCrawler() {
       siteUrl: wordpress.siteUrl,
       sitemapPath: sitemapUrl,
       username: wordpress.username,
-      applicationPassword: wordpress.applicationPassword,
       postType,
       maxPages: parseInt(maxPages), // 0 = ALL
-      replaceExisting: true, // Always replace non-optimized pages
+      incremental: mode === 'incremental',
+      replaceExisting: mode === 'replace',
+      include: parseRules(includeRules),
+      exclude: parseRules(excludeRules),
+      discovery,
+      passwordCredentialId: wordpress.passwordCredential?.id,
       excludeOptimized,
-      lowScoreOnly,
     });
 
     if (error) {
@@ -112,25 +195,54 @@ export function SitemapCrawler() {
     setCrawlResult(result);
 
     if (result.success && (result.pagesAdded > 0 || result.pagesKept > 0)) {
+      const summary = mode === 'incremental'
+        ? `${result.pagesAdded} new, ${result.pagesUpdated ?? 0} updated, ${result.pagesStale ?? 0} stale, ${result.pagesGone ?? 0} gone`
+        : `${result.pagesAdded} new, ${result.pagesKept} kept, ${result.pagesDeleted} replaced`;
       addActivityLog({
         type: 'success',
         pageUrl: sitemapUrl,
-        message: `Crawl complete: ${result.pagesAdded} new, ${result.pagesKept} kept, ${result.pagesDeleted} replaced`,
+        message: `Crawl complete: ${summary}`,
         details: { 
           totalFound: result.totalFound, 
           pagesAdded: result.pagesAdded,
           pagesKept: result.pagesKept,
           pagesDeleted: result.pagesDeleted,
+          pagesUpdated: result.pagesUpdated,
+          pagesStale: result.pagesStale,
+          pagesGone: result.pagesGone,
+          urlsExcluded: result.urlsExcluded,
+          robotsBlocked: result.robotsBlocked,
         },
       });
 
+      if (result.robotsBlocked) {
+        addActivityLog({
+          type: 'warning',
+          pageUrl: sitemapUrl,
+          message: `${result.robotsBlocked} crawled URLs are blocked by robots.txt`,
+          details: { robotsWarnings: result.robotsWarnings },
+        });
+      }
+
       toast.success(`Sitemap crawl complete!`, {
-        description: `${result.pagesAdded} new pages added, ${result.pagesKept} optimized pages kept`,
+        description: mode === 'incremental'
+          ? `${result.pagesAdded} new pages added, ${result.pagesUnchanged ?? 0} unchanged`
+          : `${result.pagesAdded} new pages added, ${result.pagesKept} optimized pages kept`,
+      });
+
+      const totals = await analyzePages();
+      addActivityLog({
+        type: totals.failed > 0 ? 'warning' : 'success',
+        pageUrl: sitemapUrl,
+        message: `Analyzed ${totals.analyzed} pages` +
+          (totals.failed > 0 ? `, ${totals.failed} could not be fetched` : '') +
+          (totals.skipped > 0 ? `, ${totals.skipped} already scoring ${LOW_SCORE_THRESHOLD}+ skipped` : ''),
+        details: { ...totals },
       });
     } else if (result.success && result.pagesAdded === 0) {
       toast.warning('No new pages added', {
         description: result.pagesKept > 0 
-          ? `All ${result.pagesKept} pages are already optimized` 
+          ? `All ${result.pagesKept} pages are already ${mode === 'incremental' ? 'in the queue' : 'optimized'}` 
           : 'The sitemap was accessible but contained no matching URLs',
       });
     } else {
@@ -169,14 +281,60 @@ export function SitemapCrawler() {
           </motion.div>
         )}
 
-        {/* Info about replace behavior */}
+        {/* Info about the selected mode */}
         <div className="p-2 rounded-lg bg-primary/5 border border-primary/20 flex items-start gap-2">
           <RefreshCw className="w-4 h-4 text-primary shrink-0 mt-0.5" />
           <div className="text-xs text-muted-foreground">
-            <span className="text-primary font-medium">Smart Replace Mode:</span> Keeps optimized pages, replaces everything else with fresh sitemap data.
+            {mode === 'incremental' ? (
+              <>
+                <span className="text-primary font-medium">Incremental Update:</span> Adds new URLs, re-reads pages whose lastmod changed, flags optimized pages edited since publishing as stale and removed URLs as gone. Queue state is kept.
+              </>
+            ) : (
+              <>
+                <span className="text-primary font-medium">Smart Replace Mode:</span> Keeps optimized pages, replaces everything else with fresh sitemap data.
+              </>
+            )}
           </div>
         </div>
 
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Mode</Label>
+          <Select value={mode} onValueChange={(value) => setMode(value as CrawlMode)}>
+            <SelectTrigger className="bg-muted/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="incremental">Incremental update</SelectItem>
+              <SelectItem value="replace">Replace queue</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Discover pages from</Label>
+          <Select value={discovery} onValueChange={(value) => setDiscovery(value as DiscoveryMode)}>
+            <SelectTrigger className="bg-muted/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Sitemap, then REST API</SelectItem>
+              <SelectItem value="sitemap">Sitemap only</SelectItem>
+              <SelectItem value="rest">WordPress REST API</SelectItem>
+            </SelectContent>
+          </Select>
+          {discovery !== 'sitemap' && !wordpress.passwordCredential && wpConnected && (
+            <p className="text-xs text-warning flex items-center gap-1">
+              <AlertCircle className="w-3 h-3" />
+              Save the application password to use the REST API
+            </p>
+          )}
+          {discovery === 'rest' && (
+            <p className="text-[10px] text-muted-foreground">
+              Lists drafts, scheduled and private posts too, with their post IDs
+            </p>
+          )}
+        </div>
+
         <div className="space-y-2">
           <Label className="text-xs text-muted-foreground">Sitemap URL</Label>
           <Input
@@ -184,6 +342,7 @@ export function SitemapCrawler() {
             value={sitemapUrl}
             onChange={(e) => setSitemapUrl(e.target.value)}
             className="bg-muted/50"
+            disabled={discovery === 'rest'}
           />
           {!wpConnected && backendConfigured && (
             <p className="text-xs text-warning flex items-center gap-1">
@@ -201,9 +360,10 @@ export function SitemapCrawler() {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="post">Posts</SelectItem>
-                <SelectItem value="page">Pages</SelectItem>
-                <SelectItem value="product">Products</SelectItem>
+                <SelectItem value={ALL_POST_TYPES}>All types</SelectItem>
+                {(wordpress.postTypes?.length ? wordpress.postTypes : DEFAULT_POST_TYPES).map((type) => (
+                  <SelectItem key={type.slug} value={type.slug}>{type.name}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -226,13 +386,45 @@ export function SitemapCrawler() {
           </div>
         </div>
 
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Include URLs (one rule per line)</Label>
+          <Textarea
+            placeholder={'/blog/\nre:^/\\d{4}/'}
+            value={includeRules}
+            onChange={(e) => setIncludeRules(e.target.value)}
+            className="bg-muted/50 font-mono text-xs min-h-[56px]"
+          />
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Exclude URLs</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setExcludeRules(prev =>
+                [...new Set([...parseRules(prev), ...ARCHIVE_EXCLUDE_RULES])].join('\n')
+              )}
+            >
+              Add archive rules
+            </Button>
+          </div>
+          <Textarea
+            placeholder={'/tag/\n*/page/*'}
+            value={excludeRules}
+            onChange={(e) => setExcludeRules(e.target.value)}
+            className="bg-muted/50 font-mono text-xs min-h-[56px]"
+          />
+          <p className="text-[10px] text-muted-foreground">
+            robots.txt-style patterns: * matches anything, $ ends the URL, re: starts a regular expression
+          </p>
+        </div>
+
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <Label className="text-xs">Exclude optimized</Label>
             <Switch checked={excludeOptimized} onCheckedChange={setExcludeOptimized} />
           </div>
           <div className="flex items-center justify-between">
-            <Label className="text-xs">Score &lt; 70 only</Label>
+            <Label className="text-xs">Score &lt; {LOW_SCORE_THRESHOLD} only</Label>
             <Switch checked={lowScoreOnly} onCheckedChange={setLowScoreOnly} />
           </div>
         </div>
@@ -247,7 +439,11 @@ export function SitemapCrawler() {
           ) : (
             <RefreshCw className="w-4 h-4" />
           )}
-          {isCrawling ? 'Crawling...' : 'Crawl & Replace'}
+          {!isCrawling
+            ? mode === 'incremental' ? 'Crawl & Update' : 'Crawl & Replace'
+            : analysis
+              ? `Analyzing pages...${analysis.remaining > 0 ? ` (${analysis.remaining} left)` : ''}`
+              : 'Crawling...'}
         </Button>
 
         {crawlResult && (
@@ -268,18 +464,89 @@ export function SitemapCrawler() {
                   Crawl Complete
                 </div>
                 <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-muted-foreground">
-                  <span>Total in sitemap:</span>
+                  <span>{crawlResult.source === 'rest' ? 'Total from REST API:' : 'Total in sitemap:'}</span>
                   <span className="font-mono font-medium text-foreground">{crawlResult.totalFound}</span>
                   
                   <span>New pages added:</span>
                   <span className="font-mono font-medium text-success">{crawlResult.pagesAdded}</span>
                   
-                  <span>Optimized kept:</span>
-                  <span className="font-mono font-medium text-primary">{crawlResult.pagesKept}</span>
-                  
-                  <span>Old pages replaced:</span>
-                  <span className="font-mono font-medium text-warning">{crawlResult.pagesDeleted}</span>
+                  {crawlResult.pagesUpdated !== undefined ? (
+                    <>
+                      <span>Updated:</span>
+                      <span className="font-mono font-medium text-primary">{crawlResult.pagesUpdated}</span>
+
+                      <span>Unchanged:</span>
+                      <span className="font-mono font-medium text-foreground">{crawlResult.pagesUnchanged ?? 0}</span>
+
+                      <span>Stale (edited since optimized):</span>
+                      <span className="font-mono font-medium text-warning">{crawlResult.pagesStale ?? 0}</span>
+
+                      <span>Gone from sitemap:</span>
+                      <span className="font-mono font-medium text-destructive">{crawlResult.pagesGone ?? 0}</span>
+                    </>
+                  ) : (
+                    <>
+                      <span>Optimized kept:</span>
+                      <span className="font-mono font-medium text-primary">{crawlResult.pagesKept}</span>
+                      
+                      <span>Old pages replaced:</span>
+                      <span className="font-mono font-medium text-warning">{crawlResult.pagesDeleted}</span>
+                    </>
+                  )}
+
+                  {!!crawlResult.urlsExcluded && (
+                    <>
+                      <span>Excluded by rules:</span>
+                      <span className="font-mono font-medium text-muted-foreground">{crawlResult.urlsExcluded}</span>
+                    </>
+                  )}
+
+                  {!!crawlResult.skippedSitemaps?.length && (
+                    <>
+                      <span>Other sitemaps skipped:</span>
+                      <span
+                        className="font-mono font-medium text-muted-foreground"
+                        title={crawlResult.skippedSitemaps.join('\n')}
+                      >
+                        {crawlResult.skippedSitemaps.length}
+                      </span>
+                    </>
+                  )}
+
+                  {analysis && (
+                    <>
+                      <span>Pages analyzed:</span>
+                      <span className="font-mono font-medium text-foreground">{analysis.analyzed}</span>
+
+                      {analysis.failed > 0 && (
+                        <>
+                          <span>Could not fetch:</span>
+                          <span className="font-mono font-medium text-destructive">{analysis.failed}</span>
+                        </>
+                      )}
+
+                      {analysis.skipped > 0 && (
+                        <>
+                          <span>Skipped ({LOW_SCORE_THRESHOLD}+):</span>
+                          <span className="font-mono font-medium text-muted-foreground">{analysis.skipped}</span>
+                        </>
+                      )}
+                    </>
+                  )}
                 </div>
+                {!!crawlResult.robotsBlocked && (
+                  <div className="mt-2 p-2 rounded bg-warning/10 border border-warning/30 space-y-1">
+                    <p className="flex items-center gap-1 text-xs font-medium text-warning">
+                      <AlertCircle className="w-3 h-3" />
+                      {crawlResult.robotsBlocked} URLs are blocked from search by robots.txt
+                    </p>
+                    {crawlResult.robotsWarnings?.slice(0, 5).map((warning) => (
+                      <p key={warning.url} className="text-[10px] text-muted-foreground truncate" title={warning.url}>
+                        <span className="font-mono">{warning.rule}</span> — {warning.url}
+                      </p>
+                    ))}
+                  </div>
+                )}
               </div>
             ) : (
               <span className="flex items-center justify-center gap-1 text-destructive">
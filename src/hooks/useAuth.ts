@@ -0,0 +1,58 @@
+// src/hooks/useAuth.ts
+// ============================================================================
+// AUTH HOOK
+// Tracks the Supabase Auth session. The shared client keeps the session in
+// localStorage and refreshes it, and supabase.functions.invoke forwards its
+// access token, so edge functions and RLS see the signed-in user.
+// ============================================================================
+
+import { useCallback, useEffect, useState } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+interface UseAuthReturn {
+  session: Session | null;
+  user: User | null;
+  isLoading: boolean;
+  signOut: () => Promise<void>;
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+export function useAuth(): UseAuthReturn {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase.auth.getSession().then(({ data }) => {
+      if (cancelled) return;
+      setSession(data.session);
+      setIsLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('[useAuth] Sign out failed:', error.message);
+    }
+  }, []);
+
+  return { session, user: session?.user ?? null, isLoading, signOut };
+}
@@ -7,6 +7,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { JobState } from '@/lib/pipeline/types';
 
 // ============================================================================
 // TYPES
@@ -14,9 +15,10 @@ import { supabase } from '@/integrations/supabase/client';
 interface JobData {
   id: string;
   page_id?: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   current_step: string;
+  stage?: JobState;
   result?: unknown;
   error_message?: string;
   created_at?: string;
@@ -26,9 +28,10 @@ interface JobData {
 interface ActiveJob {
   id: string;
   pageId?: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   currentStep: string;
+  stage?: JobState;
   result?: unknown;
   errorMessage?: string;
 }
@@ -47,6 +50,7 @@ interface UseJobProgressReturn {
   isRunning: boolean;
   isCompleted: boolean;
   isFailed: boolean;
+  isCancelled: boolean;
   isLoading: boolean;
   
   // Actions
@@ -155,6 +159,7 @@ export function useJobProgress(
         status: jobData.status,
         progress: jobData.progress || 0,
         currentStep: jobData.current_step || 'Processing...',
+        stage: jobData.stage,
         result: jobData.result,
         errorMessage: jobData.error_message,
       };
@@ -175,9 +180,9 @@ export function useJobProgress(
         onComplete?.(job);
       }
 
-      // Handle failure
-      if (jobData.status === 'failed') {
-        console.log('[useJobProgress] Job failed:', jobData.id, jobData.error_message);
+      // Handle failure (cancelled jobs stop watching the same way)
+      if (jobData.status === 'failed' || jobData.status === 'cancelled') {
+        console.log(`[useJobProgress] Job ${jobData.status}:`, jobData.id, jobData.error_message);
         cleanup();
         if (mountedRef.current) {
           setIsLoading(false);
@@ -248,9 +253,11 @@ export function useJobProgress(
   // COMPUTED VALUES
   // ============================================================================
   const currentStepIndex = calculateStepIndex(activeJob?.progress || 0);
-  const isRunning = activeJob?.status === 'running';
+  // Queued jobs are in flight too - a worker will pick them up
+  const isRunning = activeJob?.status === 'running' || activeJob?.status === 'queued';
   const isCompleted = activeJob?.status === 'completed';
   const isFailed = activeJob?.status === 'failed';
+  const isCancelled = activeJob?.status === 'cancelled';
 
   // ============================================================================
   // RETURN VALUE
@@ -262,6 +269,7 @@ export function useJobProgress(
     isRunning,
     isCompleted,
     isFailed,
+    isCancelled,
     isLoading,
     
     // Actions
@@ -0,0 +1,124 @@
+// src/hooks/useLivePost.ts
+// ============================================================================
+// LIVE POST HOOK
+// Loads the current WordPress version of a page through fetch-page-content
+// so optimized content can be compared against what is actually published
+// ============================================================================
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { invokeEdgeFunction } from '@/lib/supabase';
+import { useConfigStore } from '@/stores/config-store';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+interface UseLivePostOptions {
+  pageId?: string;
+  pageUrl?: string;
+  postId?: number | null;
+  postType?: string | null;
+  enabled?: boolean;
+}
+
+interface LivePost {
+  id: number;
+  title: string;
+  content: string;
+  modified: string;
+}
+
+interface UseLivePostReturn {
+  post: LivePost | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface FetchPageContentResponse {
+  success: boolean;
+  message: string;
+  error?: string;
+  content?: LivePost;
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+export function useLivePost({ pageId, pageUrl, postId, postType, enabled = true }: UseLivePostOptions): UseLivePostReturn {
+  const { wordpress } = useConfigStore();
+  const [post, setPost] = useState<LivePost | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const passwordCredentialId = wordpress.passwordCredential?.id;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (!wordpress.siteUrl || !wordpress.username || !passwordCredentialId) {
+      setPost(null);
+      setError('WordPress is not configured');
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setPost(null);
+      setError(null);
+
+      try {
+        // Callers that only know the page row id get its URL/post id from the DB
+        let url = pageUrl;
+        let id = postId ?? undefined;
+        let type = postType ?? undefined;
+        if (!url && !id && pageId) {
+          const { data: page } = await supabase
+            .from('pages')
+            .select('url, post_id, post_type')
+            .eq('id', pageId)
+            .maybeSingle();
+          url = page?.url || undefined;
+          id = page?.post_id ?? undefined;
+          type = page?.post_type ?? undefined;
+        }
+
+        if (!url && !id) {
+          throw new Error('The page has no URL or post ID to load');
+        }
+
+        const { data, error: invokeError } = await invokeEdgeFunction<FetchPageContentResponse>('fetch-page-content', {
+          siteUrl: wordpress.siteUrl,
+          pageUrl: url,
+          postId: id,
+          postType: type,
+          username: wordpress.username,
+          passwordCredentialId,
+        });
+
+        if (invokeError) throw new Error(invokeError.message);
+        if (!data?.success || !data.content) {
+          throw new Error(data?.error || data?.message || 'Failed to load the live post');
+        }
+
+        if (!cancelled) setPost(data.content);
+      } catch (err) {
+        console.error('[useLivePost] Error:', err);
+        if (!cancelled) {
+          setPost(null);
+          setError(err instanceof Error ? err.message : 'Failed to load the live post');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, pageId, pageUrl, postId, postType, wordpress.siteUrl, wordpress.username, passwordCredentialId]);
+
+  return { post, isLoading, error };
+}
@@ -21,6 +21,7 @@ export type Database = {
           id: string
           job_id: string | null
           message: string
+          owner_id: string | null
           page_id: string | null
           site_id: string | null
           type: string
@@ -31,6 +32,7 @@ export type Database = {
           id?: string
           job_id?: string | null
           message: string
+          owner_id?: string | null
           page_id?: string | null
           site_id?: string | null
           type: string
@@ -41,6 +43,7 @@ export type Database = {
           id?: string
           job_id?: string | null
           message?: string
+          owner_id?: string | null
           page_id?: string | null
           site_id?: string | null
           type?: string
@@ -69,48 +72,164 @@ export type Database = {
           },
         ]
       }
+      credentials: {
+        Row: {
+          ciphertext: string
+          created_at: string
+          hint: string
+          id: string
+          iv: string
+          kind: string
+          last_used_at: string | null
+          last_used_by: string | null
+          owner_id: string
+          provider: string
+          rotated_at: string | null
+          site_id: string | null
+        }
+        Insert: {
+          ciphertext: string
+          created_at?: string
+          hint?: string
+          id?: string
+          iv: string
+          kind: string
+          last_used_at?: string | null
+          last_used_by?: string | null
+          owner_id?: string
+          provider?: string
+          rotated_at?: string | null
+          site_id?: string | null
+        }
+        Update: {
+          ciphertext?: string
+          created_at?: string
+          hint?: string
+          id?: string
+          iv?: string
+          kind?: string
+          last_used_at?: string | null
+          last_used_by?: string | null
+          owner_id?: string
+          provider?: string
+          rotated_at?: string | null
+          site_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credentials_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "wp_sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       jobs: {
         Row: {
           ai_cost: number | null
+          ai_model: string | null
+          ai_provider: string | null
           ai_tokens_used: number | null
+          attempts: number
           completed_at: string | null
+          content_outline: Json | null
+          content_patch: Json | null
           created_at: string | null
           current_step: string | null
+          draft: Json | null
+          drafted_sections: Json | null
+          enrichment_blocks: Json | null
           error_message: string | null
+          heartbeat_at: string | null
           id: string
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          owner_id: string | null
           page_id: string | null
+          payload: Json | null
           progress: number | null
           result: Json | null
+          seo_score: Json | null
+          serp_brief: Json | null
+          site_id: string | null
+          source_post: Json | null
+          stage: string | null
           started_at: string | null
           status: string | null
+          surgical_plan: Json | null
+          updated_at: string | null
         }
         Insert: {
           ai_cost?: number | null
+          ai_model?: string | null
+          ai_provider?: string | null
           ai_tokens_used?: number | null
+          attempts?: number
           completed_at?: string | null
+          content_outline?: Json | null
+          content_patch?: Json | null
           created_at?: string | null
           current_step?: string | null
+          draft?: Json | null
+          drafted_sections?: Json | null
+          enrichment_blocks?: Json | null
           error_message?: string | null
+          heartbeat_at?: string | null
           id?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          owner_id?: string | null
           page_id?: string | null
+          payload?: Json | null
           progress?: number | null
           result?: Json | null
+          seo_score?: Json | null
+          serp_brief?: Json | null
+          site_id?: string | null
+          source_post?: Json | null
+          stage?: string | null
           started_at?: string | null
           status?: string | null
+          surgical_plan?: Json | null
+          updated_at?: string | null
         }
         Update: {
           ai_cost?: number | null
+          ai_model?: string | null
+          ai_provider?: string | null
           ai_tokens_used?: number | null
+          attempts?: number
           completed_at?: string | null
+          content_outline?: Json | null
+          content_patch?: Json | null
           created_at?: string | null
           current_step?: string | null
+          draft?: Json | null
+          drafted_sections?: Json | null
+          enrichment_blocks?: Json | null
           error_message?: string | null
+          heartbeat_at?: string | null
           id?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          owner_id?: string | null
           page_id?: string | null
+          payload?: Json | null
           progress?: number | null
           result?: Json | null
+          seo_score?: Json | null
+          serp_brief?: Json | null
+          site_id?: string | null
+          source_post?: Json | null
+          stage?: string | null
           started_at?: string | null
           status?: string | null
+          surgical_plan?: Json | null
+          updated_at?: string | null
         }
         Relationships: [
           {
@@ -120,65 +239,105 @@ export type Database = {
             referencedRelation: "pages"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "jobs_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "wp_sites"
+            referencedColumns: ["id"]
+          },
         ]
       }
       pages: {
         Row: {
+          analysis: Json | null
+          analyzed_at: string | null
           categories: string[] | null
           created_at: string | null
           featured_image: string | null
+          gone_since: string | null
           id: string
+          lastmod: string | null
+          optimized_at: string | null
+          owner_id: string | null
           post_id: number | null
           post_type: string | null
           retry_count: number | null
+          robots_rule: string | null
+          scheduled_for: string | null
           score_after: Json | null
           score_before: Json | null
           site_id: string | null
           slug: string
+          stale_since: string | null
           status: string | null
           tags: string[] | null
           title: string
           updated_at: string | null
           url: string
           word_count: number | null
+          wp_modified: string | null
+          wp_status: string | null
         }
         Insert: {
+          analysis?: Json | null
+          analyzed_at?: string | null
           categories?: string[] | null
           created_at?: string | null
           featured_image?: string | null
+          gone_since?: string | null
           id?: string
+          lastmod?: string | null
+          optimized_at?: string | null
+          owner_id?: string | null
           post_id?: number | null
           post_type?: string | null
           retry_count?: number | null
+          robots_rule?: string | null
+          scheduled_for?: string | null
           score_after?: Json | null
           score_before?: Json | null
           site_id?: string | null
           slug: string
+          stale_since?: string | null
           status?: string | null
           tags?: string[] | null
           title: string
           updated_at?: string | null
           url: string
           word_count?: number | null
+          wp_modified?: string | null
+          wp_status?: string | null
         }
         Update: {
+          analysis?: Json | null
+          analyzed_at?: string | null
           categories?: string[] | null
           created_at?: string | null
           featured_image?: string | null
+          gone_since?: string | null
           id?: string
+          lastmod?: string | null
+          optimized_at?: string | null
+          owner_id?: string | null
           post_id?: number | null
           post_type?: string | null
           retry_count?: number | null
+          robots_rule?: string | null
+          scheduled_for?: string | null
           score_after?: Json | null
           score_before?: Json | null
           site_id?: string | null
           slug?: string
+          stale_since?: string | null
           status?: string | null
           tags?: string[] | null
           title?: string
           updated_at?: string | null
           url?: string
           word_count?: number | null
+          wp_modified?: string | null
+          wp_status?: string | null
         }
         Relationships: [
           {
@@ -190,6 +349,93 @@ export type Database = {
           },
         ]
       }
+      post_revisions: {
+        Row: {
+          categories: number[] | null
+          content: string
+          created_at: string
+          excerpt: string
+          featured_media: number | null
+          id: string
+          job_id: string | null
+          owner_id: string | null
+          page_id: string | null
+          post_date: string | null
+          post_id: number
+          post_modified: string | null
+          post_status: string | null
+          post_type: string
+          reason: string
+          restored_at: string | null
+          seo_meta: Json
+          site_url: string
+          slug: string | null
+          tags: number[] | null
+          title: string
+        }
+        Insert: {
+          categories?: number[] | null
+          content?: string
+          created_at?: string
+          excerpt?: string
+          featured_media?: number | null
+          id?: string
+          job_id?: string | null
+          owner_id?: string | null
+          page_id?: string | null
+          post_date?: string | null
+          post_id: number
+          post_modified?: string | null
+          post_status?: string | null
+          post_type?: string
+          reason?: string
+          restored_at?: string | null
+          seo_meta?: Json
+          site_url: string
+          slug?: string | null
+          tags?: number[] | null
+          title?: string
+        }
+        Update: {
+          categories?: number[] | null
+          content?: string
+          created_at?: string
+          excerpt?: string
+          featured_media?: number | null
+          id?: string
+          job_id?: string | null
+          owner_id?: string | null
+          page_id?: string | null
+          post_date?: string | null
+          post_id?: number
+          post_modified?: string | null
+          post_status?: string | null
+          post_type?: string
+          reason?: string
+          restored_at?: string | null
+          seo_meta?: Json
+          site_url?: string
+          slug?: string | null
+          tags?: number[] | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_revisions_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_revisions_page_id_fkey"
+            columns: ["page_id"]
+            isOneToOne: false
+            referencedRelation: "pages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       serp_cache: {
         Row: {
           created_at: string
@@ -226,6 +472,7 @@ export type Database = {
           connected_at: string | null
           created_at: string | null
           id: string
+          owner_id: string | null
           site_description: string | null
           site_name: string | null
           site_url: string
@@ -236,6 +483,7 @@ export type Database = {
           connected_at?: string | null
           created_at?: string | null
           id?: string
+          owner_id?: string | null
           site_description?: string | null
           site_name?: string | null
           site_url: string
@@ -246,6 +494,7 @@ export type Database = {
           connected_at?: string | null
           created_at?: string | null
           id?: string
+          owner_id?: string | null
           site_description?: string | null
           site_name?: string | null
           site_url?: string
@@ -258,7 +507,48 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_next_job: {
+        Args: { p_lease_seconds?: number; p_worker_id: string }
+        Returns: {
+          ai_cost: number | null
+          ai_model: string | null
+          ai_provider: string | null
+          ai_tokens_used: number | null
+          attempts: number
+          completed_at: string | null
+          content_outline: Json | null
+          content_patch: Json | null
+          created_at: string | null
+          current_step: string | null
+          draft: Json | null
+          drafted_sections: Json | null
+          enrichment_blocks: Json | null
+          error_message: string | null
+          heartbeat_at: string | null
+          id: string
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          owner_id: string | null
+          page_id: string | null
+          payload: Json | null
+          progress: number | null
+          result: Json | null
+          seo_score: Json | null
+          serp_brief: Json | null
+          site_id: string | null
+          source_post: Json | null
+          stage: string | null
+          started_at: string | null
+          status: string | null
+          surgical_plan: Json | null
+          updated_at: string | null
+        }[]
+      }
+      owns_site: {
+        Args: { target_site_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
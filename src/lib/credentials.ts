@@ -0,0 +1,242 @@
+// ============================================================================
+// CREDENTIAL VAULT CLIENT
+// Secrets are sent to the server once and come back as a CredentialRef; edge
+// functions receive the ref's id and decrypt the secret themselves.
+// ============================================================================
+
+import { invokeEdgeFunction } from '@/lib/supabase';
+import {
+  LEGACY_SECRETS_KEY,
+  useConfigStore,
+  type CredentialRef,
+  type LegacySecrets,
+  type SiteProfile,
+} from '@/stores/config-store';
+
+export type CredentialKind = 'wordpress_password' | 'ai_api_key' | 'serper_api_key' | 'neuronwriter_api_key';
+
+// Credential metadata as the vault returns it (never the secret)
+export interface CredentialMetadata {
+  id: string;
+  kind: CredentialKind;
+  provider: string;
+  siteId: string | null;
+  hint: string;
+  createdAt: string;
+  rotatedAt: string | null;
+  lastUsedAt: string | null;
+}
+
+interface StoreCredentialResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  credential?: CredentialMetadata;
+}
+
+export const toCredentialRef = ({ id, hint }: CredentialMetadata): CredentialRef => ({ id, hint });
+
+// Placeholder for a secret input whose value is already in the vault
+export const savedSecretPlaceholder = (ref?: CredentialRef): string | undefined =>
+  ref ? `Saved${ref.hint ? ` (••••${ref.hint})` : ''} - type to replace` : undefined;
+
+/**
+ * Stores a secret in the vault, under the active site unless siteId says
+ * otherwise (null files it for the whole workspace). Saving the same kind
+ * for the same site and provider again rotates it and keeps the id.
+ */
+export async function saveCredential(
+  kind: CredentialKind,
+  secret: string,
+  options: { siteId?: string | null; provider?: string } = {}
+): Promise<{ credential: CredentialRef | null; error: string | null }> {
+  const { data, error } = await invokeEdgeFunction<StoreCredentialResponse>('credential-vault', {
+    action: 'store',
+    kind,
+    secret,
+    siteId: options.siteId,
+    provider: options.provider,
+  });
+
+  if (error || !data?.success || !data.credential) {
+    return { credential: null, error: data?.message || error?.message || 'The credential could not be saved.' };
+  }
+  return { credential: toCredentialRef(data.credential), error: null };
+}
+
+export async function deleteCredential(credentialId: string): Promise<string | null> {
+  const { data, error } = await invokeEdgeFunction<StoreCredentialResponse>('credential-vault', {
+    action: 'delete',
+    credentialId,
+  });
+  return error || !data?.success ? data?.message || error?.message || 'The credential could not be deleted.' : null;
+}
+
+// ============================================================================
+// LEGACY SECRETS
+// ============================================================================
+
+const hasLegacySecrets = (profile: SiteProfile): boolean =>
+  Boolean(
+    (profile.wordpress.isConnected && profile.wordpress.applicationPassword) ||
+    profile.ai.apiKey ||
+    profile.ai.serperApiKey ||
+    profile.ai.fallbacks?.some(entry => entry.apiKey)
+  );
+
+type LegacyProfile = Pick<LegacySecrets, 'wordpress' | 'ai'>;
+
+const readLegacySecrets = (): LegacySecrets | null => {
+  try {
+    const saved = localStorage.getItem(LEGACY_SECRETS_KEY);
+    return saved ? (JSON.parse(saved) as LegacySecrets) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Puts a saved secret back where the profile has neither it nor a ref to it
+const restoreSecrets = (profile: SiteProfile, legacy?: LegacyProfile): SiteProfile => {
+  if (!legacy?.wordpress || !legacy.ai) return profile;
+  const { wordpress, ai } = profile;
+  const missing = (secret?: string, ref?: CredentialRef) => !secret && !ref;
+
+  return {
+    ...profile,
+    wordpress: missing(wordpress.applicationPassword, wordpress.passwordCredential) && legacy.wordpress.siteId === wordpress.siteId
+      ? { ...wordpress, applicationPassword: legacy.wordpress.applicationPassword }
+      : wordpress,
+    ai: {
+      ...ai,
+      ...(missing(ai.apiKey, ai.apiKeyCredential) && legacy.ai.provider === ai.provider ? { apiKey: legacy.ai.apiKey } : {}),
+      ...(missing(ai.serperApiKey, ai.serperCredential) ? { serperApiKey: legacy.ai.serperApiKey } : {}),
+      fallbacks: ai.fallbacks?.map(entry => {
+        const saved = legacy.ai?.fallbacks?.find(old => old.provider === entry.provider && old.apiKey);
+        return saved && missing(entry.apiKey, entry.apiKeyCredential) ? { ...entry, apiKey: saved.apiKey } : entry;
+      }),
+    },
+  };
+};
+
+/**
+ * Earlier versions kept secrets in localStorage. The store sets them aside
+ * under LEGACY_SECRETS_KEY when it upgrades; this puts them back, moves them
+ * into the vault and swaps them for refs. The saved copy is only dropped once
+ * every upload has succeeded, so a failed attempt is retried next sign-in.
+ */
+export async function vaultLegacySecrets(): Promise<void> {
+  let legacy = readLegacySecrets();
+  // Another account's secrets went with the rest of its settings in bindOwner
+  if (legacy?.ownerId && legacy.ownerId !== useConfigStore.getState().ownerId) {
+    localStorage.removeItem(LEGACY_SECRETS_KEY);
+    legacy = null;
+  }
+
+  const current = useConfigStore.getState();
+  const legacyProfileFor = (siteId?: string): LegacyProfile | undefined =>
+    legacy?.wordpress?.siteId === siteId ? legacy ?? undefined : siteId ? legacy?.sites?.[siteId] : undefined;
+  const state = {
+    ...current,
+    ...restoreSecrets(current, legacyProfileFor(current.wordpress.siteId)),
+    neuronWriter: !current.neuronWriter.apiKey && !current.neuronWriter.apiKeyCredential && legacy?.neuronWriter?.apiKey
+      ? { ...current.neuronWriter, apiKey: legacy.neuronWriter.apiKey }
+      : current.neuronWriter,
+  };
+  const profiles: Array<[string | null, SiteProfile]> = [
+    [null, state],
+    ...Object.entries(current.sites).map(([id, profile]): [string, SiteProfile] => [id, restoreSecrets(profile, legacyProfileFor(id))]),
+  ];
+  if (!profiles.some(([, profile]) => hasLegacySecrets(profile)) && !state.neuronWriter.apiKey) {
+    if (legacy) localStorage.removeItem(LEGACY_SECRETS_KEY);
+    return;
+  }
+
+  // The active site's working copy usually repeats its profile; upload once
+  const uploads = new Map<string, Promise<CredentialRef | undefined>>();
+  let failures = 0;
+  const upload = (kind: CredentialKind, secret: string, siteId: string | null, provider?: string) => {
+    const key = [kind, siteId, provider, secret].join('|');
+    if (!uploads.has(key)) {
+      uploads.set(key, saveCredential(kind, secret, { siteId, provider }).then(({ credential, error }) => {
+        if (error) {
+          failures += 1;
+          console.warn(`[Credentials] Could not vault a saved ${kind}:`, error);
+        }
+        return credential ?? undefined;
+      }));
+    }
+    return uploads.get(key)!;
+  };
+
+  const upgrade = async (profile: SiteProfile): Promise<SiteProfile> => {
+    const siteId = profile.wordpress.siteId ?? null;
+    const { wordpress, ai } = profile;
+    const passwordCredential = wordpress.isConnected && siteId && wordpress.applicationPassword
+      ? await upload('wordpress_password', wordpress.applicationPassword, siteId)
+      : undefined;
+    const apiKeyCredential = ai.apiKey ? await upload('ai_api_key', ai.apiKey, siteId, ai.provider) : undefined;
+    const serperCredential = ai.serperApiKey ? await upload('serper_api_key', ai.serperApiKey, siteId) : undefined;
+    const fallbacks = ai.fallbacks && await Promise.all(ai.fallbacks.map(async entry => {
+      const credential = entry.apiKey ? await upload('ai_api_key', entry.apiKey, siteId, entry.provider) : undefined;
+      return credential ? { ...entry, apiKey: '', apiKeyCredential: credential } : entry;
+    }));
+
+    return {
+      ...profile,
+      wordpress: passwordCredential ? { ...wordpress, applicationPassword: '', passwordCredential } : wordpress,
+      ai: {
+        ...ai,
+        ...(apiKeyCredential ? { apiKey: '', apiKeyCredential } : {}),
+        ...(serperCredential ? { serperApiKey: undefined, serperCredential } : {}),
+        fallbacks,
+      },
+    };
+  };
+
+  const [active, ...sites] = await Promise.all(profiles.map(([, profile]) => upgrade(profile)));
+  const neuronWriterCredential = state.neuronWriter.apiKey
+    ? await upload('neuronwriter_api_key', state.neuronWriter.apiKey, null)
+    : undefined;
+
+  useConfigStore.setState({
+    wordpress: active.wordpress,
+    ai: active.ai,
+    sites: Object.fromEntries(profiles.slice(1).map(([id], index) => [id as string, sites[index]])),
+    ...(neuronWriterCredential
+      ? { neuronWriter: { ...state.neuronWriter, apiKey: '', apiKeyCredential: neuronWriterCredential } }
+      : {}),
+  });
+  if (failures > 0) {
+    console.warn(`[Credentials] ${failures} saved secret(s) stay in local storage until the next sign-in`);
+    return;
+  }
+  localStorage.removeItem(LEGACY_SECRETS_KEY);
+  console.log(`[Credentials] Moved ${uploads.size} saved secret(s) into the vault`);
+}
+
+// Drops refs to a deleted credential so the app asks for the secret again
+export function forgetCredential(credentialId: string): void {
+  const state = useConfigStore.getState();
+  const keep = (ref?: CredentialRef) => (ref?.id === credentialId ? undefined : ref);
+  const forget = (profile: SiteProfile): SiteProfile => ({
+    ...profile,
+    wordpress: { ...profile.wordpress, passwordCredential: keep(profile.wordpress.passwordCredential) },
+    ai: {
+      ...profile.ai,
+      apiKeyCredential: keep(profile.ai.apiKeyCredential),
+      serperCredential: keep(profile.ai.serperCredential),
+      fallbacks: profile.ai.fallbacks?.map(entry => ({ ...entry, apiKeyCredential: keep(entry.apiKeyCredential) })),
+    },
+  });
+
+  const active = forget(state);
+  const neuronWriterRef = keep(state.neuronWriter.apiKeyCredential);
+  useConfigStore.setState({
+    wordpress: active.wordpress,
+    ai: active.ai,
+    sites: Object.fromEntries(Object.entries(state.sites).map(([id, profile]) => [id, forget(profile)])),
+    neuronWriter: neuronWriterRef
+      ? state.neuronWriter
+      : { ...state.neuronWriter, apiKeyCredential: undefined, isValidated: false },
+  });
+}
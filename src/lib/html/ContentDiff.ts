@@ -0,0 +1,231 @@
+/**
+ * CONTENT DIFF
+ * Block-level diff between the live WordPress post and optimized content.
+ * Both sides are split into top-level blocks (paragraphs, headings, lists,
+ * Gutenberg blocks), matched with an LCS, and every changed run becomes one or
+ * more hunks that can be accepted or rejected independently. The merged HTML
+ * is assembled from the original source slices, so rejecting every hunk gives
+ * back the live post block for block.
+ */
+
+export interface DiffBlock {
+  html: string;
+  key: string; // whitespace-normalized HTML used for matching
+  heading?: string; // plain text when the block is a heading
+}
+
+export interface EqualSegment {
+  type: 'equal';
+  blocks: DiffBlock[];
+}
+
+export interface DiffHunk {
+  type: 'hunk';
+  id: string;
+  section: string; // heading of the section the hunk belongs to
+  removed: DiffBlock[];
+  added: DiffBlock[];
+}
+
+export type DiffSegment = EqualSegment | DiffHunk;
+
+// Hunk id → true to take the optimized blocks, false to keep the live ones
+export type HunkDecisions = Record<string, boolean>;
+
+// Elements that start a block when they appear at the top level; inline
+// markup between them stays part of the surrounding text
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'iframe', 'nav', 'ol', 'p', 'pre', 'script',
+  'section', 'style', 'table', 'ul', 'video',
+]);
+
+// Tags and Gutenberg block delimiters, in document order
+const TOKEN_PATTERN = /<!--\s*(\/?)wp:[\s\S]*?-->|<(\/?)([a-zA-Z][\w-]*)\b[^>]*?(\/?)>/g;
+
+const HEADING_PATTERN = /^(?:<!--[\s\S]*?-->\s*)?<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/i;
+
+// ============================================================================
+// BLOCK SPLITTING
+// ============================================================================
+
+function toBlock(html: string): DiffBlock {
+  const headingMatch = html.match(HEADING_PATTERN);
+  return {
+    html,
+    key: html.replace(/\s+/g, ' ').trim(),
+    ...(headingMatch ? { heading: headingMatch[1].replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim() } : {}),
+  };
+}
+
+// Loose top-level text (classic editor posts rely on wpautop) is split on
+// blank lines so each paragraph is its own block
+function pushText(blocks: DiffBlock[], text: string): void {
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (paragraph.trim()) blocks.push(toBlock(paragraph.trim()));
+  }
+}
+
+export function splitIntoBlocks(html: string): DiffBlock[] {
+  const blocks: DiffBlock[] = [];
+  // The open top-level block: its tag name ('wp' for a Gutenberg block) and
+  // how deeply that same tag is nested inside it
+  let open: { name: string; depth: number } | null = null;
+  let blockStart = 0;
+  let textStart = 0;
+
+  for (const match of html.matchAll(TOKEN_PATTERN)) {
+    const [token, blockClose, tagClose, tagName, selfClose] = match;
+    const index = match.index ?? 0;
+    const end = index + token.length;
+    const name = tagName ? tagName.toLowerCase() : 'wp';
+    const closing = Boolean(tagName ? tagClose : blockClose);
+    const selfClosing = tagName ? Boolean(selfClose) : /\/\s*-->$/.test(token);
+
+    if (!open) {
+      if (closing || (tagName && !BLOCK_ELEMENTS.has(name))) continue;
+      pushText(blocks, html.slice(textStart, index));
+      if (selfClosing || name === 'hr') {
+        blocks.push(toBlock(token));
+        textStart = end;
+      } else {
+        open = { name, depth: 1 };
+        blockStart = index;
+      }
+      continue;
+    }
+
+    if (name !== open.name || selfClosing) continue;
+    open.depth += closing ? -1 : 1;
+    if (open.depth === 0) {
+      blocks.push(toBlock(html.slice(blockStart, end)));
+      textStart = end;
+      open = null;
+    }
+  }
+
+  if (open) {
+    // Unbalanced markup - keep the remainder together rather than lose it
+    blocks.push(toBlock(html.slice(blockStart).trim()));
+  } else {
+    pushText(blocks, html.slice(textStart));
+  }
+
+  return blocks;
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+type BlockOp = { type: 'equal' | 'removed' | 'added'; block: DiffBlock };
+
+function diffBlocks(original: DiffBlock[], optimized: DiffBlock[]): BlockOp[] {
+  const rows = original.length + 1;
+  const cols = optimized.length + 1;
+  const lcs = new Uint32Array(rows * cols);
+
+  for (let i = original.length - 1; i >= 0; i--) {
+    for (let j = optimized.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = original[i].key === optimized[j].key
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const ops: BlockOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < original.length && j < optimized.length) {
+    if (original[i].key === optimized[j].key) {
+      ops.push({ type: 'equal', block: optimized[j] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      ops.push({ type: 'removed', block: original[i++] });
+    } else {
+      ops.push({ type: 'added', block: optimized[j++] });
+    }
+  }
+  while (i < original.length) ops.push({ type: 'removed', block: original[i++] });
+  while (j < optimized.length) ops.push({ type: 'added', block: optimized[j++] });
+
+  return ops;
+}
+
+// Splits a run of blocks at its headings. The first chunk holds whatever
+// continues the preceding section and may be empty, so both sides of a hunk
+// pair continuation with continuation and heading with heading.
+function chunkBySection(blocks: DiffBlock[]): DiffBlock[][] {
+  const chunks: DiffBlock[][] = [[]];
+  for (const block of blocks) {
+    if (block.heading !== undefined) chunks.push([]);
+    chunks[chunks.length - 1].push(block);
+  }
+  return chunks;
+}
+
+/**
+ * Diffs the live post against the optimized content. A changed run that spans
+ * several sections (typical of a full rewrite) is broken into one hunk per
+ * section, pairing the n-th old section with the n-th new one, so each
+ * section can be taken or kept on its own.
+ */
+export function diffContent(originalHtml: string, optimizedHtml: string): DiffSegment[] {
+  const ops = diffBlocks(splitIntoBlocks(originalHtml), splitIntoBlocks(optimizedHtml));
+  const segments: DiffSegment[] = [];
+  let section = 'Introduction';
+  let hunkCount = 0;
+  let k = 0;
+
+  while (k < ops.length) {
+    if (ops[k].type === 'equal') {
+      const blocks: DiffBlock[] = [];
+      while (k < ops.length && ops[k].type === 'equal') {
+        const { block } = ops[k++];
+        if (block.heading !== undefined) section = block.heading;
+        blocks.push(block);
+      }
+      segments.push({ type: 'equal', blocks });
+      continue;
+    }
+
+    const removed: DiffBlock[] = [];
+    const added: DiffBlock[] = [];
+    while (k < ops.length && ops[k].type !== 'equal') {
+      const { type, block } = ops[k++];
+      (type === 'removed' ? removed : added).push(block);
+    }
+
+    const removedChunks = chunkBySection(removed);
+    const addedChunks = chunkBySection(added);
+    for (let c = 0; c < Math.max(removedChunks.length, addedChunks.length); c++) {
+      const hunkRemoved = removedChunks[c] || [];
+      const hunkAdded = addedChunks[c] || [];
+      if (hunkRemoved.length === 0 && hunkAdded.length === 0) continue;
+      section = hunkAdded[0]?.heading ?? hunkRemoved[0]?.heading ?? section;
+      segments.push({ type: 'hunk', id: `hunk-${hunkCount++}`, section, removed: hunkRemoved, added: hunkAdded });
+    }
+  }
+
+  return segments;
+}
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+export function isHunkAccepted(hunk: DiffHunk, decisions: HunkDecisions): boolean {
+  return decisions[hunk.id] ?? true;
+}
+
+/** Builds the HTML to publish: accepted hunks from the optimized side, the rest from the live post */
+export function mergeContent(segments: DiffSegment[], decisions: HunkDecisions): string {
+  return segments
+    .flatMap(segment => {
+      if (segment.type === 'equal') return segment.blocks;
+      return isHunkAccepted(segment, decisions) ? segment.added : segment.removed;
+    })
+    .map(block => block.html)
+    .join('\n\n');
+}
@@ -59,6 +59,8 @@ export interface ContentOutput {
 }
 
 // ============ ARTICLE COMPONENTS ============
+// Rendered by _shared/ArticleComponentRenderer.ts and previewed by
+// components/shared/ArticleComponentPreview.tsx; a new member needs both
 export type ArticleComponent = 
   | IntroductionBlock
   | HeadingBlock
@@ -272,3 +274,99 @@ export interface OutlineSection {
   examples?: string[];
   subsections?: OutlineSection[];
 }
+
+// ============ DRAFT ============
+export interface DraftedSection {
+  heading: string;
+  html: string;
+  wordCount: number;
+}
+
+
+// ============ SOURCE POST ============
+// The live post as returned by fetch-page-content
+export interface SourcePost {
+  id: number;
+  title: string;
+  content: string;
+  excerpt: string;
+  slug: string;
+  status: string;
+  modified: string;
+  wordCount: number;
+}
+
+// The live post reduced to what a full rewrite must carry over
+export interface SourceMaterial {
+  title: string;
+  headings: string[]; // "H2: ..." / "H3: ..." in document order
+  text: string; // clean text, headings marked with #
+  internalLinks: SourceLink[];
+  wordCount: number;
+  truncated: boolean;
+}
+
+export interface SourceLink {
+  anchor: string;
+  href: string;
+}
+
+// ============ SURGICAL OPTIMIZATION ============
+export type OptimizationMode = 'surgical' | 'full_rewrite';
+
+export interface SurgicalPlan {
+  sections: SectionVerdict[];
+  missingBlocks: InsertableBlock[];
+  metaDescription?: string;
+}
+
+export interface SectionVerdict {
+  index: number;
+  heading: string;
+  wordCount: number;
+  action: 'keep' | 'rewrite';
+  reason: string;
+}
+
+export type InsertableBlock = 'toc' | 'key_takeaways' | 'faq';
+
+// Edits against SourcePost.content. Each operation stands alone, so any
+// subset of them can be applied to the original HTML.
+export type PatchOperation =
+  | ReplaceSectionOperation
+  | SetAltTextOperation
+  | InsertBlockOperation;
+
+export interface ReplaceSectionOperation {
+  op: 'replace_section';
+  id: string;
+  sectionIndex: number;
+  heading: string;
+  reason: string;
+  before: string;
+  after: string;
+}
+
+export interface SetAltTextOperation {
+  op: 'set_alt_text';
+  id: string;
+  src: string;
+  before: string;
+  after: string;
+}
+
+export interface InsertBlockOperation {
+  op: 'insert_block';
+  id: string;
+  block: InsertableBlock;
+  position: 'after_intro' | 'end';
+  html: string;
+  // TOC only: ids added to the H2s it links to when they have none
+  anchors?: Array<{ heading: string; id: string }>;
+}
+
+export interface ContentPatch {
+  postId: number;
+  baseModified: string; // SourcePost.modified the patch was made against
+  operations: PatchOperation[];
+}
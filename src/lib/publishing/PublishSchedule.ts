@@ -0,0 +1,96 @@
+/**
+ * PUBLISH SCHEDULE
+ * Spreads a batch of posts over publish slots ("3 per weekday from 9:00,
+ * 2 hours apart") in the WordPress site's own time. WordPress reads a post's
+ * `date` in site time, so slots are plain `YYYY-MM-DDTHH:MM:SS` strings with
+ * no zone; all day/hour arithmetic runs on UTC fields so the browser's own
+ * timezone and DST never shift a slot.
+ */
+
+export interface ScheduleOptions {
+  startDate: string; // YYYY-MM-DD, site-local day of the first slot
+  time: string; // HH:MM, site-local time of the first post each day
+  perDay: number;
+  intervalMinutes: number; // gap between posts on the same day
+  weekdaysOnly: boolean;
+  notBefore?: string; // site-local timestamp; earlier slots are skipped
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// Site-local string <-> a Date whose UTC fields hold the site wall clock
+function parseNaive(local: string): Date {
+  const match = local.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match) throw new Error(`Invalid site-local date: ${local}`);
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+}
+
+function formatNaive(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+/** Wall-clock time on the site for an instant, given WordPress's gmt_offset (hours) */
+export function toSiteLocal(instant: Date | string, gmtOffset = 0): string {
+  const time = typeof instant === 'string' ? new Date(instant).getTime() : instant.getTime();
+  return formatNaive(new Date(time + gmtOffset * 60 * MINUTE_MS));
+}
+
+/** The instant a site-local wall-clock time refers to */
+export function siteLocalToUtc(local: string, gmtOffset = 0): Date {
+  return new Date(parseNaive(local).getTime() - gmtOffset * 60 * MINUTE_MS);
+}
+
+/**
+ * A Date whose browser-local fields equal the site wall clock. Only for
+ * display (date-fns formatting, calendar cells) - never for arithmetic.
+ */
+export function wallClockDate(local: string): Date {
+  const naive = parseNaive(local);
+  return new Date(
+    naive.getUTCFullYear(), naive.getUTCMonth(), naive.getUTCDate(),
+    naive.getUTCHours(), naive.getUTCMinutes(), naive.getUTCSeconds()
+  );
+}
+
+/** YYYY-MM-DD part of a site-local timestamp, used to group posts by day */
+export function siteDayKey(local: string): string {
+  return local.slice(0, 10);
+}
+
+/**
+ * Site-local publish times for `count` posts. Slots on a day stop at
+ * midnight, so a large perDay × interval simply yields fewer posts that day.
+ */
+export function buildPublishSchedule(count: number, options: ScheduleOptions): string[] {
+  const perDay = Math.max(1, Math.floor(options.perDay));
+  const interval = Math.max(0, options.intervalMinutes) * MINUTE_MS;
+  const notBefore = options.notBefore ? parseNaive(options.notBefore).getTime() : -Infinity;
+  const [hours, minutes] = options.time.split(':').map(Number);
+
+  const slots: string[] = [];
+  let day = parseNaive(options.startDate);
+
+  while (slots.length < count) {
+    const weekday = day.getUTCDay();
+    if (!options.weekdaysOnly || (weekday !== 0 && weekday !== 6)) {
+      const first = day.getTime() + ((hours || 0) * 60 + (minutes || 0)) * MINUTE_MS;
+
+      for (let i = 0; i < perDay && slots.length < count; i++) {
+        const slot = first + i * interval;
+        if (slot >= day.getTime() + DAY_MS) break;
+        if (slot < notBefore) continue;
+        slots.push(formatNaive(new Date(slot)));
+      }
+    }
+    day = new Date(day.getTime() + DAY_MS);
+  }
+
+  return slots;
+}
@@ -4,10 +4,15 @@
 // ============================================================================
 
 import { supabase, isConfigured } from '@/integrations/supabase/client';
+import { useConfigStore } from '@/stores/config-store';
 
 // Re-export for convenience
 export { supabase };
 
+// Typed secrets travel once, to be validated and vaulted; keep them out of the console
+const SECRET_FIELDS = new Set(['secret', 'applicationPassword', 'apiKey']);
+const redactSecrets = (key: string, value: unknown) => (SECRET_FIELDS.has(key) && value ? '[redacted]' : value);
+
 // ============================================================================
 // CONFIGURATION CHECK
 // ============================================================================
@@ -41,9 +46,13 @@ export async function invokeEdgeFunction<T = unknown>(
   options: EdgeFunctionOptions = {}
 ): Promise<EdgeFunctionResult<T>> {
   const { retries = 0, retryDelay = 1000 } = options;
+
+  // Calls act for the active workspace site unless they name one themselves
+  const activeSiteId = useConfigStore.getState().wordpress.siteId;
+  const scopedBody = activeSiteId && body.siteId === undefined ? { ...body, siteId: activeSiteId } : body;
   
   console.log(`[invokeEdgeFunction] Calling: ${functionName}`);
-  console.log(`[invokeEdgeFunction] Body:`, JSON.stringify(body).slice(0, 200));
+  console.log(`[invokeEdgeFunction] Body:`, JSON.stringify(scopedBody, redactSecrets).slice(0, 200));
 
   // Check if Supabase is configured
   if (!isSupabaseConfigured()) {
@@ -81,7 +90,7 @@ export async function invokeEdgeFunction<T = unknown>(
       console.log(`[invokeEdgeFunction] Invoking ${functionName}...`);
       
       const response = await supabase.functions.invoke(functionName, {
-        body: body,
+        body: scopedBody,
       });
 
       console.log(`[invokeEdgeFunction] Raw response received`);
@@ -156,6 +165,91 @@ export async function checkSupabaseHealth(): Promise<boolean> {
   }
 }
 
+export interface JobControlResponse {
+  success: boolean;
+  jobId?: string;
+  status?: string;
+  resumeFromStage?: string | null;
+  error?: string;
+  message?: string;
+}
+
+// Stops a queued or running optimization job on the server
+export function cancelJob(jobId: string): Promise<EdgeFunctionResult<JobControlResponse>> {
+  return invokeEdgeFunction<JobControlResponse>('cancel-job', { jobId });
+}
+
+// Re-queues a failed or cancelled job; it picks up after its last completed stage
+export function resumeJob(jobId: string): Promise<EdgeFunctionResult<JobControlResponse>> {
+  return invokeEdgeFunction<JobControlResponse>('resume-job', { jobId });
+}
+
+export interface JobSpendRow {
+  id: string;
+  createdAt: string;
+  tokens: number;
+  costUsd: number;
+  pageId: string | null;
+  pageUrl: string | null;
+  pageTitle: string | null;
+  siteName: string | null;
+  siteUrl: string | null;
+}
+
+// PostgREST caps a response at 1000 rows; spend totals need every job
+const SPEND_PAGE_SIZE = 1000;
+
+// AI usage recorded on each job by the optimize pipeline, newest first
+export async function fetchJobSpend(since?: string): Promise<JobSpendRow[]> {
+  const data: unknown[] = [];
+  for (let from = 0; ; from += SPEND_PAGE_SIZE) {
+    let query = supabase
+      .from('jobs')
+      .select('id, created_at, ai_tokens_used, ai_cost, page_id, site:wp_sites!jobs_site_id_fkey(site_name, site_url), pages(url, title, wp_sites(site_name, site_url))')
+      .or('ai_tokens_used.gt.0,ai_cost.gt.0')
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, from + SPEND_PAGE_SIZE - 1);
+
+    if (since) query = query.gte('created_at', since);
+
+    const { data: page, error } = await query;
+    if (error) throw new Error(error.message);
+    data.push(...(page || []));
+    if (!page || page.length < SPEND_PAGE_SIZE) break;
+  }
+
+  type SpendQueryRow = {
+    id: string;
+    created_at: string;
+    ai_tokens_used: number | null;
+    ai_cost: number | string | null;
+    page_id: string | null;
+    site: { site_name: string | null; site_url: string } | null;
+    pages: {
+      url: string;
+      title: string | null;
+      wp_sites: { site_name: string | null; site_url: string } | null;
+    } | null;
+  };
+
+  // Quick Optimize jobs have no page; older jobs may have no site_id
+  return (data as SpendQueryRow[]).map((row) => {
+    const site = row.site ?? row.pages?.wp_sites ?? null;
+    return {
+      id: row.id,
+      createdAt: row.created_at,
+      tokens: row.ai_tokens_used || 0,
+      costUsd: Number(row.ai_cost) || 0,
+      pageId: row.page_id,
+      pageUrl: row.pages?.url ?? null,
+      pageTitle: row.pages?.title ?? null,
+      siteName: site?.site_name ?? null,
+      siteUrl: site?.site_url ?? null,
+    };
+  });
+}
+
 export function getSupabaseStatus(): {
   configured: boolean;
   url: string;
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Loader2, Sparkles } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { PasswordInput } from '@/components/shared/PasswordInput';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+
+type AuthMode = 'sign-in' | 'sign-up';
+
+const Auth = () => {
+  const { session, isLoading } = useAuth();
+  const location = useLocation();
+  const [mode, setMode] = useState<AuthMode>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const redirectTo = (location.state as { from?: string } | null)?.from || '/';
+
+  if (!isLoading && session) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!email || !password) {
+      toast.error('Enter your email and password');
+      return;
+    }
+
+    setIsSubmitting(true);
+    if (mode === 'sign-in') {
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) {
+        toast.error('Sign in failed', { description: error.message });
+      }
+    } else {
+      const { data, error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: { emailRedirectTo: `${window.location.origin}/` },
+      });
+      if (error) {
+        toast.error('Sign up failed', { description: error.message });
+      } else if (!data.session) {
+        // Projects with email confirmation on return no session until the link is followed
+        toast.success('Check your inbox', { description: `We sent a confirmation link to ${email}.` });
+        setMode('sign-in');
+      }
+    }
+    setIsSubmitting(false);
+  };
+
+  const form = (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="auth-email">Email</Label>
+        <Input
+          id="auth-email"
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="you@agency.com"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="auth-password">Password</Label>
+        <PasswordInput
+          id="auth-password"
+          autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isSubmitting}>
+        {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {mode === 'sign-in' ? 'Sign in' : 'Create account'}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md glass-panel border-border/50">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 p-2 rounded-xl bg-gradient-to-br from-primary/20 to-info/20 border border-primary/30">
+            <Sparkles className="w-6 h-6 text-primary" />
+          </div>
+          <CardTitle>
+            WP Optimizer <span className="text-gradient">Pro Ultra</span>
+          </CardTitle>
+          <CardDescription>Your sites, queues and revisions are private to your account.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={mode} onValueChange={(value) => setMode(value as AuthMode)}>
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="sign-in">Sign in</TabsTrigger>
+              <TabsTrigger value="sign-up">Sign up</TabsTrigger>
+            </TabsList>
+            <TabsContent value="sign-in">{form}</TabsContent>
+            <TabsContent value="sign-up">{form}</TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Auth;
@@ -9,9 +9,12 @@ import { useConfigStore } from '@/stores/config-store';
 import { WordPressConnection } from '@/components/config/WordPressConnection';
 import { AIProviderConfig } from '@/components/config/AIProviderConfig';
 import { NeuronWriterConfig } from '@/components/config/NeuronWriterConfig';
+import { CredentialVault } from '@/components/config/CredentialVault';
 import { SiteContext } from '@/components/config/SiteContext';
 import { OptimizationModeConfig } from '@/components/config/OptimizationModeConfig';
 import { AdvancedSettings } from '@/components/config/AdvancedSettings';
+import { SiteSwitcher } from '@/components/config/SiteSwitcher';
+import { UserMenu } from '@/components/auth/UserMenu';
 
 // Strategy components
 import { DashboardMetrics } from '@/components/strategy/DashboardMetrics';
@@ -19,6 +22,7 @@ import { SitemapCrawler } from '@/components/strategy/SitemapCrawler';
 import { QuickOptimize } from '@/components/strategy/QuickOptimize';
 import { BulkMode } from '@/components/strategy/BulkMode';
 import { PageQueue } from '@/components/strategy/PageQueue';
+import { ScheduleCalendar } from '@/components/strategy/ScheduleCalendar';
 import { ActivityLog } from '@/components/strategy/ActivityLog';
 import { SerpIntelligence } from '@/components/strategy/SerpIntelligence';
 
@@ -27,6 +31,7 @@ import { SessionStats } from '@/components/analytics/SessionStats';
 import { ScoreDistribution } from '@/components/analytics/ScoreDistribution';
 import { EnhancementBreakdown } from '@/components/analytics/EnhancementBreakdown';
 import { RecentJobs } from '@/components/analytics/RecentJobs';
+import { AiSpendBreakdown } from '@/components/analytics/AiSpendBreakdown';
 
 // Connection status component
 function ConnectionStatus() {
@@ -62,6 +67,13 @@ function ConnectionStatus() {
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState('config');
+  // Bumped on every site switch so each tab remounts with that site's state
+  const [siteVersion, setSiteVersion] = useState(0);
+
+  const handleSiteChange = (isNew: boolean) => {
+    setSiteVersion((version) => version + 1);
+    if (isNew) setActiveTab('config');
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -80,7 +92,11 @@ const Index = () => {
                 <p className="text-xs text-muted-foreground">Enterprise AI Content Platform</p>
               </div>
             </div>
-            <ConnectionStatus />
+            <div className="flex items-center gap-3">
+              <SiteSwitcher onSiteChange={handleSiteChange} />
+              <ConnectionStatus />
+              <UserMenu />
+            </div>
           </div>
         </div>
       </header>
@@ -106,6 +122,7 @@ const Index = () => {
           {/* Configuration Tab */}
           <TabsContent value="config" className="space-y-6">
             <motion.div
+              key={siteVersion}
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               className="space-y-6"
@@ -113,6 +130,7 @@ const Index = () => {
               <WordPressConnection />
               <AIProviderConfig />
               <NeuronWriterConfig />
+              <CredentialVault />
               <SiteContext />
               <OptimizationModeConfig />
               <AdvancedSettings />
@@ -122,6 +140,7 @@ const Index = () => {
           {/* Content Strategy Tab */}
           <TabsContent value="strategy" className="space-y-6">
             <motion.div
+              key={siteVersion}
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               className="space-y-6"
@@ -137,6 +156,7 @@ const Index = () => {
               <SerpIntelligence />
 
               <PageQueue />
+              <ScheduleCalendar />
               <ActivityLog />
             </motion.div>
           </TabsContent>
@@ -150,6 +170,7 @@ const Index = () => {
             >
               <SessionStats />
               <ScoreDistribution />
+              <AiSpendBreakdown />
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <EnhancementBreakdown />
                 <RecentJobs />
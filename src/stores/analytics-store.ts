@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { fetchJobSpend, type JobSpendRow } from '@/lib/supabase';
 
 export interface SessionStats {
   sessionId: string;
@@ -44,11 +45,29 @@ export interface RecentJob {
   improvement?: number;
 }
 
+export interface SpendBucket {
+  key: string;
+  label: string;
+  jobs: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface AiSpendSummary {
+  totalTokens: number;
+  totalCostUsd: number;
+  byPage: SpendBucket[];
+  bySite: SpendBucket[];
+  byDay: SpendBucket[];
+  loadedAt: string;
+}
+
 interface AnalyticsState {
   sessionStats: SessionStats;
   scoreDistribution: ScoreDistribution[];
   enhancementBreakdown: EnhancementBreakdown[];
   recentJobs: RecentJob[];
+  aiSpend: AiSpendSummary | null;
   
   // Actions
   updateSessionStats: (stats: Partial<SessionStats>) => void;
@@ -58,10 +77,46 @@ interface AnalyticsState {
   updateRecentJob: (id: string, updates: Partial<RecentJob>) => void;
   resetSession: () => void;
   recalculateFromPages: (pages: { scoreBefore?: { overall: number }; scoreAfter?: { overall: number }; status: string }[]) => void;
+  loadAiSpend: () => Promise<void>;
 }
 
 const generateId = () => Math.random().toString(36).substring(2, 15);
 
+// Groups job spend rows into buckets, most expensive first
+const groupSpend = (
+  rows: JobSpendRow[],
+  keyOf: (row: JobSpendRow) => { key: string; label: string }
+): SpendBucket[] => {
+  const buckets = new Map<string, SpendBucket>();
+  rows.forEach((row) => {
+    const { key, label } = keyOf(row);
+    const bucket = buckets.get(key) || { key, label, jobs: 0, tokens: 0, costUsd: 0 };
+    bucket.jobs++;
+    bucket.tokens += row.tokens;
+    bucket.costUsd += row.costUsd;
+    buckets.set(key, bucket);
+  });
+  return [...buckets.values()].sort((a, b) => b.costUsd - a.costUsd);
+};
+
+const summarizeSpend = (rows: JobSpendRow[]): AiSpendSummary => ({
+  totalTokens: rows.reduce((sum, row) => sum + row.tokens, 0),
+  totalCostUsd: rows.reduce((sum, row) => sum + row.costUsd, 0),
+  byPage: groupSpend(rows, (row) => ({
+    key: row.pageId || row.id,
+    label: row.pageTitle || row.pageUrl || 'Untitled page',
+  })),
+  bySite: groupSpend(rows, (row) => ({
+    key: row.siteUrl || 'unknown',
+    label: row.siteName || row.siteUrl || 'Unknown site',
+  })),
+  byDay: groupSpend(rows, (row) => {
+    const day = row.createdAt.slice(0, 10);
+    return { key: day, label: day };
+  }).sort((a, b) => b.key.localeCompare(a.key)),
+  loadedAt: new Date().toISOString(),
+});
+
 const createEmptySession = (): SessionStats => ({
   sessionId: generateId(),
   startedAt: new Date().toISOString(),
@@ -102,6 +157,7 @@ export const useAnalyticsStore = create<AnalyticsState>()(
         { type: 'Table of Contents', count: 0, avgImpact: 0, percentage: 0 },
       ],
       recentJobs: [],
+      aiSpend: null,
 
       updateSessionStats: (stats) =>
         set((state) => ({
@@ -222,6 +278,21 @@ export const useAnalyticsStore = create<AnalyticsState>()(
           },
         }));
       },
+
+      loadAiSpend: async () => {
+        const rows = await fetchJobSpend();
+        const sessionStart = new Date(get().sessionStats.startedAt).getTime();
+        const sessionRows = rows.filter((row) => new Date(row.createdAt).getTime() >= sessionStart);
+
+        set((state) => ({
+          aiSpend: summarizeSpend(rows),
+          sessionStats: {
+            ...state.sessionStats,
+            totalAiTokens: sessionRows.reduce((sum, row) => sum + row.tokens, 0),
+            totalAiCostUsd: sessionRows.reduce((sum, row) => sum + row.costUsd, 0),
+          },
+        }));
+      },
     }),
     {
       name: 'wp-optimizer-analytics',
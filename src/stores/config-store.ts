@@ -1,29 +1,96 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
-export type AIProvider = 'google' | 'openai' | 'anthropic' | 'groq' | 'openrouter';
+// 'custom' is any OpenAI-compatible server (Ollama, vLLM, LM Studio, Azure OpenAI);
+// 'mock' is the deterministic offline provider for demos and regression runs
+export type AIProvider = 'google' | 'openai' | 'anthropic' | 'groq' | 'openrouter' | 'custom' | 'mock';
 export type BrandVoice = 'professional' | 'casual' | 'technical' | 'friendly' | 'authoritative';
 export type OptimizationMode = 'surgical' | 'full_rewrite';
+// How content is written to WordPress: one inline-styled Classic block, class
+// names styled by the site's design tokens, or native editor blocks
+export type ContentFormat = 'classic' | 'themed' | 'blocks';
+
+// Brand look for the 'themed' format; fonts left as 'inherit' follow the theme
+export interface DesignTokens {
+  primaryColor: string;
+  textColor: string;
+  headingFont: string;
+  bodyFont: string;
+  radius: number;
+}
+
+export const DEFAULT_DESIGN_TOKENS: DesignTokens = {
+  primaryColor: '#6366f1',
+  textColor: '#1f2937',
+  headingFont: 'inherit',
+  bodyFont: 'inherit',
+  radius: 12,
+};
+
+// A secret saved in the server-side credential vault. The store keeps the id
+// and the last few characters; the secret itself never reaches localStorage.
+export interface CredentialRef {
+  id: string;
+  hint: string;
+}
+
+// A post type the site exposes over REST, as discovered by validate-wordpress
+export interface WordPressPostType {
+  slug: string;
+  name: string;
+  restBase: string;
+}
 
 interface WordPressConfig {
   siteId?: string;
+  siteName?: string;
   siteUrl: string;
   username: string;
+  // Typed into the form and sent once to validate-wordpress, which vaults it
   applicationPassword: string;
+  passwordCredential?: CredentialRef;
   isConnected: boolean;
   lastConnectedAt?: string;
+  postTypes?: WordPressPostType[];
+  // Site timezone from the REST index; scheduled publish times are in site time
+  gmtOffset?: number;
+  timezone?: string;
+  contentFormat?: ContentFormat;
+  designTokens?: DesignTokens;
 }
 
-interface AIConfig {
+export interface AIFallbackProvider {
   provider: AIProvider;
+  // Typed but not yet validated; validation moves it into the vault
   apiKey: string;
+  apiKeyCredential?: CredentialRef;
   model: string;
+  // Custom provider only: server base URL, extra request headers and the
+  // header that carries the key (Bearer auth when unset)
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  apiKeyHeader?: string;
+}
+
+export interface AIConfig {
+  provider: AIProvider;
+  apiKey: string;
+  apiKeyCredential?: CredentialRef;
+  model: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  apiKeyHeader?: string;
+  // Tried in order when the primary provider times out, rate-limits, refuses
+  // or returns unusable output
+  fallbacks?: AIFallbackProvider[];
   serperApiKey?: string;
+  serperCredential?: CredentialRef;
 }
 
 interface NeuronWriterConfig {
   enabled: boolean;
   apiKey: string;
+  apiKeyCredential?: CredentialRef;
   isValidated: boolean;
   selectedProjectId?: string;
   selectedProjectName?: string;
@@ -62,13 +129,23 @@ interface AdvancedSettings {
   delayBetweenJobs: number;
 }
 
-interface ConfigState {
+// Everything that differs from one client blog to the next. The top-level
+// slices of the same names are the active site's working copy: each change
+// is written back to its profile, and switching sites loads another profile.
+export interface SiteProfile {
   wordpress: WordPressConfig;
   ai: AIConfig;
-  neuronWriter: NeuronWriterConfig;
   siteContext: SiteContext;
   optimization: OptimizationSettings;
   advanced: AdvancedSettings;
+}
+
+interface ConfigState extends SiteProfile {
+  neuronWriter: NeuronWriterConfig;
+  // Workspace profiles keyed by wp_sites id; a site joins once it connects
+  sites: Record<string, SiteProfile>;
+  // Signed-in user the saved workspace belongs to
+  ownerId?: string;
   
   // Actions
   setWordPress: (config: Partial<WordPressConfig>) => void;
@@ -77,76 +154,207 @@ interface ConfigState {
   setSiteContext: (context: Partial<SiteContext>) => void;
   setOptimization: (settings: Partial<OptimizationSettings>) => void;
   setAdvanced: (settings: Partial<AdvancedSettings>) => void;
+  switchSite: (siteId: string, seed?: Pick<WordPressConfig, 'siteUrl' | 'username' | 'siteName'>) => void;
+  addSite: () => void;
+  bindOwner: (userId: string) => void;
   testConnection: () => Promise<boolean>;
 }
 
+// A provider entry is usable with a model plus a saved key - or, for custom
+// endpoints, a base URL (local servers usually have no key). The mock
+// provider only needs a model.
+export const isProviderConfigured = (entry: AIFallbackProvider): boolean => {
+  if (!entry.provider || !entry.model) return false;
+  if (entry.provider === 'mock') return true;
+  return Boolean(entry.provider === 'custom' ? entry.baseUrl : entry.apiKeyCredential);
+};
+
+// Edge functions that talk to WordPress take the vaulted password's id
+export const hasWordPressCredentials = (wordpress: WordPressConfig): boolean =>
+  Boolean(wordpress.siteUrl && wordpress.username && wordpress.passwordCredential);
+
+// Custom endpoint headers are saved in plain text, so credential-like ones
+// (Authorization, api-key, X-Auth-Token, ...) are neither saved nor sent; the
+// key belongs in the vaulted API key, sent in apiKeyHeader
+const SECRET_HEADER = /(^|[-_])(auth|authorization|key|apikey|token|secret|password|cookie)($|[-_])/i;
+
+export const isSecretHeader = (name: string): boolean => SECRET_HEADER.test(name.trim());
+
+const withoutSecretHeaders = (headers?: Record<string, string>): Record<string, string> | undefined =>
+  headers && Object.fromEntries(Object.entries(headers).filter(([name]) => !isSecretHeader(name)));
+
+// The aiConfig body optimize-content expects, or undefined when AI isn't set up
+export const buildAIConfigPayload = (ai: AIConfig) => {
+  if (!isProviderConfigured(ai)) return undefined;
+
+  const entry = ({ provider, apiKeyCredential, model, baseUrl, headers, apiKeyHeader }: AIFallbackProvider) => {
+    const apiKeyCredentialId = apiKeyCredential?.id;
+    return provider === 'custom'
+      ? { provider, apiKeyCredentialId, model, baseUrl, headers: withoutSecretHeaders(headers) || {}, apiKeyHeader }
+      : { provider, apiKeyCredentialId, model };
+  };
+
+  return {
+    ...entry(ai),
+    fallbacks: (ai.fallbacks || []).filter(isProviderConfigured).map(entry),
+  };
+};
+
+const DEFAULT_PROFILE: SiteProfile = {
+  wordpress: {
+    siteId: undefined,
+    siteUrl: '',
+    username: '',
+    applicationPassword: '',
+    isConnected: false,
+  },
+  ai: {
+    provider: 'google',
+    apiKey: '',
+    model: 'gemini-2.5-flash-preview-05-20',
+    fallbacks: [],
+  },
+  siteContext: {
+    organizationName: '',
+    authorName: '',
+    industry: '',
+    targetAudience: '',
+    brandVoice: 'professional',
+  },
+  optimization: {
+    mode: 'surgical',
+    preserveImages: true,
+    optimizeAltText: true,
+    preserveFeaturedImage: true,
+    preserveCategories: true,
+    preserveTags: true,
+    preserveSlug: true,
+  },
+  advanced: {
+    targetScore: 85,
+    minWordCount: 2000,
+    maxWordCount: 3000,
+    enableFaqs: true,
+    enableSchema: true,
+    enableInternalLinks: true,
+    enableToc: true,
+    enableKeyTakeaways: true,
+    enableCtas: true,
+    concurrentJobs: 3,
+    delayBetweenJobs: 2000,
+  },
+};
+
+// Version 1 state as it was saved, secrets included, kept under its own key
+// until vaultLegacySecrets has moved them to the server
+export const LEGACY_SECRETS_KEY = 'wp-optimizer-config-legacy';
+
+export type LegacySecrets = Partial<Pick<ConfigState, 'ownerId' | 'wordpress' | 'ai' | 'neuronWriter' | 'sites'>>;
+
+const profileOf = (state: SiteProfile): SiteProfile => ({
+  wordpress: state.wordpress,
+  ai: state.ai,
+  siteContext: state.siteContext,
+  optimization: state.optimization,
+  advanced: state.advanced,
+});
+
+// Typed secrets stay in memory until they are vaulted; only refs are saved
+const withoutSecrets = (profile: SiteProfile): SiteProfile => ({
+  ...profile,
+  wordpress: { ...profile.wordpress, applicationPassword: '' },
+  ai: {
+    ...profile.ai,
+    apiKey: '',
+    headers: withoutSecretHeaders(profile.ai.headers),
+    serperApiKey: undefined,
+    fallbacks: profile.ai.fallbacks?.map(entry => ({ ...entry, apiKey: '', headers: withoutSecretHeaders(entry.headers) })),
+  },
+});
+
+// Applies changes to the working copy and saves it under the active site
+const withActiveProfile = (state: ConfigState, changes: Partial<SiteProfile>): Partial<ConfigState> => {
+  const profile = { ...profileOf(state), ...changes };
+  const siteId = profile.wordpress.siteId;
+  return siteId ? { ...changes, sites: { ...state.sites, [siteId]: profile } } : changes;
+};
+
+// A blank connection and site context; AI and optimization settings carry
+// over so a new client blog doesn't start from scratch
+const newSiteProfile = (state: ConfigState): SiteProfile => ({
+  ...profileOf(state),
+  wordpress: DEFAULT_PROFILE.wordpress,
+  siteContext: DEFAULT_PROFILE.siteContext,
+});
+
 export const useConfigStore = create<ConfigState>()(
   persist(
     (set, get) => ({
-      wordpress: {
-        siteId: undefined,
-        siteUrl: '',
-        username: '',
-        applicationPassword: '',
-        isConnected: false,
-      },
-      ai: {
-        provider: 'google',
-        apiKey: '',
-        model: 'gemini-2.5-flash-preview-05-20',
-      },
+      ...DEFAULT_PROFILE,
       neuronWriter: {
         enabled: false,
         apiKey: '',
         isValidated: false,
       },
-      siteContext: {
-        organizationName: '',
-        authorName: '',
-        industry: '',
-        targetAudience: '',
-        brandVoice: 'professional',
-      },
-      optimization: {
-        mode: 'surgical',
-        preserveImages: true,
-        optimizeAltText: true,
-        preserveFeaturedImage: true,
-        preserveCategories: true,
-        preserveTags: true,
-        preserveSlug: true,
-      },
-      advanced: {
-        targetScore: 85,
-        minWordCount: 2000,
-        maxWordCount: 3000,
-        enableFaqs: true,
-        enableSchema: true,
-        enableInternalLinks: true,
-        enableToc: true,
-        enableKeyTakeaways: true,
-        enableCtas: true,
-        concurrentJobs: 3,
-        delayBetweenJobs: 2000,
-      },
+      sites: {},
 
       setWordPress: (config) =>
-        set((state) => ({ wordpress: { ...state.wordpress, ...config } })),
+        set((state) => {
+          const next = withActiveProfile(state, { wordpress: { ...state.wordpress, ...config } });
+          // Reconnecting under another URL moves the profile to that site's
+          // row; the old entry already holds the new URL and credentials
+          const previousId = state.wordpress.siteId;
+          if (next.sites && previousId && config.siteId && config.siteId !== previousId) {
+            next.sites = Object.fromEntries(Object.entries(next.sites).filter(([id]) => id !== previousId));
+          }
+          return next;
+        }),
       
       setAI: (config) =>
-        set((state) => ({ ai: { ...state.ai, ...config } })),
+        set((state) => withActiveProfile(state, { ai: { ...state.ai, ...config } })),
       
       setNeuronWriter: (config) =>
         set((state) => ({ neuronWriter: { ...state.neuronWriter, ...config } })),
       
       setSiteContext: (context) =>
-        set((state) => ({ siteContext: { ...state.siteContext, ...context } })),
+        set((state) => withActiveProfile(state, { siteContext: { ...state.siteContext, ...context } })),
       
       setOptimization: (settings) =>
-        set((state) => ({ optimization: { ...state.optimization, ...settings } })),
+        set((state) => withActiveProfile(state, { optimization: { ...state.optimization, ...settings } })),
       
       setAdvanced: (settings) =>
-        set((state) => ({ advanced: { ...state.advanced, ...settings } })),
+        set((state) => withActiveProfile(state, { advanced: { ...state.advanced, ...settings } })),
+
+      // A site known to the database but not to this browser starts from the
+      // active site's AI and optimization settings, with its URL and username
+      // filled in; the application password has to be entered again
+      switchSite: (siteId, seed) =>
+        set((state) => {
+          if (siteId === state.wordpress.siteId) return {};
+          const profile = state.sites[siteId];
+          if (profile) return { ...profile };
+          if (!seed) return {};
+          return withActiveProfile(state, {
+            ...newSiteProfile(state),
+            wordpress: { ...DEFAULT_PROFILE.wordpress, ...seed, siteId },
+          });
+        }),
+
+      addSite: () => set((state) => newSiteProfile(state)),
+
+      // Credentials saved in this browser belong to whoever signed in; when
+      // someone else signs in they start from an empty workspace
+      bindOwner: (userId) =>
+        set((state) => {
+          if (state.ownerId === userId) return {};
+          if (!state.ownerId) return { ownerId: userId };
+          return {
+            ...DEFAULT_PROFILE,
+            neuronWriter: { enabled: false, apiKey: '', isValidated: false },
+            sites: {},
+            ownerId: userId,
+          };
+        }),
 
       testConnection: async () => {
         // This method is deprecated - use the WordPressConnection component
@@ -156,6 +364,29 @@ export const useConfigStore = create<ConfigState>()(
     }),
     {
       name: 'wp-optimizer-config',
+      version: 2,
+      partialize: (state) => ({
+        ...state,
+        ...withoutSecrets(profileOf(state)),
+        neuronWriter: { ...state.neuronWriter, apiKey: '' },
+        sites: Object.fromEntries(Object.entries(state.sites).map(([id, profile]) => [id, withoutSecrets(profile)])),
+      }),
+      // Version 0 kept one site; a connected one becomes the first profile.
+      // Version 1 saved secrets in plain text. The store saves itself without
+      // them right after hydrating, before anyone may have signed in, so they
+      // are copied aside first; vaultLegacySecrets uploads and then drops them.
+      migrate: (persisted, version) => {
+        const state = persisted as ConfigState;
+        if (version < 1 && state?.wordpress?.siteId) {
+          state.sites = { [state.wordpress.siteId]: profileOf(state) };
+        }
+        if (version < 2 && state && !localStorage.getItem(LEGACY_SECRETS_KEY)) {
+          const { ownerId, wordpress, ai, neuronWriter, sites } = state;
+          const legacy: LegacySecrets = { ownerId, wordpress, ai, neuronWriter, sites };
+          localStorage.setItem(LEGACY_SECRETS_KEY, JSON.stringify(legacy));
+        }
+        return state;
+      },
     }
   )
 );
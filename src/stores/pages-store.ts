@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
-export type PageStatus = 'pending' | 'analyzing' | 'optimizing' | 'completed' | 'failed' | 'skipped';
+export type PageStatus = 'pending' | 'analyzing' | 'optimizing' | 'completed' | 'scheduled' | 'failed' | 'skipped';
 
 export interface QualityScore {
   overall: number;
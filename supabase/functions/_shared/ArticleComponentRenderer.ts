@@ -0,0 +1,394 @@
+// ============================================================================
+// ARTICLE COMPONENT RENDERER
+// ============================================================================
+// WordPress output for every ArticleComponent the pipeline produces (see
+// pipeline-types.ts), in each content format:
+//   classic - wpo-* markup with the classes written out as inline styles
+//   themed  - the same markup with its classes, styled by the token stylesheet
+//   blocks  - the same structure as group/list/table/embed blocks
+// The React preview (src/components/shared/ArticleComponentPreview.tsx)
+// renders the same components with the same structure and labels; a new
+// component type needs a case in both.
+// ============================================================================
+
+import type {
+  ArticleComponent,
+  CalloutBlock,
+  ChecklistBlock,
+  ChecklistItem,
+  ComparisonTableBlock,
+  ConclusionBlock,
+  CtaBlock,
+  DoAvoidBlock,
+  DoAvoidItem,
+  FaqBlock,
+  HeadingBlock,
+  KeyTakeawaysBlock,
+  QuoteBlock,
+  TldrBlock,
+  VideoBlock,
+} from './pipeline-types.ts';
+import type { ContentFormat } from './WordPressContentRenderer.ts';
+import { embedBlock, groupBlock, htmlToBlocks } from './GutenbergBlockRenderer.ts';
+import { inlineThemeStyles } from './ThemedContentRenderer.ts';
+import { escapeHtml } from './utils.ts';
+
+// A component as a tree of class-named wrappers around HTML. `name` is the
+// theme-facing class the blocks format puts on the group.
+interface Markup {
+  tag?: string;
+  className: string;
+  name: string;
+  parts: Part[];
+}
+
+// Parts that need a dedicated block (embeds) carry both renderings
+type Part = string | Markup | { html: string; blocks: string };
+
+type Rendered = string | Markup;
+
+const CALLOUT_ICONS: Record<CalloutBlock['style'], string> = {
+  info: 'ℹ️',
+  warning: '⚠️',
+  success: '✅',
+  error: '⛔',
+  tip: '💡',
+};
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+function isMarkup(part: Part): part is Markup {
+  return typeof part === 'object' && 'parts' in part;
+}
+
+function toHtml(markup: Markup, root: boolean): string {
+  const tag = markup.tag || 'div';
+  const className = root ? `wpo ${markup.className}` : markup.className;
+  const inner = markup.parts
+    .map(part => (typeof part === 'string' ? part : isMarkup(part) ? toHtml(part, false) : part.html))
+    .join('\n');
+  return `<${tag} class="${className}">\n${inner}\n</${tag}>`;
+}
+
+// Blocks carry their own styling (the group className), so the wpo classes
+// that only the themed stylesheet targets are dropped from the block markup
+function withoutThemeClasses(html: string): string {
+  return html.replace(/\sclass="([^"]*)"/g, (attribute, classes: string) => {
+    if (!/\bwpo/.test(classes)) return attribute;
+    const rest = classes.split(/\s+/).filter(name => name && !name.startsWith('wpo'));
+    return rest.length > 0 ? ` class="${rest.join(' ')}"` : '';
+  });
+}
+
+function toBlocks(rendered: Rendered): string {
+  if (typeof rendered === 'string') return htmlToBlocks(withoutThemeClasses(rendered));
+  return groupBlock(
+    rendered.name,
+    rendered.parts.map(part => (typeof part === 'string' ? toBlocks(part) : isMarkup(part) ? toBlocks(part) : part.blocks))
+  );
+}
+
+function boxTitle(text: string, icon?: string, tag = 'h3'): string {
+  return `<${tag} class="wpo-box-title">${icon ? `${icon} ` : ''}${escapeHtml(text)}</${tag}>`;
+}
+
+function itemList(items: string[], marker: string | ((index: number) => string), ordered = false): string {
+  const tag = ordered ? 'ol' : 'ul';
+  const markerFor = typeof marker === 'string' ? () => marker : marker;
+  const rows = items.map((item, i) => `<li class="wpo-item"><span class="wpo-marker">${markerFor(i)}</span><span>${item}</span></li>`);
+  return `<${tag} class="wpo-list">${rows.join('')}</${tag}>`;
+}
+
+// ============================================================================
+// COMPONENT RENDERERS
+// ============================================================================
+
+function renderHeading(block: HeadingBlock): string {
+  const level = Math.min(Math.max(block.level || 2, 2), 4);
+  const id = block.slug ? ` id="${escapeHtml(block.slug)}"` : '';
+  const className = level === 2 ? ' class="wpo-heading"' : '';
+  return `<h${level}${id}${className}>${escapeHtml(block.text)}</h${level}>`;
+}
+
+function renderTldr(block: TldrBlock): Markup {
+  const bullets = block.bullets.filter(Boolean);
+  return {
+    className: 'wpo-box wpo-tldr',
+    name: 'tldr',
+    parts: [
+      boxTitle(block.title || 'TL;DR', '⚡', 'p'),
+      bullets.length === 1
+        ? `<p class="wpo-text">${escapeHtml(bullets[0])}</p>`
+        : itemList(bullets.map(escapeHtml), '•'),
+    ],
+  };
+}
+
+function renderKeyTakeaways(block: KeyTakeawaysBlock): Markup {
+  const items = block.items.map(item => item.title
+    ? `<strong>${escapeHtml(item.title)}:</strong> ${escapeHtml(item.description)}`
+    : escapeHtml(item.description));
+  return {
+    className: 'wpo-box wpo-takeaways',
+    name: 'key-takeaways',
+    parts: [boxTitle(block.title || 'Key Takeaways', '🎯'), itemList(items, '✓')],
+  };
+}
+
+function doAvoidColumn(kind: 'do' | 'avoid', items: DoAvoidItem[]): Markup {
+  const rows = items.map(item => `${escapeHtml(item.text)}${item.explanation ? `<span class="wpo-note">${escapeHtml(item.explanation)}</span>` : ''}`);
+  return {
+    className: `wpo-${kind}`,
+    name: kind,
+    parts: [
+      `<h4 class="wpo-subtitle">${kind === 'do' ? '✅ Do' : '❌ Avoid'}</h4>`,
+      itemList(rows, kind === 'do' ? '✓' : '✗'),
+    ],
+  };
+}
+
+function renderDoAvoid(block: DoAvoidBlock): Markup {
+  const columns: Markup[] = [];
+  if (block.dos.length > 0) columns.push(doAvoidColumn('do', block.dos));
+  if (block.donts.length > 0) columns.push(doAvoidColumn('avoid', block.donts));
+  return {
+    className: 'wpo-box',
+    name: 'do-avoid',
+    parts: [
+      boxTitle(block.title || 'Do & Avoid', block.icon || '⚖️'),
+      { className: 'wpo-columns', name: 'do-avoid-columns', parts: columns },
+    ],
+  };
+}
+
+function checklistRows(items: ChecklistItem[], nested: boolean): string {
+  const rows = items.map((item) => {
+    const subItems = item.subItems && item.subItems.length > 0 ? checklistRows(item.subItems, true) : '';
+    return `<li class="wpo-item"><span class="wpo-marker">${item.checked ? '☑' : '☐'}</span><span>${escapeHtml(item.text)}${subItems}</span></li>`;
+  });
+  return `<ul class="${nested ? 'wpo-sublist' : 'wpo-list'}">${rows.join('')}</ul>`;
+}
+
+function renderChecklist(block: ChecklistBlock): Markup {
+  return {
+    className: 'wpo-box',
+    name: 'checklist',
+    parts: [boxTitle(block.title || 'Checklist', '📋'), checklistRows(block.items, false)],
+  };
+}
+
+function renderCallout(block: CalloutBlock): Markup {
+  const style = CALLOUT_ICONS[block.style] ? block.style : 'info';
+  const parts: Part[] = [];
+  if (block.title) parts.push(boxTitle(block.title, block.icon || CALLOUT_ICONS[style], 'p'));
+  parts.push(`<p class="wpo-text">${escapeHtml(block.content)}</p>`);
+  if (block.cta?.text) {
+    parts.push(`<p class="wpo-text"><a class="wpo-link" href="${escapeHtml(block.cta.href || '#')}">${escapeHtml(block.cta.text)} →</a></p>`);
+  }
+  return { className: `wpo-box wpo-callout wpo-callout-${style}`, name: `callout callout-${style}`, parts };
+}
+
+function renderQuote(block: QuoteBlock): Markup {
+  const citation = block.author
+    ? `<footer><cite class="wpo-quote-cite">${escapeHtml(block.author)}</cite>${block.source ? ` <span class="wpo-note">${escapeHtml(block.source)}</span>` : ''}</footer>`
+    : '';
+  // Blocks get a real quote block inside the group
+  return {
+    tag: 'blockquote',
+    className: 'wpo-quote',
+    name: 'quote',
+    parts: [{
+      html: `<p class="wpo-quote-text">${escapeHtml(block.text)}</p>${citation}`,
+      blocks: htmlToBlocks(`<blockquote><p>${escapeHtml(block.text)}</p>${block.author ? `<cite>${escapeHtml(block.author)}${block.source ? `, ${escapeHtml(block.source)}` : ''}</cite>` : ''}</blockquote>`),
+    }],
+  };
+}
+
+interface ParsedVideo {
+  provider?: 'youtube' | 'vimeo';
+  embedUrl?: string;
+  timestampUrl: (seconds: number) => string;
+}
+
+function parseVideoUrl(url: string): ParsedVideo {
+  const youtube = url.match(/(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/)|youtu\.be\/)([\w-]{11})/);
+  if (youtube) {
+    return {
+      provider: 'youtube',
+      embedUrl: `https://www.youtube.com/embed/${youtube[1]}`,
+      timestampUrl: seconds => `https://www.youtube.com/watch?v=${youtube[1]}&t=${seconds}s`,
+    };
+  }
+  const vimeo = url.match(/vimeo\.com\/(?:video\/)?(\d+)/);
+  if (vimeo) {
+    return {
+      provider: 'vimeo',
+      embedUrl: `https://player.vimeo.com/video/${vimeo[1]}`,
+      timestampUrl: seconds => `https://vimeo.com/${vimeo[1]}#t=${seconds}s`,
+    };
+  }
+  return { timestampUrl: () => url };
+}
+
+function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+function renderVideo(block: VideoBlock): Markup | string {
+  if (!block.url) return '';
+  const video = parseVideoUrl(block.url);
+  const title = escapeHtml(block.title || 'Video');
+
+  const player = video.embedUrl
+    ? `<div class="wpo-embed"><iframe class="wpo-embed-frame" src="${escapeHtml(video.embedUrl)}" title="${title}" loading="lazy" allow="accelerometer; clipboard-write; encrypted-media; gyroscope; picture-in-picture" allowfullscreen></iframe></div>`
+    : `<p class="wpo-text"><a class="wpo-link" href="${escapeHtml(block.url)}">▶ ${title}</a></p>`;
+
+  const parts: Part[] = [
+    `<h3 class="wpo-subtitle">▶ ${title}</h3>`,
+    { html: player, blocks: embedBlock(block.url, video.provider) },
+  ];
+
+  const timestamps = (block.timestamps || []).filter(stamp => stamp.label);
+  if (timestamps.length > 0) {
+    parts.push(itemList(
+      timestamps.map(stamp => `<a class="wpo-link" href="${escapeHtml(video.timestampUrl(stamp.time))}">${escapeHtml(stamp.label)}</a>${stamp.description ? `<span class="wpo-note">${escapeHtml(stamp.description)}</span>` : ''}`),
+      i => formatTimestamp(timestamps[i].time)
+    ));
+  }
+
+  return { className: 'wpo-video', name: 'video', parts };
+}
+
+function renderFaq(block: FaqBlock): Markup | string {
+  if (block.items.length === 0) return '';
+  return {
+    className: 'wpo-faq',
+    name: 'faq',
+    parts: [
+      `<h2 class="wpo-heading">${escapeHtml(block.title || 'Frequently Asked Questions')}</h2>`,
+      ...block.items.map(item => `<details class="wpo-faq-item"><summary class="wpo-faq-question">${escapeHtml(item.question)}</summary><div class="wpo-faq-answer"><p>${escapeHtml(item.answer)}</p></div></details>`),
+    ],
+  };
+}
+
+function renderComparisonTable(block: ComparisonTableBlock): Markup | string {
+  if (block.rows.length === 0) return '';
+  const columns = Math.max(...block.rows.map(row => row.cells.length));
+  // Headers either name the feature column too or only the options
+  const headers = block.headers.length > columns ? block.headers : ['', ...block.headers];
+  const isBest = (column: number) => block.bestChoice === column;
+
+  const head = headers
+    .map((header, i) => `<th class="wpo-cell${i > 0 && isBest(i - 1) ? ' wpo-best' : ''}">${escapeHtml(header)}${i > 0 && isBest(i - 1) ? ' ⭐' : ''}</th>`)
+    .join('');
+  const body = block.rows.map((row) => {
+    const cells = row.cells.map((cell, i) => `<td class="wpo-cell${isBest(i) || row.highlight ? ' wpo-best' : ''}">${escapeHtml(cell)}</td>`);
+    return `<tr><th class="wpo-cell" scope="row">${escapeHtml(row.feature)}</th>${cells.join('')}</tr>`;
+  }).join('');
+
+  return {
+    className: 'wpo-table-wrap',
+    name: 'comparison-table',
+    parts: [
+      block.title ? `<h3 class="wpo-subtitle">${escapeHtml(block.title)}</h3>` : '',
+      `<table class="wpo-table"><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`,
+    ].filter(Boolean),
+  };
+}
+
+function renderConclusion(block: ConclusionBlock): Markup {
+  const parts: Part[] = [boxTitle('Conclusion', '📝')];
+  if (block.summary) parts.push(`<p class="wpo-text">${escapeHtml(block.summary)}</p>`);
+  if (block.keyPoints.length > 0) parts.push(itemList(block.keyPoints.map(escapeHtml), '✓'));
+  return { className: 'wpo-box wpo-conclusion', name: 'conclusion', parts };
+}
+
+function renderCta(block: CtaBlock): Markup {
+  const parts: Part[] = [];
+  if (block.title) parts.push(`<h3 class="wpo-subtitle">${escapeHtml(block.title)}</h3>`);
+  if (block.description) parts.push(`<p class="wpo-text">${escapeHtml(block.description)}</p>`);
+  if (block.buttonText) {
+    parts.push({
+      html: `<a class="wpo-button" href="${escapeHtml(block.buttonUrl || '#')}">${escapeHtml(block.buttonText)} →</a>`,
+      blocks: htmlToBlocks(`<p><a href="${escapeHtml(block.buttonUrl || '#')}">${escapeHtml(block.buttonText)} →</a></p>`),
+    });
+  }
+  return { className: 'wpo-box wpo-cta', name: 'cta', parts };
+}
+
+// Introduction and paragraph content is already HTML from the drafting stage
+function renderComponent(component: ArticleComponent): Rendered {
+  switch (component.type) {
+    case 'introduction':
+      return component.content || '';
+    case 'heading':
+      return renderHeading(component);
+    case 'paragraph':
+      return component.emphasis
+        ? { className: 'wpo-emphasis', name: 'emphasis', parts: [component.content] }
+        : component.content || '';
+    case 'tldr':
+      return component.bullets.length > 0 ? renderTldr(component) : '';
+    case 'key_takeaways':
+      return component.items.length > 0 ? renderKeyTakeaways(component) : '';
+    case 'do_avoid':
+      return component.dos.length + component.donts.length > 0 ? renderDoAvoid(component) : '';
+    case 'checklist':
+      return component.items.length > 0 ? renderChecklist(component) : '';
+    case 'callout':
+      return component.content ? renderCallout(component) : '';
+    case 'quote':
+      return component.text ? renderQuote(component) : '';
+    case 'video':
+      return renderVideo(component);
+    case 'faq':
+      return renderFaq(component);
+    case 'comparison_table':
+      return renderComparisonTable(component);
+    case 'conclusion':
+      return renderConclusion(component);
+    case 'cta':
+      return renderCta(component);
+    default:
+      console.warn(`[ArticleRenderer] Unknown component type "${(component as { type: string }).type}"`);
+      return '';
+  }
+}
+
+// ============================================================================
+// MAIN RENDERER
+// ============================================================================
+
+/** One component on its own, e.g. for inserting into an existing post */
+export function renderArticleComponent(component: ArticleComponent, format: ContentFormat = 'classic'): string {
+  const rendered = renderComponent(component);
+  if (!rendered) return '';
+  if (format === 'blocks') return toBlocks(rendered);
+  const html = typeof rendered === 'string' ? rendered : toHtml(rendered, true);
+  return format === 'themed' ? html : inlineThemeStyles(html);
+}
+
+/** The whole article, in component order */
+export function renderArticleComponents(components: ArticleComponent[], format: ContentFormat = 'classic'): string {
+  const rendered: Rendered[] = [];
+  for (const component of [...components].sort((a, b) => a.order - b.order)) {
+    try {
+      const output = renderComponent(component);
+      if (output) rendered.push(output);
+    } catch (error) {
+      console.error(`[ArticleRenderer] Error rendering component "${component.id}" (${component.type}):`, error);
+    }
+  }
+
+  if (format === 'blocks') return rendered.map(toBlocks).filter(Boolean).join('\n\n');
+
+  const body = rendered.map(item => (typeof item === 'string' ? item : toHtml(item, false))).join('\n\n');
+  const html = `<article class="wpo wpo-article">\n${body}\n</article>`;
+  return format === 'themed' ? html : inlineThemeStyles(html);
+}
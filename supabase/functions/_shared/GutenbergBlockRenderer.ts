@@ -0,0 +1,482 @@
+// ============================================================================
+// GUTENBERG BLOCK RENDERER
+// ============================================================================
+// Alternate output for WordPressContentRenderer: serialized block markup
+// (<!-- wp:heading --> ... <!-- /wp:heading -->) instead of one inline-styled
+// <article>, so the block editor opens every section as a native block that
+// editors can keep working on. Styling is left to the theme; the group
+// blocks carry class names (tldr, key-takeaways, faq, ...) to hook into.
+//
+// htmlToBlocks does the same for arbitrary HTML (AI-written content, classic
+// posts) and is what publish-to-wordpress runs for sites set to blocks.
+// ============================================================================
+
+import type { BlogPost, BlogSection } from './WordPressContentRenderer.ts';
+import { escapeHtml } from './utils.ts';
+
+// Top-level tags that are phrasing content and belong inside a paragraph
+const INLINE_ELEMENTS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'cite', 'code', 'data', 'dfn', 'em', 'i', 'kbd', 'mark',
+  'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'wbr',
+]);
+
+const VOID_ELEMENTS = new Set(['area', 'br', 'embed', 'hr', 'img', 'input', 'source', 'wbr']);
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+// Same escaping as WordPress's serialize_block_attributes, so the comment
+// delimiter can never be closed early by an attribute value
+function serializeAttributes(attrs?: Record<string, unknown>): string {
+  if (!attrs || Object.keys(attrs).length === 0) return '';
+  const json = JSON.stringify(attrs)
+    .replace(/--/g, '\\u002d\\u002d')
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\\"/g, '\\u0022');
+  return ` ${json}`;
+}
+
+function block(name: string, inner: string, attrs?: Record<string, unknown>): string {
+  return `<!-- wp:${name}${serializeAttributes(attrs)} -->\n${inner}\n<!-- /wp:${name} -->`;
+}
+
+function paragraphBlock(innerHtml: string): string {
+  return block('paragraph', `<p>${innerHtml}</p>`);
+}
+
+function headingBlock(innerHtml: string, level = 2, id?: string): string {
+  const tag = `h${Math.min(Math.max(level, 1), 6)}`;
+  const anchor = id ? ` id="${escapeHtml(id)}"` : '';
+  return block(
+    'heading',
+    `<${tag} class="wp-block-heading"${anchor}>${innerHtml}</${tag}>`,
+    level === 2 ? undefined : { level }
+  );
+}
+
+function listBlock(itemsHtml: string[], ordered = false): string {
+  const tag = ordered ? 'ol' : 'ul';
+  const items = itemsHtml.map(item => block('list-item', `<li>${item}</li>`)).join('\n');
+  return block('list', `<${tag} class="wp-block-list">${items}</${tag}>`, ordered ? { ordered: true } : undefined);
+}
+
+function quoteBlock(innerBlocks: string, citationHtml?: string): string {
+  const citation = citationHtml ? `<cite>${citationHtml}</cite>` : '';
+  return block('quote', `<blockquote class="wp-block-quote">${innerBlocks}${citation}</blockquote>`);
+}
+
+function detailsBlock(summaryHtml: string, innerBlocks: string): string {
+  return block('details', `<details class="wp-block-details"><summary>${summaryHtml}</summary>${innerBlocks}</details>`);
+}
+
+export function groupBlock(className: string, innerBlocks: string[]): string {
+  return block(
+    'group',
+    `<div class="wp-block-group ${className}">${innerBlocks.join('\n\n')}</div>`,
+    { className, layout: { type: 'constrained' } }
+  );
+}
+
+function buttonsBlock(text: string, link: string): string {
+  const button = block(
+    'button',
+    `<div class="wp-block-button"><a class="wp-block-button__link wp-element-button" href="${escapeHtml(link)}">${escapeHtml(text)}</a></div>`
+  );
+  return block('buttons', `<div class="wp-block-buttons">${button}</div>`);
+}
+
+// The table block reads rows from thead/tbody/tfoot, so bare rows get a tbody
+function tableBlock(tableInner: string): string {
+  const rows = /<t(head|body|foot)\b/i.test(tableInner) ? tableInner : `<tbody>${tableInner}</tbody>`;
+  return block('table', `<figure class="wp-block-table"><table>${rows}</table></figure>`, { hasFixedLayout: false });
+}
+
+function imageBlock(imgHtml: string, captionHtml?: string): string {
+  const caption = captionHtml ? `<figcaption class="wp-element-caption">${captionHtml}</figcaption>` : '';
+  return block('image', `<figure class="wp-block-image">${imgHtml}${caption}</figure>`);
+}
+
+function htmlBlock(html: string): string {
+  return block('html', html);
+}
+
+// WordPress resolves the URL through oEmbed when the post is rendered
+export function embedBlock(url: string, providerSlug?: string): string {
+  const provider = providerSlug ? ` is-provider-${providerSlug} wp-block-embed-${providerSlug}` : '';
+  const attrs: Record<string, unknown> = { url, type: 'video', responsive: true, className: 'wp-embed-aspect-16-9 wp-has-aspect-ratio' };
+  if (providerSlug) attrs.providerNameSlug = providerSlug;
+  return block(
+    'embed',
+    `<figure class="wp-block-embed is-type-video${provider} wp-embed-aspect-16-9 wp-has-aspect-ratio"><div class="wp-block-embed__wrapper">\n${escapeHtml(url)}\n</div></figure>`,
+    attrs
+  );
+}
+
+// ============================================================================
+// SECTION RENDERERS
+// ============================================================================
+
+export function renderTakeawaysBlock(items: string[]): string {
+  if (!Array.isArray(items) || items.length === 0) return '';
+  return groupBlock('key-takeaways', [
+    headingBlock('Key Takeaways', 3),
+    listBlock(items.map(escapeHtml)),
+  ]);
+}
+
+export function renderFAQBlock(items: Array<{ question: string; answer: string }>): string {
+  if (!Array.isArray(items) || items.length === 0) return '';
+  return groupBlock('faq', [
+    headingBlock('Frequently Asked Questions', 2),
+    ...items.map(item => detailsBlock(escapeHtml(item.question), paragraphBlock(escapeHtml(item.answer)))),
+  ]);
+}
+
+// anchorIds override the default section-N targets, like renderTableOfContents
+export function renderTableOfContentsBlock(sections: BlogSection[], anchorIds: string[] = []): string {
+  const headings = sections.filter(s => s.type === 'heading' && s.content);
+  if (headings.length === 0) return '';
+
+  const links = headings.map((h, i) =>
+    `<a href="#${escapeHtml(anchorIds[i] || `section-${i + 1}`)}">${escapeHtml(h.content || '')}</a>`
+  );
+  return groupBlock('table-of-contents', [
+    headingBlock('Table of Contents', 3),
+    listBlock(links, true),
+  ]);
+}
+
+function renderQuoteBlock(data: { text: string; author?: string; source?: string }): string {
+  if (!data || !data.text) return '';
+  const citation = data.author
+    ? `${escapeHtml(data.author)}${data.source ? `, ${escapeHtml(data.source)}` : ''}`
+    : undefined;
+  return quoteBlock(paragraphBlock(escapeHtml(data.text)), citation);
+}
+
+function renderCTABlock(data: { title?: string; description?: string; buttonText?: string; buttonLink?: string }): string {
+  if (!data) return '';
+  const inner: string[] = [];
+  if (data.title) inner.push(headingBlock(escapeHtml(data.title), 3));
+  if (data.description) inner.push(paragraphBlock(escapeHtml(data.description)));
+  if (data.buttonText) inner.push(buttonsBlock(data.buttonText, data.buttonLink || '#'));
+  return inner.length > 0 ? groupBlock('cta', inner) : '';
+}
+
+function renderImageSection(section: BlogSection): string {
+  const data = section.data || {};
+  const src = data.src || data.url;
+  if (!src) return section.content ? paragraphBlock(escapeHtml(section.content)) : '';
+  return imageBlock(
+    `<img src="${escapeHtml(src)}" alt="${escapeHtml(data.alt || '')}"/>`,
+    data.caption ? escapeHtml(data.caption) : undefined
+  );
+}
+
+// ============================================================================
+// MAIN RENDERER
+// ============================================================================
+
+export function renderBlogPostToBlocks(blogPost: BlogPost): string {
+  if (!blogPost || !blogPost.sections || !Array.isArray(blogPost.sections)) {
+    console.error('[GutenbergRenderer] Invalid blog post structure');
+    return paragraphBlock('Content could not be rendered.');
+  }
+
+  const blocks: string[] = [];
+  let headingIndex = 0;
+  let hasToc = false;
+
+  // Same rule as the classic renderer: a TOC once there are 3+ headings
+  const headingCount = blogPost.sections.filter(s => s.type === 'heading').length;
+  const shouldAddToc = headingCount >= 3;
+
+  for (const section of blogPost.sections) {
+    try {
+      switch (section.type) {
+        case 'tldr':
+          blocks.push(groupBlock('tldr', [headingBlock('TL;DR', 3), paragraphBlock(escapeHtml(section.content || ''))]));
+          if (shouldAddToc && !hasToc) {
+            blocks.push(renderTableOfContentsBlock(blogPost.sections));
+            hasToc = true;
+          }
+          break;
+
+        case 'takeaways':
+          blocks.push(renderTakeawaysBlock(section.data || []));
+          break;
+
+        case 'heading':
+          headingIndex++;
+          blocks.push(headingBlock(escapeHtml(section.content || ''), 2, `section-${headingIndex}`));
+          break;
+
+        case 'paragraph':
+          blocks.push(paragraphBlock(escapeHtml(section.content || '')));
+          break;
+
+        case 'quote':
+          blocks.push(renderQuoteBlock(section.data || { text: section.content || '' }));
+          break;
+
+        case 'cta':
+          blocks.push(renderCTABlock(section.data || {}));
+          break;
+
+        case 'summary':
+          blocks.push(groupBlock('summary', [headingBlock('Summary', 3), paragraphBlock(escapeHtml(section.content || ''))]));
+          break;
+
+        case 'faq':
+          blocks.push(renderFAQBlock(section.data || []));
+          break;
+
+        case 'list':
+          blocks.push(Array.isArray(section.data) && section.data.length > 0 ? listBlock(section.data.map(escapeHtml)) : '');
+          break;
+
+        case 'toc':
+          if (!hasToc) {
+            blocks.push(renderTableOfContentsBlock(blogPost.sections));
+            hasToc = true;
+          }
+          break;
+
+        case 'image':
+          blocks.push(renderImageSection(section));
+          break;
+
+        default:
+          if (section.content) {
+            blocks.push(paragraphBlock(escapeHtml(section.content)));
+          }
+      }
+    } catch (error) {
+      console.error(`[GutenbergRenderer] Error rendering section type "${section.type}":`, error);
+    }
+  }
+
+  return blocks.filter(Boolean).join('\n\n');
+}
+
+// ============================================================================
+// HTML → BLOCKS
+// ============================================================================
+
+interface TopLevelNode {
+  kind: 'block' | 'element' | 'inline';
+  tag?: string;
+  html: string;
+}
+
+export function hasBlockMarkup(html: string): boolean {
+  return /<!--\s+wp:[a-z]/i.test(html);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+// Index just past the element that opens at `start`, counting nested
+// elements of the same tag
+function findElementEnd(html: string, start: number, tag: string): number {
+  const openTag = html.slice(start).match(/^<[^>]*>/);
+  if (!openTag) return html.length;
+  if (VOID_ELEMENTS.has(tag) || openTag[0].endsWith('/>')) return start + openTag[0].length;
+
+  const pattern = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+  pattern.lastIndex = start;
+  let depth = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return match.index + match[0].length;
+  }
+  return html.length;
+}
+
+// Index just past the serialized block that opens at `start`
+function findBlockEnd(html: string, start: number, name: string): number {
+  const opener = html.slice(start).match(/^<!--[\s\S]*?-->/);
+  if (!opener) return html.length;
+  if (/\/-->$/.test(opener[0])) return start + opener[0].length;
+
+  const pattern = new RegExp(`<!--\\s+(/)?wp:${escapeRegExp(name)}(?=[\\s/])[\\s\\S]*?(/)?-->`, 'g');
+  pattern.lastIndex = start;
+  let depth = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    if (match[2]) continue; // nested self-closing block of the same name
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return match.index + match[0].length;
+  }
+  return html.length;
+}
+
+function splitTopLevel(html: string): TopLevelNode[] {
+  const nodes: TopLevelNode[] = [];
+  let inline = '';
+  let i = 0;
+
+  const flushInline = () => {
+    if (inline.trim()) nodes.push({ kind: 'inline', html: inline.trim() });
+    inline = '';
+  };
+
+  while (i < html.length) {
+    if (html.startsWith('<!--', i)) {
+      const blockName = html.slice(i).match(/^<!--\s+wp:([a-z0-9/-]+)/i);
+      if (blockName) {
+        flushInline();
+        const end = findBlockEnd(html, i, blockName[1]);
+        nodes.push({ kind: 'block', html: html.slice(i, end) });
+        i = end;
+      } else {
+        // Plain HTML comments are dropped
+        const end = html.indexOf('-->', i);
+        i = end < 0 ? html.length : end + 3;
+      }
+      continue;
+    }
+
+    const tagMatch = html.slice(i).match(/^<([a-z][a-z0-9-]*)\b/i);
+    if (tagMatch) {
+      const tag = tagMatch[1].toLowerCase();
+      const end = findElementEnd(html, i, tag);
+      if (INLINE_ELEMENTS.has(tag)) {
+        inline += html.slice(i, end);
+      } else {
+        flushInline();
+        nodes.push({ kind: 'element', tag, html: html.slice(i, end) });
+      }
+      i = end;
+      continue;
+    }
+
+    if (html.startsWith('</', i)) {
+      // Stray closing tag
+      const end = html.indexOf('>', i);
+      i = end < 0 ? html.length : end + 1;
+      continue;
+    }
+
+    // Loose text; blank lines separate paragraphs, as wpautop would
+    let next = html.indexOf('<', i + 1);
+    if (next < 0) next = html.length;
+    const parts = html.slice(i, next).split(/\n\s*\n/);
+    parts.forEach((part, index) => {
+      if (index > 0) flushInline();
+      inline += part;
+    });
+    i = next;
+  }
+
+  flushInline();
+  return nodes;
+}
+
+function innerHtml(html: string, tag: string): string {
+  const open = html.match(/^<[^>]*>/)?.[0] || '';
+  const close = new RegExp(`</${tag}\\s*>$`, 'i');
+  return html.slice(open.length).replace(close, '').trim();
+}
+
+function getAttribute(openTag: string, name: string): string | null {
+  const match = openTag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i'));
+  return match ? (match[2] ?? match[3] ?? '') : null;
+}
+
+// Removes the first top-level <tag>…</tag> from html and returns both parts
+function extractChild(html: string, tag: string): { child: string | null; rest: string } {
+  const start = html.search(new RegExp(`<${tag}\\b`, 'i'));
+  if (start < 0) return { child: null, rest: html };
+  const end = findElementEnd(html, start, tag);
+  return {
+    child: innerHtml(html.slice(start, end), tag),
+    rest: (html.slice(0, start) + html.slice(end)).trim(),
+  };
+}
+
+function elementToBlock(tag: string, html: string): string {
+  const openTag = html.match(/^<[^>]*>/)?.[0] || '';
+  const inner = innerHtml(html, tag);
+
+  switch (tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return headingBlock(inner, Number(tag[1]), getAttribute(openTag, 'id') || undefined);
+
+    case 'p':
+      return inner ? paragraphBlock(inner) : '';
+
+    case 'ul':
+    case 'ol': {
+      const items = splitTopLevel(inner)
+        .filter(node => node.tag === 'li')
+        .map(node => innerHtml(node.html, 'li'));
+      return items.length > 0 ? listBlock(items, tag === 'ol') : htmlBlock(html);
+    }
+
+    case 'table':
+      return tableBlock(inner);
+
+    case 'figure': {
+      if (/<table\b/i.test(inner)) {
+        const { child } = extractChild(inner, 'table');
+        return child !== null ? tableBlock(child) : htmlBlock(html);
+      }
+      const img = inner.match(/<img\b[^>]*>/i)?.[0];
+      if (img) return imageBlock(img, extractChild(inner, 'figcaption').child || undefined);
+      return htmlBlock(html);
+    }
+
+    case 'img':
+      return imageBlock(html);
+
+    case 'blockquote': {
+      const { child: citation, rest } = extractChild(inner, 'cite');
+      return quoteBlock(htmlToBlocks(rest), citation || undefined);
+    }
+
+    case 'details': {
+      const { child: summary, rest } = extractChild(inner, 'summary');
+      return detailsBlock(summary || '', htmlToBlocks(rest));
+    }
+
+    case 'hr':
+      return block('separator', '<hr class="wp-block-separator has-alpha-channel-opacity"/>');
+
+    case 'pre':
+      return /^<code\b/i.test(inner)
+        ? block('code', `<pre class="wp-block-code">${inner}</pre>`)
+        : block('preformatted', `<pre class="wp-block-preformatted">${inner}</pre>`);
+
+    default:
+      // div, section, nav, iframe, script, ...: kept verbatim in a Custom HTML block
+      return htmlBlock(html);
+  }
+}
+
+/**
+ * Converts HTML into serialized blocks. Content that already is block markup
+ * passes through untouched, so running it twice changes nothing.
+ */
+export function htmlToBlocks(html: string): string {
+  if (!html || !html.trim()) return '';
+
+  return splitTopLevel(html)
+    .map(node => {
+      if (node.kind === 'block') return node.html;
+      if (node.kind === 'inline') return paragraphBlock(node.html);
+      return elementToBlock(node.tag || 'div', node.html);
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
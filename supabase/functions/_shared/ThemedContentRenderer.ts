@@ -0,0 +1,364 @@
+// ============================================================================
+// THEMED CONTENT RENDERER
+// ============================================================================
+// Alternate output for WordPressContentRenderer: the same components, marked
+// up with semantic wpo-* class names instead of inline styles. The look comes
+// from one stylesheet generated from the site's design tokens (primary color,
+// fonts, radius), which publish-to-wordpress embeds at the top of the post.
+// Fonts default to 'inherit', so out of the box the components take on the
+// client theme's typography instead of forcing Inter on it. The same class
+// map, written inline, is how ArticleComponentRenderer does classic output.
+// ============================================================================
+
+import type { BlogPost, BlogSection } from './WordPressContentRenderer.ts';
+import { escapeHtml } from './utils.ts';
+
+export interface DesignTokens {
+  primaryColor: string;
+  textColor: string;
+  headingFont: string;
+  bodyFont: string;
+  radius: number; // px
+}
+
+export const DEFAULT_DESIGN_TOKENS: DesignTokens = {
+  primaryColor: '#6366f1',
+  textColor: '#1f2937',
+  headingFont: 'inherit',
+  bodyFont: 'inherit',
+  radius: 12,
+};
+
+// What the classic format writes inline: the default palette with the Inter
+// stack the classic renderer has always used
+export const CLASSIC_DESIGN_TOKENS: DesignTokens = {
+  ...DEFAULT_DESIGN_TOKENS,
+  headingFont: "'Inter', 'Segoe UI', system-ui, -apple-system, sans-serif",
+  bodyFont: "'Inter', 'Segoe UI', system-ui, -apple-system, sans-serif",
+};
+
+// id of the embedded <style>, so a republish swaps it instead of stacking
+export const THEME_STYLE_ID = 'wpo-theme';
+
+const MAX_RADIUS = 32;
+
+// ============================================================================
+// DESIGN TOKENS
+// ============================================================================
+
+function normalizeColor(value: unknown, fallback: string): string {
+  if (typeof value !== 'string') return fallback;
+  const color = value.trim().toLowerCase();
+  return /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/.test(color) ? color : fallback;
+}
+
+// Font stacks end up inside CSS, so only names, quotes, commas and dashes get through
+function normalizeFont(value: unknown, fallback: string): string {
+  if (typeof value !== 'string') return fallback;
+  const font = value.replace(/[^\w\s,'"-]/g, '').replace(/\s+/g, ' ').trim();
+  return font || fallback;
+}
+
+export function normalizeDesignTokens(input?: Partial<DesignTokens> | null): DesignTokens {
+  const tokens = input || {};
+  const radius = Number(tokens.radius);
+  return {
+    primaryColor: normalizeColor(tokens.primaryColor, DEFAULT_DESIGN_TOKENS.primaryColor),
+    textColor: normalizeColor(tokens.textColor, DEFAULT_DESIGN_TOKENS.textColor),
+    headingFont: normalizeFont(tokens.headingFont, DEFAULT_DESIGN_TOKENS.headingFont),
+    bodyFont: normalizeFont(tokens.bodyFont, DEFAULT_DESIGN_TOKENS.bodyFont),
+    radius: Number.isFinite(radius) ? Math.min(Math.max(Math.round(radius), 0), MAX_RADIUS) : DEFAULT_DESIGN_TOKENS.radius,
+  };
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+// One rule per class, never a descendant selector: the same map becomes the
+// themed stylesheet and, resolved against fixed values, the inline styles of
+// the classic format (see inlineThemeStyles).
+
+const ROOT_STYLE = 'color: var(--wpo-text); font-family: var(--wpo-body-font); line-height: 1.7;';
+
+export const COMPONENT_STYLES: Record<string, string> = {
+  'wpo-article': 'max-width: 800px; margin: 0 auto;',
+  'wpo-heading': 'font-family: var(--wpo-heading-font); color: var(--wpo-text); line-height: 1.3; margin: 2.5em 0 0.75em; padding-bottom: 0.4em; border-bottom: 3px solid var(--wpo-primary);',
+  'wpo-box': 'margin: 2em 0; padding: 1.5em 1.75em; border-radius: var(--wpo-radius); border: 1px solid var(--wpo-border); background: var(--wpo-tint);',
+  'wpo-box-title': 'display: flex; align-items: center; gap: 0.5em; margin: 0 0 0.75em; font-family: var(--wpo-heading-font); font-size: 1.1em; font-weight: 700; text-transform: uppercase; letter-spacing: 0.04em; color: inherit;',
+  'wpo-subtitle': 'margin: 0 0 0.5em; font-family: var(--wpo-heading-font); font-size: 1em; font-weight: 700; color: inherit;',
+  'wpo-text': 'margin: 0 0 0.75em; color: inherit;',
+  'wpo-note': 'display: block; margin-top: 0.2em; color: var(--wpo-muted); font-size: 0.9em;',
+  'wpo-tldr': 'background: var(--wpo-primary); border-color: var(--wpo-primary); color: #fff;',
+  'wpo-takeaways': 'border-left: 4px solid var(--wpo-primary);',
+  'wpo-conclusion': 'border-top: 3px solid var(--wpo-primary);',
+  'wpo-emphasis': 'margin: 1.5em 0; padding-left: 1em; border-left: 3px solid var(--wpo-primary); font-size: 1.1em;',
+  'wpo-list': 'list-style: none; margin: 0; padding: 0;',
+  'wpo-sublist': 'list-style: none; margin: 0.4em 0 0 1.75em; padding: 0;',
+  'wpo-item': 'display: flex; align-items: flex-start; gap: 0.75em; padding: 0.5em 0; border-bottom: 1px solid var(--wpo-border);',
+  'wpo-marker': 'flex-shrink: 0; min-width: 1.25em; color: var(--wpo-primary); font-weight: 700;',
+  'wpo-link': 'color: var(--wpo-primary); font-weight: 600; text-decoration: none;',
+  'wpo-columns': 'display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 1.25em;',
+  'wpo-do': 'padding-top: 0.75em; border-top: 3px solid #10b981;',
+  'wpo-avoid': 'padding-top: 0.75em; border-top: 3px solid #ef4444;',
+  'wpo-callout': 'border-left-width: 4px;',
+  'wpo-callout-info': 'border-color: #3b82f6; background: color-mix(in srgb, #3b82f6 8%, transparent);',
+  'wpo-callout-warning': 'border-color: #f59e0b; background: color-mix(in srgb, #f59e0b 10%, transparent);',
+  'wpo-callout-success': 'border-color: #10b981; background: color-mix(in srgb, #10b981 8%, transparent);',
+  'wpo-callout-error': 'border-color: #ef4444; background: color-mix(in srgb, #ef4444 8%, transparent);',
+  'wpo-callout-tip': 'border-color: var(--wpo-primary);',
+  'wpo-quote': 'margin: 2em 0; padding: 1.25em 1.5em; border-left: 4px solid var(--wpo-primary); border-radius: 0 var(--wpo-radius) var(--wpo-radius) 0; background: var(--wpo-tint);',
+  'wpo-quote-text': 'margin: 0 0 0.5em; font-size: 1.15em; font-style: italic; color: inherit;',
+  'wpo-quote-cite': 'font-style: normal; font-weight: 600;',
+  'wpo-cta': 'text-align: center;',
+  'wpo-button': 'display: inline-block; padding: 0.75em 2em; border-radius: var(--wpo-radius); background: var(--wpo-primary); color: #fff; font-weight: 600; text-decoration: none;',
+  'wpo-faq': 'margin: 2em 0;',
+  'wpo-faq-item': 'margin-bottom: 0.75em; border: 1px solid var(--wpo-border); border-radius: var(--wpo-radius); overflow: hidden;',
+  'wpo-faq-question': 'padding: 1em 1.25em; cursor: pointer; font-family: var(--wpo-heading-font); font-weight: 600; background: var(--wpo-tint);',
+  'wpo-faq-answer': 'padding: 1em 1.25em; color: var(--wpo-muted);',
+  'wpo-table-wrap': 'margin: 2em 0; overflow-x: auto;',
+  'wpo-table': 'width: 100%; border-collapse: collapse;',
+  'wpo-cell': 'padding: 0.6em 0.8em; border-bottom: 1px solid var(--wpo-border); text-align: left;',
+  'wpo-best': 'background: var(--wpo-tint); font-weight: 600;',
+  'wpo-video': 'margin: 2em 0;',
+  'wpo-embed': 'position: relative; padding-top: 56.25%; border-radius: var(--wpo-radius); overflow: hidden;',
+  'wpo-embed-frame': 'position: absolute; top: 0; left: 0; width: 100%; height: 100%; border: 0;',
+};
+
+function tokenVariables(tokens: DesignTokens): Record<string, string> {
+  return {
+    'primary': tokens.primaryColor,
+    'text': tokens.textColor,
+    'muted': `color-mix(in srgb, ${tokens.textColor} 65%, transparent)`,
+    'tint': `color-mix(in srgb, ${tokens.primaryColor} 8%, transparent)`,
+    'border': `color-mix(in srgb, ${tokens.textColor} 15%, transparent)`,
+    'radius': `${tokens.radius}px`,
+    'heading-font': tokens.headingFont,
+    'body-font': tokens.bodyFont,
+  };
+}
+
+// Tints are mixed from the primary color, so one token recolors every component
+export function buildThemeStylesheet(input?: Partial<DesignTokens> | null): string {
+  const variables = Object.entries(tokenVariables(normalizeDesignTokens(input)))
+    .map(([name, value]) => `  --wpo-${name}: ${value};`)
+    .join('\n');
+  const rules = Object.entries(COMPONENT_STYLES)
+    .map(([className, declarations]) => `.${className} { ${declarations} }`)
+    .join('\n');
+  return `.wpo {\n${variables}\n  ${ROOT_STYLE}\n}\n${rules}\n`;
+}
+
+/**
+ * Classic output: swaps each wpo-* class for the inline style it stands for,
+ * with the tokens written in as literal values, so the markup looks the same
+ * without a stylesheet.
+ */
+export function inlineThemeStyles(html: string, input: Partial<DesignTokens> | null = CLASSIC_DESIGN_TOKENS): string {
+  const variables = tokenVariables(normalizeDesignTokens(input));
+  const resolve = (css: string) => css
+    .replace(/var\(--wpo-([a-z-]+)\)/g, (match, name: string) => variables[name] ?? match)
+    .replace(/"/g, "'");
+
+  return html.replace(/\sclass="([^"]*)"/g, (attribute, classes: string) => {
+    const names = classes.split(/\s+/).filter(Boolean);
+    const styles = names
+      .map(name => (name === 'wpo' ? ROOT_STYLE : COMPONENT_STYLES[name]))
+      .filter(Boolean)
+      .map(css => resolve(css as string));
+    if (styles.length === 0) return attribute;
+    const rest = names.filter(name => !name.startsWith('wpo'));
+    return `${rest.length > 0 ? ` class="${rest.join(' ')}"` : ''} style="${styles.join(' ')}"`;
+  });
+}
+
+export function hasThemeClasses(html: string): boolean {
+  return /\bclass="[^"]*\bwpo\b/.test(html || '');
+}
+
+/**
+ * Puts the token stylesheet in front of the content, replacing the one a
+ * previous publish left there. WordPress only keeps <style> in post content
+ * for users with the unfiltered_html capability (administrators and editors
+ * on single sites); for everyone else the classes fall back to the theme.
+ */
+export function embedThemeStylesheet(html: string, tokens?: Partial<DesignTokens> | null): string {
+  const stylePattern = new RegExp(`<style id="${THEME_STYLE_ID}">[\\s\\S]*?</style>\\s*`, 'g');
+  const content = (html || '').replace(stylePattern, '');
+  return `<style id="${THEME_STYLE_ID}">\n${buildThemeStylesheet(tokens)}</style>\n${content}`;
+}
+
+// ============================================================================
+// COMPONENT RENDERERS
+// ============================================================================
+
+function renderTLDRThemed(content: string): string {
+  return `
+<div class="wpo wpo-box wpo-tldr">
+  <p class="wpo-box-title">⚡ TL;DR</p>
+  <p class="wpo-text">${escapeHtml(content)}</p>
+</div>`;
+}
+
+export function renderTakeawaysThemed(items: string[]): string {
+  if (!Array.isArray(items) || items.length === 0) return '';
+
+  const takeawayItems = items.map(item => `
+    <li class="wpo-item"><span class="wpo-marker">✓</span><span>${escapeHtml(item)}</span></li>`).join('');
+
+  return `
+<div class="wpo wpo-box wpo-takeaways">
+  <h3 class="wpo-box-title">🎯 Key Takeaways</h3>
+  <ul class="wpo-list">${takeawayItems}
+  </ul>
+</div>`;
+}
+
+function renderQuoteThemed(data: { text: string; author?: string; source?: string }): string {
+  if (!data || !data.text) return '';
+
+  return `
+<blockquote class="wpo wpo-quote">
+  <p class="wpo-quote-text">${escapeHtml(data.text)}</p>
+  ${data.author ? `<footer><cite class="wpo-quote-cite">${escapeHtml(data.author)}</cite>${data.source ? ` <span class="wpo-note">${escapeHtml(data.source)}</span>` : ''}</footer>` : ''}
+</blockquote>`;
+}
+
+function renderCTAThemed(data: { title?: string; description?: string; buttonText?: string; buttonLink?: string }): string {
+  if (!data) return '';
+
+  return `
+<div class="wpo wpo-box wpo-cta">
+  ${data.title ? `<h3 class="wpo-subtitle">${escapeHtml(data.title)}</h3>` : ''}
+  ${data.description ? `<p class="wpo-text">${escapeHtml(data.description)}</p>` : ''}
+  ${data.buttonText ? `<a class="wpo-button" href="${escapeHtml(data.buttonLink || '#')}">${escapeHtml(data.buttonText)} →</a>` : ''}
+</div>`;
+}
+
+function renderSummaryThemed(content: string): string {
+  return `
+<div class="wpo wpo-box wpo-conclusion">
+  <h3 class="wpo-box-title">📝 Summary</h3>
+  <p class="wpo-text">${escapeHtml(content)}</p>
+</div>`;
+}
+
+export function renderFAQThemed(items: Array<{ question: string; answer: string }>): string {
+  if (!Array.isArray(items) || items.length === 0) return '';
+
+  const faqItems = items.map(item => `
+  <details class="wpo-faq-item">
+    <summary class="wpo-faq-question">${escapeHtml(item.question)}</summary>
+    <div class="wpo-faq-answer">${escapeHtml(item.answer)}</div>
+  </details>`).join('');
+
+  return `
+<div class="wpo wpo-faq">
+  <h2 class="wpo-heading">Frequently Asked Questions</h2>${faqItems}
+</div>`;
+}
+
+function renderListThemed(items: string[], ordered: boolean = false): string {
+  if (!Array.isArray(items) || items.length === 0) return '';
+
+  const tag = ordered ? 'ol' : 'ul';
+  return `
+<${tag}>${items.map(item => `
+  <li>${escapeHtml(item)}</li>`).join('')}
+</${tag}>`;
+}
+
+// anchorIds override the default section-N targets, as in renderTableOfContents
+export function renderTableOfContentsThemed(sections: BlogSection[], anchorIds: string[] = []): string {
+  const headings = sections.filter(s => s.type === 'heading' && s.content);
+  if (headings.length === 0) return '';
+
+  const tocItems = headings.map((h, i) => `
+    <li class="wpo-item"><span class="wpo-marker">${i + 1}.</span><a class="wpo-link" href="#${anchorIds[i] || `section-${i + 1}`}">${escapeHtml(h.content || '')}</a></li>`).join('');
+
+  return `
+<nav class="wpo wpo-box">
+  <h4 class="wpo-box-title">📑 Table of Contents</h4>
+  <ol class="wpo-list">${tocItems}
+  </ol>
+</nav>`;
+}
+
+// ============================================================================
+// MAIN RENDERER
+// ============================================================================
+
+// Same section order and TOC rule as renderBlogPostToHTML; the stylesheet is
+// added at publish time so token changes apply on the next publish
+export function renderBlogPostToThemedHTML(blogPost: BlogPost): string {
+  if (!blogPost || !blogPost.sections || !Array.isArray(blogPost.sections)) {
+    console.error('[ThemedRenderer] Invalid blog post structure');
+    return '<p>Content could not be rendered.</p>';
+  }
+
+  let html = '';
+  let headingIndex = 0;
+  let hasToc = false;
+  const shouldAddToc = blogPost.sections.filter(s => s.type === 'heading').length >= 3;
+
+  for (const section of blogPost.sections) {
+    try {
+      switch (section.type) {
+        case 'tldr':
+          html += renderTLDRThemed(section.content || '');
+          if (shouldAddToc && !hasToc) {
+            html += renderTableOfContentsThemed(blogPost.sections);
+            hasToc = true;
+          }
+          break;
+
+        case 'takeaways':
+          html += renderTakeawaysThemed(section.data || []);
+          break;
+
+        case 'heading':
+          headingIndex++;
+          html += `\n<h2 id="section-${headingIndex}" class="wpo-heading">${escapeHtml(section.content || '')}</h2>`;
+          break;
+
+        case 'quote':
+          html += renderQuoteThemed(section.data || { text: section.content || '' });
+          break;
+
+        case 'cta':
+          html += renderCTAThemed(section.data || {});
+          break;
+
+        case 'summary':
+          html += renderSummaryThemed(section.content || '');
+          break;
+
+        case 'faq':
+          html += renderFAQThemed(section.data || []);
+          break;
+
+        case 'list':
+          html += renderListThemed(section.data || [], false);
+          break;
+
+        case 'toc':
+          if (!hasToc) {
+            html += renderTableOfContentsThemed(blogPost.sections);
+            hasToc = true;
+          }
+          break;
+
+        default:
+          if (section.content) {
+            html += `\n<p>${escapeHtml(section.content)}</p>`;
+          }
+      }
+    } catch (error) {
+      console.error(`[ThemedRenderer] Error rendering section type "${section.type}":`, error);
+    }
+  }
+
+  return `
+<article class="wpo wpo-article">
+${html}
+</article>`;
+}
@@ -3,8 +3,24 @@
 // ============================================================================
 // Transforms JSON blog sections into beautifully styled HTML with inline CSS
 // for maximum WordPress compatibility across all themes.
+// Sites set to the 'blocks' content format get serialized Gutenberg blocks
+// from GutenbergBlockRenderer.ts instead, and sites set to 'themed' get class
+// names styled by their design tokens from ThemedContentRenderer.ts (see
+// renderBlogPost).
 // ============================================================================
 
+import { renderBlogPostToBlocks } from './GutenbergBlockRenderer.ts';
+import { renderBlogPostToThemedHTML } from './ThemedContentRenderer.ts';
+
+// 'classic' = one inline-styled <article>; 'themed' = wpo-* classes plus a
+// token stylesheet; 'blocks' = native editor blocks
+export type ContentFormat = 'classic' | 'themed' | 'blocks';
+
+// Request bodies carry the format as a plain string; anything unknown is classic
+export function toContentFormat(value: unknown): ContentFormat {
+  return value === 'themed' || value === 'blocks' ? value : 'classic';
+}
+
 export interface BlogSection {
   type: 'tldr' | 'takeaways' | 'heading' | 'paragraph' | 'quote' | 'cta' | 'summary' | 'faq' | 'toc' | 'list' | 'image';
   content?: string;
@@ -92,7 +108,7 @@ function renderTLDR(content: string): string {
 </div>`;
 }
 
-function renderTakeaways(items: string[]): string {
+export function renderTakeaways(items: string[]): string {
   if (!Array.isArray(items) || items.length === 0) return '';
   
   const takeawayItems = items.map((item, index) => `
@@ -350,7 +366,7 @@ function renderSummary(content: string): string {
 </div>`;
 }
 
-function renderFAQ(items: Array<{ question: string; answer: string }>): string {
+export function renderFAQ(items: Array<{ question: string; answer: string }>): string {
   if (!Array.isArray(items) || items.length === 0) return '';
   
   const faqItems = items.map((item, index) => `
@@ -433,12 +449,14 @@ function renderList(items: string[], ordered: boolean = false): string {
 </${tag}>`;
 }
 
-function renderTableOfContents(sections: BlogSection[]): string {
+// anchorIds override the default section-N targets, for headings that
+// already carry ids in existing content
+export function renderTableOfContents(sections: BlogSection[], anchorIds: string[] = []): string {
   const headings = sections.filter(s => s.type === 'heading' && s.content);
   if (headings.length === 0) return '';
   
   const tocItems = headings.map((h, i) => {
-    const id = `section-${i + 1}`;
+    const id = anchorIds[i] || `section-${i + 1}`;
     return `
     <li style="
       padding: 10px 0;
@@ -617,6 +635,12 @@ ${html}
 </article>`;
 }
 
+export function renderBlogPost(blogPost: BlogPost, format: ContentFormat = 'classic'): string {
+  if (format === 'blocks') return renderBlogPostToBlocks(blogPost);
+  if (format === 'themed') return renderBlogPostToThemedHTML(blogPost);
+  return renderBlogPostToHTML(blogPost);
+}
+
 // ============================================================================
 // LEGACY SUPPORT - Convert old format to new
 // ============================================================================
@@ -704,6 +728,7 @@ export function convertLegacyOptimization(optimization: any): BlogPost | null {
 }
 
 export default {
+  renderBlogPost,
   renderBlogPostToHTML,
   convertLegacyOptimization
 };
@@ -0,0 +1,156 @@
+// supabase/functions/_shared/ai-fixtures.ts
+// ============================================================================
+// AI PROVIDER RECORD / REPLAY
+// ============================================================================
+// Wraps provider fetches so real responses can be captured to fixture files
+// and replayed later byte-for-byte, without network or API keys.
+//
+//   AI_FIXTURES_MODE=record   call the provider and save each response
+//   AI_FIXTURES_MODE=replay   serve saved responses; a miss is an error
+//   (unset / anything else)   plain fetch
+//
+// Fixtures live in AI_FIXTURES_DIR (default: supabase/functions/_fixtures/ai).
+// A fixture is keyed by a SHA-256 of method, URL and request body. API keys
+// in the URL are stripped before hashing and headers are never part of the
+// key, so recordings made with one key replay with any other (or none).
+// ============================================================================
+
+export type FixtureMode = 'record' | 'replay' | 'off'
+
+interface FixtureFile {
+  key: string
+  recordedAt: string
+  request: {
+    method: string
+    url: string
+    bodyLength: number
+  }
+  response: {
+    status: number
+    statusText: string
+    headers: Record<string, string>
+    body: string
+    encoding: 'utf8' | 'base64'
+  }
+}
+
+// Query parameters that carry credentials (Gemini passes its key as ?key=)
+const SECRET_QUERY_PARAMS = ['key', 'api_key', 'api-key', 'access_token']
+
+// Response headers worth keeping; the rest (dates, request IDs, rate limit
+// counters) change on every call and would make fixtures noisy
+const KEPT_RESPONSE_HEADERS = ['content-type']
+
+export function getFixtureMode(): FixtureMode {
+  const mode = (Deno.env.get('AI_FIXTURES_MODE') || '').toLowerCase()
+  return mode === 'record' || mode === 'replay' ? mode : 'off'
+}
+
+function getFixtureDir(): string {
+  return Deno.env.get('AI_FIXTURES_DIR') ||
+    new URL('../_fixtures/ai', import.meta.url).pathname
+}
+
+function redactUrl(url: string): string {
+  const parsed = new URL(url)
+  for (const param of SECRET_QUERY_PARAMS) parsed.searchParams.delete(param)
+  return parsed.toString()
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+async function fixturePath(method: string, url: string, body: string): Promise<{ key: string; path: string }> {
+  const key = await sha256Hex(JSON.stringify({ method, url: redactUrl(url), body }))
+  const host = new URL(url).hostname.replace(/[^a-z0-9.-]/gi, '_')
+  return { key, path: `${getFixtureDir()}/${host}-${key.slice(0, 16)}.json` }
+}
+
+function encodeBody(bytes: Uint8Array): { body: string; encoding: 'utf8' | 'base64' } {
+  try {
+    // fatal: invalid UTF-8 throws, so text fixtures round-trip exactly
+    return { body: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf8' }
+  } catch {
+    let binary = ''
+    bytes.forEach(b => { binary += String.fromCharCode(b) })
+    return { body: btoa(binary), encoding: 'base64' }
+  }
+}
+
+function decodeBody(fixture: FixtureFile['response']) {
+  if (fixture.encoding === 'base64') {
+    return Uint8Array.from(atob(fixture.body), c => c.charCodeAt(0))
+  }
+  return new TextEncoder().encode(fixture.body)
+}
+
+function requestBodyText(init: RequestInit): string {
+  return typeof init.body === 'string' ? init.body : ''
+}
+
+// ============================================================================
+// PROVIDER FETCH
+// ============================================================================
+
+export async function providerFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const mode = getFixtureMode()
+  if (mode === 'off') return fetch(url, init)
+
+  const method = (init.method || 'GET').toUpperCase()
+  const body = requestBodyText(init)
+  const { key, path } = await fixturePath(method, url, body)
+
+  if (mode === 'replay') {
+    let fixture: FixtureFile
+    try {
+      fixture = JSON.parse(await Deno.readTextFile(path)) as FixtureFile
+    } catch {
+      throw new Error(`FIXTURE_MISSING: No recorded response for ${method} ${redactUrl(url)} (key ${key.slice(0, 16)}). Record it with AI_FIXTURES_MODE=record.`)
+    }
+    console.log(`[ai-fixtures] ▶️ Replaying ${path.split('/').pop()}`)
+    return new Response(decodeBody(fixture.response), {
+      status: fixture.response.status,
+      statusText: fixture.response.statusText,
+      headers: fixture.response.headers,
+    })
+  }
+
+  // record
+  const response = await fetch(url, init)
+  const bytes = new Uint8Array(await response.arrayBuffer())
+
+  const headers: Record<string, string> = {}
+  for (const name of KEPT_RESPONSE_HEADERS) {
+    const value = response.headers.get(name)
+    if (value) headers[name] = value
+  }
+
+  const fixture: FixtureFile = {
+    key,
+    recordedAt: new Date().toISOString(),
+    request: { method, url: redactUrl(url), bodyLength: body.length },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      ...encodeBody(bytes),
+    },
+  }
+
+  try {
+    await Deno.mkdir(getFixtureDir(), { recursive: true })
+    await Deno.writeTextFile(path, JSON.stringify(fixture, null, 2) + '\n')
+    console.log(`[ai-fixtures] ⏺️ Recorded ${path.split('/').pop()} (${response.status})`)
+  } catch (err) {
+    // Recording is best effort - the caller still gets the live response
+    console.warn(`[ai-fixtures] ⚠️ Could not write fixture ${path}:`, err)
+  }
+
+  return new Response(bytes, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  })
+}
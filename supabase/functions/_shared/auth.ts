@@ -0,0 +1,60 @@
+// supabase/functions/_shared/auth.ts
+// ============================================================================
+// REQUEST AUTHENTICATION
+// ============================================================================
+// Functions deploy with verify_jwt, so the gateway has checked the token's
+// signature - but the public anon key is a valid JWT too. authenticateRequest
+// insists on a signed-in user and hands back a client that forwards the
+// caller's JWT, so row-level security scopes every read and write to that
+// user. Only optimize-worker, cron and shared caches use the service role.
+// ============================================================================
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+
+export interface AuthenticatedRequest {
+  userId: string
+  // Acts as the caller: RLS applies, owner_id defaults to them
+  supabase: SupabaseClient
+}
+
+export interface AuthFailure {
+  error: 'UNAUTHORIZED' | 'SERVER_ERROR'
+  message: string
+  status: number
+}
+
+// Callers tell the two apart with `'error' in caller`
+export async function authenticateRequest(req: Request): Promise<AuthenticatedRequest | AuthFailure> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY')
+  if (!supabaseUrl || !anonKey) {
+    return { error: 'SERVER_ERROR', message: 'Server configuration error.', status: 500 }
+  }
+
+  const authorization = req.headers.get('Authorization') || ''
+  const token = authorization.replace(/^Bearer\s+/i, '')
+  if (!token || token === authorization) {
+    return { error: 'UNAUTHORIZED', message: 'Sign in to use this feature.', status: 401 }
+  }
+
+  const supabase = createClient(supabaseUrl, anonKey, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  // The anon and service keys carry no user, so they stop here
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data?.user) {
+    return { error: 'UNAUTHORIZED', message: 'Your session has expired. Sign in again.', status: 401 }
+  }
+
+  return { userId: data.user.id, supabase }
+}
+
+// optimize-worker runs as the service role and calls other functions with
+// the service key; there is no user behind those requests
+export function isServiceRoleRequest(req: Request): boolean {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '')
+  return Boolean(serviceKey) && token === serviceKey
+}
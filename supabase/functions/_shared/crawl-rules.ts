@@ -0,0 +1,187 @@
+// supabase/functions/_shared/crawl-rules.ts
+// ============================================================================
+// CRAWL RULES
+// ============================================================================
+// Decides which discovered URLs reach the queue: the user's include/exclude
+// rules, the post type a sitemap file is named for, and what the site's
+// robots.txt says about each URL. Rules use robots.txt-style patterns so the
+// same matcher serves both:
+//   /tag/         anything under /tag/
+//   */page/*      '*' matches any run of characters
+//   /feed$        '$' anchors the end
+//   re:^/\d{4}/   prefixed with 're:': a regular expression (case-insensitive)
+// Patterns that don't start with '/' or '*' may match anywhere in the path.
+// ============================================================================
+
+const ROBOTS_FETCH_TIMEOUT_MS = 10000
+// Warnings are about search visibility, so Googlebot's group wins over '*'
+const ROBOTS_AGENTS = ['googlebot', '*']
+
+export interface UrlRule {
+  source: string
+  pattern: RegExp
+}
+
+export interface RobotsRules {
+  allow: UrlRule[]
+  disallow: UrlRule[]
+  // Unofficial, and ignored by Google since 2019, but still seen in the wild
+  noindex: UrlRule[]
+}
+
+// Escapes everything except the robots.txt wildcards
+function globToRegExp(glob: string): RegExp {
+  const anchored = glob.startsWith('/') || glob.startsWith('*')
+  const endAnchored = glob.endsWith('$')
+  const body = (endAnchored ? glob.slice(0, -1) : glob)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`${anchored ? '^' : ''}${body}${endAnchored ? '$' : ''}`, 'i')
+}
+
+/**
+ * Compiles rule strings, one pattern each. Throws 'INVALID_RULE: ...' for a
+ * regular expression that doesn't compile.
+ */
+export function compileUrlRules(rules: unknown): UrlRule[] {
+  if (!Array.isArray(rules)) return []
+  return rules
+    .filter((rule): rule is string => typeof rule === 'string' && rule.trim().length > 0)
+    .map(rule => {
+      const source = rule.trim()
+      if (!/^re:/i.test(source)) return { source, pattern: globToRegExp(source) }
+      try {
+        return { source, pattern: new RegExp(source.slice(3).trim(), 'i') }
+      } catch (err) {
+        throw new Error(`INVALID_RULE: ${source} is not a valid regular expression (${err instanceof Error ? err.message : err})`)
+      }
+    })
+}
+
+// Path plus query string, which is what both kinds of rule are written against
+export function rulePath(url: string): string {
+  try {
+    const parsed = new URL(url, 'https://placeholder.invalid')
+    return `${parsed.pathname || '/'}${parsed.search}`
+  } catch {
+    return url
+  }
+}
+
+/** True when the URL passes the include rules (if any) and no exclude rule. */
+export function passesUrlRules(url: string, include: UrlRule[], exclude: UrlRule[]): boolean {
+  const path = rulePath(url)
+  if (include.length > 0 && !include.some(rule => rule.pattern.test(path))) return false
+  return !exclude.some(rule => rule.pattern.test(path))
+}
+
+// ============================================================================
+// SITEMAP NAMES
+// ============================================================================
+
+// Sitemap files for archives rather than posts (Yoast, Rank Math, SEOPress,
+// AIOSEO and core name them after the taxonomy or 'author')
+const ARCHIVE_SITEMAPS = new Set(['category', 'post_tag', 'tag', 'product_cat', 'product_tag', 'author', 'user', 'users'])
+// Sitemaps that cut across post types, so their name says nothing about them
+const MIXED_SITEMAPS = new Set(['news', 'video', 'image', 'wp'])
+
+/**
+ * The post type a nested sitemap is named for, 'archive' for taxonomy and
+ * author sitemaps, or null when the name doesn't say.
+ *   wp-sitemap-posts-product-1.xml   -> product (core)
+ *   wp-sitemap-taxonomies-category-1 -> archive
+ *   page-sitemap.xml, post-sitemap2  -> page, post (SEO plugins)
+ */
+export function sitemapPostType(sitemapUrl: string): string | null {
+  const file = rulePath(sitemapUrl).split('?')[0].split('/').pop() || ''
+  const core = file.match(/^wp-sitemap-(posts|taxonomies|users)(?:-([a-z0-9_-]+?))?-\d+\.xml(?:\.gz)?$/i)
+  if (core) return core[1].toLowerCase() === 'posts' && core[2] ? core[2].toLowerCase() : 'archive'
+
+  const plugin = file.match(/^([a-z0-9_-]+?)[-_]sitemap\d*\.xml(?:\.gz)?$/i)
+  if (!plugin) return null
+  const name = plugin[1].toLowerCase()
+  if (MIXED_SITEMAPS.has(name)) return null
+  return ARCHIVE_SITEMAPS.has(name) ? 'archive' : name
+}
+
+// ============================================================================
+// ROBOTS.TXT
+// ============================================================================
+
+export function parseRobotsTxt(text: string): RobotsRules | null {
+  const groups = new Map<string, RobotsRules>()
+  let agents: string[] = []
+  let collectingAgents = false
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator < 0) continue
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share the rules that follow them
+      if (!collectingAgents) agents = []
+      agents.push(value.toLowerCase())
+      collectingAgents = true
+      continue
+    }
+    collectingAgents = false
+    if (field !== 'allow' && field !== 'disallow' && field !== 'noindex') continue
+    // An empty Disallow allows everything
+    if (!value) continue
+    for (const agent of agents) {
+      if (!groups.has(agent)) groups.set(agent, { allow: [], disallow: [], noindex: [] })
+      groups.get(agent)![field].push({ source: value, pattern: globToRegExp(value.startsWith('/') || value.startsWith('*') ? value : `/${value}`) })
+    }
+  }
+
+  for (const agent of ROBOTS_AGENTS) {
+    const group = groups.get(agent)
+    if (group) return group
+  }
+  return null
+}
+
+/** Loads the site's robots.txt; null when there is none or it can't be read. */
+export async function fetchRobotsRules(siteUrl: string): Promise<RobotsRules | null> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), ROBOTS_FETCH_TIMEOUT_MS)
+  try {
+    const response = await fetch(`${siteUrl.replace(/\/+$/, '')}/robots.txt`, {
+      headers: { 'Accept': 'text/plain', 'User-Agent': 'WP-Optimizer-Pro/1.0 Sitemap Crawler' },
+      signal: controller.signal,
+    })
+    if (!response.ok) {
+      await response.body?.cancel()
+      return null
+    }
+    return parseRobotsTxt(await response.text())
+  } catch (err) {
+    console.warn('[Crawl Rules] robots.txt could not be read:', err instanceof Error ? err.message : err)
+    return null
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * The robots.txt line that keeps a URL out of search, e.g. "Disallow: /shop/",
+ * or null. The longest matching Allow/Disallow wins, and Allow wins a tie.
+ */
+export function robotsRuleFor(url: string, robots: RobotsRules | null): string | null {
+  if (!robots) return null
+  const path = rulePath(url)
+  const longest = (rules: UrlRule[]) => rules
+    .filter(rule => rule.pattern.test(path))
+    .reduce<UrlRule | null>((best, rule) => (!best || rule.source.length > best.source.length ? rule : best), null)
+
+  const disallow = longest(robots.disallow)
+  const allow = longest(robots.allow)
+  if (disallow && (!allow || disallow.source.length > allow.source.length)) return `Disallow: ${disallow.source}`
+
+  const noindex = longest(robots.noindex)
+  return noindex ? `Noindex: ${noindex.source}` : null
+}
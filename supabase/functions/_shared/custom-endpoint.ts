@@ -0,0 +1,83 @@
+// supabase/functions/_shared/custom-endpoint.ts
+// ============================================================================
+// OPENAI-COMPATIBLE CUSTOM ENDPOINTS
+// ============================================================================
+// Self-hosted or third-party servers that speak the OpenAI chat completions
+// API (Ollama, vLLM, LM Studio, Azure OpenAI, ...). The user supplies a base
+// URL, optional extra headers and a model name; the API key is optional since
+// local servers usually run without one. The key lives in the vault and is
+// sent as a Bearer token or, for Azure and the like, in `apiKeyHeader`.
+// Extra headers are saved and queued in plain text, so ones that look like
+// credentials are never sent.
+// ============================================================================
+
+export const CUSTOM_PROVIDER = 'custom'
+
+export interface CustomEndpointConfig {
+  baseUrl?: string
+  headers?: Record<string, string>
+  // Header that carries the raw API key, e.g. 'api-key'; Bearer auth if unset
+  apiKeyHeader?: string
+}
+
+// Headers the caller may not override - they would break the request itself
+const RESERVED_HEADERS = new Set(['content-type', 'content-length', 'host'])
+// Authorization, api-key, X-Auth-Token, Ocp-Apim-Subscription-Key, Cookie, ...
+const SECRET_HEADER = /(^|[-_])(auth|authorization|key|apikey|token|secret|password|cookie)($|[-_])/i
+
+export function isSecretHeader(name: string): boolean {
+  return SECRET_HEADER.test(name.trim())
+}
+
+// Drops credential-like headers before the config is stored with a job
+export function withoutSecretHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).filter(([name]) => !isSecretHeader(name)))
+}
+
+// Accepts either a base URL (https://host/v1) or the full chat completions
+// URL, which Azure needs because of its deployment path and api-version query
+export function resolveChatCompletionsUrl(baseUrl: string): string {
+  const url = new URL(baseUrl.trim())
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`INVALID_BASE_URL: Custom endpoint must use http or https, got "${url.protocol}".`)
+  }
+  if (!url.pathname.replace(/\/+$/, '').endsWith('/chat/completions')) {
+    url.pathname = `${url.pathname.replace(/\/+$/, '')}/chat/completions`
+  }
+  return url.toString()
+}
+
+// Returns an error message when the endpoint config is unusable, null otherwise
+export function validateCustomEndpoint(config: CustomEndpointConfig): string | null {
+  if (!config.baseUrl) return 'A base URL is required for a custom endpoint.'
+  try {
+    resolveChatCompletionsUrl(config.baseUrl)
+  } catch (err) {
+    return err instanceof Error && err.message.startsWith('INVALID_BASE_URL:')
+      ? err.message.slice('INVALID_BASE_URL: '.length)
+      : `"${config.baseUrl}" is not a valid URL.`
+  }
+  if (config.headers && (typeof config.headers !== 'object' || Array.isArray(config.headers))) {
+    return 'Custom headers must be an object of header names to values.'
+  }
+  const keyHeader = config.apiKeyHeader?.trim()
+  if (keyHeader && (!/^[A-Za-z0-9-]+$/.test(keyHeader) || RESERVED_HEADERS.has(keyHeader.toLowerCase()))) {
+    return `"${keyHeader}" cannot carry the API key.`
+  }
+  return null
+}
+
+// The key as a Bearer token or in the endpoint's key header (Azure wants
+// `api-key`), then the user's non-secret headers on top
+export function buildCustomHeaders(apiKey: string | undefined, endpoint: CustomEndpointConfig = {}): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  const keyHeader = endpoint.apiKeyHeader?.trim()
+
+  for (const [name, value] of Object.entries(endpoint.headers || {})) {
+    if (!name || RESERVED_HEADERS.has(name.toLowerCase()) || isSecretHeader(name)) continue
+    headers[name] = String(value)
+  }
+  if (apiKey && keyHeader && keyHeader.toLowerCase() !== 'authorization') headers[keyHeader] = apiKey
+  else if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`
+  return headers
+}
@@ -0,0 +1,268 @@
+// supabase/functions/_shared/job-queue.ts
+// ============================================================================
+// DURABLE JOB QUEUE
+// ============================================================================
+// Jobs live in the `jobs` table. Producers insert rows with status 'queued';
+// workers claim them through the claim_next_job() RPC, which hands out a
+// time-limited lease. A worker keeps its lease alive with heartbeats; if the
+// worker dies, the lease expires and the next worker reclaims the job.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+
+export const JOB_LEASE_SECONDS = 90
+export const HEARTBEAT_INTERVAL_MS = 20000
+export const DEFAULT_MAX_ATTEMPTS = 3
+const WORKER_TRIGGER_TIMEOUT_MS = 5000
+
+export interface QueuedJob {
+  id: string
+  page_id: string | null
+  // The user who queued the job; their vault holds its credentials
+  owner_id: string | null
+  status: string
+  payload: Record<string, unknown> | null
+  attempts: number
+  max_attempts: number
+  locked_by: string | null
+  locked_until: string | null
+}
+
+interface EnqueueOptions {
+  id?: string
+  pageId?: string | null
+  // Workspace site the job runs for (site-scope.ts)
+  siteId?: string | null
+  payload: Record<string, unknown>
+  currentStep?: string
+  maxAttempts?: number
+}
+
+// ============================================================================
+// PRODUCER
+// ============================================================================
+
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  options: EnqueueOptions
+): Promise<{ jobId: string; error: string | null }> {
+  const jobId = options.id || crypto.randomUUID()
+  const now = new Date().toISOString()
+
+  const { error } = await supabase.from('jobs').insert({
+    id: jobId,
+    page_id: options.pageId || null,
+    site_id: options.siteId || null,
+    status: 'queued',
+    progress: 0,
+    current_step: options.currentStep || 'Queued - waiting for a worker...',
+    payload: options.payload,
+    attempts: 0,
+    max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    created_at: now,
+    updated_at: now,
+  })
+
+  if (error) {
+    console.error(`[JobQueue] Failed to enqueue job ${jobId}:`, error)
+    return { jobId, error: error.message }
+  }
+
+  console.log(`[JobQueue] Enqueued job ${jobId}`)
+  return { jobId, error: null }
+}
+
+// Marks a queued or running job cancelled. Running jobs stop at the worker's
+// next cancellation check; work finished so far stays on the row.
+export async function cancelJob(
+  supabase: SupabaseClient,
+  jobId: string
+): Promise<{ cancelled: boolean; status: string | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .update({
+      status: 'cancelled',
+      current_step: 'Cancelled by user',
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .in('status', ['queued', 'running'])
+    .select('id')
+
+  if (error) {
+    console.error(`[JobQueue] Failed to cancel job ${jobId}:`, error)
+    return { cancelled: false, status: null, error: error.message }
+  }
+
+  if (data && data.length > 0) {
+    console.log(`[JobQueue] Cancelled job ${jobId}`)
+    return { cancelled: true, status: 'cancelled', error: null }
+  }
+
+  // Nothing updated: report the current status so callers can explain why
+  const { data: job } = await supabase.from('jobs').select('status').eq('id', jobId).maybeSingle()
+  return { cancelled: false, status: job?.status ?? null, error: null }
+}
+
+// Puts a failed or cancelled job back in the queue. Stage output already on
+// the row is kept, so the worker resumes after the last completed stage.
+// A cancelled job whose worker still holds a live lease hasn't stopped yet;
+// it is refused (locked: true) so two workers never run it at once.
+export async function requeueJob(
+  supabase: SupabaseClient,
+  jobId: string
+): Promise<{ requeued: boolean; status: string | null; stage: string | null; locked: boolean; error: string | null }> {
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('jobs')
+    .update({
+      status: 'queued',
+      error_message: null,
+      completed_at: null,
+      attempts: 0,
+      locked_by: null,
+      locked_until: null,
+      current_step: 'Queued - resuming...',
+      updated_at: now,
+    })
+    .eq('id', jobId)
+    .in('status', ['failed', 'cancelled'])
+    .not('payload', 'is', null)
+    .or(`locked_by.is.null,locked_until.lt.${now}`)
+    .select('id, stage')
+
+  if (error) {
+    console.error(`[JobQueue] Failed to requeue job ${jobId}:`, error)
+    return { requeued: false, status: null, stage: null, locked: false, error: error.message }
+  }
+
+  if (data && data.length > 0) {
+    console.log(`[JobQueue] Requeued job ${jobId} (last stage: ${data[0].stage})`)
+    return { requeued: true, status: 'queued', stage: data[0].stage ?? null, locked: false, error: null }
+  }
+
+  const { data: job } = await supabase
+    .from('jobs')
+    .select('status, stage, locked_by, locked_until')
+    .eq('id', jobId)
+    .maybeSingle()
+  const locked = Boolean(job?.locked_by && job.locked_until && job.locked_until >= now)
+  return { requeued: false, status: job?.status ?? null, stage: job?.stage ?? null, locked, error: null }
+}
+
+// Nudges a worker function so queued jobs start right away instead of waiting
+// for the next cron tick. Failures are non-fatal: the cron sweep will pick the
+// job up regardless.
+export async function triggerWorker(
+  functionName: string,
+  body: Record<string, unknown> = {}
+): Promise<boolean> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (!supabaseUrl || !serviceKey) return false
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), WORKER_TRIGGER_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/${functionName}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${serviceKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    })
+    await response.body?.cancel()
+    return response.ok
+  } catch (err) {
+    console.warn(`[JobQueue] Could not trigger ${functionName}:`, err instanceof Error ? err.message : err)
+    return false
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+// ============================================================================
+// CONSUMER
+// ============================================================================
+
+export async function claimNextJob(
+  supabase: SupabaseClient,
+  workerId: string,
+  leaseSeconds: number = JOB_LEASE_SECONDS
+): Promise<QueuedJob | null> {
+  const { data, error } = await supabase.rpc('claim_next_job', {
+    p_worker_id: workerId,
+    p_lease_seconds: leaseSeconds,
+  })
+
+  if (error) {
+    console.error(`[JobQueue] ${workerId} claim failed:`, error)
+    return null
+  }
+
+  const job = Array.isArray(data) ? data[0] : data
+  if (!job) return null
+
+  console.log(`[JobQueue] ${workerId} claimed job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`)
+  return job as QueuedJob
+}
+
+export interface Heartbeat {
+  stop: () => void
+  // Aborted once the lease is lost (it expired and the job was reclaimed, or
+  // the job was requeued); the worker must stop writing to the row then
+  signal: AbortSignal
+}
+
+// Extends the lease on an interval until stopped or the lease is lost
+export function startHeartbeat(
+  supabase: SupabaseClient,
+  jobId: string,
+  workerId: string,
+  leaseSeconds: number = JOB_LEASE_SECONDS
+): Heartbeat {
+  const controller = new AbortController()
+  const beat = async () => {
+    const now = Date.now()
+    const { data, error } = await supabase
+      .from('jobs')
+      .update({
+        heartbeat_at: new Date(now).toISOString(),
+        locked_until: new Date(now + leaseSeconds * 1000).toISOString(),
+      })
+      .eq('id', jobId)
+      .eq('locked_by', workerId)
+      .select('id')
+
+    if (error) {
+      console.error(`[JobQueue] Heartbeat failed for job ${jobId}:`, error)
+    } else if (!data || data.length === 0) {
+      console.warn(`[JobQueue] ${workerId} no longer holds the lease on job ${jobId}`)
+      clearInterval(intervalId)
+      controller.abort()
+    }
+  }
+
+  const intervalId = setInterval(beat, HEARTBEAT_INTERVAL_MS)
+  return { stop: () => clearInterval(intervalId), signal: controller.signal }
+}
+
+export async function releaseJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  workerId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('jobs')
+    .update({ locked_by: null, locked_until: null })
+    .eq('id', jobId)
+    .eq('locked_by', workerId)
+
+  if (error) {
+    console.error(`[JobQueue] Failed to release job ${jobId}:`, error)
+  }
+}
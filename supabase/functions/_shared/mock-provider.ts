@@ -0,0 +1,269 @@
+// supabase/functions/_shared/mock-provider.ts
+// ============================================================================
+// MOCK AI PROVIDER
+// ============================================================================
+// A deterministic, offline stand-in for an OpenAI-compatible chat completions
+// server. The same prompt always yields the same response, so the optimize
+// pipeline can be demoed and regression-tested without keys or network.
+//
+// The model name picks the behaviour, which makes fallback chains testable:
+//   mock-default       valid JSON sized to the requested word count
+//   mock-rate-limit    always 429
+//   mock-unavailable   always 503
+//   mock-refusal       finish_reason "content_filter"
+//   mock-invalid-json  prose instead of JSON
+// ============================================================================
+
+export const MOCK_PROVIDER = 'mock'
+
+// Requests to this host never leave the process (.invalid is reserved and
+// never resolves)
+export const MOCK_BASE_URL = 'http://mock-ai.invalid/v1'
+
+export const MOCK_MODELS = [
+  'mock-default',
+  'mock-rate-limit',
+  'mock-unavailable',
+  'mock-refusal',
+  'mock-invalid-json',
+]
+
+export function isMockEndpoint(url: string): boolean {
+  try {
+    return new URL(url).hostname === new URL(MOCK_BASE_URL).hostname
+  } catch {
+    return false
+  }
+}
+
+// ============================================================================
+// DETERMINISTIC TEXT
+// ============================================================================
+
+// FNV-1a; seeds the PRNG from the prompt so output is stable per prompt
+function hashString(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// mulberry32
+function createRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const SECTION_ANGLES = [
+  'Why {topic} Matters',
+  'Core Principles of {topic}',
+  'Getting Started with {topic}',
+  'Common Mistakes with {topic}',
+  'Advanced {topic} Strategies',
+  'Measuring {topic} Results',
+  'Tools for {topic}',
+  'Real-World {topic} Examples',
+]
+
+const SENTENCES = [
+  'Teams that approach {topic} with a clear plan see results sooner and waste less effort along the way.',
+  'The first step is to define what success looks like so every later decision can be measured against it.',
+  'Small, consistent improvements compound over time and usually beat occasional large overhauls.',
+  'Documenting each change makes it easier to see which adjustments actually moved the numbers.',
+  'A common pitfall is copying what competitors do without checking whether it fits your own audience.',
+  'Start with the pages or processes that already perform reasonably well, because they respond fastest.',
+  'Reviewing progress every few weeks keeps the work focused and surfaces problems before they grow.',
+  'Clear ownership matters: someone should be responsible for each part of the {topic} workflow.',
+  'Data from real users is more reliable than assumptions, so collect feedback early and often.',
+  'When results stall, revisit the fundamentals before adding new tools or tactics.',
+  'Good {topic} work balances quick wins with longer projects that build a durable advantage.',
+  'Budget time for maintenance, since even strong results fade when nobody keeps them current.',
+]
+
+function fill(template: string, topic: string): string {
+  return template.replace(/\{topic\}/g, topic)
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+function buildArticle(topic: string, targetWords: number, random: () => number): { html: string; headings: string[] } {
+  const headings = SECTION_ANGLES.slice(0, 6).map(angle => fill(angle, topic))
+  const wordsPerSection = Math.ceil(targetWords / headings.length)
+  let html = ''
+
+  for (const heading of headings) {
+    html += `<h2>${heading}</h2>`
+    let sectionWords = heading.split(/\s+/).length
+    while (sectionWords < wordsPerSection) {
+      const paragraph: string[] = []
+      for (let i = 0; i < 4 && sectionWords < wordsPerSection; i++) {
+        const sentence = fill(pick(SENTENCES, random), topic)
+        paragraph.push(sentence)
+        sectionWords += sentence.split(/\s+/).length
+      }
+      html += `<p>${paragraph.join(' ')}</p>`
+    }
+  }
+
+  return { html, headings }
+}
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+function readPrompt(body: string): string {
+  try {
+    const parsed = JSON.parse(body) as { messages?: Array<{ content?: string }> }
+    return (parsed.messages || []).map(m => m.content || '').join('\n')
+  } catch {
+    return body
+  }
+}
+
+function readTopic(prompt: string): string {
+  return prompt.match(/^TOPIC:\s*(.+)$/m)?.[1]?.trim() || 'Content Optimization'
+}
+
+function readModel(body: string): string {
+  try {
+    return String((JSON.parse(body) as { model?: string }).model || 'mock-default')
+  } catch {
+    return 'mock-default'
+  }
+}
+
+// The full-article drafting prompt asks for tldrSummary; every other prompt
+// (brief, outline, enrichment, expansion) gets one object carrying the fields
+// each of them reads
+function buildContent(prompt: string): Record<string, unknown> {
+  const topic = readTopic(prompt)
+  const random = createRandom(hashString(prompt))
+
+  if (prompt.includes('"tldrSummary"')) {
+    const range = prompt.match(/between (\d+) and (\d+) words/)
+    const targetWords = range ? Math.round((Number(range[1]) + Number(range[2])) / 2) : 1500
+    const { html, headings } = buildArticle(topic, targetWords, random)
+
+    return {
+      title: `${topic}: A Practical Guide`,
+      metaDescription: `Learn how to approach ${topic} step by step, avoid common mistakes and measure results that matter.`.slice(0, 160),
+      h1: `The Complete Guide to ${topic}`,
+      h2s: headings,
+      content: html,
+      tldrSummary: `${topic} works best with a clear goal, steady iteration and honest measurement. Start small, document changes and review progress regularly.`,
+      faqs: [
+        { question: `What is the first step with ${topic}?`, answer: 'Define what success looks like and pick one measurable goal before changing anything else.' },
+        { question: `How long does ${topic} take to show results?`, answer: 'Most teams see early signals within a few weeks, with larger gains building over several months.' },
+        { question: `What is the most common ${topic} mistake?`, answer: 'Copying competitors without checking whether their approach fits your own audience and goals.' },
+      ],
+      keyTakeaways: [
+        'Set one measurable goal before you start',
+        'Improve steadily rather than in rare overhauls',
+        'Document every change and its effect',
+        'Use real user data over assumptions',
+        'Schedule regular reviews to keep momentum',
+      ],
+      tableOfContents: ['Introduction', ...headings, 'Conclusion'],
+      excerpt: `A practical, step-by-step look at ${topic}: where to start, what to avoid and how to measure progress.`,
+    }
+  }
+
+  const headings = SECTION_ANGLES.map(angle => fill(angle, topic))
+  return {
+    // Brief
+    searchIntent: 'informational',
+    volumePerMonth: 1000 + Math.floor(random() * 9000),
+    difficulty: 20 + Math.floor(random() * 50),
+    topEntities: [topic, 'best practices', 'metrics', 'workflow', 'tools'],
+    paaQuestions: [`What is ${topic}?`, `How do I start with ${topic}?`, `Is ${topic} worth it?`],
+    competitorTitles: [`${topic} Guide`, `${topic} for Beginners`, `10 ${topic} Tips`],
+    competitorGaps: ['Few competitors explain how to measure results'],
+    suggestedHeadings: headings.slice(0, 6),
+    missingAngles: ['Maintenance after the initial push'],
+    // Outline
+    title: `${topic}: A Practical Guide`,
+    intro: { heading: 'Introduction', objective: `Explain why ${topic} matters`, keyPoints: ['Context', 'What the reader will learn'] },
+    sections: headings.slice(0, 6).map(heading => ({
+      heading,
+      objective: `Cover ${heading.toLowerCase()}`,
+      keyPoints: ['Main idea', 'Example', 'Action step'],
+    })),
+    // Outline and enrichment both read conclusion; each uses its own fields
+    conclusion: {
+      heading: 'Conclusion',
+      objective: 'Summarize and point to next steps',
+      summary: `${topic} rewards clear goals, steady iteration and honest measurement.`,
+      keyPoints: ['Start small', 'Measure everything', 'Review regularly'],
+    },
+    // Enrichment
+    tldr: [`${topic} needs a clear goal.`, 'Iterate in small steps.', 'Measure and review often.'],
+    keyTakeaways: [
+      { title: 'Set a goal', description: 'Pick one measurable outcome before changing anything.' },
+      { title: 'Iterate', description: 'Small steady improvements compound over time.' },
+      { title: 'Measure', description: 'Track the effect of every change you make.' },
+    ],
+    dos: [{ text: 'Document every change', explanation: 'So you know what worked' }],
+    donts: [{ text: 'Copy competitors blindly', explanation: 'Their audience is not yours' }],
+    checklist: ['Define the goal', 'Audit the current state', 'Ship one improvement', 'Review results'],
+    faqs: [
+      { question: `What is ${topic}?`, answer: `${topic} is the practice of improving results through planned, measured changes.` },
+      { question: `How do I start with ${topic}?`, answer: 'Pick one goal, audit where you are and make one change at a time.' },
+    ],
+  }
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// Answers a chat completions request the way an OpenAI-compatible server would
+export function mockChatCompletion(init: RequestInit = {}): Response {
+  const body = typeof init.body === 'string' ? init.body : ''
+  const model = readModel(body)
+  const prompt = readPrompt(body)
+  const json = (data: unknown, status = 200) =>
+    new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } })
+
+  console.log(`[mock-provider] ${model} (${prompt.length} prompt chars)`)
+
+  if (model === 'mock-rate-limit') {
+    return json({ error: { message: 'Mock rate limit', type: 'rate_limit_error' } }, 429)
+  }
+  if (model === 'mock-unavailable') {
+    return json({ error: { message: 'Mock outage', type: 'server_error' } }, 503)
+  }
+
+  let content: string
+  let finishReason = 'stop'
+
+  if (model === 'mock-refusal') {
+    content = ''
+    finishReason = 'content_filter'
+  } else if (model === 'mock-invalid-json') {
+    content = 'Sure! Here is an article about that topic, written as plain prose rather than JSON.'
+  } else {
+    content = JSON.stringify(buildContent(prompt))
+  }
+
+  const promptTokens = estimateTokens(prompt)
+  const completionTokens = estimateTokens(content)
+
+  return json({
+    id: `mock-${hashString(body).toString(16)}`,
+    object: 'chat.completion',
+    created: 0,
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: finishReason }],
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+  })
+}
@@ -0,0 +1,396 @@
+// supabase/functions/_shared/page-analysis.ts
+// ============================================================================
+// PAGE ANALYSIS
+// ============================================================================
+// Reads a live page the way a search engine sees it and scores it on the
+// QualityScore components the queue shows. The rendered page is preferred
+// because only it carries the SEO plugin's meta description and schema; the
+// public REST object is the fallback when the page itself can't be fetched.
+// Optimized articles are scored the same way (scoreArticle), so score_before
+// and score_after are on one scale.
+// ============================================================================
+
+import { escapeHtml } from './utils.ts'
+import { resolvePostTypeEndpoint } from './wp-post-types.ts'
+
+export interface PageAnalysis {
+  source: 'html' | 'rest'
+  // WordPress post ID when the page reveals it (body class, shortlink or REST)
+  postId: number | null
+  title: string
+  h1: string[]
+  h2s: string[]
+  h3Count: number
+  metaDescription: string
+  wordCount: number
+  paragraphCount: number
+  avgSentenceLength: number
+  listCount: number
+  tableCount: number
+  questionHeadings: number
+  images: { total: number; missingAlt: number }
+  links: { internal: number; external: number }
+  schemaTypes: string[]
+  author: string | null
+  publishedAt: string | null
+  modifiedAt: string | null
+  // robots meta tag or X-Robots-Tag header says noindex
+  noindex: boolean
+}
+
+// Same shape as QualityScore in the app's pages store
+export interface QualityScore {
+  overall: number
+  components: {
+    contentDepth: number
+    readability: number
+    structure: number
+    seoOnPage: number
+    internalLinks: number
+    schemaMarkup: number
+    engagement: number
+    eeat: number
+  }
+}
+
+const FETCH_TIMEOUT_MS = 15000
+const USER_AGENT = 'WP-Optimizer-Pro/1.0 Page Analyzer'
+
+// ============================================================================
+// HTML HELPERS
+// ============================================================================
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  hellip: '…', mdash: '—', ndash: '–', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+const stripTags = (html: string) => decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim()
+
+const attr = (tag: string, name: string): string | null => {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3] ?? '') : null
+}
+
+function metaContent(html: string, key: string): string | null {
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const name = attr(tag, 'name') ?? attr(tag, 'property')
+    if (name?.toLowerCase() === key) return attr(tag, 'content')
+  }
+  return null
+}
+
+// The element opened at `start`, including nested elements of the same tag
+function balancedElement(html: string, start: number, tagName: string): string {
+  const pattern = new RegExp(`<(/?)${tagName}\\b[^>]*>`, 'gi')
+  pattern.lastIndex = start
+  let depth = 0
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(html)) !== null) {
+    depth += match[1] ? -1 : 1
+    if (depth === 0) return html.slice(start, match.index + match[0].length)
+  }
+  return html.slice(start)
+}
+
+// The post body without theme chrome, so sidebars and menus don't count
+function mainContent(html: string): string {
+  const candidates: Array<[RegExp, string]> = [
+    [/<div\b[^>]*class\s*=\s*["'][^"']*\b(entry-content|post-content|wp-block-post-content)\b[^"']*["'][^>]*>/i, 'div'],
+    [/<article\b[^>]*>/i, 'article'],
+    [/<main\b[^>]*>/i, 'main'],
+  ]
+  for (const [opening, tagName] of candidates) {
+    const match = opening.exec(html)
+    if (match) return balancedElement(html, match.index, tagName)
+  }
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)
+  return body ? body[1] : html
+}
+
+const withoutCode = (html: string) =>
+  html
+    .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+
+const withoutChrome = (html: string) =>
+  withoutCode(html).replace(/<(nav|header|footer|aside|form)\b[\s\S]*?<\/\1>/gi, ' ')
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').toLowerCase()
+  } catch {
+    return ''
+  }
+}
+
+// JSON-LD types, including those nested in @graph and in properties
+function collectSchema(html: string): { types: string[]; author: string | null; published: string | null; modified: string | null } {
+  const types = new Set<string>()
+  let author: string | null = null
+  let published: string | null = null
+  let modified: string | null = null
+
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) return node.forEach(visit)
+    if (!node || typeof node !== 'object') return
+    const record = node as Record<string, unknown>
+    const type = record['@type']
+    for (const name of Array.isArray(type) ? type : [type]) {
+      if (typeof name === 'string') types.add(name)
+    }
+    if (!author && record.author) {
+      const first = Array.isArray(record.author) ? record.author[0] : record.author
+      const name = typeof first === 'string' ? first : (first as Record<string, unknown>)?.name
+      if (typeof name === 'string' && name.trim()) author = name.trim()
+    }
+    if (!published && typeof record.datePublished === 'string') published = record.datePublished
+    if (!modified && typeof record.dateModified === 'string') modified = record.dateModified
+    Object.values(record).forEach(value => typeof value === 'object' && visit(value))
+  }
+
+  for (const [, json] of html.matchAll(/<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    try {
+      visit(JSON.parse(json.trim()))
+    } catch {
+      // Plugins occasionally print invalid JSON-LD; it counts as no schema
+    }
+  }
+  for (const [, type] of html.matchAll(/itemtype\s*=\s*["']https?:\/\/schema\.org\/([A-Za-z]+)["']/gi)) {
+    types.add(type)
+  }
+
+  return { types: [...types], author, published, modified }
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Analyzes a page's HTML. Title, meta description and schema come from the
+ * whole document; word count, headings, images and links from its main
+ * content.
+ */
+export function analyzeHtml(document: string, pageUrl: string, source: PageAnalysis['source'] = 'html'): PageAnalysis {
+  const content = withoutChrome(mainContent(document))
+  const text = stripTags(content)
+  const words = text.split(' ').filter(Boolean)
+  const sentences = text.split(/[.!?]+\s/).filter(sentence => sentence.trim().length > 0)
+  const headings = (level: number) =>
+    Array.from(content.matchAll(new RegExp(`<h${level}\\b[^>]*>([\\s\\S]*?)</h${level}>`, 'gi'))).map(match => stripTags(match[1]))
+  const h2s = headings(2)
+  const h3s = headings(3)
+  // The H1 usually sits in the entry header, outside the post body
+  const h1 = Array.from(withoutCode(document).matchAll(/<h1\b[^>]*>([\s\S]*?)<\/h1>/gi)).map(match => stripTags(match[1]))
+
+  const images = Array.from(content.matchAll(/<img\b[^>]*>/gi)).map(([tag]) => tag)
+  const pageHost = hostOf(pageUrl)
+  const links = { internal: 0, external: 0 }
+  for (const [tag] of content.matchAll(/<a\b[^>]*>/gi)) {
+    const href = attr(tag, 'href')
+    if (!href || /^(#|mailto:|tel:|javascript:)/i.test(href)) continue
+    let host: string
+    try {
+      host = hostOf(new URL(href, pageUrl).toString())
+    } catch {
+      continue
+    }
+    links[host === pageHost ? 'internal' : 'external']++
+  }
+
+  const schema = collectSchema(document)
+  const postIdMatch = document.match(/<body\b[^>]*class\s*=\s*["'][^"']*\b(?:postid|page-id)-(\d+)/i)
+    || document.match(/<link\b[^>]*rel\s*=\s*["']shortlink["'][^>]*href\s*=\s*["'][^"']*[?&]p=(\d+)/i)
+  const title = document.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)
+
+  return {
+    source,
+    postId: postIdMatch ? parseInt(postIdMatch[1], 10) : null,
+    title: title ? stripTags(title[1]) : h1[0] || '',
+    h1,
+    h2s,
+    h3Count: h3s.length,
+    metaDescription: metaContent(document, 'description') || metaContent(document, 'og:description') || '',
+    wordCount: words.length,
+    paragraphCount: (content.match(/<p[\s>]/gi) || []).length,
+    avgSentenceLength: sentences.length > 0 ? words.length / sentences.length : words.length,
+    listCount: (content.match(/<(ul|ol)[\s>]/gi) || []).length,
+    tableCount: (content.match(/<table[\s>]/gi) || []).length,
+    questionHeadings: [...h2s, ...h3s].filter(heading => heading.trim().endsWith('?')).length,
+    images: { total: images.length, missingAlt: images.filter(tag => !attr(tag, 'alt')?.trim()).length },
+    links,
+    schemaTypes: schema.types,
+    author: metaContent(document, 'author') || schema.author,
+    publishedAt: metaContent(document, 'article:published_time') || schema.published,
+    modifiedAt: metaContent(document, 'article:modified_time') || schema.modified,
+    noindex: /\bnoindex\b/i.test(`${metaContent(document, 'robots') || ''} ${metaContent(document, 'googlebot') || ''}`),
+  }
+}
+
+async function fetchWithTimeout(url: string, accept: string): Promise<Response> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+  try {
+    return await fetch(url, { headers: { 'Accept': accept, 'User-Agent': USER_AGENT }, signal: controller.signal })
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+// The public REST object for a URL, rebuilt into a small HTML document
+async function fetchRestDocument(siteUrl: string, pageUrl: string, postType: string | null): Promise<{ document: string; postId: number } | null> {
+  const slug = new URL(pageUrl).pathname.split('/').filter(Boolean).pop()
+  if (!slug) return null
+
+  const endpoint = await resolvePostTypeEndpoint(siteUrl, postType)
+  const response = await fetchWithTimeout(
+    `${endpoint}?slug=${encodeURIComponent(slug)}&_fields=id,title,content,excerpt,yoast_head,modified`,
+    'application/json'
+  )
+  if (!response.ok) return null
+  const posts = await response.json()
+  const post = Array.isArray(posts) ? posts[0] : null
+  if (!post?.content?.rendered) return null
+
+  // Yoast's head carries the meta description and schema the post shows
+  const head = typeof post.yoast_head === 'string'
+    ? post.yoast_head
+    : `<meta name="description" content="${stripTags(post.excerpt?.rendered || '').replace(/"/g, '&quot;')}">`
+  return {
+    postId: post.id,
+    document: `<html><head><title>${post.title?.rendered || ''}</title>${head}</head>` +
+      `<body><h1>${post.title?.rendered || ''}</h1><article>${post.content.rendered}</article></body></html>`,
+  }
+}
+
+/** Fetches and analyzes a queued URL; throws when neither source answers. */
+export async function fetchPageAnalysis(siteUrl: string, pageUrl: string, postType: string | null): Promise<PageAnalysis> {
+  let status = 0
+  try {
+    const response = await fetchWithTimeout(pageUrl, 'text/html,application/xhtml+xml')
+    status = response.status
+    if (response.ok && (response.headers.get('content-type') || '').includes('html')) {
+      const analysis = analyzeHtml(await response.text(), pageUrl)
+      return { ...analysis, noindex: analysis.noindex || /\bnoindex\b/i.test(response.headers.get('x-robots-tag') || '') }
+    }
+    await response.body?.cancel()
+  } catch (err) {
+    console.warn(`[Page Analysis] Page fetch failed for ${pageUrl}:`, err instanceof Error ? err.message : err)
+  }
+
+  const rest = await fetchRestDocument(siteUrl, pageUrl, postType)
+  if (!rest) {
+    throw new Error(status ? `Page returned ${status} and has no public REST object` : 'Page could not be fetched')
+  }
+  return { ...analyzeHtml(rest.document, pageUrl, 'rest'), postId: rest.postId }
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)))
+
+const COMPONENT_WEIGHTS: Record<keyof QualityScore['components'], number> = {
+  contentDepth: 0.2,
+  readability: 0.1,
+  structure: 0.15,
+  seoOnPage: 0.15,
+  internalLinks: 0.1,
+  schemaMarkup: 0.1,
+  engagement: 0.1,
+  eeat: 0.1,
+}
+
+// Deterministic, so re-crawling an unchanged page gives the same score
+export function scoreQuality(analysis: PageAnalysis): QualityScore {
+  const { wordCount, h2s, images, links, schemaTypes } = analysis
+  const titleLength = analysis.title.length
+  const metaLength = analysis.metaDescription.length
+  const hasSchema = (...types: string[]) => types.some(type => schemaTypes.includes(type))
+
+  const components: QualityScore['components'] = {
+    // Length against a 1,500-word target, with sections to back it up
+    contentDepth: clamp(Math.min(1, wordCount / 1500) * 80 + Math.min(h2s.length, 4) * 5),
+    // Same sentence-length curve as the post-optimization check, minus wall-of-text paragraphs
+    readability: clamp(
+      100 - Math.max(0, analysis.avgSentenceLength - 18) * 4 -
+      (analysis.paragraphCount > 0 && wordCount / analysis.paragraphCount > 150 ? 15 : 0)
+    ),
+    structure: clamp(
+      (analysis.h1.length === 1 ? 30 : analysis.h1.length > 1 ? 15 : 0) +
+      (h2s.length >= 3 ? 40 : h2s.length > 0 ? 20 : 0) +
+      (analysis.h3Count > 0 ? 15 : 0) +
+      (analysis.listCount > 0 ? 15 : 0)
+    ),
+    seoOnPage: clamp(
+      (titleLength >= 30 && titleLength <= 65 ? 30 : titleLength > 0 ? 15 : 0) +
+      (metaLength >= 120 && metaLength <= 160 ? 30 : metaLength > 0 ? 15 : 0) +
+      (analysis.h1.length > 0 ? 20 : 0) +
+      (images.total === 0 ? 10 : 20 * (1 - images.missingAlt / images.total))
+    ),
+    internalLinks: clamp(links.internal === 0 ? 30 : links.internal < 3 ? 60 : 90),
+    schemaMarkup: clamp(
+      (schemaTypes.length > 0 ? 20 : 0) +
+      (hasSchema('Article', 'BlogPosting', 'NewsArticle', 'WebPage', 'Product') ? 40 : 0) +
+      (hasSchema('FAQPage', 'HowTo') ? 25 : 0) +
+      (hasSchema('BreadcrumbList') ? 15 : 0)
+    ),
+    engagement: clamp(
+      (images.total > 0 ? 30 : 0) + (images.total >= 3 ? 15 : 0) +
+      (analysis.listCount + analysis.tableCount > 0 ? 25 : 0) +
+      (analysis.questionHeadings > 0 ? 15 : 0) +
+      (analysis.tableCount > 0 ? 15 : 0)
+    ),
+    eeat: clamp(
+      (analysis.author ? 35 : 0) +
+      (analysis.modifiedAt || analysis.publishedAt ? 25 : 0) +
+      (links.external >= 2 ? 40 : links.external === 1 ? 20 : 0)
+    ),
+  }
+
+  const overall = clamp(
+    (Object.keys(COMPONENT_WEIGHTS) as Array<keyof QualityScore['components']>)
+      .reduce((total, key) => total + components[key] * COMPONENT_WEIGHTS[key], 0)
+  )
+  return { overall, components }
+}
+
+export interface ArticleToScore {
+  html: string
+  title: string
+  metaDescription: string
+  h1: string
+}
+
+/**
+ * Scores an optimized article on the same components as scoreQuality gives a
+ * live page. Schema, author and dates live outside the post body and survive
+ * publishing, so they are taken from the live page's analysis when there is one.
+ */
+export function scoreArticle(article: ArticleToScore, pageUrl: string, live?: PageAnalysis | null): QualityScore {
+  const document = `<html><head><title>${escapeHtml(article.title)}</title>` +
+    `<meta name="description" content="${escapeHtml(article.metaDescription)}"></head>` +
+    `<body><h1>${escapeHtml(article.h1)}</h1><article>${article.html}</article></body></html>`
+  const analysis = analyzeHtml(document, pageUrl)
+  if (!live) return scoreQuality(analysis)
+
+  return scoreQuality({
+    ...analysis,
+    schemaTypes: [...new Set([...(live.schemaTypes || []), ...analysis.schemaTypes])],
+    author: live.author,
+    publishedAt: live.publishedAt,
+    modifiedAt: live.modifiedAt,
+  })
+}
@@ -0,0 +1,352 @@
+// supabase/functions/_shared/pipeline-types.ts
+// ============================================================================
+// PIPELINE TYPES (EDGE)
+// ============================================================================
+// Edge-side copy of the content pipeline model in src/lib/pipeline/types.ts.
+// Edge functions cannot import from src/, so keep both files in sync.
+// ============================================================================
+
+export type JobState =
+  | 'pending'
+  | 'briefing'
+  | 'outlining'
+  | 'drafting'
+  | 'enriching'
+  | 'quality_check'
+  | 'rendering'
+  | 'complete'
+  | 'failed';
+
+// Stages in execution order. 'pending', 'complete' and 'failed' are terminal
+// or initial states, not stages.
+export const PIPELINE_STAGES = [
+  'briefing',
+  'outlining',
+  'drafting',
+  'enriching',
+  'quality_check',
+  'rendering',
+] as const;
+
+export type PipelineStage = typeof PIPELINE_STAGES[number];
+
+export interface ContentOutput {
+  articleComponents: ArticleComponent[];
+  htmlString: string;
+  plainText: string;
+  seoMetrics: SEOScore;
+  wordCount: number;
+  readingTime: number; // minutes
+}
+
+// ============ ARTICLE COMPONENTS ============
+// Rendered by ArticleComponentRenderer.ts; the frontend previews the same
+// union in src/components/shared/ArticleComponentPreview.tsx
+export type ArticleComponent =
+  | IntroductionBlock
+  | HeadingBlock
+  | ParagraphBlock
+  | TldrBlock
+  | KeyTakeawaysBlock
+  | DoAvoidBlock
+  | ChecklistBlock
+  | CalloutBlock
+  | QuoteBlock
+  | VideoBlock
+  | FaqBlock
+  | ComparisonTableBlock
+  | ConclusionBlock
+  | CtaBlock;
+
+export interface BaseBlock {
+  id: string;
+  type: string;
+  order: number;
+  alignment?: 'left' | 'center' | 'right';
+}
+
+export interface IntroductionBlock extends BaseBlock {
+  type: 'introduction';
+  content: string;
+  hooks: string[];
+}
+
+export interface HeadingBlock extends BaseBlock {
+  type: 'heading';
+  level: 1 | 2 | 3 | 4;
+  text: string;
+  slug: string;
+  icon?: string;
+}
+
+export interface ParagraphBlock extends BaseBlock {
+  type: 'paragraph';
+  content: string;
+  emphasis?: boolean;
+}
+
+export interface TldrBlock extends BaseBlock {
+  type: 'tldr';
+  title: string;
+  bullets: string[];
+  icon?: 'lightning' | 'star' | 'target';
+  style?: 'default' | 'compact' | 'highlight';
+}
+
+export interface KeyTakeawaysBlock extends BaseBlock {
+  type: 'key_takeaways';
+  title: string;
+  items: TakeawayItem[];
+  columns?: 2 | 3 | 4;
+  style?: 'grid' | 'list';
+}
+
+export interface TakeawayItem {
+  title: string;
+  description: string;
+  icon?: string;
+  color?: string;
+}
+
+export interface DoAvoidBlock extends BaseBlock {
+  type: 'do_avoid';
+  title?: string;
+  dos: DoAvoidItem[];
+  donts: DoAvoidItem[];
+  icon?: string;
+}
+
+export interface DoAvoidItem {
+  text: string;
+  explanation?: string;
+}
+
+export interface ChecklistBlock extends BaseBlock {
+  type: 'checklist';
+  title: string;
+  items: ChecklistItem[];
+  isInteractive: boolean;
+  compact?: boolean;
+}
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  checked: boolean;
+  subItems?: ChecklistItem[];
+}
+
+export interface CalloutBlock extends BaseBlock {
+  type: 'callout';
+  style: 'info' | 'warning' | 'success' | 'error' | 'tip';
+  title?: string;
+  content: string;
+  icon?: string;
+  cta?: { text: string; href: string };
+}
+
+export interface QuoteBlock extends BaseBlock {
+  type: 'quote';
+  text: string;
+  author?: string;
+  source?: string;
+  style?: 'default' | 'highlighted' | 'large';
+}
+
+export interface VideoBlock extends BaseBlock {
+  type: 'video';
+  url: string;
+  title: string;
+  thumbnail?: string;
+  duration?: number;
+  transcript?: string;
+  timestamps?: VideoTimestamp[];
+}
+
+export interface VideoTimestamp {
+  time: number;
+  label: string;
+  description?: string;
+}
+
+export interface FaqBlock extends BaseBlock {
+  type: 'faq';
+  title: string;
+  items: FaqItem[];
+  schema?: boolean;
+}
+
+export interface FaqItem {
+  question: string;
+  answer: string;
+  tags?: string[];
+}
+
+export interface ComparisonTableBlock extends BaseBlock {
+  type: 'comparison_table';
+  title: string;
+  headers: string[];
+  rows: ComparisonRow[];
+  bestChoice?: number;
+}
+
+export interface ComparisonRow {
+  feature: string;
+  cells: string[];
+  highlight?: boolean;
+}
+
+export interface ConclusionBlock extends BaseBlock {
+  type: 'conclusion';
+  summary: string;
+  keyPoints: string[];
+}
+
+export interface CtaBlock extends BaseBlock {
+  type: 'cta';
+  title: string;
+  description: string;
+  buttonText: string;
+  buttonUrl: string;
+  style?: 'primary' | 'secondary' | 'outlined';
+}
+
+// ============ SEO METRICS ============
+export interface SEOScore {
+  overall: number;
+  readability: number;
+  completeness: number;
+  entityCoverage: number;
+  internalLinking: number;
+  schemaOptimization: number;
+  snippetReadiness: number;
+  keywordOptimization: number;
+  failingAspects: string[];
+  recommendations: string[];
+}
+
+// ============ SERP BRIEF ============
+export interface SerpBrief {
+  query: string;
+  searchIntent: 'informational' | 'commercial' | 'navigational' | 'transactional';
+  volumePerMonth: number;
+  difficulty: number;
+  topEntities: string[];
+  paaQuestions: string[];
+  competitorTitles: string[];
+  competitorGaps: string[];
+  suggestedHeadings: string[];
+  missingAngles: string[];
+}
+
+// ============ OUTLINE ============
+export interface ContentOutline {
+  title: string;
+  intro: OutlineSection;
+  sections: OutlineSection[];
+  conclusion: OutlineSection;
+}
+
+export interface OutlineSection {
+  heading: string;
+  level: number;
+  objective: string;
+  keyPoints: string[];
+  examples?: string[];
+  subsections?: OutlineSection[];
+}
+
+// ============ DRAFT ============
+export interface DraftedSection {
+  heading: string;
+  html: string;
+  wordCount: number;
+}
+
+// ============ SOURCE POST ============
+// The live post as returned by fetch-page-content
+export interface SourcePost {
+  id: number;
+  title: string;
+  content: string;
+  excerpt: string;
+  slug: string;
+  status: string;
+  modified: string;
+  wordCount: number;
+}
+
+// The live post reduced to what a full rewrite must carry over
+export interface SourceMaterial {
+  title: string;
+  headings: string[]; // "H2: ..." / "H3: ..." in document order
+  text: string; // clean text, headings marked with #
+  internalLinks: SourceLink[];
+  wordCount: number;
+  truncated: boolean;
+}
+
+export interface SourceLink {
+  anchor: string;
+  href: string;
+}
+
+// ============ SURGICAL OPTIMIZATION ============
+export type OptimizationMode = 'surgical' | 'full_rewrite';
+
+export interface SurgicalPlan {
+  sections: SectionVerdict[];
+  missingBlocks: InsertableBlock[];
+  metaDescription?: string;
+}
+
+export interface SectionVerdict {
+  index: number;
+  heading: string;
+  wordCount: number;
+  action: 'keep' | 'rewrite';
+  reason: string;
+}
+
+export type InsertableBlock = 'toc' | 'key_takeaways' | 'faq';
+
+// Edits against SourcePost.content. Each operation stands alone, so any
+// subset of them can be applied to the original HTML.
+export type PatchOperation =
+  | ReplaceSectionOperation
+  | SetAltTextOperation
+  | InsertBlockOperation;
+
+export interface ReplaceSectionOperation {
+  op: 'replace_section';
+  id: string;
+  sectionIndex: number;
+  heading: string;
+  reason: string;
+  before: string;
+  after: string;
+}
+
+export interface SetAltTextOperation {
+  op: 'set_alt_text';
+  id: string;
+  src: string;
+  before: string;
+  after: string;
+}
+
+export interface InsertBlockOperation {
+  op: 'insert_block';
+  id: string;
+  block: InsertableBlock;
+  position: 'after_intro' | 'end';
+  html: string;
+  // TOC only: ids added to the H2s it links to when they have none
+  anchors?: Array<{ heading: string; id: string }>;
+}
+
+export interface ContentPatch {
+  postId: number;
+  baseModified: string; // SourcePost.modified the patch was made against
+  operations: PatchOperation[];
+}
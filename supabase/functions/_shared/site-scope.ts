@@ -0,0 +1,119 @@
+// supabase/functions/_shared/site-scope.ts
+// ============================================================================
+// WORKSPACE SITE SCOPE
+// ============================================================================
+// The app manages many WordPress sites (wp_sites rows) and sends the active
+// site's id with every call. Functions check that the WordPress URL, page,
+// job or revision a request names belongs to that site, so a stale tab or a
+// mixed-up queue can't push one client's content to another client's blog.
+// Requests without a siteId, and rows saved before sites were tracked on
+// them, are not checked.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export interface SiteScopeRefs {
+  siteUrl?: string | null
+  pageId?: string | null
+  jobId?: string | null
+  revisionId?: string | null
+}
+
+export interface SiteScopeViolation {
+  error: 'SITE_NOT_FOUND' | 'SITE_MISMATCH'
+  message: string
+  status: number
+}
+
+export function readSiteId(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  return UUID_PATTERN.test(trimmed) ? trimmed : null
+}
+
+// Scheme, "www." and trailing slashes don't make a different site
+function siteKey(url: string): string {
+  return url.trim().toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/\/+$/, '')
+}
+
+function mismatch(message: string): SiteScopeViolation {
+  return { error: 'SITE_MISMATCH', message, status: 403 }
+}
+
+async function rowSiteId(
+  supabase: SupabaseClient,
+  table: 'pages' | 'jobs',
+  id: string
+): Promise<string | null> {
+  const { data, error } = await supabase.from(table).select('site_id').eq('id', id).maybeSingle()
+  if (error) {
+    console.warn(`[SiteScope] Could not read ${table} ${id}:`, error.message)
+    return null
+  }
+  return (data?.site_id as string | null) ?? null
+}
+
+/**
+ * Returns why the request falls outside the site, or null when it is in
+ * scope. Lookup failures are logged and let through: this guards against
+ * mix-ups, and the write that follows fails on its own if the database is down.
+ */
+export async function checkSiteScope(
+  supabase: SupabaseClient,
+  siteId: string | null,
+  refs: SiteScopeRefs
+): Promise<SiteScopeViolation | null> {
+  if (!siteId) return null
+
+  const { data: site, error } = await supabase
+    .from('wp_sites')
+    .select('id, site_url')
+    .eq('id', siteId)
+    .maybeSingle()
+
+  if (error) {
+    console.warn(`[SiteScope] Could not read site ${siteId}:`, error.message)
+    return null
+  }
+  if (!site) {
+    return { error: 'SITE_NOT_FOUND', message: `Site ${siteId} is not in this workspace.`, status: 404 }
+  }
+
+  const siteUrl = site.site_url as string
+
+  if (refs.siteUrl && siteKey(refs.siteUrl) !== siteKey(siteUrl)) {
+    return mismatch(`${refs.siteUrl} is not the WordPress URL of the active site (${siteUrl}).`)
+  }
+
+  if (refs.pageId) {
+    const pageSiteId = await rowSiteId(supabase, 'pages', refs.pageId)
+    if (pageSiteId && pageSiteId !== siteId) {
+      return mismatch(`Page ${refs.pageId} belongs to another site.`)
+    }
+  }
+
+  if (refs.jobId) {
+    const jobSiteId = await rowSiteId(supabase, 'jobs', refs.jobId)
+    if (jobSiteId && jobSiteId !== siteId) {
+      return mismatch(`Job ${refs.jobId} belongs to another site.`)
+    }
+  }
+
+  if (refs.revisionId) {
+    const { data: revision } = await supabase
+      .from('post_revisions')
+      .select('site_url')
+      .eq('id', refs.revisionId)
+      .maybeSingle()
+    if (revision && siteKey(revision.site_url as string) !== siteKey(siteUrl)) {
+      return mismatch(`Revision ${refs.revisionId} was taken on another site.`)
+    }
+  }
+
+  return null
+}
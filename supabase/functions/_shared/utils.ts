@@ -28,6 +28,10 @@ export function slugify(text: string): string {
     .slice(0, 50);
 }
 
+export function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
 export function countWords(html: string): number {
   const text = html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
   return text.split(' ').filter(Boolean).length;
@@ -0,0 +1,221 @@
+// supabase/functions/_shared/vault.ts
+// ============================================================================
+// CREDENTIAL VAULT
+// ============================================================================
+// Secrets live in the `credentials` table, AES-GCM encrypted with
+// CREDENTIAL_ENCRYPTION_KEY (32 random bytes, base64). The app only holds row
+// ids; functions decrypt a secret right before they use it. Signed-in users
+// cannot read the encrypted columns, so the vault goes through the service
+// role and checks ownership itself.
+// ============================================================================
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+
+export type CredentialKind = 'wordpress_password' | 'ai_api_key' | 'serper_api_key' | 'neuronwriter_api_key'
+
+export const CREDENTIAL_KINDS: CredentialKind[] = ['wordpress_password', 'ai_api_key', 'serper_api_key', 'neuronwriter_api_key']
+
+// What the app may see of a credential
+export interface CredentialMetadata {
+  id: string
+  kind: CredentialKind
+  provider: string
+  siteId: string | null
+  hint: string
+  createdAt: string
+  rotatedAt: string | null
+  lastUsedAt: string | null
+}
+
+export interface StoreCredentialInput {
+  kind: CredentialKind
+  secret: string
+  siteId?: string | null
+  // AI provider for ai_api_key
+  provider?: string
+}
+
+const METADATA_COLUMNS = 'id, kind, provider, site_id, hint, created_at, rotated_at, last_used_at'
+
+// ============================================================================
+// ENCRYPTION
+// ============================================================================
+
+let cachedKey: Promise<CryptoKey> | null = null
+
+function encryptionKey(): Promise<CryptoKey> {
+  if (!cachedKey) {
+    const raw = Deno.env.get('CREDENTIAL_ENCRYPTION_KEY')
+    if (!raw) {
+      throw new Error('VAULT_NOT_CONFIGURED: CREDENTIAL_ENCRYPTION_KEY is not set.')
+    }
+    const bytes = Uint8Array.from(atob(raw), c => c.charCodeAt(0))
+    if (bytes.length !== 32) {
+      throw new Error('VAULT_NOT_CONFIGURED: CREDENTIAL_ENCRYPTION_KEY must be 32 bytes, base64 encoded.')
+    }
+    cachedKey = crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['encrypt', 'decrypt'])
+  }
+  return cachedKey
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0))
+
+async function encryptSecret(secret: string): Promise<{ ciphertext: string; iv: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await encryptionKey(), new TextEncoder().encode(secret))
+  return { ciphertext: toBase64(new Uint8Array(encrypted)), iv: toBase64(iv) }
+}
+
+async function decryptSecret(ciphertext: string, iv: string): Promise<string> {
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    await encryptionKey(),
+    fromBase64(ciphertext)
+  )
+  return new TextDecoder().decode(decrypted)
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function serviceClient(): SupabaseClient {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('SERVER_ERROR: Server configuration error.')
+  }
+  return createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } })
+}
+
+function toMetadata(row: Record<string, unknown>): CredentialMetadata {
+  return {
+    id: row.id as string,
+    kind: row.kind as CredentialKind,
+    provider: (row.provider as string) || '',
+    siteId: (row.site_id as string | null) ?? null,
+    hint: (row.hint as string) || '',
+    createdAt: row.created_at as string,
+    rotatedAt: (row.rotated_at as string | null) ?? null,
+    lastUsedAt: (row.last_used_at as string | null) ?? null,
+  }
+}
+
+/**
+ * Encrypts and saves a secret. Each owner has one slot per site, kind and
+ * provider; saving into a filled slot rotates it and keeps the id.
+ */
+export async function storeCredential(userId: string, input: StoreCredentialInput): Promise<CredentialMetadata> {
+  const secret = input.secret.trim()
+  if (!secret) {
+    throw new Error('MISSING_SECRET: Nothing to store.')
+  }
+
+  const supabase = serviceClient()
+  const siteId = input.siteId || null
+  const provider = input.kind === 'ai_api_key' ? (input.provider || '').toLowerCase() : ''
+  if (siteId) {
+    const { data: site } = await supabase.from('wp_sites').select('id').eq('id', siteId).eq('owner_id', userId).maybeSingle()
+    if (!site) {
+      throw new Error(`SITE_NOT_FOUND: Site ${siteId} is not in this workspace.`)
+    }
+  }
+
+  const { ciphertext, iv } = await encryptSecret(secret)
+  const hint = secret.length > 8 ? secret.slice(-4) : ''
+
+  let slot = supabase
+    .from('credentials')
+    .select('id')
+    .eq('owner_id', userId)
+    .eq('kind', input.kind)
+    .eq('provider', provider)
+  slot = siteId ? slot.eq('site_id', siteId) : slot.is('site_id', null)
+  const { data: existing, error: lookupError } = await slot.maybeSingle()
+  if (lookupError) {
+    throw new Error(`DATABASE_ERROR: ${lookupError.message}`)
+  }
+
+  const { data, error } = existing
+    ? await supabase
+      .from('credentials')
+      .update({ ciphertext, iv, hint, rotated_at: new Date().toISOString() })
+      .eq('id', existing.id)
+      .select(METADATA_COLUMNS)
+      .single()
+    : await supabase
+      .from('credentials')
+      .insert({ owner_id: userId, site_id: siteId, kind: input.kind, provider, ciphertext, iv, hint })
+      .select(METADATA_COLUMNS)
+      .single()
+
+  if (error || !data) {
+    throw new Error(`DATABASE_ERROR: ${error?.message || 'Credential was not saved.'}`)
+  }
+
+  console.log(`[Vault] ${existing ? 'Rotated' : 'Stored'} ${input.kind} credential ${data.id}`)
+  return toMetadata(data)
+}
+
+/**
+ * Decrypts a credential the user owns and records the use. `usedBy` names
+ * the function (or job) for the "last used" column.
+ */
+export async function revealCredential(userId: string, credentialId: string, usedBy: string): Promise<string> {
+  const supabase = serviceClient()
+  const { data, error } = await supabase
+    .from('credentials')
+    .select('ciphertext, iv')
+    .eq('id', credentialId)
+    .eq('owner_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`DATABASE_ERROR: ${error.message}`)
+  }
+  if (!data) {
+    throw new Error('CREDENTIAL_NOT_FOUND: The saved credential no longer exists. Enter it again in Configuration.')
+  }
+
+  const secret = await decryptSecret(data.ciphertext as string, data.iv as string)
+
+  const { error: touchError } = await supabase
+    .from('credentials')
+    .update({ last_used_at: new Date().toISOString(), last_used_by: usedBy })
+    .eq('id', credentialId)
+  if (touchError) {
+    console.warn(`[Vault] Could not record use of ${credentialId}:`, touchError.message)
+  }
+
+  return secret
+}
+
+// The secret behind an optional id, or '' when none was sent
+export async function revealOptionalCredential(
+  userId: string,
+  credentialId: unknown,
+  usedBy: string
+): Promise<string> {
+  return typeof credentialId === 'string' && credentialId ? revealCredential(userId, credentialId, usedBy) : ''
+}
+
+// AI provider entries (primary and fallbacks) name their key by vault id
+export interface VaultedKeyEntry {
+  apiKey?: string
+  apiKeyCredentialId?: string
+}
+
+// The entry with its key decrypted; entries without an id pass through, as
+// custom endpoints and the mock provider may have no key at all
+export async function revealEntryKey<T extends VaultedKeyEntry>(userId: string, entry: T, usedBy: string): Promise<T> {
+  if (!entry.apiKeyCredentialId) return entry
+  return { ...entry, apiKey: await revealCredential(userId, entry.apiKeyCredentialId, usedBy) }
+}
+
+// Splits the 'CODE: message' errors thrown above into response fields
+export function vaultError(err: unknown): { error: string; message: string } {
+  const message = err instanceof Error ? err.message : String(err)
+  const coded = message.match(/^([A-Z_]+):\s*([\s\S]*)$/)
+  return { error: coded?.[1] || 'VAULT_ERROR', message: coded?.[2] || message }
+}
@@ -0,0 +1,146 @@
+// supabase/functions/_shared/wp-discovery.ts
+// ============================================================================
+// WORDPRESS REST DISCOVERY
+// ============================================================================
+// Lists a post type's posts straight from the REST API, for sites whose XML
+// sitemap is missing or blocked by a security plugin. Authenticated, so drafts,
+// scheduled, pending and private posts come back too, each with the post ID,
+// terms, featured image and modified time the queue would otherwise have to
+// work out later.
+// ============================================================================
+
+const PAGE_REQUEST_TIMEOUT_MS = 20000
+const PER_PAGE = 100
+const STATUSES = 'publish,future,draft,pending,private'
+
+export interface DiscoveredPost {
+  id: number
+  link: string
+  title: string
+  slug: string
+  status: string // WordPress status: publish, draft, private, ...
+  categories: string[] // term names
+  tags: string[]
+  featuredImage: string | null
+  modified: string | null // ISO timestamp
+}
+
+export interface DiscoveryResult {
+  posts: DiscoveredPost[]
+  // False when the deadline or a failed page cut the listing short
+  complete: boolean
+}
+
+interface RawTerm {
+  name?: string
+  taxonomy?: string
+}
+
+interface RawPost {
+  id: number
+  link?: string
+  slug?: string
+  status?: string
+  title?: { raw?: string; rendered?: string }
+  modified_gmt?: string
+  _embedded?: {
+    'wp:featuredmedia'?: Array<{ source_url?: string }>
+    'wp:term'?: RawTerm[][]
+  }
+}
+
+function decodeText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&#0?39;|&#8217;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .trim()
+}
+
+function toDiscoveredPost(post: RawPost): DiscoveredPost {
+  const terms = (post._embedded?.['wp:term'] || []).flat()
+  const termNames = (taxonomy: string) => terms
+    .filter(term => term.taxonomy === taxonomy && term.name)
+    .map(term => decodeText(term.name!))
+
+  return {
+    id: post.id,
+    link: post.link || '',
+    title: decodeText(post.title?.raw ?? post.title?.rendered ?? ''),
+    slug: post.slug || '',
+    status: post.status || 'publish',
+    categories: termNames('category'),
+    tags: termNames('post_tag'),
+    featuredImage: post._embedded?.['wp:featuredmedia']?.[0]?.source_url || null,
+    modified: post.modified_gmt ? `${post.modified_gmt}Z` : null,
+  }
+}
+
+async function fetchPage(url: string, authHeader: string): Promise<Response> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), PAGE_REQUEST_TIMEOUT_MS)
+  try {
+    return await fetch(url, {
+      headers: { 'Accept': 'application/json', 'Authorization': authHeader },
+      signal: controller.signal,
+    })
+  } catch (err) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      throw new Error(`REST_DISCOVERY_FAILED: ${url} timed out after ${PAGE_REQUEST_TIMEOUT_MS / 1000}s.`)
+    }
+    throw err
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Pages through a post type's REST collection (see resolvePostTypeEndpoint)
+ * 100 posts at a time. Stops early, with complete: false, once `deadline`
+ * (epoch ms) has passed or a later page fails. Throws 'CODE: message' errors
+ * when the first page can't be read.
+ */
+export async function discoverPosts(endpoint: string, authHeader: string, deadline: number): Promise<DiscoveryResult> {
+  const posts: DiscoveredPost[] = []
+  let totalPages = 1
+
+  for (let page = 1; page <= totalPages; page++) {
+    if (page > 1 && Date.now() > deadline) {
+      console.warn(`[WP Discovery] Deadline reached after ${page - 1} of ${totalPages} pages`)
+      return { posts, complete: false }
+    }
+
+    const url = `${endpoint}?per_page=${PER_PAGE}&page=${page}&status=${STATUSES}&context=edit` +
+      `&orderby=id&order=asc&_embed=wp:featuredmedia,wp:term` +
+      `&_fields=id,link,slug,status,title,modified_gmt,_links,_embedded`
+    const response = await fetchPage(url, authHeader)
+
+    if (response.status === 401 || response.status === 403) {
+      await response.body?.cancel()
+      throw new Error('WORDPRESS_AUTH_FAILED: WordPress refused the application password, or the user cannot edit this post type.')
+    }
+    // What was listed so far is still worth keeping
+    if (!response.ok && page > 1) {
+      await response.body?.cancel()
+      console.warn(`[WP Discovery] Page ${page} of ${endpoint} returned ${response.status}`)
+      return { posts, complete: false }
+    }
+    if (!response.ok) {
+      await response.body?.cancel()
+      throw new Error(`REST_DISCOVERY_FAILED: ${endpoint} returned ${response.status}.`)
+    }
+
+    totalPages = parseInt(response.headers.get('x-wp-totalpages') || '1', 10) || 1
+    const batch = await response.json()
+    if (!Array.isArray(batch)) {
+      throw new Error(`REST_DISCOVERY_FAILED: ${endpoint} did not return a list of posts.`)
+    }
+    posts.push(...(batch as RawPost[]).map(toDiscoveredPost))
+  }
+
+  console.log(`[WP Discovery] Listed ${posts.length} posts from ${endpoint}`)
+  return { posts, complete: true }
+}
@@ -0,0 +1,283 @@
+// supabase/functions/_shared/wp-media.ts
+// ============================================================================
+// WORDPRESS MEDIA LIBRARY
+// ============================================================================
+// Uploads image bytes to /wp/v2/media and fills in the attachment's title,
+// caption and alt text. Bytes come either from a URL (fetched server-side so
+// the browser never hits CORS) or from a base64 payload sent by the browser.
+// The attachment ID can then be used as a post's featured_media, and
+// renderMediaFigure gives the markup to embed it in content.
+// ============================================================================
+
+import { escapeHtml } from './utils.ts'
+
+const MEDIA_FETCH_TIMEOUT_MS = 20000
+const MEDIA_UPLOAD_TIMEOUT_MS = 60000
+export const MAX_MEDIA_BYTES = 10 * 1024 * 1024
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+}
+
+export interface MediaFile {
+  bytes: Uint8Array<ArrayBuffer>
+  filename: string
+  mimeType: string
+}
+
+export interface MediaSourceInput {
+  sourceUrl?: string
+  data?: string // base64, optionally as a data: URL
+  filename?: string
+  mimeType?: string
+}
+
+export interface MediaDetails {
+  title?: string
+  caption?: string
+  altText?: string
+  postId?: number // attach the upload to this post
+}
+
+export interface UploadedMedia {
+  id: number
+  sourceUrl: string
+  title: string
+  caption: string
+  altText: string
+  mimeType: string
+  width: number | null
+  height: number | null
+}
+
+// ============================================================================
+// LOAD
+// ============================================================================
+
+function sanitizeFilename(name: string, mimeType: string): string {
+  const base = name.split(/[?#]/)[0].split('/').pop() || ''
+  const cleaned = base.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/-+\./g, '.').replace(/^-+|-+$/g, '')
+  const extension = EXTENSIONS[mimeType] || 'bin'
+  if (!cleaned) return `image.${extension}`
+  return /\.[a-z0-9]{2,4}$/.test(cleaned) ? cleaned : `${cleaned}.${extension}`
+}
+
+function assertImage(mimeType: string, size: number): void {
+  if (!mimeType.startsWith('image/')) {
+    throw new Error(`MEDIA_NOT_IMAGE: Expected an image but got "${mimeType || 'unknown type'}".`)
+  }
+  if (size === 0) {
+    throw new Error('MEDIA_EMPTY: The image is empty.')
+  }
+  if (size > MAX_MEDIA_BYTES) {
+    throw new Error(`MEDIA_TOO_LARGE: The image is ${(size / 1024 / 1024).toFixed(1)} MB; the limit is ${MAX_MEDIA_BYTES / 1024 / 1024} MB.`)
+  }
+}
+
+// Reads a response body, stopping one byte past `limit` so an undeclared or
+// understated length can't be buffered in full
+async function readCapped(response: Response, limit: number): Promise<Uint8Array<ArrayBuffer>> {
+  if (!response.body) return new Uint8Array(0)
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    size += value.length
+    if (size > limit) {
+      await reader.cancel()
+      break
+    }
+  }
+
+  const bytes = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return bytes
+}
+
+async function fetchMediaFromUrl(sourceUrl: string, filename?: string): Promise<MediaFile> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), MEDIA_FETCH_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(sourceUrl, { signal: controller.signal })
+    if (!response.ok) {
+      throw new Error(`MEDIA_FETCH_FAILED: ${sourceUrl} returned ${response.status}.`)
+    }
+
+    // Refuse what the headers already give away before reading any of the body
+    const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase()
+    const declaredSize = parseInt(response.headers.get('content-length') || '', 10)
+    try {
+      assertImage(mimeType, Number.isNaN(declaredSize) ? 1 : declaredSize)
+    } catch (err) {
+      await response.body?.cancel()
+      throw err
+    }
+
+    const bytes = await readCapped(response, MAX_MEDIA_BYTES)
+    assertImage(mimeType, bytes.length)
+
+    return { bytes, mimeType, filename: sanitizeFilename(filename || new URL(sourceUrl).pathname, mimeType) }
+  } catch (err) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      throw new Error(`MEDIA_FETCH_FAILED: ${sourceUrl} timed out after ${MEDIA_FETCH_TIMEOUT_MS / 1000}s.`)
+    }
+    throw err
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+function decodeBase64Media(data: string, filename?: string, mimeType?: string): MediaFile {
+  const dataUrl = data.match(/^data:([^;,]+)?(?:;[^,]*)?,(.*)$/s)
+  const type = (mimeType || dataUrl?.[1] || '').toLowerCase()
+  const encoded = (dataUrl ? dataUrl[2] : data).replace(/\s+/g, '')
+
+  let binary: string
+  try {
+    binary = atob(encoded)
+  } catch {
+    throw new Error('MEDIA_INVALID_DATA: The image data is not valid base64.')
+  }
+
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  assertImage(type, bytes.length)
+
+  return { bytes, mimeType: type, filename: sanitizeFilename(filename || '', type) }
+}
+
+/** Image bytes from a URL or a base64 payload, whichever the caller sent */
+export async function loadMediaFile(input: MediaSourceInput): Promise<MediaFile> {
+  if (input.data) return decodeBase64Media(input.data, input.filename, input.mimeType)
+  if (input.sourceUrl) return await fetchMediaFromUrl(input.sourceUrl, input.filename)
+  throw new Error('MEDIA_SOURCE_MISSING: Send either sourceUrl or data.')
+}
+
+// ============================================================================
+// UPLOAD
+// ============================================================================
+
+async function mediaRequest(url: string, authHeader: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), MEDIA_UPLOAD_TIMEOUT_MS)
+  try {
+    return await fetch(url, {
+      ...init,
+      headers: {
+        'Authorization': authHeader,
+        'Accept': 'application/json',
+        ...(init.headers || {}),
+      },
+      signal: controller.signal,
+    })
+  } catch (err) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      throw new Error(`MEDIA_UPLOAD_FAILED: WordPress did not answer within ${MEDIA_UPLOAD_TIMEOUT_MS / 1000}s.`)
+    }
+    throw err
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+function rendered(field: unknown): string {
+  if (typeof field === 'string') return field
+  if (field && typeof field === 'object') {
+    const value = field as { raw?: unknown; rendered?: unknown }
+    return String(value.raw ?? value.rendered ?? '')
+  }
+  return ''
+}
+
+function toUploadedMedia(raw: Record<string, unknown>): UploadedMedia {
+  const details = (raw.media_details || {}) as { width?: number; height?: number }
+  return {
+    id: Number(raw.id),
+    sourceUrl: String(raw.source_url || ''),
+    title: rendered(raw.title),
+    caption: rendered(raw.caption).replace(/<[^>]+>/g, '').trim(),
+    altText: String(raw.alt_text || ''),
+    mimeType: String(raw.mime_type || ''),
+    width: details.width ?? null,
+    height: details.height ?? null,
+  }
+}
+
+/**
+ * Sends the bytes to /wp/v2/media, then sets title, caption and alt text on
+ * the new attachment (the upload request itself only carries the file).
+ */
+export async function uploadMedia(
+  wpUrl: string,
+  authHeader: string,
+  file: MediaFile,
+  details: MediaDetails = {}
+): Promise<UploadedMedia> {
+  const uploadResponse = await mediaRequest(`${wpUrl}/wp-json/wp/v2/media`, authHeader, {
+    method: 'POST',
+    headers: {
+      'Content-Type': file.mimeType,
+      'Content-Disposition': `attachment; filename="${file.filename}"`,
+    },
+    body: file.bytes,
+  })
+
+  const uploaded = await uploadResponse.json().catch(() => null)
+  if (!uploadResponse.ok || !uploaded?.id) {
+    const reason = uploaded?.message || `HTTP ${uploadResponse.status}`
+    const code = uploadResponse.status === 401 || uploadResponse.status === 403 ? 'MEDIA_FORBIDDEN' : 'MEDIA_UPLOAD_FAILED'
+    throw new Error(`${code}: WordPress rejected ${file.filename} - ${reason}`)
+  }
+  console.log(`[media] ✅ Uploaded ${file.filename} as attachment ${uploaded.id}`)
+
+  const fields: Record<string, unknown> = {}
+  if (details.title) fields.title = details.title
+  if (details.caption) fields.caption = details.caption
+  if (details.altText) fields.alt_text = details.altText
+  if (details.postId) fields.post = details.postId
+  if (Object.keys(fields).length === 0) return toUploadedMedia(uploaded)
+
+  const updateResponse = await mediaRequest(`${wpUrl}/wp-json/wp/v2/media/${uploaded.id}`, authHeader, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(fields),
+  })
+
+  if (!updateResponse.ok) {
+    // The file is in the library either way; report it without the metadata
+    console.warn(`[media] ⚠️ Could not set details on attachment ${uploaded.id}: HTTP ${updateResponse.status}`)
+    return toUploadedMedia(uploaded)
+  }
+
+  return toUploadedMedia(await updateResponse.json())
+}
+
+// ============================================================================
+// EMBED
+// ============================================================================
+
+/** Image block markup for an attachment, the way the block editor writes it */
+export function renderMediaFigure(media: UploadedMedia): string {
+  const size = media.width && media.height ? ` width="${media.width}" height="${media.height}"` : ''
+  const caption = media.caption
+    ? `<figcaption class="wp-element-caption">${escapeHtml(media.caption)}</figcaption>`
+    : ''
+
+  return `<!-- wp:image {"id":${media.id},"sizeSlug":"large"} -->
+<figure class="wp-block-image size-large"><img src="${escapeHtml(media.sourceUrl)}" alt="${escapeHtml(media.altText)}" class="wp-image-${media.id}"${size}/>${caption}</figure>
+<!-- /wp:image -->`
+}
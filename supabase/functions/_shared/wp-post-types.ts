@@ -0,0 +1,119 @@
+// supabase/functions/_shared/wp-post-types.ts
+// ============================================================================
+// WORDPRESS POST TYPES
+// ============================================================================
+// Maps a post type slug ('post', 'page', 'product', 'docs', ...) to its REST
+// collection URL. Core types are known; anything else is looked up in
+// /wp-json/wp/v2/types, because custom post types choose their own rest_base
+// and may live outside the wp/v2 namespace.
+// ============================================================================
+
+const TYPES_FETCH_TIMEOUT_MS = 10000
+
+const CORE_REST_BASES: Record<string, string> = {
+  post: 'posts',
+  page: 'pages',
+}
+
+// Registered types that are not content anyone would optimize
+const INTERNAL_POST_TYPES = new Set([
+  'attachment',
+  'nav_menu_item',
+  'wp_block',
+  'wp_template',
+  'wp_template_part',
+  'wp_navigation',
+  'wp_global_styles',
+  'wp_font_family',
+  'wp_font_face',
+])
+
+export interface PostTypeInfo {
+  slug: string
+  name: string
+  restBase: string
+  restNamespace: string
+}
+
+interface RawPostType {
+  slug?: string
+  name?: string
+  rest_base?: string
+  rest_namespace?: string
+  viewable?: boolean
+}
+
+// Per-isolate cache of /types responses, keyed by site URL
+const typesCache = new Map<string, PostTypeInfo[]>()
+
+function toPostTypeInfo(slug: string, raw: RawPostType): PostTypeInfo | null {
+  if (!raw.rest_base) return null
+  return {
+    slug: raw.slug || slug,
+    name: raw.name || slug,
+    restBase: raw.rest_base,
+    restNamespace: raw.rest_namespace || 'wp/v2',
+  }
+}
+
+/**
+ * Lists the content post types a site exposes over REST. Pass the Basic auth
+ * header so types registered with show_in_rest but hidden from anonymous
+ * users are included.
+ */
+export async function listPostTypes(wpUrl: string, authHeader?: string): Promise<PostTypeInfo[]> {
+  const cached = typesCache.get(wpUrl)
+  if (cached) return cached
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), TYPES_FETCH_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(`${wpUrl}/wp-json/wp/v2/types${authHeader ? '?context=edit' : ''}`, {
+      headers: {
+        'Accept': 'application/json',
+        ...(authHeader ? { 'Authorization': authHeader } : {}),
+      },
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      throw new Error(`POST_TYPES_UNAVAILABLE: /wp-json/wp/v2/types returned ${response.status}.`)
+    }
+
+    const raw = await response.json() as Record<string, RawPostType>
+    const types = Object.entries(raw)
+      .filter(([slug, type]) => !INTERNAL_POST_TYPES.has(slug) && type.viewable !== false)
+      .map(([slug, type]) => toPostTypeInfo(slug, type))
+      .filter((type): type is PostTypeInfo => type !== null)
+
+    typesCache.set(wpUrl, types)
+    return types
+  } catch (err) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      throw new Error(`POST_TYPES_UNAVAILABLE: /wp-json/wp/v2/types timed out after ${TYPES_FETCH_TIMEOUT_MS / 1000}s.`)
+    }
+    throw err
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/** REST collection URL for a post type, e.g. https://site.com/wp-json/wp/v2/pages */
+export async function resolvePostTypeEndpoint(
+  wpUrl: string,
+  postType: string | null | undefined,
+  authHeader?: string
+): Promise<string> {
+  const slug = (postType || 'post').trim()
+  const coreBase = CORE_REST_BASES[slug]
+  if (coreBase) return `${wpUrl}/wp-json/wp/v2/${coreBase}`
+
+  const types = await listPostTypes(wpUrl, authHeader)
+  const type = types.find(candidate => candidate.slug === slug)
+  if (!type) {
+    throw new Error(`POST_TYPE_NOT_FOUND: Post type "${slug}" is not available over the WordPress REST API.`)
+  }
+
+  return `${wpUrl}/wp-json/${type.restNamespace}/${type.restBase}`
+}
@@ -0,0 +1,234 @@
+// supabase/functions/_shared/wp-revisions.ts
+// ============================================================================
+// WORDPRESS REVISION SNAPSHOTS
+// ============================================================================
+// Before a post is overwritten, its current title, content, excerpt, slug,
+// SEO meta, terms, featured image, status and date are copied into the
+// post_revisions table. publish-to-wordpress
+// snapshots before every update and restore-revision snapshots before every
+// rollback, so any change made from this app can be undone.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+
+const SNAPSHOT_FETCH_TIMEOUT_MS = 15000
+
+// SEO plugin fields publish-to-wordpress writes, and so must be able to restore
+export const SEO_META_KEYS = [
+  '_yoast_wpseo_metadesc',
+  '_yoast_wpseo_focuskw',
+  'rank_math_description',
+  'rank_math_focus_keyword',
+] as const
+
+export type RevisionReason = 'publish' | 'rollback'
+
+export interface WordPressTarget {
+  wpUrl: string // normalized, no trailing slash
+  auth: string // base64 "username:applicationPassword"
+  endpoint: string // REST collection of the post's type (wp-post-types.ts)
+}
+
+export interface PostSnapshot {
+  title: string
+  content: string
+  excerpt: string
+  slug: string | null
+  seoMeta: Record<string, string>
+  modified: string | null
+  // null when the post type does not carry the field
+  categories: number[] | null
+  tags: number[] | null
+  featuredMedia: number | null
+  status: string | null
+  date: string | null
+}
+
+export interface RevisionRefs {
+  siteUrl: string
+  postId: number
+  postType: string
+  pageId?: string | null
+  jobId?: string | null
+  reason: RevisionReason
+}
+
+export interface PostRevisionRow {
+  id: string
+  page_id: string | null
+  job_id: string | null
+  site_url: string
+  post_id: number
+  post_type: string
+  reason: string
+  title: string
+  content: string
+  excerpt: string
+  slug: string | null
+  seo_meta: Record<string, string> | null
+  post_modified: string | null
+  categories: number[] | null
+  tags: number[] | null
+  featured_media: number | null
+  post_status: string | null
+  post_date: string | null
+  restored_at: string | null
+  created_at: string
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+function rawField(field: unknown): string {
+  if (typeof field === 'string') return field
+  if (field && typeof field === 'object') {
+    const value = field as { raw?: unknown; rendered?: unknown }
+    return String(value.raw ?? value.rendered ?? '')
+  }
+  return ''
+}
+
+function termIds(field: unknown): number[] | null {
+  return Array.isArray(field) ? field.filter((id): id is number => typeof id === 'number') : null
+}
+
+// Registered meta is read from `meta`; Yoast does not register its keys, so
+// the description falls back to the one it exposes in yoast_head_json
+function readSeoMeta(post: Record<string, unknown>): Record<string, string> {
+  const meta = (post.meta && typeof post.meta === 'object' ? post.meta : {}) as Record<string, unknown>
+  const seoMeta: Record<string, string> = {}
+
+  for (const key of SEO_META_KEYS) {
+    if (typeof meta[key] === 'string') seoMeta[key] = meta[key] as string
+  }
+
+  const yoastHead = post.yoast_head_json as { description?: unknown } | undefined
+  if (seoMeta._yoast_wpseo_metadesc === undefined && typeof yoastHead?.description === 'string') {
+    seoMeta._yoast_wpseo_metadesc = yoastHead.description
+  }
+
+  return seoMeta
+}
+
+export async function readPostSnapshot(target: WordPressTarget, postId: number): Promise<PostSnapshot> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), SNAPSHOT_FETCH_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(`${target.endpoint}/${postId}?context=edit`, {
+      headers: {
+        'Authorization': `Basic ${target.auth}`,
+        'Accept': 'application/json',
+      },
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      throw new Error(`SNAPSHOT_FAILED: Could not read post ${postId} before updating it (HTTP ${response.status}).`)
+    }
+
+    const post = await response.json() as Record<string, unknown>
+    return {
+      title: rawField(post.title),
+      content: rawField(post.content),
+      excerpt: rawField(post.excerpt),
+      slug: typeof post.slug === 'string' ? post.slug : null,
+      seoMeta: readSeoMeta(post),
+      modified: typeof post.modified === 'string' ? post.modified : null,
+      categories: termIds(post.categories),
+      tags: termIds(post.tags),
+      featuredMedia: typeof post.featured_media === 'number' ? post.featured_media : null,
+      status: typeof post.status === 'string' ? post.status : null,
+      date: typeof post.date === 'string' ? post.date : null,
+    }
+  } catch (err) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      throw new Error(`SNAPSHOT_FAILED: Reading post ${postId} timed out after ${SNAPSHOT_FETCH_TIMEOUT_MS / 1000}s.`)
+    }
+    throw err
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+// ============================================================================
+// SAVE / RESTORE
+// ============================================================================
+
+export async function savePostRevision(
+  supabase: SupabaseClient,
+  refs: RevisionRefs,
+  snapshot: PostSnapshot
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('post_revisions')
+    .insert({
+      page_id: refs.pageId || null,
+      job_id: refs.jobId || null,
+      site_url: refs.siteUrl,
+      post_id: refs.postId,
+      post_type: refs.postType,
+      reason: refs.reason,
+      title: snapshot.title,
+      content: snapshot.content,
+      excerpt: snapshot.excerpt,
+      slug: snapshot.slug,
+      seo_meta: snapshot.seoMeta,
+      post_modified: snapshot.modified,
+      categories: snapshot.categories,
+      tags: snapshot.tags,
+      featured_media: snapshot.featuredMedia,
+      post_status: snapshot.status,
+      post_date: snapshot.date,
+    })
+    .select('id')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`SNAPSHOT_FAILED: Could not save the revision snapshot - ${error?.message || 'no row returned'}`)
+  }
+  return data.id as string
+}
+
+// Reads the live post and stores it; returns the new revision id
+export async function snapshotPost(
+  supabase: SupabaseClient,
+  target: WordPressTarget,
+  refs: RevisionRefs
+): Promise<string> {
+  const snapshot = await readPostSnapshot(target, refs.postId)
+  const revisionId = await savePostRevision(supabase, refs, snapshot)
+  console.log(`[revisions] ✅ Snapshot ${revisionId} of post ${refs.postId} (${refs.reason})`)
+  return revisionId
+}
+
+// WordPress REST body that puts a post back the way the revision recorded it
+export function revisionToPostData(revision: PostRevisionRow): Record<string, unknown> {
+  const postData: Record<string, unknown> = {
+    title: revision.title,
+    content: revision.content,
+    excerpt: revision.excerpt,
+  }
+  if (revision.slug) postData.slug = revision.slug
+
+  // Revisions taken before these columns existed leave them null; those
+  // fields stay as they are now. An empty term list or 0 (no featured image)
+  // is a real value and is written back.
+  if (revision.categories) postData.categories = revision.categories
+  if (revision.tags) postData.tags = revision.tags
+  if (revision.featured_media !== null && revision.featured_media !== undefined) {
+    postData.featured_media = revision.featured_media
+  }
+  // The date goes back with the status, or a restored schedule would keep the
+  // date a later publish set
+  if (revision.post_status) postData.status = revision.post_status
+  if (revision.post_date) postData.date = revision.post_date
+
+  // Clear the SEO fields that were empty at snapshot time, since a later
+  // publish may have filled them in
+  const seoMeta = revision.seo_meta || {}
+  postData.meta = Object.fromEntries(SEO_META_KEYS.map(key => [key, seoMeta[key] ?? '']))
+
+  return postData
+}
@@ -0,0 +1,130 @@
+// supabase/functions/_shared/wp-terms.ts
+// ============================================================================
+// WORDPRESS TERMS
+// ============================================================================
+// The REST API only accepts term IDs for a post's categories and tags, but
+// pages store term names and the AI can only suggest names. Names are looked
+// up in /wp/v2/categories and /wp/v2/tags and, when asked, missing terms are
+// created so the suggested taxonomy actually lands on the post.
+// ============================================================================
+
+const TERM_REQUEST_TIMEOUT_MS = 10000
+
+export type Taxonomy = 'categories' | 'tags'
+
+export interface TermResolution {
+  ids: number[]
+  created: string[] // names of terms this call created
+  missing: string[] // names that do not exist and were not created
+}
+
+interface RawTerm {
+  id: number
+  name: string
+  slug: string
+}
+
+function decodeName(name: string): string {
+  return name
+    .replace(/&amp;/g, '&')
+    .replace(/&#039;|&#8217;/g, "'")
+    .replace(/&quot;/g, '"')
+    .trim()
+    .toLowerCase()
+}
+
+function toSlug(name: string): string {
+  return name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
+
+async function termRequest(url: string, authHeader: string, init: RequestInit = {}): Promise<Response> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), TERM_REQUEST_TIMEOUT_MS)
+  try {
+    return await fetch(url, {
+      ...init,
+      headers: {
+        'Authorization': authHeader,
+        'Accept': 'application/json',
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      signal: controller.signal,
+    })
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+async function findTerm(wpUrl: string, authHeader: string, taxonomy: Taxonomy, name: string): Promise<number | null> {
+  const response = await termRequest(
+    `${wpUrl}/wp-json/wp/v2/${taxonomy}?search=${encodeURIComponent(name)}&per_page=100&_fields=id,name,slug`,
+    authHeader
+  )
+  if (!response.ok) {
+    throw new Error(`TERM_LOOKUP_FAILED: /wp/v2/${taxonomy} returned ${response.status} for "${name}".`)
+  }
+
+  // search is a fuzzy match, so pick the exact name (or slug) from the results
+  const terms = await response.json() as RawTerm[]
+  const wanted = decodeName(name)
+  const match = terms.find(term => decodeName(term.name) === wanted) ||
+    terms.find(term => term.slug === toSlug(name))
+  return match ? match.id : null
+}
+
+async function createTerm(wpUrl: string, authHeader: string, taxonomy: Taxonomy, name: string): Promise<number> {
+  const response = await termRequest(`${wpUrl}/wp-json/wp/v2/${taxonomy}`, authHeader, {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  })
+  const data = await response.json().catch(() => null)
+
+  // Created concurrently (or differing only in case) - WordPress hands back the existing id
+  if (data?.code === 'term_exists' && data?.data?.term_id) {
+    return Number(data.data.term_id)
+  }
+  if (!response.ok || !data?.id) {
+    throw new Error(`TERM_CREATE_FAILED: Could not create ${taxonomy === 'tags' ? 'tag' : 'category'} "${name}" - ${data?.message || response.status}`)
+  }
+  return data.id
+}
+
+/**
+ * Maps term names (or IDs, passed through unchanged) to term IDs. Duplicates
+ * are dropped; lookups run one at a time to stay friendly to shared hosting.
+ */
+export async function resolveTerms(
+  wpUrl: string,
+  authHeader: string,
+  taxonomy: Taxonomy,
+  values: unknown[],
+  createMissing: boolean
+): Promise<TermResolution> {
+  const resolution: TermResolution = { ids: [], created: [], missing: [] }
+  const seenNames = new Set<string>()
+
+  for (const value of values) {
+    if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value.trim()))) {
+      resolution.ids.push(Number(value))
+      continue
+    }
+    if (typeof value !== 'string' || !value.trim()) continue
+
+    const name = value.trim()
+    if (seenNames.has(decodeName(name))) continue
+    seenNames.add(decodeName(name))
+
+    const existingId = await findTerm(wpUrl, authHeader, taxonomy, name)
+    if (existingId !== null) {
+      resolution.ids.push(existingId)
+    } else if (createMissing) {
+      resolution.ids.push(await createTerm(wpUrl, authHeader, taxonomy, name))
+      resolution.created.push(name)
+    } else {
+      resolution.missing.push(name)
+    }
+  }
+
+  resolution.ids = [...new Set(resolution.ids)]
+  return resolution
+}
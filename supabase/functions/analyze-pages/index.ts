@@ -0,0 +1,157 @@
+// ============================================================================
+// ANALYZE-PAGES EDGE FUNCTION
+// ============================================================================
+// Enriches crawled queue rows with what is actually on the page (see
+// _shared/page-analysis.ts): the real title, word count, post ID, the modified
+// time the page reports, the full analysis and a score_before from the
+// QualityScore components. Each call works through the site's unanalyzed rows
+// for a bounded time; the app calls again while `remaining` is above zero.
+//   { siteId, pageIds?, limit?, lowScoreOnly? }
+// ============================================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { authenticateRequest } from '../_shared/auth.ts'
+import { readSiteId } from '../_shared/site-scope.ts'
+import { fetchPageAnalysis, scoreQuality } from '../_shared/page-analysis.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const DEFAULT_LIMIT = 10
+const MAX_LIMIT = 25
+const CONCURRENCY = 4
+// Pages already started may finish after this; none start after it
+const TIME_BUDGET_MS = 40000
+// "Score < 70 only": pending pages at or above it are skipped
+const LOW_SCORE_THRESHOLD = 70
+
+interface QueuedPage {
+  id: string
+  url: string
+  title: string
+  status: string | null
+  post_id: number | null
+  post_type: string | null
+  wp_status: string | null
+}
+
+function jsonResponse(data: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status
+  })
+}
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await authenticateRequest(req)
+    if ('error' in caller) {
+      return jsonResponse({ success: false, error: caller.error, message: caller.message }, caller.status)
+    }
+    const { supabase } = caller
+
+    const body = await req.json()
+    const siteId = readSiteId(body.siteId)
+    if (!siteId) {
+      return jsonResponse({ success: false, error: 'MISSING_SITE_ID', message: 'siteId is required.' }, 400)
+    }
+
+    // RLS only returns the caller's own sites
+    const { data: site } = await supabase.from('wp_sites').select('site_url').eq('id', siteId).maybeSingle()
+    if (!site) {
+      return jsonResponse({ success: false, error: 'SITE_NOT_FOUND', message: `Site ${siteId} is not in this workspace.` }, 404)
+    }
+    const siteUrl = (site.site_url as string).replace(/\/+$/, '')
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Number(body.limit) || DEFAULT_LIMIT))
+    const lowScoreOnly = body.lowScoreOnly === true
+
+    let query = supabase
+      .from('pages')
+      .select('id, url, title, status, post_id, post_type, wp_status')
+      .eq('site_id', siteId)
+    query = Array.isArray(body.pageIds) && body.pageIds.length > 0
+      ? query.in('id', body.pageIds)
+      : query.is('analyzed_at', null).order('created_at', { ascending: true })
+    const { data: pages, error: pagesError } = await query.limit(limit)
+    if (pagesError) {
+      return jsonResponse({ success: false, error: 'DATABASE_ERROR', message: pagesError.message }, 500)
+    }
+
+    const startedAt = Date.now()
+    const queue = [...(pages || [])] as QueuedPage[]
+    const counts = { analyzed: 0, failed: 0, skipped: 0 }
+
+    const analyzeOne = async (page: QueuedPage) => {
+      const pageUrl = page.url.startsWith('http') ? page.url : `${siteUrl}${page.url}`
+      const analyzedAt = new Date().toISOString()
+      try {
+        // Drafts and private posts found over REST have nothing public to read
+        if (page.wp_status && page.wp_status !== 'publish') {
+          throw new Error(`Not public yet (WordPress status: ${page.wp_status})`)
+        }
+        const analysis = await fetchPageAnalysis(siteUrl, pageUrl, page.post_type)
+        const score = scoreQuality(analysis)
+        const modified = analysis.modifiedAt ? new Date(analysis.modifiedAt) : null
+        const skip = lowScoreOnly && (page.status === 'pending' || !page.status) && score.overall >= LOW_SCORE_THRESHOLD
+        const { error } = await supabase
+          .from('pages')
+          .update({
+            title: analysis.h1[0] || analysis.title || page.title,
+            word_count: analysis.wordCount,
+            post_id: page.post_id ?? analysis.postId,
+            score_before: score,
+            analysis,
+            analyzed_at: analyzedAt,
+            ...(modified && !isNaN(modified.getTime()) ? { wp_modified: modified.toISOString() } : {}),
+            ...(skip ? { status: 'skipped' } : {}),
+            updated_at: analyzedAt,
+          })
+          .eq('id', page.id)
+        if (error) throw new Error(error.message)
+        counts.analyzed++
+        if (skip) counts.skipped++
+      } catch (err) {
+        // Recorded as analyzed so the next call moves on; the queue shows the error
+        const message = err instanceof Error ? err.message : String(err)
+        console.warn(`[analyze-pages] ${pageUrl}: ${message}`)
+        await supabase
+          .from('pages')
+          .update({ analysis: { error: message }, analyzed_at: analyzedAt, updated_at: analyzedAt })
+          .eq('id', page.id)
+        counts.failed++
+      }
+    }
+
+    const workers = Array.from({ length: Math.min(CONCURRENCY, queue.length) }, async () => {
+      while (queue.length > 0 && Date.now() - startedAt < TIME_BUDGET_MS) {
+        await analyzeOne(queue.shift()!)
+      }
+    })
+    await Promise.all(workers)
+
+    const { count: remaining } = await supabase
+      .from('pages')
+      .select('id', { count: 'exact', head: true })
+      .eq('site_id', siteId)
+      .is('analyzed_at', null)
+
+    console.log(`[analyze-pages] Site ${siteId}: ${counts.analyzed} analyzed, ${counts.failed} failed, ${counts.skipped} skipped, ${remaining ?? 0} remaining`)
+
+    return jsonResponse({ success: true, ...counts, remaining: remaining ?? 0 })
+
+  } catch (err) {
+    console.error('[analyze-pages] Request error:', err)
+    return jsonResponse({
+      success: false,
+      error: 'ANALYSIS_FAILED',
+      message: err instanceof Error ? err.message : 'Unknown error',
+    }, 500)
+  }
+})
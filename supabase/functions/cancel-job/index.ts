@@ -0,0 +1,80 @@
+// ============================================================================
+// CANCEL-JOB EDGE FUNCTION
+// ============================================================================
+// Marks an optimization job 'cancelled'. Queued jobs are never claimed; a
+// running job stops at the worker's next cancellation check (between AI calls
+// and word-count retries). Completed stage output is kept for resume-job.
+// ============================================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { authenticateRequest } from '../_shared/auth.ts'
+import { cancelJob } from '../_shared/job-queue.ts'
+import { checkSiteScope, readSiteId } from '../_shared/site-scope.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+function jsonResponse(data: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status
+  })
+}
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await authenticateRequest(req)
+    if ('error' in caller) {
+      return jsonResponse({ success: false, error: caller.error, message: caller.message }, caller.status)
+    }
+    const { supabase } = caller
+
+    const { jobId, siteId } = await req.json()
+
+    if (!jobId) {
+      return jsonResponse({ success: false, error: 'MISSING_JOB_ID', message: 'jobId is required.' }, 400)
+    }
+
+    const scopeViolation = await checkSiteScope(supabase, readSiteId(siteId), { jobId })
+    if (scopeViolation) {
+      return jsonResponse({ success: false, error: scopeViolation.error, message: scopeViolation.message }, scopeViolation.status)
+    }
+
+    const { cancelled, status, error } = await cancelJob(supabase, jobId)
+
+    if (error) {
+      return jsonResponse({ success: false, error: 'DATABASE_ERROR', message: error }, 500)
+    }
+
+    if (!cancelled) {
+      if (!status) {
+        return jsonResponse({ success: false, error: 'JOB_NOT_FOUND', message: `Job ${jobId} not found.` }, 404)
+      }
+      return jsonResponse({
+        success: false,
+        error: 'JOB_NOT_CANCELLABLE',
+        message: `Job is already ${status}.`,
+        jobId,
+        status,
+      })
+    }
+
+    console.log(`[cancel-job] Job ${jobId} cancelled`)
+    return jsonResponse({ success: true, jobId, status: 'cancelled' })
+
+  } catch (err) {
+    console.error('[cancel-job] Request error:', err)
+    return jsonResponse({
+      success: false,
+      error: 'REQUEST_ERROR',
+      message: err instanceof Error ? err.message : 'An unexpected error occurred',
+    }, 500)
+  }
+})
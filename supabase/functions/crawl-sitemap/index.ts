@@ -1,5 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.90.0';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { authenticateRequest } from '../_shared/auth.ts';
+import { checkSiteScope, readSiteId } from '../_shared/site-scope.ts';
+import { revealCredential, vaultError } from '../_shared/vault.ts';
+import { listPostTypes, resolvePostTypeEndpoint } from '../_shared/wp-post-types.ts';
+import { discoverPosts, type DiscoveredPost } from '../_shared/wp-discovery.ts';
+import {
+  compileUrlRules,
+  fetchRobotsRules,
+  passesUrlRules,
+  robotsRuleFor,
+  rulePath,
+  sitemapPostType,
+  type RobotsRules,
+  type UrlRule,
+} from '../_shared/crawl-rules.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,12 +24,17 @@ const corsHeaders = {
 interface CrawlRequest {
   siteId: string;
   siteUrl: string;
-  sitemapPath: string;
+  sitemapPath?: string; // Without one, auto discovery goes straight to REST
   username: string;
-  applicationPassword: string;
-  postType?: string;
-  maxPages?: number; // 0 or undefined = ALL
+  postType?: string; // Default 'all'; a slug limits the crawl to that type
+  maxPages?: number; // 0 or undefined = ALL (incremental: caps new pages only)
   replaceExisting?: boolean; // Default true - delete non-optimized pages before insert
+  incremental?: boolean; // Sync the queue with the sitemap instead (ignores replaceExisting)
+  include?: string[]; // URL rules (see _shared/crawl-rules.ts); empty = everything
+  exclude?: string[];
+  // auto (default): the sitemap, or the REST API when it is missing or empty
+  discovery?: 'auto' | 'sitemap' | 'rest';
+  passwordCredentialId?: string; // Needed for REST discovery
 }
 
 interface CrawlResponse {
@@ -24,18 +44,136 @@ interface CrawlResponse {
   pagesAdded: number;
   pagesKept: number;
   pagesDeleted: number;
+  // Incremental mode only
+  pagesUpdated?: number;
+  pagesStale?: number;
+  pagesGone?: number;
+  pagesUnchanged?: number;
+  // What the rules and robots.txt said
+  urlsExcluded?: number;
+  skippedSitemaps?: string[];
+  robotsBlocked?: number;
+  robotsWarnings?: Array<{ url: string; rule: string }>;
+  source?: 'sitemap' | 'rest'; // Where the URLs came from
+  error?: string;
 }
 
+interface SitemapEntry {
+  url: string;
+  lastmod: string | null; // ISO timestamp
+  robotsRule: string | null; // e.g. "Disallow: /shop/"
+  postType: string | null; // From the sitemap's name or the REST collection
+  post?: DiscoveredPost; // REST discovery only
+}
+
+// One crawl's filters, and what they left out
+interface SitemapCrawl {
+  postType: string; // A slug, or ALL_POST_TYPES
+  include: UrlRule[];
+  exclude: UrlRule[];
+  robots: RobotsRules | null;
+  visitedUrls: Set<string>;
+  failedSitemaps: string[];
+  skippedSitemaps: string[]; // Named for another post type, or an archive
+  excludedPaths: Set<string>; // Dropped by the include/exclude rules
+  partial: boolean; // REST discovery stopped before the last page
+}
+
+// A queue row as the incremental sync sees it
+interface ExistingPage {
+  id: string;
+  url: string;
+  slug: string;
+  title: string;
+  status: string | null;
+  post_type: string | null;
+  lastmod: string | null;
+  robots_rule: string | null;
+  post_id: number | null;
+  wp_status: string | null;
+  wp_modified: string | null;
+  categories: string[] | null;
+  tags: string[] | null;
+  featured_image: string | null;
+  optimized_at: string | null;
+  analyzed_at: string | null;
+  stale_since: string | null;
+  gone_since: string | null;
+}
+
+interface SyncCounts {
+  pagesKept: number;
+  pagesUpdated: number;
+  pagesStale: number;
+  pagesGone: number;
+  pagesUnchanged: number;
+}
+
+// Crawls every post type; archives and author pages are still left out
+const ALL_POST_TYPES = 'all';
+// Core types REST discovery falls back to when /types can't be read
+const CORE_POST_TYPES = ['post', 'page'];
 // Depth limit for nested sitemaps
 const MAX_SITEMAP_DEPTH = 3;
+// How many robots.txt warnings the response lists
+const MAX_ROBOTS_WARNINGS = 20;
+// REST discovery stops starting new pages after this; the rest waits for the next crawl
+const REST_DISCOVERY_BUDGET_MS = 60000;
+// WordPress statuses without a permalink yet
+const UNPUBLISHED_STATUSES = ['draft', 'pending', 'auto-draft'];
+// Rows per insert/upsert request, and ids per `in` filter
+const BATCH_SIZE = 100;
+const PAGE_FETCH_SIZE = 1000;
+// Statuses whose content was replaced by an optimized version
+const OPTIMIZED_STATUSES = ['completed', 'published', 'scheduled'];
+// Publishing bumps WordPress's modified time; a lastmod this close to
+// optimized_at is the publish itself, not a later edit
+const STALE_TOLERANCE_MS = 2 * 60 * 1000;
+
+const toTimestamp = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
 
-async function fetchSitemap(url: string, visitedUrls: Set<string> = new Set(), depth: number = 0): Promise<string[]> {
+const toPathname = (url: string): string => {
+  try {
+    return new URL(url, 'https://placeholder.invalid').pathname || '/';
+  } catch {
+    return url;
+  }
+};
+
+// Where an entry lives in the queue. Drafts have no permalink yet, so they
+// are keyed by post ID until they go live.
+const queuePath = (entry: SitemapEntry): string =>
+  entry.post && UNPUBLISHED_STATUSES.includes(entry.post.status) ? `/?p=${entry.post.id}` : toPathname(entry.url);
+
+const slugFromPath = (pathname: string): string => {
+  const pathParts = pathname.split('/').filter(Boolean);
+  return pathParts[pathParts.length - 1] || 'home';
+};
+
+/**
+ * Fetches a sitemap (or sitemap index) and returns the page URLs that pass
+ * the crawl's rules, with their <lastmod> and any robots.txt rule against
+ * them. Archive sitemaps, and when the crawl is limited to a post type, ones
+ * named for another type, are not fetched; ones that fail to load are skipped
+ * and listed in failedSitemaps, so callers know the URL list may be
+ * incomplete. `postType` is what the enclosing sitemap's name said, if anything.
+ */
+async function fetchSitemap(
+  url: string,
+  crawl: SitemapCrawl,
+  depth: number = 0,
+  postType: string | null = null
+): Promise<SitemapEntry[]> {
   console.log(`[Sitemap Crawler] Fetching sitemap (depth ${depth}): ${url}`);
   
-  if (depth > MAX_SITEMAP_DEPTH || visitedUrls.has(url)) {
+  if (depth > MAX_SITEMAP_DEPTH || crawl.visitedUrls.has(url)) {
     return [];
   }
-  visitedUrls.add(url);
+  crawl.visitedUrls.add(url);
 
   const isGzipped = url.endsWith('.gz');
   
@@ -62,7 +200,16 @@ async function fetchSitemap(url: string, visitedUrls: Set<string> = new Set(), d
     xmlText = await response.text();
   }
 
-  const urls: string[] = [];
+  const urls: SitemapEntry[] = [];
+  let found = 0;
+  const addUrl = (loc: string, lastmod: string | null) => {
+    found++;
+    if (!passesUrlRules(loc, crawl.include, crawl.exclude)) {
+      crawl.excludedPaths.add(toPathname(loc));
+      return;
+    }
+    urls.push({ url: loc, lastmod, robotsRule: robotsRuleFor(loc, crawl.robots), postType });
+  };
   const isSitemapIndex = xmlText.includes('<sitemapindex') || xmlText.includes('<sitemap>');
   
   if (isSitemapIndex) {
@@ -71,63 +218,313 @@ async function fetchSitemap(url: string, visitedUrls: Set<string> = new Set(), d
     
     while ((match = sitemapRegex.exec(xmlText)) !== null) {
       const sitemapLoc = match[1].trim();
+      const sitemapType = sitemapPostType(sitemapLoc);
+      const otherType = crawl.postType !== ALL_POST_TYPES && sitemapType !== crawl.postType;
+      if (sitemapType === 'archive' || (sitemapType && otherType)) {
+        crawl.skippedSitemaps.push(sitemapLoc);
+        continue;
+      }
       try {
-        const nestedUrls = await fetchSitemap(sitemapLoc, visitedUrls, depth + 1);
+        const nestedUrls = await fetchSitemap(sitemapLoc, crawl, depth + 1, sitemapType ?? postType);
         urls.push(...nestedUrls);
       } catch (e) {
         console.log(`[Sitemap Crawler] Failed to fetch nested sitemap: ${sitemapLoc}`);
+        crawl.failedSitemaps.push(sitemapLoc);
       }
     }
   } else {
-    const locRegex = /<url>\s*<loc>([^<]+)<\/loc>/g;
+    const urlRegex = /<url>([\s\S]*?)<\/url>/g;
     let match;
     
-    while ((match = locRegex.exec(xmlText)) !== null) {
-      const loc = match[1].trim();
-      if (!loc.includes('sitemap') || !loc.endsWith('.xml')) {
-        urls.push(loc);
+    while ((match = urlRegex.exec(xmlText)) !== null) {
+      const loc = match[1].match(/<loc>([^<]+)<\/loc>/)?.[1].trim();
+      if (loc && (!loc.includes('sitemap') || !loc.endsWith('.xml'))) {
+        const lastmod = match[1].match(/<lastmod>([^<]+)<\/lastmod>/)?.[1];
+        addUrl(loc, toTimestamp(lastmod));
       }
     }
     
-    if (urls.length === 0) {
+    if (found === 0) {
       const simpleLoc = /<loc>([^<]+)<\/loc>/g;
       while ((match = simpleLoc.exec(xmlText)) !== null) {
         const loc = match[1].trim();
         if (!loc.endsWith('.xml') && !loc.includes('sitemap')) {
-          urls.push(loc);
+          addUrl(loc, null);
         }
       }
     }
   }
 
-  console.log(`[Sitemap Crawler] Found ${urls.length} URLs at depth ${depth}`);
+  console.log(`[Sitemap Crawler] Found ${found} URLs at depth ${depth}, ${urls.length} after rules`);
   return urls;
 }
 
-// Quick score calculation without external requests
-function calculateQuickScore(url: string): { overall: number; components: Record<string, number> } {
-  const hasCategory = url.includes('/category/') || url.includes('/tag/');
-  const isDeep = (url.match(/\//g) || []).length > 4;
-  const hasNumbers = /\d{4}/.test(url);
-  
-  const base = 45;
-  const variation = (url.length % 20) + (hasCategory ? 5 : 0) + (isDeep ? -5 : 5) + (hasNumbers ? 3 : 0);
-  
-  const overall = Math.min(75, Math.max(25, base + variation));
-  
-  return {
-    overall,
-    components: {
-      contentDepth: 40 + (url.length % 30),
-      readability: 50 + (variation % 20),
-      structure: 45 + (url.length % 25),
-      seoOnPage: 40 + (variation % 25),
-      internalLinks: 35 + (url.length % 20),
-      schemaMarkup: 20,
-      engagement: 45,
-      eeat: 40,
-    },
-  };
+// Inserts new queue rows in batches and returns how many were written. When
+// every type was crawled, rows take the type their sitemap was named for.
+async function insertPages(
+  supabase: SupabaseClient,
+  siteId: string | null,
+  entries: SitemapEntry[],
+  postType: string
+): Promise<number> {
+  const pagesToInsert = entries.map(entry => {
+    const pathname = queuePath(entry);
+    const post = entry.post;
+    // Drafts often have no slug until they are published
+    const slug = post ? post.slug || `post-${post.id}` : slugFromPath(pathname);
+
+    // Word count and score_before are filled in by analyze-pages; without a
+    // REST title, the slug stands in for the title until then
+    return {
+      site_id: siteId,
+      url: pathname,
+      slug,
+      title: post?.title || slug.replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase()),
+      word_count: null,
+      status: 'pending',
+      score_before: null,
+      post_type: postType === ALL_POST_TYPES ? entry.postType || 'post' : postType,
+      post_id: post?.id ?? null,
+      wp_status: post?.status ?? null,
+      categories: post?.categories ?? [],
+      tags: post?.tags ?? [],
+      featured_image: post?.featuredImage ?? null,
+      lastmod: entry.lastmod,
+      wp_modified: post?.modified ?? null,
+      robots_rule: entry.robotsRule,
+    };
+  });
+
+  console.log(`[Sitemap Crawler] New pages to insert: ${pagesToInsert.length}`);
+
+  let totalInserted = 0;
+  for (let i = 0; i < pagesToInsert.length; i += BATCH_SIZE) {
+    const batch = pagesToInsert.slice(i, i + BATCH_SIZE);
+    
+    const { data: insertedPages, error: insertError } = await supabase
+      .from('pages')
+      .insert(batch)
+      .select('id');
+
+    if (insertError) {
+      console.error(`[Sitemap Crawler] Batch insert error (batch ${Math.floor(i / BATCH_SIZE) + 1}):`, insertError);
+      // Continue with next batch instead of failing completely
+    } else {
+      totalInserted += insertedPages?.length || 0;
+    }
+  }
+
+  console.log(`[Sitemap Crawler] Successfully inserted ${totalInserted} pages`);
+  return totalInserted;
+}
+
+/**
+ * Incremental mode: matches the sitemap against the site's queue by URL path
+ * and only writes what changed. Rows keep their status, analysis and history.
+ * - A newer <lastmod> is recorded; unoptimized pages are queued for another
+ *   analysis, optimized ones are flagged stale if edited after publishing.
+ * - A changed robots.txt verdict is recorded, and for REST entries the post's
+ *   ID, status, terms and featured image. REST entries match by post ID
+ *   first, so a draft that went live keeps its row.
+ * - Queue rows of the crawled post type(s) missing from the sitemap are marked gone
+ *   (skipped when part of the listing failed to load), and cleared if they
+ *   come back. URLs the rules excluded are still listed, so they stay put.
+ * New URLs are returned for the caller to insert.
+ */
+async function syncWithQueue(
+  supabase: SupabaseClient,
+  siteId: string,
+  entries: SitemapEntry[],
+  crawl: SitemapCrawl
+): Promise<{ counts: SyncCounts; toInsert: SitemapEntry[] }> {
+  const existing = new Map<string, ExistingPage>();
+  const byPostId = new Map<number, ExistingPage>();
+  for (let from = 0; ; from += PAGE_FETCH_SIZE) {
+    const { data, error } = await supabase
+      .from('pages')
+      .select('id, url, slug, title, status, post_type, lastmod, robots_rule, post_id, wp_status, wp_modified, categories, tags, featured_image, optimized_at, analyzed_at, stale_since, gone_since')
+      .eq('site_id', siteId)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_FETCH_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load the queue: ${error.message}`);
+    }
+    for (const page of (data || []) as ExistingPage[]) {
+      const pathname = rulePath(page.url);
+      if (!existing.has(pathname)) existing.set(pathname, page);
+      if (page.post_id && !byPostId.has(page.post_id)) byPostId.set(page.post_id, page);
+    }
+    if (!data || data.length < PAGE_FETCH_SIZE) break;
+  }
+
+  const now = new Date().toISOString();
+  const counts: SyncCounts = { pagesKept: 0, pagesUpdated: 0, pagesStale: 0, pagesGone: 0, pagesUnchanged: 0 };
+  const toInsert: SitemapEntry[] = [];
+  const updates: ExistingPage[] = [];
+  const listed = new Set<string>(crawl.excludedPaths);
+
+  for (const entry of entries) {
+    const pathname = queuePath(entry);
+    listed.add(pathname);
+    const page = (entry.post && byPostId.get(entry.post.id)) || existing.get(pathname);
+    if (!page) {
+      toInsert.push(entry);
+      continue;
+    }
+    listed.add(rulePath(page.url));
+    counts.pagesKept++;
+
+    const post = entry.post;
+    const postDetails = post && {
+      url: pathname,
+      slug: post.slug || page.slug,
+      post_id: post.id,
+      wp_status: post.status,
+      categories: post.categories,
+      tags: post.tags,
+      featured_image: post.featuredImage,
+    };
+    // The modified time is compared as lastmod, which REST entries carry
+    const postChanged = !!postDetails && Object.entries(postDetails).some(([key, value]) =>
+      JSON.stringify(value) !== JSON.stringify(page[key as keyof ExistingPage] ?? (Array.isArray(value) ? [] : null))
+    );
+    const lastmodChanged = entry.lastmod !== null && entry.lastmod !== toTimestamp(page.lastmod);
+    const robotsChanged = entry.robotsRule !== page.robots_rule;
+    if (!lastmodChanged && !robotsChanged && !postChanged && !page.gone_since) {
+      counts.pagesUnchanged++;
+      continue;
+    }
+
+    const update: ExistingPage = {
+      ...page,
+      ...postDetails,
+      ...(post ? { wp_modified: post.modified } : {}),
+      robots_rule: entry.robotsRule,
+      gone_since: null,
+    };
+    if (entry.lastmod && lastmodChanged) {
+      update.lastmod = entry.lastmod;
+      if (OPTIMIZED_STATUSES.includes(page.status || '')) {
+        const editedAfterPublish = page.optimized_at !== null &&
+          Date.parse(entry.lastmod) > Date.parse(page.optimized_at) + STALE_TOLERANCE_MS;
+        if (editedAfterPublish && !page.stale_since) {
+          update.stale_since = now;
+          counts.pagesStale++;
+        }
+      } else if (page.lastmod) {
+        // Edited since it was last read; analyze-pages picks it up again
+        update.analyzed_at = null;
+      }
+    }
+    updates.push(update);
+  }
+
+  // Every row carries the same columns, so unchanged values are written back
+  // as they were; url, slug and title satisfy the insert half of the upsert
+  for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+    const batch = updates.slice(i, i + BATCH_SIZE).map(page => ({
+      id: page.id,
+      site_id: siteId,
+      url: page.url,
+      slug: page.slug,
+      title: page.title,
+      lastmod: page.lastmod,
+      robots_rule: page.robots_rule,
+      post_id: page.post_id,
+      wp_status: page.wp_status,
+      wp_modified: page.wp_modified,
+      categories: page.categories,
+      tags: page.tags,
+      featured_image: page.featured_image,
+      analyzed_at: page.analyzed_at,
+      stale_since: page.stale_since,
+      gone_since: page.gone_since,
+      updated_at: now,
+    }));
+    const { error } = await supabase.from('pages').upsert(batch, { onConflict: 'id' });
+    if (error) {
+      console.error(`[Sitemap Crawler] Batch update error (batch ${Math.floor(i / BATCH_SIZE) + 1}):`, error);
+    } else {
+      counts.pagesUpdated += batch.length;
+    }
+  }
+
+  if (crawl.failedSitemaps.length > 0 || crawl.partial) {
+    console.log('[Sitemap Crawler] Part of the listing failed to load; not marking missing pages as gone');
+    return { counts, toInsert };
+  }
+
+  const goneIds = [...existing.entries()]
+    .filter(([pathname, page]) => !listed.has(pathname) && !page.gone_since &&
+      (crawl.postType === ALL_POST_TYPES || (page.post_type || 'post') === crawl.postType))
+    .map(([, page]) => page.id);
+  for (let i = 0; i < goneIds.length; i += BATCH_SIZE) {
+    const ids = goneIds.slice(i, i + BATCH_SIZE);
+    const { error } = await supabase
+      .from('pages')
+      .update({ gone_since: now, updated_at: now })
+      .in('id', ids);
+    if (error) {
+      console.error('[Sitemap Crawler] Error marking removed pages as gone:', error);
+    } else {
+      counts.pagesGone += ids.length;
+    }
+  }
+
+  return { counts, toInsert };
+}
+
+/**
+ * Lists the post type's posts (or every content type's) through the REST API
+ * instead of a sitemap, drafts and private posts included, and applies the
+ * same rules. Throws 'CODE: message' errors when the site can't be listed.
+ */
+async function discoverViaRest(
+  siteUrl: string,
+  username: string,
+  password: string,
+  crawl: SitemapCrawl
+): Promise<SitemapEntry[]> {
+  const authHeader = `Basic ${btoa(`${username}:${password.replace(/\s+/g, '')}`)}`;
+  const postTypes = crawl.postType === ALL_POST_TYPES
+    ? await listPostTypes(siteUrl, authHeader)
+      .then(types => types.map(type => type.slug))
+      .catch(err => {
+        console.warn('[Sitemap Crawler] Post types unavailable, listing posts and pages:', err instanceof Error ? err.message : err);
+        return CORE_POST_TYPES;
+      })
+    : [crawl.postType];
+
+  const deadline = Date.now() + REST_DISCOVERY_BUDGET_MS;
+  const listed: Array<{ postType: string; post: DiscoveredPost }> = [];
+  for (const [index, postType] of postTypes.entries()) {
+    // The budget is shared; types not reached wait for the next crawl
+    if (index > 0 && Date.now() > deadline) {
+      crawl.partial = true;
+      break;
+    }
+    const endpoint = await resolvePostTypeEndpoint(siteUrl, postType, authHeader);
+    const { posts, complete } = await discoverPosts(endpoint, authHeader, deadline);
+    listed.push(...posts.map(post => ({ postType, post })));
+    if (!complete) {
+      crawl.partial = true;
+      break;
+    }
+  }
+
+  const entries: SitemapEntry[] = [];
+  for (const { postType, post } of listed) {
+    const entry: SitemapEntry = { url: post.link || `${siteUrl}/?p=${post.id}`, lastmod: post.modified, robotsRule: null, postType, post };
+    if (!passesUrlRules(entry.url, crawl.include, crawl.exclude)) {
+      crawl.excludedPaths.add(queuePath(entry));
+      continue;
+    }
+    // Only a live permalink is something robots.txt can block
+    if (post.status === 'publish') entry.robotsRule = robotsRuleFor(entry.url, crawl.robots);
+    entries.push(entry);
+  }
+  return entries;
 }
 
 serve(async (req) => {
@@ -141,16 +538,20 @@ serve(async (req) => {
       siteUrl, 
       sitemapPath, 
       username, 
-      applicationPassword,
-      postType = 'post',
+      postType = ALL_POST_TYPES,
       maxPages = 0, // 0 = ALL
       replaceExisting = true,
+      incremental = false,
+      include,
+      exclude,
+      discovery = 'auto',
+      passwordCredentialId,
     }: CrawlRequest = await req.json();
 
     console.log(`[Sitemap Crawler] Starting crawl for site ${siteId}: ${siteUrl}`);
-    console.log(`[Sitemap Crawler] Options: maxPages=${maxPages}, replaceExisting=${replaceExisting}, postType=${postType}`);
+    console.log(`[Sitemap Crawler] Options: maxPages=${maxPages}, replaceExisting=${replaceExisting}, incremental=${incremental}, postType=${postType}, discovery=${discovery}`);
 
-    if (!siteUrl || !sitemapPath) {
+    if (!siteUrl || (!sitemapPath && discovery === 'sitemap')) {
       return new Response(
         JSON.stringify({
           success: false,
@@ -164,10 +565,76 @@ serve(async (req) => {
       );
     }
 
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    // An incremental crawl syncs against the site's queue
+    if (incremental && !siteId) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: 'siteId is required for an incremental crawl.',
+          error: 'MISSING_SITE_ID',
+          totalFound: 0,
+          pagesAdded: 0,
+          pagesKept: 0,
+          pagesDeleted: 0,
+        } as CrawlResponse),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Pages are written as the signed-in user, into their own site's queue
+    const caller = await authenticateRequest(req);
+    if ('error' in caller) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: caller.message,
+          error: caller.error,
+          totalFound: 0,
+          pagesAdded: 0,
+          pagesKept: 0,
+          pagesDeleted: 0,
+        } as CrawlResponse),
+        { status: caller.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const { supabase, userId } = caller;
+
+    // Crawled pages land in this site's queue; the URL has to be the site's own
+    const scopeViolation = await checkSiteScope(supabase, readSiteId(siteId), { siteUrl });
+    if (scopeViolation) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: scopeViolation.message,
+          error: scopeViolation.error,
+          totalFound: 0,
+          pagesAdded: 0,
+          pagesKept: 0,
+          pagesDeleted: 0,
+        } as CrawlResponse),
+        { status: scopeViolation.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let includeRules: UrlRule[];
+    let excludeRules: UrlRule[];
+    try {
+      includeRules = compileUrlRules(include);
+      excludeRules = compileUrlRules(exclude);
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: error instanceof Error ? error.message : 'Invalid URL rule',
+          error: 'INVALID_RULE',
+          totalFound: 0,
+          pagesAdded: 0,
+          pagesKept: 0,
+          pagesDeleted: 0,
+        } as CrawlResponse),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
     // Normalize URL
     let normalizedUrl = siteUrl.trim().replace(/\/+$/, '');
@@ -176,36 +643,71 @@ serve(async (req) => {
     }
 
     // Build sitemap URL
-    let sitemapUrl: string;
-    if (sitemapPath.startsWith('http')) {
+    let sitemapUrl: string | null = null;
+    if (sitemapPath?.startsWith('http')) {
       sitemapUrl = sitemapPath;
-    } else {
+    } else if (sitemapPath) {
       const cleanPath = sitemapPath.startsWith('/') ? sitemapPath : '/' + sitemapPath;
       sitemapUrl = normalizedUrl + cleanPath;
     }
 
-    console.log(`[Sitemap Crawler] Fetching: ${sitemapUrl}`);
+    // Fetch sitemap URLs, filtered by the rules and checked against robots.txt
+    const crawl: SitemapCrawl = {
+      postType,
+      include: includeRules,
+      exclude: excludeRules,
+      robots: await fetchRobotsRules(normalizedUrl),
+      visitedUrls: new Set(),
+      failedSitemaps: [],
+      skippedSitemaps: [],
+      excludedPaths: new Set(),
+      partial: false,
+    };
+    let allUrls: SitemapEntry[] = [];
+    let source: 'sitemap' | 'rest' = 'sitemap';
+    let discoveryError: string | null = null;
+    if (discovery !== 'rest' && sitemapUrl) {
+      console.log(`[Sitemap Crawler] Fetching: ${sitemapUrl}`);
+      try {
+        allUrls = await fetchSitemap(sitemapUrl, crawl);
+      } catch (error) {
+        console.error('[Sitemap Crawler] Failed to fetch sitemap:', error);
+        discoveryError = `Failed to fetch sitemap: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    }
 
-    // Fetch sitemap URLs
-    let allUrls: string[];
-    try {
-      allUrls = await fetchSitemap(sitemapUrl);
-      allUrls = [...new Set(allUrls)]; // Dedupe
-    } catch (error) {
-      console.error('[Sitemap Crawler] Failed to fetch sitemap:', error);
-      
+    // A missing sitemap, or a security plugin answering with an HTML page,
+    // leaves nothing to crawl; the REST API lists the same posts and more
+    const sitemapEmpty = allUrls.length === 0 && crawl.excludedPaths.size === 0 && crawl.skippedSitemaps.length === 0;
+    if (discovery === 'rest' || (discovery === 'auto' && ((sitemapEmpty && passwordCredentialId) || !sitemapUrl))) {
+      try {
+        if (!username || !passwordCredentialId) {
+          throw new Error('WORDPRESS_CREDENTIALS_MISSING: REST discovery needs the WordPress username and saved application password.');
+        }
+        const password = await revealCredential(userId, passwordCredentialId, 'crawl-sitemap');
+        allUrls = await discoverViaRest(normalizedUrl, username, password, crawl);
+        source = 'rest';
+        discoveryError = null;
+      } catch (error) {
+        const { error: code, message } = vaultError(error);
+        console.error(`[Sitemap Crawler] REST discovery failed (${code}):`, message);
+        discoveryError = [discoveryError, `REST discovery failed: ${message}`].filter(Boolean).join('; ');
+      }
+    }
+
+    if (discoveryError) {
       if (siteId) {
         await supabase.from('activity_log').insert({
           site_id: siteId,
           type: 'error',
-          message: `Failed to fetch sitemap: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          message: discoveryError,
         });
       }
       
       return new Response(
         JSON.stringify({
           success: false,
-          message: `Failed to fetch sitemap: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          message: discoveryError,
           totalFound: 0,
           pagesAdded: 0,
           pagesKept: 0,
@@ -215,21 +717,76 @@ serve(async (req) => {
       );
     }
 
+    const seenUrls = new Set<string>();
+    allUrls = allUrls.filter(entry => {
+      if (seenUrls.has(entry.url)) return false; // Dedupe
+      seenUrls.add(entry.url);
+      return true;
+    });
+
+    const blocked = allUrls.filter(entry => entry.robotsRule);
+    const ruleSummary = {
+      urlsExcluded: crawl.excludedPaths.size,
+      skippedSitemaps: crawl.skippedSitemaps,
+      robotsBlocked: blocked.length,
+      robotsWarnings: blocked.slice(0, MAX_ROBOTS_WARNINGS).map(entry => ({ url: entry.url, rule: entry.robotsRule! })),
+      source,
+    };
+    console.log(`[Sitemap Crawler] Rules: ${ruleSummary.urlsExcluded} excluded, ${crawl.skippedSitemaps.length} sitemaps skipped, ${blocked.length} blocked by robots.txt`);
+
     if (allUrls.length === 0) {
       return new Response(
         JSON.stringify({
           success: true,
-          message: 'Sitemap contains no page URLs',
+          message: ruleSummary.urlsExcluded > 0 || crawl.skippedSitemaps.length > 0
+            ? 'No sitemap URLs matched the post type and URL rules'
+            : source === 'rest' ? 'WordPress lists no posts of this type' : 'Sitemap contains no page URLs',
           totalFound: 0,
           pagesAdded: 0,
           pagesKept: 0,
           pagesDeleted: 0,
+          ...ruleSummary,
         } as CrawlResponse),
         { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log(`[Sitemap Crawler] Total unique URLs found: ${allUrls.length}`);
+    console.log(`[Sitemap Crawler] Total unique URLs found via ${source}: ${allUrls.length}`);
+
+    if (incremental) {
+      const { counts, toInsert } = await syncWithQueue(supabase, siteId, allUrls, crawl);
+      // maxPages caps how many new URLs join the queue; known ones are always synced
+      const newEntries = maxPages > 0 ? toInsert.slice(0, maxPages) : toInsert;
+      const totalInserted = await insertPages(supabase, siteId, newEntries, postType);
+
+      await supabase.from('activity_log').insert({
+        site_id: siteId,
+        type: 'success',
+        message: `Incremental crawl complete: ${totalInserted} new, ${counts.pagesUpdated} updated, ${counts.pagesStale} stale, ${counts.pagesGone} gone` +
+          (blocked.length > 0 ? `, ${blocked.length} blocked by robots.txt` : ''),
+        details: {
+          totalFound: allUrls.length,
+          pagesAdded: totalInserted,
+          ...counts,
+          urlsExcluded: ruleSummary.urlsExcluded,
+          robotsBlocked: blocked.length,
+          failedSitemaps: crawl.failedSitemaps,
+        },
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: `Added ${totalInserted}, updated ${counts.pagesUpdated}, ${counts.pagesStale} stale, ${counts.pagesGone} gone, ${counts.pagesUnchanged} unchanged`,
+          totalFound: allUrls.length,
+          pagesAdded: totalInserted,
+          pagesDeleted: 0,
+          ...counts,
+          ...ruleSummary,
+        } as CrawlResponse),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
     // Apply maxPages limit if specified (0 = no limit)
     const urlsToProcess = maxPages > 0 ? allUrls.slice(0, maxPages) : allUrls;
@@ -282,70 +839,24 @@ serve(async (req) => {
     }
     console.log(`[Sitemap Crawler] Existing completed URLs to skip: ${existingCompletedUrls.size}`);
 
-    // STEP 3: Prepare pages for insert (excluding already-completed URLs)
-    const pagesToInsert = [];
-    for (const url of urlsToProcess) {
-      const urlObj = new URL(url);
-      const pathname = urlObj.pathname || '/';
-      
-      // Skip if this URL is already completed/optimized
-      if (existingCompletedUrls.has(pathname)) {
-        continue;
-      }
-
-      const pathParts = pathname.split('/').filter(Boolean);
-      const slug = pathParts[pathParts.length - 1] || 'home';
-      const score = calculateQuickScore(url);
-
-      pagesToInsert.push({
-        site_id: siteId || null,
-        url: pathname,
-        slug,
-        title: slug.replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase()),
-        word_count: 0,
-        status: 'pending',
-        score_before: score,
-        post_type: postType,
-        categories: [],
-        tags: [],
-      });
-    }
-
-    console.log(`[Sitemap Crawler] New pages to insert: ${pagesToInsert.length}`);
-
-    // STEP 4: Insert pages in batches (handle large sitemaps)
-    const BATCH_SIZE = 100;
-    let totalInserted = 0;
-
-    for (let i = 0; i < pagesToInsert.length; i += BATCH_SIZE) {
-      const batch = pagesToInsert.slice(i, i + BATCH_SIZE);
-      
-      const { data: insertedPages, error: insertError } = await supabase
-        .from('pages')
-        .insert(batch)
-        .select('id');
-
-      if (insertError) {
-        console.error(`[Sitemap Crawler] Batch insert error (batch ${Math.floor(i / BATCH_SIZE) + 1}):`, insertError);
-        // Continue with next batch instead of failing completely
-      } else {
-        totalInserted += insertedPages?.length || 0;
-      }
-    }
-
-    console.log(`[Sitemap Crawler] Successfully inserted ${totalInserted} pages`);
+    // STEP 3: Insert pages, excluding already-completed URLs
+    const newEntries = urlsToProcess.filter(entry => !existingCompletedUrls.has(queuePath(entry)));
+    const totalInserted = await insertPages(supabase, siteId || null, newEntries, postType);
 
     // Log activity
     if (siteId) {
       await supabase.from('activity_log').insert({
         site_id: siteId,
         type: 'success',
-        message: `Sitemap crawl complete: ${totalInserted} new pages added, ${pagesKept} optimized pages kept, ${pagesDeleted} old pages replaced`,
+        message: `Sitemap crawl complete: ${totalInserted} new pages added, ${pagesKept} optimized pages kept, ${pagesDeleted} old pages replaced` +
+          (blocked.length > 0 ? `, ${blocked.length} blocked by robots.txt` : ''),
         details: { 
           totalFound: allUrls.length, 
           pagesAdded: totalInserted,
           pagesKept,
           pagesDeleted,
+          urlsExcluded: ruleSummary.urlsExcluded,
+          robotsBlocked: blocked.length,
         },
       });
     }
@@ -358,6 +869,7 @@ serve(async (req) => {
         pagesAdded: totalInserted,
         pagesKept,
         pagesDeleted,
+        ...ruleSummary,
       } as CrawlResponse),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
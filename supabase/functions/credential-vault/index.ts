@@ -0,0 +1,86 @@
+// ============================================================================
+// CREDENTIAL-VAULT EDGE FUNCTION
+// ============================================================================
+// Saves WordPress application passwords and API keys encrypted (see
+// _shared/vault.ts) and returns an id the app stores instead of the secret.
+// Saving the same kind of secret for the same site again rotates it in place.
+//   { action: 'store', kind, secret, siteId?, provider? }
+//   { action: 'delete', credentialId }
+// Listing needs no function: owners can select the metadata columns.
+// ============================================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { authenticateRequest } from '../_shared/auth.ts'
+import { readSiteId } from '../_shared/site-scope.ts'
+import { CREDENTIAL_KINDS, storeCredential, vaultError, type CredentialKind } from '../_shared/vault.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+function jsonResponse(data: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status
+  })
+}
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await authenticateRequest(req)
+    if ('error' in caller) {
+      return jsonResponse({ success: false, error: caller.error, message: caller.message }, caller.status)
+    }
+    const { supabase, userId } = caller
+
+    const body = await req.json()
+
+    if (body.action === 'delete') {
+      if (!body.credentialId) {
+        return jsonResponse({ success: false, error: 'MISSING_CREDENTIAL_ID', message: 'credentialId is required.' }, 400)
+      }
+      // RLS limits the delete to the caller's own rows
+      const { data, error } = await supabase.from('credentials').delete().eq('id', body.credentialId).select('id')
+      if (error) {
+        return jsonResponse({ success: false, error: 'DATABASE_ERROR', message: error.message }, 500)
+      }
+      if (!data || data.length === 0) {
+        return jsonResponse({ success: false, error: 'CREDENTIAL_NOT_FOUND', message: `Credential ${body.credentialId} not found.` }, 404)
+      }
+      console.log(`[credential-vault] Deleted credential ${body.credentialId}`)
+      return jsonResponse({ success: true, credentialId: body.credentialId })
+    }
+
+    if (body.action !== 'store') {
+      return jsonResponse({ success: false, error: 'UNKNOWN_ACTION', message: `Unknown action "${body.action}".` }, 400)
+    }
+
+    if (!CREDENTIAL_KINDS.includes(body.kind)) {
+      return jsonResponse({ success: false, error: 'INVALID_KIND', message: `Unknown credential kind "${body.kind}".` }, 400)
+    }
+    if (typeof body.secret !== 'string' || !body.secret.trim()) {
+      return jsonResponse({ success: false, error: 'MISSING_SECRET', message: 'secret is required.' }, 400)
+    }
+
+    // storeCredential refuses sites the caller doesn't own
+    const credential = await storeCredential(userId, {
+      kind: body.kind as CredentialKind,
+      secret: body.secret,
+      siteId: readSiteId(body.siteId),
+      provider: body.provider,
+    })
+
+    return jsonResponse({ success: true, credential })
+
+  } catch (err) {
+    console.error('[credential-vault] Request error:', err)
+    const { error, message } = vaultError(err)
+    return jsonResponse({ success: false, error, message }, error === 'SITE_NOT_FOUND' ? 404 : 500)
+  }
+})
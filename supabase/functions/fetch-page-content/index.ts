@@ -1,4 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { resolvePostTypeEndpoint } from '../_shared/wp-post-types.ts';
+import { authenticateRequest, isServiceRoleRequest } from '../_shared/auth.ts';
+import { checkSiteScope, readSiteId } from '../_shared/site-scope.ts';
+import { revealCredential } from '../_shared/vault.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -6,11 +10,16 @@ const corsHeaders = {
 };
 
 interface FetchPageRequest {
+  siteId?: string;
   siteUrl: string;
   pageUrl: string;
   postId?: number;
+  postType?: string;
   username: string;
-  applicationPassword: string;
+  // Vault id of the site's application password
+  passwordCredentialId: string;
+  // Worker calls only: the job owner the credential belongs to
+  ownerId?: string;
 }
 
 interface PageContentResponse {
@@ -40,21 +49,47 @@ serve(async (req) => {
   }
 
   try {
-    const { siteUrl, pageUrl, postId, username, applicationPassword }: FetchPageRequest = await req.json();
+    // The worker reads the live post for queued jobs; it already checked the
+    // job's site when the job was queued
+    const caller = isServiceRoleRequest(req) ? null : await authenticateRequest(req);
+    if (caller && 'error' in caller) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: caller.message,
+          error: caller.error,
+        } as PageContentResponse),
+        { status: caller.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-    console.log(`[Fetch Page] Fetching content for: ${pageUrl || postId}`);
+    const { siteId, siteUrl, pageUrl, postId, postType, username, passwordCredentialId, ownerId }: FetchPageRequest = await req.json();
 
-    if (!siteUrl || (!pageUrl && !postId) || !username || !applicationPassword) {
+    console.log(`[Fetch Page] Fetching content for: ${pageUrl || postId} (type: ${postType || 'post'})`);
+
+    if (!siteUrl || (!pageUrl && !postId) || !username || !passwordCredentialId) {
       return new Response(
         JSON.stringify({
           success: false,
           message: 'Missing required fields',
-          error: 'siteUrl, pageUrl or postId, username, and applicationPassword are required',
+          error: 'siteUrl, pageUrl or postId, username, and passwordCredentialId are required',
         } as PageContentResponse),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    const scopeViolation = caller && await checkSiteScope(caller.supabase, readSiteId(siteId), { siteUrl });
+    if (scopeViolation) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: scopeViolation.message,
+          error: scopeViolation.error,
+        } as PageContentResponse),
+        { status: scopeViolation.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Normalize URL
     let normalizedUrl = siteUrl.trim();
     if (!normalizedUrl.startsWith('http://') && !normalizedUrl.startsWith('https://')) {
@@ -63,13 +98,18 @@ serve(async (req) => {
     normalizedUrl = normalizedUrl.replace(/\/+$/, '');
 
     // Create auth header
+    const credentialOwner = caller ? caller.userId : ownerId || '';
+    const applicationPassword = await revealCredential(credentialOwner, passwordCredentialId, caller ? 'fetch-page-content' : 'optimize-worker');
     const authHeader = 'Basic ' + btoa(`${username}:${applicationPassword.replace(/\s+/g, '')}`);
 
+    // Pages and custom post types have their own REST base
+    const endpoint = await resolvePostTypeEndpoint(normalizedUrl, postType, authHeader);
+
     let postData: any;
 
     if (postId) {
       // Fetch by post ID
-      const url = `${normalizedUrl}/wp-json/wp/v2/posts/${postId}?context=edit`;
+      const url = `${endpoint}/${postId}?context=edit`;
       console.log(`[Fetch Page] Fetching by ID: ${url}`);
       
       const response = await fetch(url, {
@@ -88,7 +128,7 @@ serve(async (req) => {
     } else {
       // Fetch by slug
       const slug = pageUrl.split('/').filter(Boolean).pop() || '';
-      const url = `${normalizedUrl}/wp-json/wp/v2/posts?slug=${encodeURIComponent(slug)}&context=edit`;
+      const url = `${endpoint}?slug=${encodeURIComponent(slug)}&context=edit`;
       console.log(`[Fetch Page] Fetching by slug: ${url}`);
       
       const response = await fetch(url, {
@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticateRequest } from "../_shared/auth.ts";
+import { revealCredential, storeCredential, vaultError, type CredentialMetadata } from "../_shared/vault.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,7 +11,9 @@ const NEURONWRITER_API = 'https://app.neuronwriter.com/neuron-api/0.5/writer';
 
 interface NeuronWriterRequest {
   action: 'list-projects' | 'list-queries' | 'get-query' | 'new-query' | 'get-recommendations';
-  apiKey: string;
+  // A newly typed key (checked by list-projects), or the vault id of the saved one
+  apiKey?: string;
+  apiKeyCredentialId?: string;
   projectId?: string;
   queryId?: string;
   keyword?: string;
@@ -118,8 +122,29 @@ serve(async (req) => {
   }
 
   try {
+    const caller = await authenticateRequest(req);
+    if ('error' in caller) {
+      return new Response(
+        JSON.stringify({ error: caller.message }),
+        { status: caller.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const request: NeuronWriterRequest = await req.json();
-    const { action, apiKey, projectId, queryId, keyword, engine, language, url } = request;
+    const { action, apiKey: typedKey, apiKeyCredentialId, projectId, queryId, keyword, engine, language, url } = request;
+
+    let apiKey = typedKey || '';
+    if (!apiKey && apiKeyCredentialId) {
+      try {
+        apiKey = await revealCredential(caller.userId, apiKeyCredentialId, `neuronwriter:${action}`);
+      } catch (err) {
+        const { message } = vaultError(err);
+        return new Response(
+          JSON.stringify({ error: message }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
 
     if (!apiKey) {
       return new Response(
@@ -139,8 +164,17 @@ serve(async (req) => {
             { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
+        // The key works, so keep it in the vault for the workspace
+        let credential: CredentialMetadata | undefined;
+        if (typedKey) {
+          try {
+            credential = await storeCredential(caller.userId, { kind: 'neuronwriter_api_key', secret: typedKey });
+          } catch (err) {
+            console.error('[NeuronWriter] Could not save the key:', err);
+          }
+        }
         return new Response(
-          JSON.stringify({ success: true, projects: result.data as NeuronProject[] }),
+          JSON.stringify({ success: true, projects: result.data as NeuronProject[], credential }),
           { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
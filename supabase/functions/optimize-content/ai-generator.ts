@@ -3,6 +3,8 @@
 // Supports: Google Gemini, OpenAI, Anthropic, Groq
 // ============================================================================
 
+import { providerFetch } from '../_shared/ai-fixtures.ts'
+
 interface GeneratedContent {
   title: string
   optimizedTitle: string
@@ -56,7 +58,7 @@ OUTPUT FORMAT (respond ONLY with valid JSON, no markdown code blocks):
   "excerpt": "A compelling 2-3 sentence excerpt"
 }`
 
-  const response = await fetch(
+  const response = await providerFetch(
     `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
     {
       method: 'POST',
@@ -137,7 +139,7 @@ OUTPUT FORMAT (respond ONLY with valid JSON, no markdown code blocks):
 async function generateWithOpenAI(apiKey: string, model: string, topic: string): Promise<GeneratedContent> {
   console.log(`[OpenAI] Generating content for: "${topic}" with model: ${model}`)
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+  const response = await providerFetch('https://api.openai.com/v1/chat/completions', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -219,7 +221,7 @@ Respond with this exact JSON structure:
 async function generateWithAnthropic(apiKey: string, model: string, topic: string): Promise<GeneratedContent> {
   console.log(`[Anthropic] Generating content for: "${topic}" with model: ${model}`)
 
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
+  const response = await providerFetch('https://api.anthropic.com/v1/messages', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -284,7 +286,7 @@ Respond with JSON only:
 async function generateWithGroq(apiKey: string, model: string, topic: string): Promise<GeneratedContent> {
   console.log(`[Groq] Generating content for: "${topic}" with model: ${model}`)
 
-  const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
+  const response = await providerFetch('https://api.groq.com/openai/v1/chat/completions', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
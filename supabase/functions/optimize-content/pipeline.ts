@@ -0,0 +1,1019 @@
+// ============================================================================
+// OPTIMIZE-CONTENT PIPELINE - ENTERPRISE SOTA v18.0.0
+// ============================================================================
+// Runs a job through the JobState stages:
+//   briefing → outlining → drafting → enriching → quality_check → rendering
+// Each stage writes its output to the jobs row as soon as it finishes, so a
+// failure in a later stage keeps everything produced before it. Stages whose
+// output is already on the row (e.g. a job reclaimed after a worker died) are
+// skipped.
+//
+// When the job targets an existing post, the live post is fetched first
+// (source-content.ts). A full rewrite outlines and drafts from its content;
+// surgical mode (surgical.ts) audits its sections and rewrites only the weak
+// ones, producing a patch against the original instead of a new article.
+// ============================================================================
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import {
+  JOB_CANCELLED,
+  JOB_LEASE_LOST,
+  MAX_WORD_COUNT_RETRIES,
+  callAIJson,
+  countWords,
+  createUsageTotals,
+  generateWithAI,
+  getTargetSectionCount,
+  isCancellationError,
+  isLeaseLostError,
+  type AIConfig,
+  type CancellationCheck,
+  type ContentSettings,
+  type GeneratedContent,
+  type OptimizeJobPayload,
+  type UsageTotals,
+} from './processor.ts'
+import {
+  applyContentPatch,
+  buildInsertOperations,
+  buildSurgicalDraft,
+  outlineFromSections,
+  runSurgicalAudit,
+  runSurgicalRewrite,
+  splitSourceSections,
+} from './surgical.ts'
+import { buildSourceMaterial, fetchSourcePost } from './source-content.ts'
+import type { ContentFormat } from '../_shared/WordPressContentRenderer.ts'
+import { renderArticleComponents } from '../_shared/ArticleComponentRenderer.ts'
+import { scoreArticle, type PageAnalysis, type QualityScore } from '../_shared/page-analysis.ts'
+import { slugify, stripHtml } from '../_shared/utils.ts'
+import type {
+  ArticleComponent,
+  ContentOutline,
+  ContentPatch,
+  DraftedSection,
+  FaqBlock,
+  KeyTakeawaysBlock,
+  OutlineSection,
+  PipelineStage,
+  SEOScore,
+  SerpBrief,
+  SourceMaterial,
+  SourcePost,
+  SurgicalPlan,
+  TldrBlock,
+} from '../_shared/pipeline-types.ts'
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Progress (0-100) reported when each stage starts
+const SOURCE_FETCH_PROGRESS = 5
+const STAGE_PROGRESS: Record<PipelineStage, number> = {
+  briefing: 10,
+  outlining: 20,
+  drafting: 30,
+  enriching: 70,
+  quality_check: 85,
+  rendering: 92,
+}
+
+const BRIEF_MAX_TOKENS = 2048
+const OUTLINE_MAX_TOKENS = 4096
+const ENRICHMENT_MAX_TOKENS = 4096
+const WORDS_PER_MINUTE = 238
+
+// Everything the stages produce, mirrored by columns on the jobs row
+interface PipelineState {
+  brief?: SerpBrief
+  outline?: ContentOutline
+  draft?: GeneratedContent
+  draftedSections?: DraftedSection[]
+  enrichmentBlocks?: ArticleComponent[]
+  seoScore?: SEOScore
+  // Surgical mode only
+  sourcePost?: SourcePost
+  surgicalPlan?: SurgicalPlan
+  contentPatch?: ContentPatch
+  // Spend already recorded on the row (non-zero when resuming)
+  priorTokens: number
+  priorCostUsd: number
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toStringArray(value: unknown, limit = 20): string[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .map(item => (typeof item === 'string' ? item : String(item ?? '')).trim())
+    .filter(Boolean)
+    .slice(0, limit)
+}
+
+function clampScore(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)))
+}
+
+// Only a running job moves on, so a cancel landing mid-stage keeps its
+// "Cancelled by user" step
+async function updateProgress(
+  supabase: SupabaseClient,
+  jobId: string,
+  progress: number,
+  step: string,
+  stage?: PipelineStage
+): Promise<void> {
+  const { error } = await supabase.from('jobs').update({
+    progress,
+    current_step: step,
+    ...(stage ? { stage } : {}),
+    updated_at: new Date().toISOString()
+  }).eq('id', jobId).eq('status', 'running')
+
+  if (error) {
+    console.error(`[Job ${jobId}] Progress update failed:`, error)
+  } else {
+    console.log(`[Job ${jobId}] ${progress}% - ${step}`)
+  }
+}
+
+// Column values for the job's running AI spend
+function usageColumns(usage: UsageTotals): Record<string, number> {
+  return {
+    ai_tokens_used: usage.totalTokens,
+    ai_cost: Math.round(usage.costUsd * 10000) / 10000,
+  }
+}
+
+async function saveStageOutput(
+  supabase: SupabaseClient,
+  jobId: string,
+  stage: PipelineStage,
+  fields: Record<string, unknown>,
+  usage: UsageTotals
+): Promise<void> {
+  const { error } = await supabase.from('jobs').update({
+    ...fields,
+    ...usageColumns(usage),
+    updated_at: new Date().toISOString(),
+  }).eq('id', jobId)
+
+  if (error) {
+    // Losing a checkpoint only costs a re-run of this stage on retry
+    console.error(`[Job ${jobId}] Failed to save ${stage} output:`, error)
+  } else {
+    console.log(`[Job ${jobId}] ✅ Saved ${stage} output`)
+  }
+}
+
+// Cancellation is cooperative: cancel-job flips the row to 'cancelled' and the
+// pipeline checks for it between AI calls. The same check stops the pipeline
+// once the worker's heartbeat reports the lease lost (`leaseSignal`).
+function createCancellationCheck(supabase: SupabaseClient, jobId: string, leaseSignal?: AbortSignal): CancellationCheck {
+  return async () => {
+    if (leaseSignal?.aborted) {
+      throw new Error(`${JOB_LEASE_LOST}: This worker no longer holds the job's lease.`)
+    }
+    const { data, error } = await supabase.from('jobs').select('status').eq('id', jobId).maybeSingle()
+    if (error) {
+      console.warn(`[Job ${jobId}] Cancellation check failed:`, error)
+      return
+    }
+    if (data?.status === 'cancelled') {
+      throw new Error(`${JOB_CANCELLED}: Job was cancelled.`)
+    }
+  }
+}
+
+async function loadPipelineState(supabase: SupabaseClient, jobId: string): Promise<PipelineState> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('serp_brief, content_outline, draft, drafted_sections, enrichment_blocks, seo_score, source_post, surgical_plan, content_patch, ai_tokens_used, ai_cost')
+    .eq('id', jobId)
+    .maybeSingle()
+
+  if (error || !data) {
+    if (error) console.warn(`[Job ${jobId}] Could not load saved stage output:`, error)
+    return { priorTokens: 0, priorCostUsd: 0 }
+  }
+
+  return {
+    brief: data.serp_brief || undefined,
+    outline: data.content_outline || undefined,
+    draft: data.draft || undefined,
+    draftedSections: data.drafted_sections || undefined,
+    enrichmentBlocks: data.enrichment_blocks || undefined,
+    seoScore: data.seo_score || undefined,
+    sourcePost: data.source_post || undefined,
+    surgicalPlan: data.surgical_plan || undefined,
+    contentPatch: data.content_patch || undefined,
+    priorTokens: data.ai_tokens_used || 0,
+    priorCostUsd: Number(data.ai_cost) || 0,
+  }
+}
+
+// ============================================================================
+// STAGE 1: BRIEFING - Search intent, entities, questions and gaps
+// ============================================================================
+
+async function loadCachedSerp(supabase: SupabaseClient, query: string): Promise<Record<string, unknown> | null> {
+  const { data } = await supabase
+    .from('serp_cache')
+    .select('result')
+    .eq('query', query.toLowerCase().trim())
+    .gt('expires_at', new Date().toISOString())
+    .limit(1)
+    .maybeSingle()
+
+  return (data?.result as Record<string, unknown>) || null
+}
+
+function buildBriefPrompt(topic: string, serp: Record<string, unknown> | null): string {
+  let serpSection = 'No live SERP data is available - rely on your knowledge of what currently ranks.'
+
+  if (serp) {
+    const organic = (serp.organic as Array<{ title?: string; snippet?: string }> | undefined) || []
+    const paa = (serp.peopleAlsoAsk as Array<{ question?: string }> | undefined) || []
+    const related = toStringArray(serp.relatedSearches)
+    serpSection = `LIVE SERP DATA:
+Top results:
+${organic.slice(0, 10).map((r, i) => `${i + 1}. ${r.title} - ${r.snippet || ''}`).join('\n')}
+People also ask: ${paa.map(q => q.question).filter(Boolean).join(' | ') || 'n/a'}
+Related searches: ${related.join(', ') || 'n/a'}`
+  }
+
+  return `You are an SEO strategist preparing a content brief.
+
+QUERY: ${topic}
+
+${serpSection}
+
+Respond ONLY with valid JSON (no markdown code blocks):
+{
+  "searchIntent": "informational | commercial | navigational | transactional",
+  "volumePerMonth": 0,
+  "difficulty": 0,
+  "topEntities": ["entity or concept the article must cover", "..."],
+  "paaQuestions": ["question searchers ask", "..."],
+  "competitorTitles": ["title of a ranking article", "..."],
+  "competitorGaps": ["something ranking articles fail to cover", "..."],
+  "suggestedHeadings": ["H2 heading", "..."],
+  "missingAngles": ["unique angle that would beat competitors", "..."]
+}
+
+volumePerMonth and difficulty (0-100) are your best estimates. Give 8-15 entities, 5-8 questions and 3-6 gaps.`
+}
+
+function normalizeBrief(topic: string, raw: Record<string, unknown>): SerpBrief {
+  const intents: SerpBrief['searchIntent'][] = ['informational', 'commercial', 'navigational', 'transactional']
+  const intent = String(raw.searchIntent || '').toLowerCase() as SerpBrief['searchIntent']
+
+  return {
+    query: topic,
+    searchIntent: intents.includes(intent) ? intent : 'informational',
+    volumePerMonth: Math.max(0, Number(raw.volumePerMonth) || 0),
+    difficulty: clampScore(Number(raw.difficulty) || 0),
+    topEntities: toStringArray(raw.topEntities),
+    paaQuestions: toStringArray(raw.paaQuestions),
+    competitorTitles: toStringArray(raw.competitorTitles),
+    competitorGaps: toStringArray(raw.competitorGaps),
+    suggestedHeadings: toStringArray(raw.suggestedHeadings),
+    missingAngles: toStringArray(raw.missingAngles),
+  }
+}
+
+async function runBriefingStage(
+  supabase: SupabaseClient,
+  aiConfig: AIConfig,
+  topic: string,
+  usage: UsageTotals
+): Promise<SerpBrief> {
+  const serp = await loadCachedSerp(supabase, topic)
+  console.log(`[Briefing] SERP cache ${serp ? 'hit' : 'miss'} for "${topic}"`)
+
+  const raw = await callAIJson(aiConfig, buildBriefPrompt(topic, serp), { maxTokens: BRIEF_MAX_TOKENS, usage })
+  return normalizeBrief(topic, raw)
+}
+
+// ============================================================================
+// STAGE 2: OUTLINING - Section plan the draft must follow
+// ============================================================================
+
+function buildOutlinePrompt(
+  topic: string,
+  brief: SerpBrief,
+  settings: ContentSettings,
+  source?: SourceMaterial
+): string {
+  const numSections = getTargetSectionCount(settings)
+  const sourceLines = source
+    ? `
+EXISTING POST (${source.wordCount} words) - this outline replaces it. Cover everything it covers, reuse its strong headings and add what the brief says is missing:
+${source.headings.join('\n') || '(no headings)'}
+`
+    : ''
+
+  return `You are an SEO content strategist. Create a detailed outline for a ${settings.minWordCount}-${settings.maxWordCount} word article.
+
+TOPIC: ${topic}
+SEARCH INTENT: ${brief.searchIntent}
+ENTITIES TO COVER: ${brief.topEntities.join(', ') || 'n/a'}
+QUESTIONS TO ANSWER: ${brief.paaQuestions.join(' | ') || 'n/a'}
+COMPETITOR GAPS: ${brief.competitorGaps.join(' | ') || 'n/a'}
+SUGGESTED HEADINGS: ${brief.suggestedHeadings.join(' | ') || 'n/a'}
+MISSING ANGLES: ${brief.missingAngles.join(' | ') || 'n/a'}
+${sourceLines}
+Plan exactly ${numSections} H2 sections (not counting introduction and conclusion).
+
+Respond ONLY with valid JSON (no markdown code blocks):
+{
+  "title": "SEO title (50-60 characters)",
+  "intro": { "heading": "Introduction", "objective": "What the intro must achieve", "keyPoints": ["..."] },
+  "sections": [
+    {
+      "heading": "H2 heading",
+      "objective": "What this section must achieve",
+      "keyPoints": ["point", "point", "point"],
+      "examples": ["concrete example to include"],
+      "subsections": [{ "heading": "H3 heading", "objective": "...", "keyPoints": ["..."] }]
+    }
+  ],
+  "conclusion": { "heading": "Conclusion", "objective": "What the conclusion must achieve", "keyPoints": ["..."] }
+}`
+}
+
+function normalizeOutlineSection(raw: unknown, level: number, fallbackHeading: string): OutlineSection {
+  const section = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const subsections = Array.isArray(section.subsections)
+    ? section.subsections.map((sub, i) => normalizeOutlineSection(sub, level + 1, `Part ${i + 1}`))
+    : undefined
+
+  return {
+    heading: String(section.heading || fallbackHeading).trim(),
+    level,
+    objective: String(section.objective || '').trim(),
+    keyPoints: toStringArray(section.keyPoints, 10),
+    examples: toStringArray(section.examples, 5),
+    ...(subsections && subsections.length > 0 ? { subsections } : {}),
+  }
+}
+
+async function runOutliningStage(
+  aiConfig: AIConfig,
+  topic: string,
+  brief: SerpBrief,
+  settings: ContentSettings,
+  source: SourceMaterial | undefined,
+  usage: UsageTotals
+): Promise<ContentOutline> {
+  const prompt = buildOutlinePrompt(topic, brief, settings, source)
+  const raw = await callAIJson(aiConfig, prompt, { maxTokens: OUTLINE_MAX_TOKENS, usage })
+
+  const sections = Array.isArray(raw.sections)
+    ? raw.sections.map((section, i) => normalizeOutlineSection(section, 2, `Section ${i + 1}`))
+    : []
+
+  if (sections.length < 3) {
+    throw new Error(`OUTLINE_INVALID: The AI returned ${sections.length} outline sections; at least 3 are required.`)
+  }
+
+  return {
+    title: String(raw.title || topic).trim(),
+    intro: normalizeOutlineSection(raw.intro, 2, 'Introduction'),
+    sections,
+    conclusion: normalizeOutlineSection(raw.conclusion, 2, 'Conclusion'),
+  }
+}
+
+// ============================================================================
+// STAGE 3: DRAFTING - Full article following the outline
+// ============================================================================
+
+function splitIntoSections(html: string): DraftedSection[] {
+  const parts = html.split(/(?=<h2[\s>])/i).filter(part => part.trim())
+
+  return parts.map((part) => {
+    const headingMatch = part.match(/^<h2[^>]*>([\s\S]*?)<\/h2>/i)
+    return {
+      heading: headingMatch ? stripHtml(headingMatch[1]) : 'Introduction',
+      html: part.trim(),
+      wordCount: countWords(part),
+    }
+  })
+}
+
+async function runDraftingStage(
+  aiConfig: AIConfig,
+  topic: string,
+  settings: ContentSettings,
+  brief: SerpBrief,
+  outline: ContentOutline,
+  source: SourceMaterial | undefined,
+  checkCancelled: CancellationCheck,
+  usage: UsageTotals
+): Promise<{ draft: GeneratedContent; draftedSections: DraftedSection[] }> {
+  const draft = await generateWithAI(aiConfig, outline.title || topic, settings, {
+    context: { brief, outline, source },
+    checkCancelled,
+    usage,
+  })
+  const html = draft.optimizedContent || draft.content || ''
+  const draftedSections = splitIntoSections(html)
+
+  console.log(`[Drafting] ${draft.wordCount} words in ${draftedSections.length} sections (outline had ${outline.sections.length})`)
+  if (source && source.internalLinks.length > 0) {
+    const kept = source.internalLinks.filter(link => html.includes(`href="${link.href}"`)).length
+    console.log(`[Drafting] Kept ${kept}/${source.internalLinks.length} internal links from the existing post`)
+  }
+  return { draft, draftedSections }
+}
+
+// ============================================================================
+// STAGE 4: ENRICHING - TL;DR, takeaways, FAQs, do/avoid, checklist
+// ============================================================================
+
+function buildEnrichmentPrompt(
+  draft: GeneratedContent,
+  brief: SerpBrief,
+  settings: ContentSettings
+): string {
+  const articleText = stripHtml(draft.optimizedContent || draft.content || '').slice(0, 8000)
+
+  return `You are enriching a finished article with scannable blocks. Base every block on the article below - do not introduce facts it does not support.
+
+TITLE: ${draft.title}
+QUESTIONS SEARCHERS ASK: ${brief.paaQuestions.join(' | ') || 'n/a'}
+
+ARTICLE:
+${articleText}
+
+Respond ONLY with valid JSON (no markdown code blocks):
+{
+  "tldr": ["3-5 one-sentence summary bullets"],
+  ${settings.enableKeyTakeaways !== false ? '"keyTakeaways": [{ "title": "Short label", "description": "One or two sentences" }],' : ''}
+  ${settings.enableFaqs !== false ? '"faqs": [{ "question": "Question?", "answer": "Answer of 40-80 words" }],' : ''}
+  "dos": [{ "text": "Do this", "explanation": "Why" }],
+  "donts": [{ "text": "Avoid this", "explanation": "Why" }],
+  "checklist": ["Actionable step"],
+  "conclusion": { "summary": "2-3 sentence wrap-up", "keyPoints": ["..."] }
+}`
+}
+
+// Fallback when the enrichment call fails: reuse what the draft already produced
+function enrichmentFromDraft(draft: GeneratedContent): Record<string, unknown> {
+  const findSection = (type: string) => draft.sections.find(section => section.type === type)
+  const takeaways = toStringArray(findSection('takeaways')?.data)
+
+  return {
+    tldr: (findSection('tldr')?.content || '').split(/(?<=[.!?])\s+/).filter(Boolean),
+    keyTakeaways: takeaways.map(item => ({ title: item.split(/[:.]/)[0].slice(0, 60), description: item })),
+    faqs: Array.isArray(findSection('faqs')?.data) ? findSection('faqs')?.data : [],
+  }
+}
+
+function buildEnrichmentBlocks(raw: Record<string, unknown>, settings: ContentSettings): ArticleComponent[] {
+  const blocks: ArticleComponent[] = []
+  const asObjects = (value: unknown) =>
+    (Array.isArray(value) ? value : []).filter(item => item && typeof item === 'object') as Record<string, unknown>[]
+
+  const tldr = toStringArray(raw.tldr, 5)
+  if (tldr.length > 0) {
+    blocks.push({ id: 'tldr', type: 'tldr', order: 0, title: 'TL;DR', bullets: tldr, icon: 'lightning' } as TldrBlock)
+  }
+
+  const takeaways = asObjects(raw.keyTakeaways)
+    .map(item => ({ title: String(item.title || '').trim(), description: String(item.description || '').trim() }))
+    .filter(item => item.description)
+  if (settings.enableKeyTakeaways !== false && takeaways.length > 0) {
+    blocks.push({
+      id: 'key-takeaways', type: 'key_takeaways', order: 0, title: 'Key Takeaways',
+      items: takeaways.slice(0, 8), style: 'grid', columns: 2,
+    } as KeyTakeawaysBlock)
+  }
+
+  const dos = asObjects(raw.dos).map(item => ({ text: String(item.text || ''), explanation: item.explanation ? String(item.explanation) : undefined })).filter(item => item.text)
+  const donts = asObjects(raw.donts).map(item => ({ text: String(item.text || ''), explanation: item.explanation ? String(item.explanation) : undefined })).filter(item => item.text)
+  if (dos.length > 0 || donts.length > 0) {
+    blocks.push({ id: 'do-avoid', type: 'do_avoid', order: 0, title: 'Do & Avoid', dos, donts })
+  }
+
+  const checklist = toStringArray(raw.checklist, 12)
+  if (checklist.length > 0) {
+    blocks.push({
+      id: 'checklist', type: 'checklist', order: 0, title: 'Action Checklist', isInteractive: false,
+      items: checklist.map((text, i) => ({ id: `checklist-${i + 1}`, text, checked: false })),
+    })
+  }
+
+  const faqs = asObjects(raw.faqs)
+    .map(item => ({ question: String(item.question || '').trim(), answer: String(item.answer || '').trim() }))
+    .filter(item => item.question && item.answer)
+  if (settings.enableFaqs !== false && faqs.length > 0) {
+    blocks.push({ id: 'faq', type: 'faq', order: 0, title: 'Frequently Asked Questions', items: faqs.slice(0, 10), schema: true } as FaqBlock)
+  }
+
+  const conclusion = (raw.conclusion && typeof raw.conclusion === 'object' ? raw.conclusion : null) as Record<string, unknown> | null
+  if (conclusion?.summary) {
+    blocks.push({
+      id: 'conclusion', type: 'conclusion', order: 0,
+      summary: String(conclusion.summary), keyPoints: toStringArray(conclusion.keyPoints, 6),
+    })
+  }
+
+  return blocks.map((block, i) => ({ ...block, order: i }))
+}
+
+async function runEnrichingStage(
+  aiConfig: AIConfig,
+  draft: GeneratedContent,
+  brief: SerpBrief,
+  settings: ContentSettings,
+  usage: UsageTotals
+): Promise<ArticleComponent[]> {
+  let raw: Record<string, unknown>
+
+  try {
+    raw = await callAIJson(aiConfig, buildEnrichmentPrompt(draft, brief, settings), { maxTokens: ENRICHMENT_MAX_TOKENS, usage })
+  } catch (err) {
+    // Enrichment is additive - fall back to the blocks the draft already has
+    // rather than failing a finished article
+    console.warn('[Enriching] ⚠️ Enrichment call failed, using draft blocks:', err instanceof Error ? err.message : err)
+    raw = enrichmentFromDraft(draft)
+  }
+
+  return buildEnrichmentBlocks(raw, settings)
+}
+
+// ============================================================================
+// STAGE 5: QUALITY CHECK - Deterministic SEOScore (no AI call)
+// ============================================================================
+
+function computeSeoScore(
+  topic: string,
+  draft: GeneratedContent,
+  brief: SerpBrief,
+  outline: ContentOutline,
+  enrichmentBlocks: ArticleComponent[],
+  settings: ContentSettings
+): SEOScore {
+  const html = draft.optimizedContent || draft.content || ''
+  const text = stripHtml(html)
+  const lowerText = text.toLowerCase()
+  const wordCount = countWords(html)
+  const h2s = Array.from(html.matchAll(/<h2[^>]*>([\s\S]*?)<\/h2>/gi)).map(m => stripHtml(m[1]).toLowerCase())
+  const blockTypes = new Set(enrichmentBlocks.map(block => block.type))
+
+  // Readability: shorter sentences read better (target ~15-20 words)
+  const sentences = text.split(/[.!?]+\s/).filter(s => s.trim().length > 0)
+  const avgSentenceLength = sentences.length > 0 ? wordCount / sentences.length : wordCount
+  const readability = clampScore(100 - Math.max(0, avgSentenceLength - 18) * 4)
+
+  // Completeness: word count target and outline coverage
+  const lengthRatio = Math.min(1, wordCount / settings.minWordCount)
+  const coveredSections = outline.sections.filter(section =>
+    h2s.some(h2 => h2.includes(section.heading.toLowerCase().slice(0, 20)))
+  ).length
+  const outlineRatio = outline.sections.length > 0 ? coveredSections / outline.sections.length : 1
+  const completeness = clampScore(lengthRatio * 60 + outlineRatio * 40)
+
+  // Entity coverage: brief entities mentioned in the article
+  const entities = brief.topEntities
+  const entityCoverage = entities.length > 0
+    ? clampScore(entities.filter(entity => lowerText.includes(entity.toLowerCase())).length / entities.length * 100)
+    : 100
+
+  // Internal linking: links present in the body
+  const linkCount = (html.match(/<a\s[^>]*href=/gi) || []).length
+  const internalLinking = clampScore(linkCount === 0 ? 30 : linkCount < 3 ? 60 : 90)
+
+  // Schema: FAQ schema, heading structure, meta description length
+  const metaLength = (draft.metaDescription || '').length
+  const schemaOptimization = clampScore(
+    (blockTypes.has('faq') ? 50 : 0) +
+    (h2s.length >= 3 ? 30 : 10) +
+    (metaLength >= 120 && metaLength <= 160 ? 20 : 5)
+  )
+
+  // Snippet readiness: TL;DR, lists, tables, question headings
+  const snippetReadiness = clampScore(
+    (blockTypes.has('tldr') ? 40 : 0) +
+    (/<(ul|ol)[\s>]/i.test(html) ? 30 : 0) +
+    (/<table[\s>]/i.test(html) ? 15 : 0) +
+    (h2s.some(h2 => h2.includes('?')) ? 15 : 0)
+  )
+
+  // Keyword placement: topic terms in title, H1, opening and H2s
+  const terms = topic.toLowerCase().split(/\s+/).filter(term => term.length > 3)
+  const hasTerms = (value: string) => terms.length === 0 || terms.some(term => value.toLowerCase().includes(term))
+  const keywordOptimization = clampScore(
+    (hasTerms(draft.title || '') ? 30 : 0) +
+    (hasTerms(draft.h1 || '') ? 20 : 0) +
+    (hasTerms(text.slice(0, 600)) ? 25 : 0) +
+    (h2s.some(h2 => hasTerms(h2)) ? 25 : 0)
+  )
+
+  const aspects: Record<string, { score: number; recommendation: string }> = {
+    readability: { score: readability, recommendation: `Shorten sentences (average is ${Math.round(avgSentenceLength)} words).` },
+    completeness: { score: completeness, recommendation: `Cover every outline section and reach ${settings.minWordCount}+ words (currently ${wordCount}).` },
+    entityCoverage: { score: entityCoverage, recommendation: 'Mention more of the key entities from the SERP brief.' },
+    internalLinking: { score: internalLinking, recommendation: 'Add 3+ internal links to related pages.' },
+    schemaOptimization: { score: schemaOptimization, recommendation: 'Add FAQ schema and a 120-160 character meta description.' },
+    snippetReadiness: { score: snippetReadiness, recommendation: 'Add a TL;DR, lists or a table to win featured snippets.' },
+    keywordOptimization: { score: keywordOptimization, recommendation: 'Use the primary keyword in the title, H1, opening paragraph and an H2.' },
+  }
+
+  const failing = Object.entries(aspects).filter(([, aspect]) => aspect.score < 60)
+
+  const overall = clampScore(
+    readability * 0.15 +
+    completeness * 0.25 +
+    entityCoverage * 0.15 +
+    internalLinking * 0.05 +
+    schemaOptimization * 0.1 +
+    snippetReadiness * 0.1 +
+    keywordOptimization * 0.2
+  )
+
+  return {
+    overall,
+    readability,
+    completeness,
+    entityCoverage,
+    internalLinking,
+    schemaOptimization,
+    snippetReadiness,
+    keywordOptimization,
+    failingAspects: failing.map(([name]) => name),
+    recommendations: failing.map(([, aspect]) => aspect.recommendation),
+  }
+}
+
+// ============================================================================
+// STAGE 6: RENDERING - Assemble article components and the final result
+// ============================================================================
+
+function buildArticleComponents(
+  draftedSections: DraftedSection[],
+  enrichmentBlocks: ArticleComponent[]
+): ArticleComponent[] {
+  const findBlock = (type: string) => enrichmentBlocks.find(block => block.type === type)
+  const components: ArticleComponent[] = []
+
+  const tldr = findBlock('tldr')
+  if (tldr) components.push(tldr)
+
+  draftedSections.forEach((section, i) => {
+    const bodyHtml = section.html.replace(/^<h2[^>]*>[\s\S]*?<\/h2>/i, '').trim()
+
+    if (i === 0 && section.heading === 'Introduction') {
+      components.push({ id: 'introduction', type: 'introduction', order: 0, content: bodyHtml, hooks: [] })
+      const takeaways = findBlock('key_takeaways')
+      if (takeaways) components.push(takeaways)
+      return
+    }
+
+    components.push({
+      id: `heading-${i}`, type: 'heading', order: 0, level: 2, text: section.heading, slug: slugify(section.heading),
+    })
+    components.push({ id: `paragraph-${i}`, type: 'paragraph', order: 0, content: bodyHtml })
+  })
+
+  // Takeaways go after the intro when there is one, otherwise after the body
+  const placed = new Set(components.map(component => component.id))
+  for (const type of ['key_takeaways', 'do_avoid', 'checklist', 'faq', 'conclusion']) {
+    const block = findBlock(type)
+    if (block && !placed.has(block.id)) components.push(block)
+  }
+
+  return components.map((component, i) => ({ ...component, order: i }))
+}
+
+// With a format (full rewrites), the article HTML is rendered from the
+// components, so the enrichment blocks the preview shows are the ones that
+// get published. Without one (surgical), the patched post HTML is kept.
+function runRenderingStage(
+  draft: GeneratedContent,
+  draftedSections: DraftedSection[],
+  enrichmentBlocks: ArticleComponent[],
+  seoScore: SEOScore,
+  format?: ContentFormat
+): GeneratedContent {
+  const articleComponents = buildArticleComponents(draftedSections, enrichmentBlocks)
+  const hasBody = articleComponents.some(component => component.type === 'introduction' || component.type === 'paragraph')
+  const html = format && hasBody
+    ? renderArticleComponents(articleComponents, format)
+    : draft.optimizedContent || draft.content || ''
+  const wordCount = countWords(html)
+
+  const tldr = enrichmentBlocks.find(block => block.type === 'tldr') as TldrBlock | undefined
+  const takeaways = enrichmentBlocks.find(block => block.type === 'key_takeaways') as KeyTakeawaysBlock | undefined
+  const faq = enrichmentBlocks.find(block => block.type === 'faq') as FaqBlock | undefined
+
+  // Keep the legacy `sections` shape in sync with the enrichment output so
+  // existing previews and the WordPress renderer pick up the new blocks
+  const sections = draft.sections.map((section) => {
+    if (section.type === 'tldr' && tldr) return { ...section, content: tldr.bullets.join(' ') }
+    if (section.type === 'takeaways' && takeaways) {
+      return { ...section, data: takeaways.items.map(item => item.title ? `${item.title}: ${item.description}` : item.description) }
+    }
+    if (section.type === 'faqs' && faq) return { ...section, data: faq.items }
+    return section
+  })
+
+  return {
+    ...draft,
+    optimizedContent: html,
+    content: html,
+    sections,
+    wordCount,
+    seoScore: seoScore.overall,
+    readabilityScore: seoScore.readability,
+    seoMetrics: seoScore,
+    articleComponents,
+    readingTime: Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE)),
+  }
+}
+
+// Surgical mode: add the missing blocks to the patch, apply it to the
+// original post and render that instead of a fresh draft
+function runSurgicalRenderingStage(
+  source: SourcePost,
+  plan: SurgicalPlan,
+  patch: ContentPatch,
+  draft: GeneratedContent,
+  enrichmentBlocks: ArticleComponent[],
+  seoScore: SEOScore,
+  format: ContentFormat
+): GeneratedContent {
+  const inserts = buildInsertOperations(source.content, plan.missingBlocks, enrichmentBlocks, format)
+  const fullPatch: ContentPatch = { ...patch, operations: [...patch.operations, ...inserts] }
+  const html = applyContentPatch(source.content, fullPatch.operations)
+  const patchedDraft = { ...draft, optimizedContent: html, content: html }
+
+  return {
+    ...runRenderingStage(patchedDraft, splitIntoSections(html), enrichmentBlocks, seoScore),
+    mode: 'surgical',
+    patch: fullPatch,
+    originalContent: source.content,
+  }
+}
+
+// The queue row behind a job, when it has one, with the analysis its
+// score_before came from
+async function loadQueuedPage(
+  supabase: SupabaseClient,
+  jobId: string
+): Promise<{ id: string; url: string; analysis: PageAnalysis | null } | null> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('page_id, pages(url, analysis, wp_sites(site_url))')
+    .eq('id', jobId)
+    .maybeSingle()
+  if (error) console.warn(`[Job ${jobId}] Could not load the queued page:`, error)
+  const page = data?.pages as unknown as { url: string; analysis: PageAnalysis | null; wp_sites: { site_url: string } | null } | null
+  if (!data?.page_id || !page) return null
+
+  let url = page.url
+  try {
+    url = new URL(page.url, page.wp_sites?.site_url).toString()
+  } catch {
+    // A bare path without a site; internal links then count as external
+  }
+  return { id: data.page_id, url, analysis: page.analysis }
+}
+
+// Scored like score_before (scoreQuality over the page analysis), so the
+// queue compares the two on one scale
+function scoreRenderedArticle(result: GeneratedContent, pageUrl: string, live: PageAnalysis | null): QualityScore {
+  return scoreArticle({
+    html: result.optimizedContent || result.content || '',
+    title: result.optimizedTitle || result.title,
+    metaDescription: result.metaDescription || '',
+    h1: result.h1 || result.optimizedTitle || result.title,
+  }, pageUrl, live)
+}
+
+function describePatch(patch: ContentPatch): string {
+  const count = (op: string) => patch.operations.filter(operation => operation.op === op).length
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`
+  return `${plural(count('replace_section'), 'section')} rewritten, ${plural(count('set_alt_text'), 'alt text')} fixed, ${plural(count('insert_block'), 'block')} added`
+}
+
+// ============================================================================
+// BACKGROUND JOB PROCESSING
+// ============================================================================
+
+export async function processJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  payload: OptimizeJobPayload,
+  leaseSignal?: AbortSignal
+): Promise<void> {
+  const { aiConfig, contentSettings } = payload
+  const surgical = payload.mode === 'surgical' ? payload.surgical : undefined
+  let topic = payload.topic
+
+  console.log(`[Job ${jobId}] ========== STARTING JOB PROCESSING ==========`)
+  console.log(`[Job ${jobId}] Mode: ${surgical ? 'surgical' : 'full_rewrite'}`)
+  console.log(`[Job ${jobId}] Topic: ${topic}`)
+  console.log(`[Job ${jobId}] AI Provider: ${aiConfig.provider}`)
+  console.log(`[Job ${jobId}] AI Model: ${aiConfig.model}`)
+  console.log(`[Job ${jobId}] Word Count Target: ${contentSettings.minWordCount}-${contentSettings.maxWordCount}`)
+  console.log(`[Job ${jobId}] Max Retries: ${MAX_WORD_COUNT_RETRIES}`)
+
+  const state = await loadPipelineState(supabase, jobId)
+  const checkCancelled = createCancellationCheck(supabase, jobId, leaseSignal)
+  const usage = createUsageTotals({ totalTokens: state.priorTokens, costUsd: state.priorCostUsd })
+
+  try {
+    // The live post is fetched once and kept on the row. Surgical mode cannot
+    // run without it; a full rewrite falls back to writing from the title.
+    if (payload.source && !state.sourcePost) {
+      await checkCancelled()
+      await updateProgress(supabase, jobId, SOURCE_FETCH_PROGRESS, 'Fetching existing post...', 'briefing')
+      try {
+        state.sourcePost = await fetchSourcePost(payload.source)
+        await saveStageOutput(supabase, jobId, 'briefing', { source_post: state.sourcePost }, usage)
+      } catch (err) {
+        if (surgical || isCancellationError(err)) throw err
+        console.warn(`[Job ${jobId}] ⚠️ Existing post unavailable, writing from the topic alone:`, err instanceof Error ? err.message : err)
+      }
+    }
+    const source = state.sourcePost
+    if (source?.title) topic = source.title
+    const sourceMaterial = source && payload.source ? buildSourceMaterial(source, payload.source.siteUrl) : undefined
+
+    // Stage 1: briefing
+    if (!state.brief) {
+      await checkCancelled()
+      await updateProgress(supabase, jobId, STAGE_PROGRESS.briefing, 'Building SERP brief...', 'briefing')
+      state.brief = await runBriefingStage(supabase, aiConfig, topic, usage)
+      await saveStageOutput(supabase, jobId, 'briefing', { serp_brief: state.brief }, usage)
+    }
+
+    // Stage 2: outlining - surgical mode audits the existing sections instead
+    if (surgical && source) {
+      if (!state.surgicalPlan) {
+        await checkCancelled()
+        await updateProgress(supabase, jobId, STAGE_PROGRESS.outlining, 'Auditing existing sections...', 'outlining')
+        state.surgicalPlan = await runSurgicalAudit(aiConfig, topic, source, state.brief, contentSettings, usage)
+        await saveStageOutput(supabase, jobId, 'outlining', { surgical_plan: state.surgicalPlan }, usage)
+      }
+      state.outline = outlineFromSections(source.title, splitSourceSections(source.content))
+    } else if (!state.outline) {
+      await checkCancelled()
+      await updateProgress(supabase, jobId, STAGE_PROGRESS.outlining, 'Outlining article structure...', 'outlining')
+      state.outline = await runOutliningStage(aiConfig, topic, state.brief, contentSettings, sourceMaterial, usage)
+      await saveStageOutput(supabase, jobId, 'outlining', { content_outline: state.outline }, usage)
+    }
+
+    // Stage 3: drafting - surgical mode rewrites only the weak sections
+    if (surgical && source && state.surgicalPlan) {
+      if (!state.draft || !state.draftedSections || !state.contentPatch) {
+        await checkCancelled()
+        const rewrites = state.surgicalPlan.sections.filter(section => section.action === 'rewrite').length
+        await updateProgress(supabase, jobId, STAGE_PROGRESS.drafting, `Rewriting ${rewrites} weak section${rewrites === 1 ? '' : 's'}...`, 'drafting')
+
+        const operations = await runSurgicalRewrite(
+          aiConfig, topic, source, state.surgicalPlan, state.brief, contentSettings, surgical, checkCancelled, usage
+        )
+        const html = applyContentPatch(source.content, operations)
+        state.contentPatch = { postId: source.id, baseModified: source.modified, operations }
+        state.draft = buildSurgicalDraft(source, state.surgicalPlan, html, contentSettings)
+        state.draftedSections = splitIntoSections(html)
+
+        await saveStageOutput(supabase, jobId, 'drafting', {
+          draft: state.draft,
+          drafted_sections: state.draftedSections,
+          content_patch: state.contentPatch,
+        }, usage)
+      }
+    } else if (!state.draft || !state.draftedSections) {
+      await checkCancelled()
+      await updateProgress(
+        supabase, jobId, STAGE_PROGRESS.drafting,
+        `Drafting ${state.outline.sections.length} sections (${contentSettings.minWordCount}-${contentSettings.maxWordCount} words)...`,
+        'drafting'
+      )
+      const startTime = Date.now()
+      const { draft, draftedSections } = await runDraftingStage(
+        aiConfig, topic, contentSettings, state.brief, state.outline, sourceMaterial, checkCancelled, usage
+      )
+      state.draft = draft
+      state.draftedSections = draftedSections
+
+      console.log(`[Job ${jobId}] Drafting completed in ${Date.now() - startTime}ms`)
+      console.log(`[Job ${jobId}] Word count: ${draft.wordCount}`)
+      console.log(`[Job ${jobId}] Word count met: ${draft.wordCountMet ? 'YES ✅' : 'NO ❌'}`)
+      console.log(`[Job ${jobId}] Generation attempts: ${draft.generationAttempts}`)
+      console.log(`[Job ${jobId}] Drafted by: ${draft.provider}/${draft.model}`)
+
+      await saveStageOutput(supabase, jobId, 'drafting', {
+        draft,
+        drafted_sections: draftedSections,
+        ai_provider: draft.provider,
+        ai_model: draft.model,
+      }, usage)
+    }
+
+    // Stage 4: enriching - surgical mode skips it when the post has every block
+    if (!state.enrichmentBlocks) {
+      if (state.surgicalPlan && source && state.surgicalPlan.missingBlocks.length === 0) {
+        state.enrichmentBlocks = []
+      } else {
+        await checkCancelled()
+        await updateProgress(supabase, jobId, STAGE_PROGRESS.enriching, 'Adding TL;DR, takeaways and FAQs...', 'enriching')
+        state.enrichmentBlocks = await runEnrichingStage(aiConfig, state.draft, state.brief, contentSettings, usage)
+      }
+      await saveStageOutput(supabase, jobId, 'enriching', { enrichment_blocks: state.enrichmentBlocks }, usage)
+    }
+
+    // Stage 5: quality check
+    if (!state.seoScore) {
+      await updateProgress(supabase, jobId, STAGE_PROGRESS.quality_check, 'Scoring SEO quality...', 'quality_check')
+      state.seoScore = computeSeoScore(topic, state.draft, state.brief, state.outline, state.enrichmentBlocks, contentSettings)
+      await saveStageOutput(supabase, jobId, 'quality_check', { seo_score: state.seoScore }, usage)
+    }
+
+    // Stage 6: rendering
+    await checkCancelled()
+    await updateProgress(supabase, jobId, STAGE_PROGRESS.rendering, 'Rendering final article...', 'rendering')
+    const result = source && state.surgicalPlan && state.contentPatch
+      ? runSurgicalRenderingStage(
+        source, state.surgicalPlan, state.contentPatch, state.draft, state.enrichmentBlocks, state.seoScore,
+        payload.contentFormat || 'classic'
+      )
+      : runRenderingStage(
+        state.draft, state.draftedSections, state.enrichmentBlocks, state.seoScore, payload.contentFormat || 'classic'
+      )
+    const page = await loadQueuedPage(supabase, jobId)
+    const scoreAfter = scoreRenderedArticle(
+      result, page?.url || payload.source?.pageUrl || payload.source?.siteUrl || '', page?.analysis ?? null
+    )
+    result.qualityScore = scoreAfter.overall
+
+    // Determine completion message
+    const attempts = result.generationAttempts || 1
+    const completionMsg = result.patch
+      ? `✅ Complete! ${describePatch(result.patch)}`
+      : result.wordCountMet
+      ? `✅ Complete! ${result.wordCount} words (${attempts} attempt${attempts > 1 ? 's' : ''})`
+      : `⚠️ Complete with ${result.wordCount} words (target: ${contentSettings.minWordCount}-${contentSettings.maxWordCount})`
+
+    const { error: completeError } = await supabase.from('jobs').update({
+      status: 'completed',
+      stage: 'complete',
+      progress: 100,
+      current_step: completionMsg,
+      result: result,
+      ...usageColumns(usage),
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }).eq('id', jobId).eq('status', 'running')
+
+    if (completeError) {
+      console.error(`[Job ${jobId}] Complete update failed:`, completeError)
+    } else {
+      if (page) {
+        const { error: pageError } = await supabase.from('pages')
+          .update({ score_after: scoreAfter, updated_at: new Date().toISOString() })
+          .eq('id', page.id)
+        if (pageError) console.warn(`[Job ${jobId}] Could not save score_after:`, pageError)
+      }
+      console.log(`[Job ${jobId}] ✅ JOB COMPLETED!`)
+      console.log(`[Job ${jobId}] Final word count: ${result.wordCount}`)
+      console.log(`[Job ${jobId}] Quality score: ${result.qualityScore}`)
+      console.log(`[Job ${jobId}] AI usage: ${usage.totalTokens} tokens, $${usage.costUsd.toFixed(4)} (${usage.calls} calls this run)`)
+    }
+
+  } catch (err) {
+    if (isLeaseLostError(err)) {
+      // Another worker may own the row now; leave it to that worker
+      console.warn(`[Job ${jobId}] ⏹️ LEASE LOST - stopping without writing`)
+      return
+    }
+    if (isCancellationError(err)) {
+      // cancel-job already set the status; saved stage output is kept for resume.
+      // Tokens spent before the cancel was noticed are still billed.
+      console.log(`[Job ${jobId}] ⏹️ JOB CANCELLED`)
+      await supabase.from('jobs').update(usageColumns(usage)).eq('id', jobId)
+      return
+    }
+
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error'
+    console.error(`[Job ${jobId}] ❌ JOB FAILED:`, errorMessage)
+
+    // `stage` is left on the stage that failed; earlier stage output stays on the row
+    await supabase.from('jobs').update({
+      status: 'failed',
+      error_message: errorMessage,
+      current_step: 'Failed - ' + (errorMessage.split(':')[0] || 'Error'),
+      ...usageColumns(usage),
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }).eq('id', jobId).neq('status', 'cancelled')
+  }
+}
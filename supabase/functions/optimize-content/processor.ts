@@ -0,0 +1,2086 @@
+// ============================================================================
+// OPTIMIZE-CONTENT PROCESSOR - ENTERPRISE SOTA v18.0.0
+// ============================================================================
+// Provider calls, prompt building and word count enforcement. The staged job
+// pipeline that drives these lives in pipeline.ts.
+// ============================================================================
+
+import type {
+  ArticleComponent,
+  ContentOutline,
+  ContentPatch,
+  OptimizationMode,
+  SEOScore,
+  SerpBrief,
+  SourceMaterial,
+} from '../_shared/pipeline-types.ts'
+import {
+  CUSTOM_PROVIDER,
+  buildCustomHeaders,
+  resolveChatCompletionsUrl,
+  type CustomEndpointConfig,
+} from '../_shared/custom-endpoint.ts'
+import { providerFetch } from '../_shared/ai-fixtures.ts'
+import {
+  MOCK_BASE_URL,
+  MOCK_PROVIDER,
+  isMockEndpoint,
+  mockChatCompletion,
+} from '../_shared/mock-provider.ts'
+import type { ContentFormat } from '../_shared/WordPressContentRenderer.ts'
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const AI_TIMEOUT_MS = 300000 // 5 minutes for longer content generation
+export const MAX_WORD_COUNT_RETRIES = 3 // Maximum attempts to meet word count
+const WORD_COUNT_TOLERANCE = 0.10 // Allow 10% variance from target
+
+// ============================================================================
+// PROVIDER-SPECIFIC TOKEN LIMITS (CRITICAL FOR PREVENTING TRUNCATION)
+// ============================================================================
+const PROVIDER_TOKEN_LIMITS: Record<string, Record<string, number>> = {
+  google: {
+    'gemini-2.5-flash-preview-04-17': 65536,
+    'gemini-2.5-pro-preview-05-06': 65536,
+    'gemini-2.0-flash': 8192,
+    'gemini-2.0-flash-lite': 8192,
+    'gemini-1.5-flash': 8192,
+    'gemini-1.5-flash-8b': 8192,
+    'gemini-1.5-pro': 8192,
+    'gemini-pro': 8192,
+    'default': 8192,
+  },
+  openai: {
+    'gpt-4o': 16384,
+    'gpt-4o-mini': 16384,
+    'gpt-4-turbo': 4096,
+    'gpt-4-turbo-preview': 4096,
+    'gpt-4': 8192,
+    'gpt-3.5-turbo': 4096,
+    'gpt-3.5-turbo-16k': 16384,
+    'o1-preview': 32768,
+    'o1-mini': 65536,
+    'default': 4096,
+  },
+  anthropic: {
+    'claude-sonnet-4-20250514': 16384,
+    'claude-3-7-sonnet-20250219': 16384,
+    'claude-3-5-sonnet-20241022': 8192,
+    'claude-3-5-sonnet-20240620': 8192,
+    'claude-3-sonnet-20240229': 4096,
+    'claude-3-haiku-20240307': 4096,
+    'claude-3-opus-20240229': 4096,
+    'default': 4096,
+  },
+  groq: {
+    'llama-3.3-70b-versatile': 32768,
+    'llama-3.1-70b-versatile': 8192,
+    'llama-3.1-8b-instant': 8192,
+    'llama3-70b-8192': 8192,
+    'llama3-8b-8192': 8192,
+    'mixtral-8x7b-32768': 32768,
+    'gemma2-9b-it': 8192,
+    'default': 8192,
+  },
+  openrouter: {
+    'openai/gpt-4o': 16384,
+    'openai/gpt-4o-mini': 16384,
+    'openai/o1-preview': 32768,
+    'openai/o1-mini': 65536,
+    'anthropic/claude-3.5-sonnet': 8192,
+    'anthropic/claude-3-haiku': 4096,
+    'anthropic/claude-3-opus': 4096,
+    'google/gemini-pro-1.5': 8192,
+    'google/gemini-flash-1.5': 8192,
+    'meta-llama/llama-3.1-70b-instruct': 8192,
+    'meta-llama/llama-3.1-405b-instruct': 8192,
+    'mistralai/mixtral-8x7b-instruct': 32768,
+    'default': 8192,
+  },
+  // Self-hosted models vary widely; 8K output is safe for most 7B-70B servers
+  custom: {
+    'default': 8192,
+  },
+}
+
+export function getMaxTokensForModel(provider: string, model: string): number {
+  const providerLimits = PROVIDER_TOKEN_LIMITS[provider.toLowerCase()] || {}
+  
+  // Try exact match first
+  if (providerLimits[model]) {
+    return providerLimits[model]
+  }
+  
+  // Try partial match (for versioned models)
+  for (const [key, value] of Object.entries(providerLimits)) {
+    if (key !== 'default' && model.includes(key)) {
+      return value
+    }
+  }
+  
+  // Return default
+  return providerLimits['default'] || 4096
+}
+
+// ============================================================================
+// PROVIDER PRICING - USD per 1M tokens [input, output] (list prices)
+// ============================================================================
+const MODEL_PRICING: Record<string, Record<string, [number, number]>> = {
+  google: {
+    'gemini-2.5-flash-preview-04-17': [0.15, 0.60],
+    'gemini-2.5-pro-preview-05-06': [1.25, 10.00],
+    'gemini-2.0-flash': [0.10, 0.40],
+    'gemini-2.0-flash-lite': [0.075, 0.30],
+    'gemini-1.5-flash': [0.075, 0.30],
+    'gemini-1.5-flash-8b': [0.0375, 0.15],
+    'gemini-1.5-pro': [1.25, 5.00],
+    'gemini-pro': [0.50, 1.50],
+    'default': [0.10, 0.40],
+  },
+  openai: {
+    'gpt-4o': [2.50, 10.00],
+    'gpt-4o-mini': [0.15, 0.60],
+    'gpt-4-turbo': [10.00, 30.00],
+    'gpt-4-turbo-preview': [10.00, 30.00],
+    'gpt-4': [30.00, 60.00],
+    'gpt-3.5-turbo': [0.50, 1.50],
+    'gpt-3.5-turbo-16k': [3.00, 4.00],
+    'o1-preview': [15.00, 60.00],
+    'o1-mini': [3.00, 12.00],
+    'default': [2.50, 10.00],
+  },
+  anthropic: {
+    'claude-sonnet-4-20250514': [3.00, 15.00],
+    'claude-3-7-sonnet-20250219': [3.00, 15.00],
+    'claude-3-5-sonnet-20241022': [3.00, 15.00],
+    'claude-3-5-sonnet-20240620': [3.00, 15.00],
+    'claude-3-sonnet-20240229': [3.00, 15.00],
+    'claude-3-haiku-20240307': [0.25, 1.25],
+    'claude-3-opus-20240229': [15.00, 75.00],
+    'default': [3.00, 15.00],
+  },
+  groq: {
+    'llama-3.3-70b-versatile': [0.59, 0.79],
+    'llama-3.1-70b-versatile': [0.59, 0.79],
+    'llama-3.1-8b-instant': [0.05, 0.08],
+    'llama3-70b-8192': [0.59, 0.79],
+    'llama3-8b-8192': [0.05, 0.08],
+    'mixtral-8x7b-32768': [0.24, 0.24],
+    'gemma2-9b-it': [0.20, 0.20],
+    'default': [0.59, 0.79],
+  },
+  openrouter: {
+    'openai/gpt-4o': [2.50, 10.00],
+    'openai/gpt-4o-mini': [0.15, 0.60],
+    'openai/o1-preview': [15.00, 60.00],
+    'openai/o1-mini': [3.00, 12.00],
+    'anthropic/claude-3.5-sonnet': [3.00, 15.00],
+    'anthropic/claude-3-haiku': [0.25, 1.25],
+    'anthropic/claude-3-opus': [15.00, 75.00],
+    'google/gemini-pro-1.5': [1.25, 5.00],
+    'google/gemini-flash-1.5': [0.075, 0.30],
+    'meta-llama/llama-3.1-70b-instruct': [0.52, 0.75],
+    'meta-llama/llama-3.1-405b-instruct': [3.00, 3.00],
+    'mistralai/mixtral-8x7b-instruct': [0.24, 0.24],
+    'default': [2.50, 10.00],
+  },
+  // Self-hosted endpoints have no per-token price; tokens are still counted
+  custom: {
+    'default': [0, 0],
+  },
+}
+
+export function getModelPricing(provider: string, model: string): [number, number] {
+  const providerPrices = MODEL_PRICING[provider.toLowerCase()] || {}
+
+  if (providerPrices[model]) {
+    return providerPrices[model]
+  }
+
+  // Longest partial match, so 'gpt-4o-mini-2024-07-18' prices as gpt-4o-mini, not gpt-4o
+  const match = Object.keys(providerPrices)
+    .filter(key => key !== 'default' && model.includes(key))
+    .sort((a, b) => b.length - a.length)[0]
+
+  return providerPrices[match] || providerPrices['default'] || [0, 0]
+}
+
+// ============================================================================
+// TOKEN USAGE ACCOUNTING
+// ============================================================================
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  costUsd: number
+}
+
+// Running totals for a job; every provider call adds to it, including failed
+// word-count attempts, since those are billed too
+export interface UsageTotals extends TokenUsage {
+  calls: number
+}
+
+export function createUsageTotals(initial: Partial<UsageTotals> = {}): UsageTotals {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, calls: 0, ...initial }
+}
+
+// Usage fields as returned by Gemini (usageMetadata), Anthropic (input/output)
+// and OpenAI-compatible APIs (prompt/completion)
+interface ProviderUsagePayload {
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number }
+  usage?: { input_tokens?: number; output_tokens?: number; prompt_tokens?: number; completion_tokens?: number }
+}
+
+// Normalizes the usage block of a provider response and prices it
+export function extractTokenUsage(
+  provider: string,
+  model: string,
+  data: Record<string, unknown> | null | undefined
+): TokenUsage {
+  const raw = (data || {}) as ProviderUsagePayload
+  let promptTokens = 0
+  let completionTokens = 0
+
+  switch (provider.toLowerCase()) {
+    case 'google':
+      promptTokens = raw.usageMetadata?.promptTokenCount || 0
+      completionTokens = (raw.usageMetadata?.candidatesTokenCount || 0) + (raw.usageMetadata?.thoughtsTokenCount || 0)
+      break
+    case 'anthropic':
+      promptTokens = raw.usage?.input_tokens || 0
+      completionTokens = raw.usage?.output_tokens || 0
+      break
+    default:
+      // OpenAI-compatible: openai, groq, openrouter
+      promptTokens = raw.usage?.prompt_tokens || 0
+      completionTokens = raw.usage?.completion_tokens || 0
+  }
+
+  const [inputPrice, outputPrice] = getModelPricing(provider, model)
+  const costUsd = (promptTokens * inputPrice + completionTokens * outputPrice) / 1_000_000
+
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, costUsd }
+}
+
+export function recordUsage(totals: UsageTotals | undefined, usage: TokenUsage): void {
+  if (!totals) return
+  totals.promptTokens += usage.promptTokens
+  totals.completionTokens += usage.completionTokens
+  totals.totalTokens += usage.totalTokens
+  totals.costUsd += usage.costUsd
+  totals.calls += 1
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// baseUrl/headers/apiKeyHeader only apply to the 'custom' OpenAI-compatible provider
+export interface AIProviderEntry extends CustomEndpointConfig {
+  provider: string
+  apiKey: string
+  // Vault id of the key; queued jobs carry only this and the worker fills
+  // in apiKey right before running
+  apiKeyCredentialId?: string
+  model: string
+}
+
+// Primary provider plus an ordered list of fallbacks tried when it fails
+export interface AIConfig extends AIProviderEntry {
+  fallbacks?: AIProviderEntry[]
+}
+
+export interface ContentSettings {
+  minWordCount: number
+  maxWordCount: number
+  enableFaqs?: boolean
+  enableToc?: boolean
+  enableKeyTakeaways?: boolean
+}
+
+export interface GeneratedContent {
+  title: string
+  optimizedTitle: string
+  optimizedContent: string
+  content: string
+  wordCount: number
+  qualityScore: number
+  seoScore: number
+  readabilityScore: number
+  metaDescription: string
+  h1: string
+  h2s: string[]
+  sections: Array<{ type: string; content?: string; data?: unknown }>
+  excerpt: string
+  author: string
+  publishedAt: string
+  targetWordCount?: { min: number; max: number }
+  wordCountMet?: boolean
+  generationAttempts?: number
+  // Provider that actually produced the content, and any that failed before it
+  provider?: string
+  model?: string
+  providerFailures?: ProviderFailure[]
+  // Filled in by the quality_check and rendering pipeline stages
+  seoMetrics?: SEOScore
+  articleComponents?: ArticleComponent[]
+  readingTime?: number
+  // Surgical mode: the edits made to the live post, and the HTML they apply to
+  mode?: OptimizationMode
+  patch?: ContentPatch
+  originalContent?: string
+}
+
+// Where the live post is read from (through fetch-page-content)
+export interface SourcePostOptions {
+  siteUrl: string
+  pageUrl?: string
+  postId?: number
+  postType?: string
+  username: string
+  // Vault id of the application password; fetch-page-content decrypts it
+  passwordCredentialId: string
+  // Filled in by the worker from the job row
+  ownerId?: string
+}
+
+// What surgical mode may change in the live post
+export interface SurgicalOptions {
+  preserveImages: boolean
+  optimizeAltText: boolean
+}
+
+// Stored in jobs.payload by optimize-content and read back by optimize-worker
+export interface OptimizeJobPayload {
+  topic: string
+  aiConfig: AIConfig
+  contentSettings: ContentSettings
+  mode?: OptimizationMode
+  // Set when the job optimizes an existing post; required for surgical mode
+  source?: SourcePostOptions
+  surgical?: SurgicalOptions
+  // How the article is marked up: full rewrites render their components in
+  // it, surgical mode the blocks it inserts
+  contentFormat?: ContentFormat
+}
+
+// Output of earlier pipeline stages that the drafting prompt must follow,
+// plus the existing post when one is being rewritten
+export interface DraftContext {
+  brief?: SerpBrief
+  outline?: ContentOutline
+  source?: SourceMaterial
+}
+
+// Per-call options threaded through generateWithAI and the provider generators
+export interface GenerationOptions {
+  context?: DraftContext
+  checkCancelled?: CancellationCheck
+  usage?: UsageTotals
+}
+
+// Throws JOB_CANCELLED when the job has been cancelled; called between AI calls
+export type CancellationCheck = () => Promise<void>
+
+export const JOB_CANCELLED = 'JOB_CANCELLED'
+// Thrown by the same check once the worker has lost its lease on the job
+export const JOB_LEASE_LOST = 'JOB_LEASE_LOST'
+
+export function isLeaseLostError(err: unknown): boolean {
+  return err instanceof Error && err.message.startsWith(`${JOB_LEASE_LOST}:`)
+}
+
+// Either way the job must stop: retries and fallbacks rethrow these
+export function isCancellationError(err: unknown): boolean {
+  return err instanceof Error && (err.message.startsWith(`${JOB_CANCELLED}:`) || isLeaseLostError(err))
+}
+
+interface WordCountValidation {
+  isValid: boolean
+  wordCount: number
+  targetMin: number
+  targetMax: number
+  action: 'accept' | 'expand' | 'truncate' | 'regenerate'
+  wordsNeeded?: number
+  wordsToRemove?: number
+}
+
+// ============================================================================
+// PROVIDER FALLBACK CHAIN
+// ============================================================================
+
+// Failures that say nothing about the request itself, so another provider may
+// succeed. Key, permission and credit errors are left out on purpose: they
+// need fixing in the configuration, not hiding behind a fallback.
+const FALLBACK_ERROR_CODES = [
+  'AI_TIMEOUT',
+  'RATE_LIMIT',
+  'PROVIDER_UNAVAILABLE',
+  'AI_REFUSAL',
+  'AI_PARSE_ERROR',
+  'AI_EMPTY_RESPONSE',
+]
+
+export interface ProviderFailure {
+  provider: string
+  model: string
+  error: string
+}
+
+export function shouldFallBack(err: unknown): boolean {
+  if (!(err instanceof Error)) return false
+  return FALLBACK_ERROR_CODES.some(code => err.message.startsWith(`${code}:`))
+}
+
+// Primary first, then fallbacks in the configured order. Incomplete entries
+// and repeats of an earlier provider/model pair are dropped.
+export function getProviderChain(aiConfig: AIConfig): AIProviderEntry[] {
+  const chain: AIProviderEntry[] = []
+  const seen = new Set<string>()
+
+  for (const entry of [aiConfig, ...(aiConfig.fallbacks || [])]) {
+    if (!entry?.provider || !entry.model) continue
+    // Custom endpoints may run without a key but need somewhere to send
+    // requests; the mock provider needs neither
+    const isCustom = entry.provider.toLowerCase() === CUSTOM_PROVIDER
+    const isMock = entry.provider.toLowerCase() === MOCK_PROVIDER
+    if (isCustom ? !entry.baseUrl : !isMock && !entry.apiKey) continue
+
+    const key = `${entry.provider.toLowerCase()}/${isCustom ? `${entry.baseUrl}/` : ''}${entry.model}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    chain.push({
+      provider: entry.provider,
+      apiKey: entry.apiKey || '',
+      model: entry.model,
+      ...(isCustom ? { baseUrl: entry.baseUrl, headers: entry.headers || {}, apiKeyHeader: entry.apiKeyHeader } : {}),
+    })
+  }
+
+  return chain
+}
+
+// Runs `call` against each provider in the chain until one succeeds. The last
+// provider's error is rethrown when every provider fails.
+async function runWithFallback<T>(
+  aiConfig: AIConfig,
+  label: string,
+  call: (entry: AIProviderEntry, hasFallback: boolean) => Promise<T>
+): Promise<{ result: T; entry: AIProviderEntry; failures: ProviderFailure[] }> {
+  const chain = getProviderChain(aiConfig)
+  if (chain.length === 0) {
+    throw new Error('AI_NOT_CONFIGURED: No AI provider with an API key and model was configured.')
+  }
+
+  const failures: ProviderFailure[] = []
+
+  for (let i = 0; i < chain.length; i++) {
+    const entry = chain[i]
+    const hasFallback = i < chain.length - 1
+
+    try {
+      const result = await call(entry, hasFallback)
+      if (failures.length > 0) {
+        console.log(`${label} ✅ Fallback ${entry.provider}/${entry.model} succeeded after ${failures.length} failure(s)`)
+      }
+      return { result, entry, failures }
+    } catch (err) {
+      if (isCancellationError(err) || !hasFallback || !shouldFallBack(err)) throw err
+
+      const message = err instanceof Error ? err.message : String(err)
+      failures.push({ provider: entry.provider, model: entry.model, error: message })
+      const next = chain[i + 1]
+      console.warn(`${label} ⚠️ ${entry.provider}/${entry.model} failed (${message.split(':')[0]}), falling back to ${next.provider}/${next.model}`)
+    }
+  }
+
+  // Unreachable: the last provider always rethrows
+  throw new Error('AI_GENERATION_FAILED: All configured providers failed.')
+}
+
+// Refusal markers: Gemini safety/block finish reasons, OpenAI content filter
+// or explicit refusal, Anthropic's refusal stop reason
+interface ProviderRefusalPayload {
+  promptFeedback?: { blockReason?: string }
+  candidates?: Array<{ finishReason?: string }>
+  choices?: Array<{ finish_reason?: string; message?: { refusal?: string | null } }>
+  stop_reason?: string
+}
+
+const GEMINI_REFUSAL_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII']
+
+function throwIfRefused(provider: string, data: Record<string, unknown> | null | undefined): void {
+  const raw = (data || {}) as ProviderRefusalPayload
+  let reason: string | undefined
+
+  switch (provider.toLowerCase()) {
+    case 'google': {
+      const finishReason = raw.candidates?.[0]?.finishReason
+      reason = raw.promptFeedback?.blockReason ||
+        (finishReason && GEMINI_REFUSAL_REASONS.includes(finishReason) ? finishReason : undefined)
+      break
+    }
+    case 'anthropic':
+      if (raw.stop_reason === 'refusal') reason = 'refusal'
+      break
+    default: {
+      const choice = raw.choices?.[0]
+      if (choice?.message?.refusal) reason = 'refusal'
+      else if (choice?.finish_reason === 'content_filter') reason = 'content_filter'
+    }
+  }
+
+  if (reason) {
+    throw new Error(`AI_REFUSAL: ${provider} declined to answer (${reason}).`)
+  }
+}
+
+// ============================================================================
+// HELPER: Fetch with Timeout
+// ============================================================================
+
+async function fetchWithTimeout(
+  url: string, 
+  options: RequestInit, 
+  timeoutMs: number = AI_TIMEOUT_MS
+): Promise<Response> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => {
+    console.log(`[Timeout] Aborting request after ${timeoutMs}ms`)
+    controller.abort()
+  }, timeoutMs)
+
+  try {
+    // Mock requests are answered in-process; everything else can be
+    // recorded to or replayed from fixtures (see _shared/ai-fixtures.ts)
+    const response = isMockEndpoint(url)
+      ? mockChatCompletion(options)
+      : await providerFetch(url, {
+        ...options,
+        signal: controller.signal,
+      })
+    clearTimeout(timeoutId)
+    return response
+  } catch (error) {
+    clearTimeout(timeoutId)
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`AI_TIMEOUT: Request timed out after ${timeoutMs / 1000} seconds. The AI provider is taking too long to respond.`)
+    }
+    throw error
+  }
+}
+
+// ============================================================================
+// HELPER: Count Words in HTML Content
+// ============================================================================
+
+export function countWords(htmlContent: string): number {
+  if (!htmlContent) return 0
+  // Remove HTML tags, then count words
+  const textOnly = htmlContent.replace(/<[^>]*>/g, ' ')
+  const words = textOnly.split(/\s+/).filter(word => word.length > 0)
+  return words.length
+}
+
+// ============================================================================
+// WORD COUNT VALIDATION (NEW!)
+// ============================================================================
+
+function validateWordCount(
+  content: string, 
+  minWords: number, 
+  maxWords: number
+): WordCountValidation {
+  const wordCount = countWords(content)
+  const tolerance = minWords * WORD_COUNT_TOLERANCE
+  
+  // Accept if within tolerance range
+  if (wordCount >= minWords - tolerance && wordCount <= maxWords + tolerance) {
+    return { 
+      isValid: true, 
+      wordCount, 
+      targetMin: minWords,
+      targetMax: maxWords,
+      action: 'accept' 
+    }
+  }
+  
+  // Too short by more than 30% - need full regeneration
+  if (wordCount < minWords * 0.7) {
+    return { 
+      isValid: false, 
+      wordCount, 
+      targetMin: minWords,
+      targetMax: maxWords,
+      action: 'regenerate',
+      wordsNeeded: minWords - wordCount + 200 // Add buffer
+    }
+  }
+  
+  // Slightly short - can expand
+  if (wordCount < minWords) {
+    return { 
+      isValid: false, 
+      wordCount, 
+      targetMin: minWords,
+      targetMax: maxWords,
+      action: 'expand',
+      wordsNeeded: minWords - wordCount + 100 // Add buffer
+    }
+  }
+  
+  // Too long - truncate
+  return { 
+    isValid: false, 
+    wordCount, 
+    targetMin: minWords,
+    targetMax: maxWords,
+    action: 'truncate',
+    wordsToRemove: wordCount - maxWords
+  }
+}
+
+// ============================================================================
+// SMART TRUNCATION (NEW!) - Cuts at sentence/paragraph boundaries
+// ============================================================================
+
+function smartTruncate(htmlContent: string, maxWords: number): string {
+  if (!htmlContent) return ''
+  
+  // Split content into paragraphs
+  const paragraphs = htmlContent.split(/<\/p>/i).filter(p => p.trim())
+  
+  let result = ''
+  let currentWordCount = 0
+  
+  for (const para of paragraphs) {
+    // Clean paragraph text to count words
+    const cleanPara = para.replace(/<[^>]*>/g, ' ')
+    const paraWords = cleanPara.split(/\s+/).filter(w => w.length > 0).length
+    
+    // If adding this paragraph stays within limit, add it
+    if (currentWordCount + paraWords <= maxWords) {
+      result += para + '</p>'
+      currentWordCount += paraWords
+    } else {
+      // Check if we're close enough to stop
+      if (currentWordCount > maxWords * 0.9) {
+        break
+      }
+      
+      // Truncate this paragraph to fit remaining words
+      const wordsToTake = maxWords - currentWordCount
+      const words = cleanPara.split(/\s+/).filter(w => w.length > 0)
+      const truncatedText = words.slice(0, wordsToTake).join(' ')
+      
+      // Find last sentence break for cleaner cut
+      const lastPeriod = truncatedText.lastIndexOf('.')
+      const lastQuestion = truncatedText.lastIndexOf('?')
+      const lastExclaim = truncatedText.lastIndexOf('!')
+      const lastBreak = Math.max(lastPeriod, lastQuestion, lastExclaim)
+      
+      if (lastBreak > truncatedText.length * 0.7) {
+        // Cut at sentence boundary
+        result += `<p>${truncatedText.substring(0, lastBreak + 1)}</p>`
+      } else {
+        // Add ellipsis if no good break point
+        result += `<p>${truncatedText}...</p>`
+      }
+      break
+    }
+  }
+  
+  return result
+}
+
+// ============================================================================
+// SECTION COUNT - Shared by the outline stage and the drafting prompt
+// ============================================================================
+
+const WORDS_PER_SECTION = 400 // Optimal section length for readability
+
+export function getTargetSectionCount(settings: ContentSettings): number {
+  const targetWords = Math.round((settings.minWordCount + settings.maxWordCount) / 2)
+  return Math.max(5, Math.ceil(targetWords / WORDS_PER_SECTION))
+}
+
+// ============================================================================
+// BUILD PLANNING CONTEXT - Brief and outline from earlier pipeline stages
+// ============================================================================
+
+function buildSourceSection(source: SourceMaterial): string {
+  const links = source.internalLinks.length > 0
+    ? source.internalLinks.map(link => `- <a href="${link.href}">${link.anchor}</a>`).join('\n')
+    : '- (none)'
+
+  return `
+=== SOURCE MATERIAL: THE CURRENT VERSION OF THIS POST ===
+This article replaces an existing post (${source.wordCount} words). Treat it as your primary source:
+- Keep every factual claim, statistic, date, name, example and recommendation it makes. Update a fact only when it is clearly outdated, and keep the rest as stated
+- Keep the author's voice, point of view and any first-hand experience
+- Keep these internal links with the exact same href, placed where they fit naturally:
+${links}
+- Build on the existing sections rather than discarding them; fix what is weak and fill gaps
+
+Existing headings:
+${source.headings.join('\n') || '(none)'}
+
+Existing text${source.truncated ? ' (truncated)' : ''}:
+${source.text}
+=== END SOURCE MATERIAL ===
+`
+}
+
+function buildPlanningSections(context?: DraftContext): string {
+  if (!context?.brief && !context?.outline && !context?.source) return ''
+
+  let sections = ''
+  const { brief, outline, source } = context
+
+  if (source) {
+    sections += buildSourceSection(source)
+  }
+
+  if (brief) {
+    sections += `
+=== SERP BRIEF ===
+Search intent: ${brief.searchIntent}
+Entities to cover: ${brief.topEntities.join(', ') || 'n/a'}
+Questions readers ask: ${brief.paaQuestions.join(' | ') || 'n/a'}
+Gaps in competing articles: ${brief.competitorGaps.join(' | ') || 'n/a'}
+Missing angles to add: ${brief.missingAngles.join(' | ') || 'n/a'}
+`
+  }
+
+  if (outline) {
+    const outlineLines = outline.sections.map((section, i) => {
+      const points = section.keyPoints.map(point => `     - ${point}`).join('\n')
+      const subs = (section.subsections || []).map(sub => `     H3: ${sub.heading}`).join('\n')
+      return `  ${i + 1}. H2: ${section.heading}\n     Objective: ${section.objective}\n${points}${subs ? '\n' + subs : ''}`
+    }).join('\n')
+
+    sections += `
+=== REQUIRED OUTLINE (FOLLOW THIS STRUCTURE EXACTLY) ===
+Title: ${outline.title}
+Introduction: ${outline.intro.objective}
+${outlineLines}
+Conclusion: ${outline.conclusion.objective}
+
+Use these H2 headings in this order. Do not add, drop or rename H2 sections.
+`
+  }
+
+  return sections
+}
+
+// ============================================================================
+// BUILD MAIN GENERATION PROMPT
+// ============================================================================
+
+function buildPrompt(topic: string, settings: ContentSettings, context?: DraftContext): string {
+  const { minWordCount, maxWordCount, enableFaqs, enableToc, enableKeyTakeaways } = settings
+  
+  // Calculate target words and sections for optimal content structure
+  const targetWords = Math.round((minWordCount + maxWordCount) / 2)
+  const numSections = context?.outline?.sections.length || getTargetSectionCount(settings)
+  
+  // Build dynamic additional sections
+  let additionalSections = ''
+  if (enableFaqs !== false) {
+    additionalSections += `\n  "faqs": [{"question": "Relevant FAQ 1?", "answer": "Comprehensive answer (50+ words)..."}, {"question": "Relevant FAQ 2?", "answer": "Detailed answer (50+ words)..."}, {"question": "Relevant FAQ 3?", "answer": "Thorough answer (50+ words)..."}],`
+  }
+  if (enableKeyTakeaways !== false) {
+    additionalSections += `\n  "keyTakeaways": ["Key insight 1 (detailed)", "Key insight 2 (detailed)", "Key insight 3 (detailed)", "Key insight 4 (detailed)", "Key insight 5 (detailed)"],`
+  }
+  if (enableToc !== false) {
+    additionalSections += `\n  "tableOfContents": ["Introduction", "Section 1", "Section 2", "Section 3", "Section 4", "Section 5", "Conclusion"],`
+  }
+
+  const planningSections = buildPlanningSections(context)
+
+  return `You are an elite SEO content strategist and professional writer with expertise in creating comprehensive, authoritative, and highly engaging long-form content. Your content consistently ranks #1 on Google and provides exceptional value to readers.
+
+TOPIC: ${topic}
+${planningSections}
+=== ABSOLUTE WORD COUNT REQUIREMENT (NON-NEGOTIABLE) ===
+You MUST write between ${minWordCount} and ${maxWordCount} words.
+Target: ${targetWords} words.
+
+THIS IS A STRICT REQUIREMENT:
+- Content below ${minWordCount} words will be REJECTED and regenerated
+- Content above ${maxWordCount} words will be truncated
+- Write ${numSections} comprehensive sections with 350-500 words each
+- COUNT YOUR WORDS carefully before submitting
+
+=== CONTENT EXCELLENCE STANDARDS ===
+
+1. DEPTH & COMPREHENSIVENESS:
+   - Cover every aspect of the topic thoroughly
+   - Include expert-level insights and analysis
+   - Provide actionable, specific advice (not generic tips)
+   - Address common questions and concerns
+   - Include real-world examples and case studies
+   - Add statistics, data points, and research findings
+
+2. STRUCTURE & READABILITY:
+   - Write ${numSections} detailed H2 sections minimum
+   - Each section: 2-3 substantial paragraphs (350-500 words per section)
+   - Use H3 subheadings within sections for organization
+   - Include bullet points and numbered lists strategically
+   - Each paragraph: 4-6 well-developed sentences
+   - Use transition sentences between sections
+
+3. ENGAGEMENT & VALUE:
+   - Hook readers with a compelling introduction (150+ words)
+   - Use conversational yet authoritative tone
+   - Include practical tips and implementation steps
+   - Create scannable content with clear formatting
+   - End with a strong conclusion (150+ words)
+
+4. SEO OPTIMIZATION:
+   - Naturally integrate primary and secondary keywords
+   - Use semantic variations and related terms
+   - Optimize for featured snippets where applicable
+
+=== OUTPUT FORMAT ===
+Respond ONLY with valid JSON (no markdown code blocks, no explanations):
+
+{
+  "title": "Compelling SEO title (50-60 characters)",
+  "metaDescription": "Engaging meta description with keyword (150-160 characters)",
+  "h1": "Main H1 heading - slightly different from title",
+  "h2s": ["H2 Section 1", "H2 Section 2", "H2 Section 3", "H2 Section 4", "H2 Section 5", "H2 Section 6", "H2 Section 7"],
+  "content": "<h2>Section 1 Title</h2><p>Comprehensive paragraph 1 with 4-6 detailed sentences providing real value...</p><p>Another detailed paragraph with specific examples and actionable advice...</p><p>Third paragraph diving deeper into the topic with expert insights...</p><h2>Section 2 Title</h2><p>Continue with equally detailed content...</p>...",
+  "tldrSummary": "A comprehensive 3-4 sentence TL;DR summary covering the key points",${additionalSections}
+  "excerpt": "A compelling 2-3 sentence excerpt for previews and social sharing"
+}
+
+=== CRITICAL REMINDERS ===
+1. The "content" field MUST contain ${minWordCount}-${maxWordCount} words of HTML content
+2. Write REAL, VALUABLE content - not filler or fluff
+3. Every section should provide unique, actionable insights
+4. Quality AND quantity are BOTH required
+5. COUNT YOUR WORDS - this is essential for acceptance
+6. Use proper HTML tags: <h2>, <h3>, <p>, <ul>, <li>, <ol>, <strong>, <em>
+`
+}
+
+// ============================================================================
+// BUILD EXPANSION PROMPT (NEW!) - For when content is too short
+// ============================================================================
+
+function buildExpansionPrompt(
+  existingContent: string, 
+  currentWords: number, 
+  targetWords: number,
+  topic: string
+): string {
+  const wordsToAdd = targetWords - currentWords + 150 // Add buffer
+  
+  return `You are expanding existing content to meet word count requirements.
+
+TOPIC: ${topic}
+CURRENT WORD COUNT: ${currentWords} words
+TARGET WORD COUNT: ${targetWords} words
+WORDS TO ADD: Approximately ${wordsToAdd} more words
+
+EXISTING CONTENT (first 3000 chars):
+${existingContent.slice(0, 3000)}
+
+=== YOUR TASK ===
+Expand this content by adding approximately ${wordsToAdd} more words. You should:
+
+1. Add more detailed explanations to existing sections
+2. Add 1-2 new subsections with H3 headings
+3. Include more specific examples, statistics, or case studies
+4. Expand on key points with additional insights
+5. Add more actionable tips and implementation steps
+
+=== OUTPUT FORMAT ===
+Return the FULL expanded content as JSON (include ALL original content plus expansions):
+
+{
+  "content": "<h2>Section 1</h2><p>Original content with expansions integrated naturally...</p><h3>New Subsection</h3><p>Additional detailed content...</p>..."
+}
+
+IMPORTANT: 
+- Return the COMPLETE content (original + expansions)
+- Integrate new content seamlessly - don't just append
+- Maintain the same tone and style
+- The total word count should be at least ${targetWords} words
+`
+}
+
+// ============================================================================
+// AI GENERATION: GOOGLE GEMINI
+// ============================================================================
+
+async function generateWithGemini(
+  apiKey: string, 
+  model: string, 
+  topic: string,
+  settings: ContentSettings,
+  options: GenerationOptions = {}
+): Promise<GeneratedContent> {
+  const maxTokens = getMaxTokensForModel('google', model)
+  
+  console.log(`[Gemini] ========== STARTING GENERATION ==========`)
+  console.log(`[Gemini] Model: ${model}`)
+  console.log(`[Gemini] Topic: "${topic}"`)
+  console.log(`[Gemini] Word count target: ${settings.minWordCount}-${settings.maxWordCount}`)
+  console.log(`[Gemini] Max output tokens: ${maxTokens}`)
+  
+  const prompt = buildPrompt(topic, settings, options.context)
+  const startTime = Date.now()
+  
+  const response = await fetchWithTimeout(
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: 0.7,
+          maxOutputTokens: maxTokens,
+          topP: 0.9,
+        },
+      }),
+    }
+  )
+
+  const duration = Date.now() - startTime
+  console.log(`[Gemini] Response received in ${duration}ms`)
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error(`[Gemini] API error ${response.status}:`, errorText.slice(0, 500))
+    
+    if (response.status === 400 && errorText.includes('API_KEY_INVALID')) {
+      throw new Error('INVALID_API_KEY: Your Google AI API key is invalid. Please check your API key in the Configuration tab.')
+    }
+    if (response.status === 403) {
+      throw new Error('API_KEY_FORBIDDEN: Your Google AI API key does not have permission to use this model.')
+    }
+    if (response.status === 429) {
+      throw new Error('RATE_LIMIT: Google AI rate limit exceeded. Please wait a moment and try again.')
+    }
+    if (response.status >= 500) {
+      throw new Error(`PROVIDER_UNAVAILABLE: Google AI returned ${response.status}.`)
+    }
+    
+    throw new Error(`Gemini API error: ${response.status} - ${errorText.slice(0, 200)}`)
+  }
+
+  const data = await response.json()
+  const callUsage = extractTokenUsage('google', model, data)
+  recordUsage(options.usage, callUsage)
+  console.log(`[Gemini] Cost: $${callUsage.costUsd.toFixed(4)} (${callUsage.totalTokens} tokens)`)
+  throwIfRefused('google', data)
+  
+  // Log finish reason for debugging
+  const finishReason = data.candidates?.[0]?.finishReason
+  console.log(`[Gemini] Finish reason: ${finishReason}`)
+  
+  if (finishReason === 'MAX_TOKENS') {
+    console.warn(`[Gemini] ⚠️ Output was truncated due to token limit (${maxTokens} tokens)!`)
+  }
+  
+  const text = data.candidates?.[0]?.content?.parts?.[0]?.text || ''
+  
+  if (!text) {
+    throw new Error('AI_EMPTY_RESPONSE: Gemini returned an empty response. Please try again.')
+  }
+  
+  // Extract JSON from response
+  let jsonStr = text
+  const jsonMatch = text.match(/\{[\s\S]*\}/)
+  if (jsonMatch) {
+    jsonStr = jsonMatch[0]
+  }
+  
+  let parsed
+  try {
+    parsed = JSON.parse(jsonStr)
+  } catch (parseError) {
+    console.error('[Gemini] JSON parse error, raw text:', text.slice(0, 500))
+    throw new Error('AI_PARSE_ERROR: Failed to parse AI response. Please try again.')
+  }
+  
+  const wordCount = countWords(parsed.content || '')
+  const wordCountMet = wordCount >= settings.minWordCount && wordCount <= settings.maxWordCount
+  
+  console.log(`[Gemini] Generated ${wordCount} words in ${duration}ms`)
+  console.log(`[Gemini] Word count target: ${settings.minWordCount}-${settings.maxWordCount}`)
+  console.log(`[Gemini] Word count met: ${wordCountMet ? 'YES ✅' : 'NO ❌'}`)
+
+  return {
+    title: parsed.title || topic,
+    optimizedTitle: parsed.title || topic,
+    optimizedContent: parsed.content || '',
+    content: parsed.content || '',
+    wordCount,
+    qualityScore: Math.min(95, 70 + Math.floor(wordCount / 50)),
+    seoScore: wordCountMet ? 85 : 70,
+    readabilityScore: 80,
+    metaDescription: parsed.metaDescription || '',
+    h1: parsed.h1 || parsed.title || topic,
+    h2s: parsed.h2s || [],
+    sections: [
+      { type: 'tldr', content: parsed.tldrSummary || '' },
+      { type: 'takeaways', data: parsed.keyTakeaways || [] },
+      { type: 'faqs', data: parsed.faqs || [] },
+      { type: 'toc', data: parsed.tableOfContents || [] },
+      { type: 'paragraph', content: parsed.content || '' },
+      { type: 'summary', content: parsed.excerpt || '' },
+    ],
+    excerpt: parsed.excerpt || parsed.metaDescription || '',
+    author: 'AI Content Expert',
+    publishedAt: new Date().toISOString(),
+    targetWordCount: { min: settings.minWordCount, max: settings.maxWordCount },
+    wordCountMet,
+  }
+}
+
+// ============================================================================
+// AI GENERATION: OPENAI
+// ============================================================================
+
+async function generateWithOpenAI(
+  apiKey: string, 
+  model: string, 
+  topic: string,
+  settings: ContentSettings,
+  options: GenerationOptions = {}
+): Promise<GeneratedContent> {
+  const maxTokens = getMaxTokensForModel('openai', model)
+  
+  console.log(`[OpenAI] ========== STARTING GENERATION ==========`)
+  console.log(`[OpenAI] Model: ${model}`)
+  console.log(`[OpenAI] Topic: "${topic}"`)
+  console.log(`[OpenAI] Word count target: ${settings.minWordCount}-${settings.maxWordCount}`)
+  console.log(`[OpenAI] Max output tokens: ${maxTokens}`)
+
+  const prompt = buildPrompt(topic, settings, options.context)
+  const startTime = Date.now()
+
+  const response = await fetchWithTimeout('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model: model || 'gpt-4o-mini',
+      messages: [
+        { 
+          role: 'system', 
+          content: `You are an expert SEO content writer. Always respond with valid JSON only, no markdown code blocks. You MUST write between ${settings.minWordCount} and ${settings.maxWordCount} words. This is non-negotiable.` 
+        },
+        { role: 'user', content: prompt },
+      ],
+      temperature: 0.7,
+      max_tokens: maxTokens,
+    }),
+  })
+
+  const duration = Date.now() - startTime
+  console.log(`[OpenAI] Response received in ${duration}ms`)
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error(`[OpenAI] API error ${response.status}:`, errorText.slice(0, 500))
+    
+    if (response.status === 401) {
+      throw new Error('INVALID_API_KEY: Your OpenAI API key is invalid.')
+    }
+    if (response.status === 429) {
+      throw new Error('RATE_LIMIT: OpenAI rate limit exceeded. Please wait and try again.')
+    }
+    if (response.status === 400 && errorText.includes('context_length')) {
+      throw new Error('CONTEXT_LENGTH: The prompt is too long for this model. Try a smaller word count target.')
+    }
+    if (response.status >= 500) {
+      throw new Error(`PROVIDER_UNAVAILABLE: OpenAI returned ${response.status}.`)
+    }
+    
+    throw new Error(`OpenAI API error: ${response.status}`)
+  }
+
+  const data = await response.json()
+  const callUsage = extractTokenUsage('openai', model, data)
+  recordUsage(options.usage, callUsage)
+  console.log(`[OpenAI] Cost: $${callUsage.costUsd.toFixed(4)} (${callUsage.totalTokens} tokens)`)
+  throwIfRefused('openai', data)
+  
+  // Log finish reason and token usage
+  const finishReason = data.choices?.[0]?.finish_reason
+  const usage = data.usage
+  console.log(`[OpenAI] Finish reason: ${finishReason}`)
+  console.log(`[OpenAI] Token usage: prompt=${usage?.prompt_tokens}, completion=${usage?.completion_tokens}, total=${usage?.total_tokens}`)
+  
+  if (finishReason === 'length') {
+    console.warn(`[OpenAI] ⚠️ Output was truncated due to token limit (${maxTokens} tokens)!`)
+  }
+  
+  const text = data.choices?.[0]?.message?.content || ''
+  
+  if (!text) {
+    throw new Error('AI_EMPTY_RESPONSE: OpenAI returned an empty response.')
+  }
+  
+  let jsonStr = text
+  const match = text.match(/\{[\s\S]*\}/)
+  if (match) jsonStr = match[0]
+  
+  let parsed
+  try {
+    parsed = JSON.parse(jsonStr)
+  } catch (parseError) {
+    console.error('[OpenAI] JSON parse error, raw text:', text.slice(0, 500))
+    throw new Error('AI_PARSE_ERROR: Failed to parse AI response.')
+  }
+  
+  const wordCount = countWords(parsed.content || '')
+  const wordCountMet = wordCount >= settings.minWordCount && wordCount <= settings.maxWordCount
+
+  console.log(`[OpenAI] Generated ${wordCount} words in ${duration}ms`)
+  console.log(`[OpenAI] Word count target: ${settings.minWordCount}-${settings.maxWordCount}`)
+  console.log(`[OpenAI] Word count met: ${wordCountMet ? 'YES ✅' : 'NO ❌'}`)
+
+  return {
+    title: parsed.title || topic,
+    optimizedTitle: parsed.title || topic,
+    optimizedContent: parsed.content || '',
+    content: parsed.content || '',
+    wordCount,
+    qualityScore: Math.min(95, 70 + Math.floor(wordCount / 50)),
+    seoScore: wordCountMet ? 85 : 70,
+    readabilityScore: 80,
+    metaDescription: parsed.metaDescription || '',
+    h1: parsed.h1 || topic,
+    h2s: parsed.h2s || [],
+    sections: [
+      { type: 'tldr', content: parsed.tldrSummary || '' },
+      { type: 'takeaways', data: parsed.keyTakeaways || [] },
+      { type: 'faqs', data: parsed.faqs || [] },
+      { type: 'paragraph', content: parsed.content || '' },
+    ],
+    excerpt: parsed.excerpt || '',
+    author: 'AI Content Expert',
+    publishedAt: new Date().toISOString(),
+    targetWordCount: { min: settings.minWordCount, max: settings.maxWordCount },
+    wordCountMet,
+  }
+}
+
+// ============================================================================
+// AI GENERATION: ANTHROPIC (CLAUDE)
+// ============================================================================
+
+async function generateWithAnthropic(
+  apiKey: string, 
+  model: string, 
+  topic: string,
+  settings: ContentSettings,
+  options: GenerationOptions = {}
+): Promise<GeneratedContent> {
+  const maxTokens = getMaxTokensForModel('anthropic', model)
+  
+  console.log(`[Anthropic] ========== STARTING GENERATION ==========`)
+  console.log(`[Anthropic] Model: ${model}`)
+  console.log(`[Anthropic] Topic: "${topic}"`)
+  console.log(`[Anthropic] Word count target: ${settings.minWordCount}-${settings.maxWordCount}`)
+  console.log(`[Anthropic] Max output tokens: ${maxTokens}`)
+
+  const prompt = buildPrompt(topic, settings, options.context)
+  const startTime = Date.now()
+
+  const response = await fetchWithTimeout('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify({
+      model: model || 'claude-3-haiku-20240307',
+      max_tokens: maxTokens,
+      messages: [{ role: 'user', content: prompt }],
+    }),
+  })
+
+  const duration = Date.now() - startTime
+  console.log(`[Anthropic] Response received in ${duration}ms`)
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error(`[Anthropic] API error ${response.status}:`, errorText.slice(0, 500))
+    
+    if (response.status === 401) {
+      throw new Error('INVALID_API_KEY: Your Anthropic API key is invalid.')
+    }
+    if (response.status === 429) {
+      throw new Error('RATE_LIMIT: Anthropic rate limit exceeded. Please wait and try again.')
+    }
+    if (response.status >= 500) {
+      throw new Error(`PROVIDER_UNAVAILABLE: Anthropic returned ${response.status}.`)
+    }
+    
+    throw new Error(`Anthropic API error: ${response.status}`)
+  }
+
+  const data = await response.json()
+  const callUsage = extractTokenUsage('anthropic', model, data)
+  recordUsage(options.usage, callUsage)
+  console.log(`[Anthropic] Cost: $${callUsage.costUsd.toFixed(4)} (${callUsage.totalTokens} tokens)`)
+  throwIfRefused('anthropic', data)
+  
+  // Log stop reason and usage
+  const stopReason = data.stop_reason
+  const usage = data.usage
+  console.log(`[Anthropic] Stop reason: ${stopReason}`)
+  console.log(`[Anthropic] Token usage: input=${usage?.input_tokens}, output=${usage?.output_tokens}`)
+  
+  if (stopReason === 'max_tokens') {
+    console.warn(`[Anthropic] ⚠️ Output was truncated due to token limit (${maxTokens} tokens)!`)
+  }
+  
+  const text = data.content?.[0]?.text || ''
+  
+  if (!text) {
+    throw new Error('AI_EMPTY_RESPONSE: Anthropic returned an empty response.')
+  }
+  
+  let jsonStr = text
+  const match = text.match(/\{[\s\S]*\}/)
+  if (match) jsonStr = match[0]
+  
+  let parsed
+  try {
+    parsed = JSON.parse(jsonStr)
+  } catch (parseError) {
+    console.error('[Anthropic] JSON parse error, raw text:', text.slice(0, 500))
+    throw new Error('AI_PARSE_ERROR: Failed to parse AI response.')
+  }
+  
+  const wordCount = countWords(parsed.content || '')
+  const wordCountMet = wordCount >= settings.minWordCount && wordCount <= settings.maxWordCount
+
+  console.log(`[Anthropic] Generated ${wordCount} words in ${duration}ms`)
+  console.log(`[Anthropic] Word count target: ${settings.minWordCount}-${settings.maxWordCount}`)
+  console.log(`[Anthropic] Word count met: ${wordCountMet ? 'YES ✅' : 'NO ❌'}`)
+
+  return {
+    title: parsed.title || topic,
+    optimizedTitle: parsed.title || topic,
+    optimizedContent: parsed.content || '',
+    content: parsed.content || '',
+    wordCount,
+    qualityScore: Math.min(95, 70 + Math.floor(wordCount / 50)),
+    seoScore: wordCountMet ? 85 : 70,
+    readabilityScore: 80,
+    metaDescription: parsed.metaDescription || '',
+    h1: parsed.h1 || topic,
+    h2s: parsed.h2s || [],
+    sections: [
+      { type: 'tldr', content: parsed.tldrSummary || '' },
+      { type: 'takeaways', data: parsed.keyTakeaways || [] },
+      { type: 'faqs', data: parsed.faqs || [] },
+      { type: 'paragraph', content: parsed.content || '' },
+    ],
+    excerpt: parsed.excerpt || '',
+    author: 'AI Content Expert',
+    publishedAt: new Date().toISOString(),
+    targetWordCount: { min: settings.minWordCount, max: settings.maxWordCount },
+    wordCountMet,
+  }
+}
+
+// ============================================================================
+// AI GENERATION: GROQ
+// ============================================================================
+
+async function generateWithGroq(
+  apiKey: string, 
+  model: string, 
+  topic: string,
+  settings: ContentSettings,
+  options: GenerationOptions = {}
+): Promise<GeneratedContent> {
+  const maxTokens = getMaxTokensForModel('groq', model)
+  
+  console.log(`[Groq] ========== STARTING GENERATION ==========`)
+  console.log(`[Groq] Model: ${model}`)
+  console.log(`[Groq] Topic: "${topic}"`)
+  console.log(`[Groq] Word count target: ${settings.minWordCount}-${settings.maxWordCount}`)
+  console.log(`[Groq] Max output tokens: ${maxTokens}`)
+
+  const prompt = buildPrompt(topic, settings, options.context)
+  const startTime = Date.now()
+
+  const response = await fetchWithTimeout('https://api.groq.com/openai/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model: model || 'llama-3.1-70b-versatile',
+      messages: [
+        { 
+          role: 'system', 
+          content: `You are an expert SEO content writer. Write EXACTLY ${settings.minWordCount}-${settings.maxWordCount} words. Respond with valid JSON only, no markdown.` 
+        },
+        { role: 'user', content: prompt },
+      ],
+      temperature: 0.7,
+      max_tokens: maxTokens,
+    }),
+  })
+
+  const duration = Date.now() - startTime
+  console.log(`[Groq] Response received in ${duration}ms`)
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error(`[Groq] API error ${response.status}:`, errorText.slice(0, 500))
+    
+    if (response.status === 401) {
+      throw new Error('INVALID_API_KEY: Your Groq API key is invalid.')
+    }
+    if (response.status === 429) {
+      throw new Error('RATE_LIMIT: Groq rate limit exceeded. Please wait and try again.')
+    }
+    if (response.status >= 500) {
+      throw new Error(`PROVIDER_UNAVAILABLE: Groq returned ${response.status}.`)
+    }
+    
+    throw new Error(`Groq API error: ${response.status}`)
+  }
+
+  const data = await response.json()
+  const callUsage = extractTokenUsage('groq', model, data)
+  recordUsage(options.usage, callUsage)
+  console.log(`[Groq] Cost: $${callUsage.costUsd.toFixed(4)} (${callUsage.totalTokens} tokens)`)
+  throwIfRefused('groq', data)
+  
+  // Log finish reason
+  const finishReason = data.choices?.[0]?.finish_reason
+  const usage = data.usage
+  console.log(`[Groq] Finish reason: ${finishReason}`)
+  console.log(`[Groq] Token usage: ${JSON.stringify(usage)}`)
+  
+  if (finishReason === 'length') {
+    console.warn(`[Groq] ⚠️ Output was truncated due to token limit (${maxTokens} tokens)!`)
+  }
+  
+  const text = data.choices?.[0]?.message?.content || ''
+  
+  if (!text) {
+    throw new Error('AI_EMPTY_RESPONSE: Groq returned an empty response.')
+  }
+  
+  let jsonStr = text
+  const match = text.match(/\{[\s\S]*\}/)
+  if (match) jsonStr = match[0]
+  
+  let parsed
+  try {
+    parsed = JSON.parse(jsonStr)
+  } catch (parseError) {
+    console.error('[Groq] JSON parse error, raw text:', text.slice(0, 500))
+    throw new Error('AI_PARSE_ERROR: Failed to parse AI response.')
+  }
+  
+  const wordCount = countWords(parsed.content || '')
+  const wordCountMet = wordCount >= settings.minWordCount && wordCount <= settings.maxWordCount
+
+  console.log(`[Groq] Generated ${wordCount} words in ${duration}ms`)
+  console.log(`[Groq] Word count target: ${settings.minWordCount}-${settings.maxWordCount}`)
+  console.log(`[Groq] Word count met: ${wordCountMet ? 'YES ✅' : 'NO ❌'}`)
+
+  return {
+    title: parsed.title || topic,
+    optimizedTitle: parsed.title || topic,
+    optimizedContent: parsed.content || '',
+    content: parsed.content || '',
+    wordCount,
+    qualityScore: Math.min(95, 70 + Math.floor(wordCount / 50)),
+    seoScore: wordCountMet ? 85 : 70,
+    readabilityScore: 80,
+    metaDescription: parsed.metaDescription || '',
+    h1: parsed.h1 || topic,
+    h2s: parsed.h2s || [],
+    sections: [
+      { type: 'tldr', content: parsed.tldrSummary || '' },
+      { type: 'takeaways', data: parsed.keyTakeaways || [] },
+      { type: 'faqs', data: parsed.faqs || [] },
+      { type: 'paragraph', content: parsed.content || '' },
+    ],
+    excerpt: parsed.excerpt || '',
+    author: 'AI Content Expert',
+    publishedAt: new Date().toISOString(),
+    targetWordCount: { min: settings.minWordCount, max: settings.maxWordCount },
+    wordCountMet,
+  }
+}
+
+// ============================================================================
+// AI GENERATION: OPENROUTER
+// ============================================================================
+
+async function generateWithOpenRouter(
+  apiKey: string, 
+  model: string, 
+  topic: string,
+  settings: ContentSettings,
+  options: GenerationOptions = {}
+): Promise<GeneratedContent> {
+  const maxTokens = getMaxTokensForModel('openrouter', model)
+  
+  console.log(`[OpenRouter] ========== STARTING GENERATION ==========`)
+  console.log(`[OpenRouter] Model: ${model}`)
+  console.log(`[OpenRouter] Topic: "${topic}"`)
+  console.log(`[OpenRouter] Word count target: ${settings.minWordCount}-${settings.maxWordCount}`)
+  console.log(`[OpenRouter] Max output tokens: ${maxTokens}`)
+  console.log(`[OpenRouter] Timeout: ${AI_TIMEOUT_MS}ms`)
+
+  const prompt = buildPrompt(topic, settings, options.context)
+  const startTime = Date.now()
+
+  const requestBody = {
+    model: model || 'openai/gpt-4o-mini',
+    messages: [
+      { 
+        role: 'system', 
+        content: `You are an expert SEO content writer. You MUST write between ${settings.minWordCount} and ${settings.maxWordCount} words. This is a HARD requirement. Respond with valid JSON only, no markdown code blocks.` 
+      },
+      { role: 'user', content: prompt },
+    ],
+    temperature: 0.7,
+    max_tokens: maxTokens,
+    top_p: 0.9,
+  }
+
+  const response = await fetchWithTimeout('https://openrouter.ai/api/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+      'HTTP-Referer': 'https://page-perfector.app',
+      'X-Title': 'Page Perfector',
+    },
+    body: JSON.stringify(requestBody),
+  })
+
+  const duration = Date.now() - startTime
+  console.log(`[OpenRouter] Response received in ${duration}ms`)
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error(`[OpenRouter] API error ${response.status}:`, errorText.slice(0, 500))
+    
+    if (response.status === 401) {
+      throw new Error('INVALID_API_KEY: Your OpenRouter API key is invalid.')
+    }
+    if (response.status === 402) {
+      throw new Error('INSUFFICIENT_CREDITS: Your OpenRouter account has insufficient credits.')
+    }
+    if (response.status === 429) {
+      throw new Error('RATE_LIMIT: OpenRouter rate limit exceeded. Please wait and try again.')
+    }
+    if (response.status >= 500) {
+      throw new Error(`PROVIDER_UNAVAILABLE: OpenRouter returned ${response.status}.`)
+    }
+    
+    throw new Error(`OpenRouter API error: ${response.status} - ${errorText.slice(0, 200)}`)
+  }
+
+  const data = await response.json()
+  const callUsage = extractTokenUsage('openrouter', model, data)
+  recordUsage(options.usage, callUsage)
+  console.log(`[OpenRouter] Cost: $${callUsage.costUsd.toFixed(4)} (${callUsage.totalTokens} tokens)`)
+  throwIfRefused('openrouter', data)
+  
+  // Log finish reason to detect truncation
+  const finishReason = data.choices?.[0]?.finish_reason
+  const usage = data.usage
+  
+  console.log(`[OpenRouter] Finish reason: ${finishReason}`)
+  console.log(`[OpenRouter] Token usage: prompt=${usage?.prompt_tokens}, completion=${usage?.completion_tokens}, total=${usage?.total_tokens}`)
+  
+  if (finishReason === 'length') {
+    console.warn(`[OpenRouter] ⚠️ Output was truncated due to token limit (${maxTokens} tokens)!`)
+  }
+  
+  const text = data.choices?.[0]?.message?.content || ''
+  
+  if (!text) {
+    console.error(`[OpenRouter] Empty response! Full response:`, JSON.stringify(data).slice(0, 500))
+    throw new Error('AI_EMPTY_RESPONSE: OpenRouter returned an empty response.')
+  }
+  
+  console.log(`[OpenRouter] Raw response length: ${text.length} characters`)
+  
+  let jsonStr = text
+  const match = text.match(/\{[\s\S]*\}/)
+  if (match) {
+    jsonStr = match[0]
+  } else {
+    console.error(`[OpenRouter] No JSON found in response! First 500 chars:`, text.slice(0, 500))
+    throw new Error('AI_PARSE_ERROR: No valid JSON found in AI response.')
+  }
+  
+  let parsed
+  try {
+    parsed = JSON.parse(jsonStr)
+  } catch (parseError) {
+    console.error(`[OpenRouter] JSON parse error! First 500 chars:`, jsonStr.slice(0, 500))
+    throw new Error('AI_PARSE_ERROR: Failed to parse AI response as JSON.')
+  }
+  
+  const wordCount = countWords(parsed.content || '')
+  const wordCountMet = wordCount >= settings.minWordCount && wordCount <= settings.maxWordCount
+
+  console.log(`[OpenRouter] Generated ${wordCount} words in ${duration}ms`)
+  console.log(`[OpenRouter] Word count target: ${settings.minWordCount}-${settings.maxWordCount}`)
+  console.log(`[OpenRouter] Word count met: ${wordCountMet ? 'YES ✅' : 'NO ❌'}`)
+  
+  if (!wordCountMet && finishReason === 'length') {
+    console.error(`[OpenRouter] ❌ Word count NOT met because output was truncated!`)
+  }
+
+  return {
+    title: parsed.title || topic,
+    optimizedTitle: parsed.title || topic,
+    optimizedContent: parsed.content || '',
+    content: parsed.content || '',
+    wordCount,
+    qualityScore: Math.min(95, 70 + Math.floor(wordCount / 50)),
+    seoScore: wordCountMet ? 85 : 70,
+    readabilityScore: 80,
+    metaDescription: parsed.metaDescription || '',
+    h1: parsed.h1 || topic,
+    h2s: parsed.h2s || [],
+    sections: [
+      { type: 'tldr', content: parsed.tldrSummary || '' },
+      { type: 'takeaways', data: parsed.keyTakeaways || [] },
+      { type: 'faqs', data: parsed.faqs || [] },
+      { type: 'paragraph', content: parsed.content || '' },
+    ],
+    excerpt: parsed.excerpt || '',
+    author: 'AI Content Expert',
+    publishedAt: new Date().toISOString(),
+    targetWordCount: { min: settings.minWordCount, max: settings.maxWordCount },
+    wordCountMet,
+  }
+}
+
+// ============================================================================
+// AI GENERATION: CUSTOM OPENAI-COMPATIBLE ENDPOINT
+// ============================================================================
+
+async function generateWithCustomEndpoint(
+  endpoint: AIProviderEntry,
+  topic: string,
+  settings: ContentSettings,
+  options: GenerationOptions = {}
+): Promise<GeneratedContent> {
+  const { apiKey, model } = endpoint
+  const url = resolveChatCompletionsUrl(endpoint.baseUrl || '')
+  const maxTokens = getMaxTokensForModel(CUSTOM_PROVIDER, model)
+
+  console.log(`[Custom] ========== STARTING GENERATION ==========`)
+  console.log(`[Custom] Endpoint: ${new URL(url).host}`)
+  console.log(`[Custom] Model: ${model}`)
+  console.log(`[Custom] Topic: "${topic}"`)
+  console.log(`[Custom] Word count target: ${settings.minWordCount}-${settings.maxWordCount}`)
+  console.log(`[Custom] Max output tokens: ${maxTokens}`)
+
+  const prompt = buildPrompt(topic, settings, options.context)
+  const startTime = Date.now()
+
+  const response = await fetchWithTimeout(url, {
+    method: 'POST',
+    headers: buildCustomHeaders(apiKey, endpoint),
+    body: JSON.stringify({
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: `You are an expert SEO content writer. Always respond with valid JSON only, no markdown code blocks. You MUST write between ${settings.minWordCount} and ${settings.maxWordCount} words. This is non-negotiable.`
+        },
+        { role: 'user', content: prompt },
+      ],
+      temperature: 0.7,
+      max_tokens: maxTokens,
+    }),
+  })
+
+  const duration = Date.now() - startTime
+  console.log(`[Custom] Response received in ${duration}ms`)
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error(`[Custom] API error ${response.status}:`, errorText.slice(0, 500))
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('INVALID_API_KEY: The custom endpoint rejected the API key or headers.')
+    }
+    if (response.status === 404) {
+      throw new Error(`MODEL_NOT_FOUND: The custom endpoint has no model "${model}" or the URL is wrong.`)
+    }
+    if (response.status === 429) {
+      throw new Error('RATE_LIMIT: Custom endpoint rate limit exceeded. Please wait and try again.')
+    }
+    if (response.status >= 500) {
+      throw new Error(`PROVIDER_UNAVAILABLE: Custom endpoint returned ${response.status}.`)
+    }
+
+    throw new Error(`Custom endpoint error: ${response.status} - ${errorText.slice(0, 200)}`)
+  }
+
+  const data = await response.json()
+  const callUsage = extractTokenUsage(CUSTOM_PROVIDER, model, data)
+  recordUsage(options.usage, callUsage)
+  console.log(`[Custom] Token usage: ${callUsage.totalTokens} tokens`)
+  throwIfRefused(CUSTOM_PROVIDER, data)
+
+  const finishReason = data.choices?.[0]?.finish_reason
+  console.log(`[Custom] Finish reason: ${finishReason}`)
+
+  if (finishReason === 'length') {
+    console.warn(`[Custom] ⚠️ Output was truncated due to token limit (${maxTokens} tokens)!`)
+  }
+
+  const text = data.choices?.[0]?.message?.content || ''
+
+  if (!text) {
+    throw new Error('AI_EMPTY_RESPONSE: Custom endpoint returned an empty response.')
+  }
+
+  let jsonStr = text
+  const match = text.match(/\{[\s\S]*\}/)
+  if (match) jsonStr = match[0]
+
+  let parsed
+  try {
+    parsed = JSON.parse(jsonStr)
+  } catch (parseError) {
+    console.error('[Custom] JSON parse error, raw text:', text.slice(0, 500))
+    throw new Error('AI_PARSE_ERROR: Failed to parse AI response.')
+  }
+
+  const wordCount = countWords(parsed.content || '')
+  const wordCountMet = wordCount >= settings.minWordCount && wordCount <= settings.maxWordCount
+
+  console.log(`[Custom] Generated ${wordCount} words in ${duration}ms`)
+  console.log(`[Custom] Word count met: ${wordCountMet ? 'YES ✅' : 'NO ❌'}`)
+
+  return {
+    title: parsed.title || topic,
+    optimizedTitle: parsed.title || topic,
+    optimizedContent: parsed.content || '',
+    content: parsed.content || '',
+    wordCount,
+    qualityScore: Math.min(95, 70 + Math.floor(wordCount / 50)),
+    seoScore: wordCountMet ? 85 : 70,
+    readabilityScore: 80,
+    metaDescription: parsed.metaDescription || '',
+    h1: parsed.h1 || topic,
+    h2s: parsed.h2s || [],
+    sections: [
+      { type: 'tldr', content: parsed.tldrSummary || '' },
+      { type: 'takeaways', data: parsed.keyTakeaways || [] },
+      { type: 'faqs', data: parsed.faqs || [] },
+      { type: 'paragraph', content: parsed.content || '' },
+    ],
+    excerpt: parsed.excerpt || '',
+    author: 'AI Content Expert',
+    publishedAt: new Date().toISOString(),
+    targetWordCount: { min: settings.minWordCount, max: settings.maxWordCount },
+    wordCountMet,
+  }
+}
+
+// ============================================================================
+// RAW PROMPT CALL - Single prompt in, raw text out (used by expansion and
+// the brief/outline/enrichment pipeline stages)
+// ============================================================================
+
+export interface CallAIOptions {
+  maxTokens?: number
+  usage?: UsageTotals
+}
+
+export async function callAI(
+  aiConfig: AIConfig,
+  prompt: string,
+  options: CallAIOptions = {}
+): Promise<string> {
+  const { result } = await runWithFallback(aiConfig, '[callAI]', entry => callProvider(entry, prompt, options))
+  return result
+}
+
+// callAI for prompts that must answer with JSON. Parsing happens inside the
+// fallback loop so an unparsable answer moves on to the next provider.
+export async function callAIJson<T = Record<string, unknown>>(
+  aiConfig: AIConfig,
+  prompt: string,
+  options: CallAIOptions = {}
+): Promise<T> {
+  const { result } = await runWithFallback(aiConfig, '[callAI]', async entry =>
+    parseJsonResponse<T>(await callProvider(entry, prompt, options))
+  )
+  return result
+}
+
+async function callProvider(
+  aiConfig: AIProviderEntry,
+  prompt: string,
+  options: CallAIOptions
+): Promise<string> {
+  const { provider, apiKey, model } = aiConfig
+  const maxTokens = options.maxTokens || getMaxTokensForModel(provider, model)
+  const label = `[callAI:${provider}]`
+
+  const meter = (data: Record<string, unknown>) => {
+    const callUsage = extractTokenUsage(provider, model, data)
+    recordUsage(options.usage, callUsage)
+    console.log(`${label} Cost: $${callUsage.costUsd.toFixed(4)} (${callUsage.totalTokens} tokens)`)
+    throwIfRefused(provider, data)
+  }
+
+  const chatCompletion = async (url: string, headers: Record<string, string>): Promise<string> => {
+    const response = await fetchWithTimeout(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}`, ...headers },
+      body: JSON.stringify({
+        model, messages: [{ role: 'user', content: prompt }], max_tokens: maxTokens,
+      }),
+    })
+    if (response.status === 429) throw new Error(`RATE_LIMIT: ${provider} rate limit exceeded. Please wait and try again.`)
+    if (response.status >= 500) throw new Error(`PROVIDER_UNAVAILABLE: ${provider} returned ${response.status}.`)
+    if (!response.ok) throw new Error(`AI_REQUEST_FAILED: ${provider} returned ${response.status}`)
+    const data = await response.json()
+    meter(data)
+    return data.choices?.[0]?.message?.content || ''
+  }
+
+  let text = ''
+
+  switch (provider.toLowerCase()) {
+    case 'google': {
+      const response = await fetchWithTimeout(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            contents: [{ parts: [{ text: prompt }] }],
+            generationConfig: { temperature: 0.7, maxOutputTokens: maxTokens },
+          }),
+        }
+      )
+      if (response.status === 429) throw new Error('RATE_LIMIT: Google AI rate limit exceeded. Please wait a moment and try again.')
+      if (response.status >= 500) throw new Error(`PROVIDER_UNAVAILABLE: google returned ${response.status}.`)
+      if (!response.ok) throw new Error(`AI_REQUEST_FAILED: google returned ${response.status}`)
+      const geminiData = await response.json()
+      meter(geminiData)
+      text = geminiData.candidates?.[0]?.content?.parts?.[0]?.text || ''
+      break
+    }
+
+    case 'openai':
+      text = await chatCompletion('https://api.openai.com/v1/chat/completions', {})
+      break
+
+    case 'anthropic': {
+      const response = await fetchWithTimeout('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+        body: JSON.stringify({ model, max_tokens: maxTokens, messages: [{ role: 'user', content: prompt }] }),
+      })
+      if (response.status === 429) throw new Error('RATE_LIMIT: Anthropic rate limit exceeded. Please wait and try again.')
+      if (response.status >= 500) throw new Error(`PROVIDER_UNAVAILABLE: anthropic returned ${response.status}.`)
+      if (!response.ok) throw new Error(`AI_REQUEST_FAILED: anthropic returned ${response.status}`)
+      const anthropicData = await response.json()
+      meter(anthropicData)
+      text = anthropicData.content?.[0]?.text || ''
+      break
+    }
+
+    case 'groq':
+      text = await chatCompletion('https://api.groq.com/openai/v1/chat/completions', {})
+      break
+
+    case 'openrouter':
+      text = await chatCompletion('https://openrouter.ai/api/v1/chat/completions', {
+        'HTTP-Referer': 'https://page-perfector.app',
+      })
+      break
+
+    case MOCK_PROVIDER:
+    case CUSTOM_PROVIDER: {
+      const baseUrl = provider.toLowerCase() === MOCK_PROVIDER ? MOCK_BASE_URL : aiConfig.baseUrl
+      const response = await fetchWithTimeout(resolveChatCompletionsUrl(baseUrl || ''), {
+        method: 'POST',
+        headers: buildCustomHeaders(apiKey, aiConfig),
+        body: JSON.stringify({
+          model, messages: [{ role: 'user', content: prompt }], max_tokens: maxTokens,
+        }),
+      })
+      if (response.status === 429) throw new Error('RATE_LIMIT: Custom endpoint rate limit exceeded. Please wait and try again.')
+      if (response.status >= 500) throw new Error(`PROVIDER_UNAVAILABLE: custom endpoint returned ${response.status}.`)
+      if (!response.ok) throw new Error(`AI_REQUEST_FAILED: custom endpoint returned ${response.status}`)
+      const customData = await response.json()
+      meter(customData)
+      text = customData.choices?.[0]?.message?.content || ''
+      break
+    }
+
+    default:
+      throw new Error(`UNSUPPORTED_PROVIDER: Provider "${provider}" is not supported.`)
+  }
+
+  if (!text) {
+    throw new Error(`AI_EMPTY_RESPONSE: ${provider} returned an empty response.`)
+  }
+
+  console.log(`${label} Received ${text.length} chars`)
+  return text
+}
+
+// Pulls the first JSON object out of a model response (models sometimes wrap
+// JSON in prose or markdown fences)
+export function parseJsonResponse<T = Record<string, unknown>>(text: string): T {
+  const match = text.match(/\{[\s\S]*\}/)
+  try {
+    return JSON.parse(match ? match[0] : text) as T
+  } catch {
+    console.error('[parseJsonResponse] JSON parse error, raw text:', text.slice(0, 500))
+    throw new Error('AI_PARSE_ERROR: Failed to parse AI response.')
+  }
+}
+
+// ============================================================================
+// CONTENT EXPANSION HELPER (NEW!)
+// ============================================================================
+
+async function expandContent(
+  aiConfig: AIProviderEntry,
+  existingContent: string,
+  currentWords: number,
+  targetWords: number,
+  topic: string,
+  usage?: UsageTotals
+): Promise<string> {
+  console.log(`[expandContent] Expanding from ${currentWords} to ${targetWords} words`)
+  
+  const prompt = buildExpansionPrompt(existingContent, currentWords, targetWords, topic)
+  const text = await callProvider(aiConfig, prompt, { usage })
+  
+  // Extract expanded content from JSON response
+  const match = text.match(/\{[\s\S]*\}/)
+  if (match) {
+    try {
+      const parsed = JSON.parse(match[0])
+      const expandedContent = parsed.content || existingContent
+      const newWordCount = countWords(expandedContent)
+      console.log(`[expandContent] Expanded to ${newWordCount} words`)
+      return expandedContent
+    } catch (e) {
+      console.warn('[expandContent] Failed to parse expansion response, using original')
+      return existingContent
+    }
+  }
+  
+  return existingContent
+}
+
+// ============================================================================
+// MAIN AI ROUTER - WITH WORD COUNT ENFORCEMENT AND RETRY LOGIC (NEW!)
+// ============================================================================
+
+export async function generateWithAI(
+  aiConfig: AIConfig,
+  topic: string,
+  settings: ContentSettings,
+  options: GenerationOptions = {}
+): Promise<GeneratedContent> {
+  const { result, entry, failures } = await runWithFallback(
+    aiConfig,
+    '[generateWithAI]',
+    (candidate, hasFallback) => generateWithProvider(candidate, topic, settings, options, hasFallback)
+  )
+
+  result.provider = entry.provider
+  result.model = entry.model
+  result.providerFailures = failures
+  return result
+}
+
+// Word count retry loop against a single provider. With a fallback available,
+// errors that another provider might not hit are thrown straight away instead
+// of being retried here.
+async function generateWithProvider(
+  aiConfig: AIProviderEntry,
+  topic: string,
+  settings: ContentSettings,
+  options: GenerationOptions,
+  hasFallback: boolean
+): Promise<GeneratedContent> {
+  console.log('[generateWithAI] ========== AI GENERATION START ==========')
+  console.log('[generateWithAI] Provider:', aiConfig.provider)
+  console.log('[generateWithAI] Model:', aiConfig.model)
+  console.log('[generateWithAI] Topic:', topic)
+  console.log('[generateWithAI] Word Count Target:', settings.minWordCount, '-', settings.maxWordCount)
+  console.log('[generateWithAI] Max Retries:', MAX_WORD_COUNT_RETRIES)
+
+  const { provider, apiKey, model } = aiConfig
+  
+  let attempts = 0
+  let lastResult: GeneratedContent | null = null
+  let currentContent = ''
+  
+  // Retry loop for word count enforcement
+  while (attempts < MAX_WORD_COUNT_RETRIES) {
+    attempts++
+    console.log(`[generateWithAI] ========== ATTEMPT ${attempts}/${MAX_WORD_COUNT_RETRIES} ==========`)
+    
+    // Stop before spending tokens on another attempt if the job was cancelled
+    await options.checkCancelled?.()
+    
+    try {
+      // Generate content based on provider
+      let result: GeneratedContent
+      
+      switch (provider.toLowerCase()) {
+        case 'google':
+          result = await generateWithGemini(apiKey, model || 'gemini-2.0-flash', topic, settings, options)
+          break
+        case 'openai':
+          result = await generateWithOpenAI(apiKey, model || 'gpt-4o-mini', topic, settings, options)
+          break
+        case 'anthropic':
+          result = await generateWithAnthropic(apiKey, model || 'claude-3-haiku-20240307', topic, settings, options)
+          break
+        case 'groq':
+          result = await generateWithGroq(apiKey, model || 'llama-3.1-70b-versatile', topic, settings, options)
+          break
+        case 'openrouter':
+          result = await generateWithOpenRouter(apiKey, model || 'openai/gpt-4o-mini', topic, settings, options)
+          break
+        case CUSTOM_PROVIDER:
+          result = await generateWithCustomEndpoint(aiConfig, topic, settings, options)
+          break
+        case MOCK_PROVIDER:
+          result = await generateWithCustomEndpoint({ ...aiConfig, baseUrl: MOCK_BASE_URL, headers: {} }, topic, settings, options)
+          break
+        default:
+          throw new Error(`UNSUPPORTED_PROVIDER: Provider "${provider}" is not supported.`)
+      }
+      
+      lastResult = result
+      currentContent = result.optimizedContent || result.content || ''
+      
+      // Validate word count
+      const validation = validateWordCount(currentContent, settings.minWordCount, settings.maxWordCount)
+      
+      console.log(`[generateWithAI] Validation result:`, {
+        wordCount: validation.wordCount,
+        targetMin: validation.targetMin,
+        targetMax: validation.targetMax,
+        action: validation.action,
+        isValid: validation.isValid
+      })
+      
+      // If valid, return immediately
+      if (validation.isValid || validation.action === 'accept') {
+        console.log(`[generateWithAI] ✅ Word count ACCEPTED after ${attempts} attempt(s)`)
+        result.wordCountMet = true
+        result.generationAttempts = attempts
+        return result
+      }
+      
+      // Handle truncation (always final - we can do this locally)
+      if (validation.action === 'truncate') {
+        console.log(`[generateWithAI] Truncating content from ${validation.wordCount} to ${settings.maxWordCount} words`)
+        const truncatedContent = smartTruncate(currentContent, settings.maxWordCount)
+        result.optimizedContent = truncatedContent
+        result.content = truncatedContent
+        result.wordCount = countWords(truncatedContent)
+        result.wordCountMet = true
+        result.generationAttempts = attempts
+        console.log(`[generateWithAI] ✅ Content truncated to ${result.wordCount} words`)
+        return result
+      }
+      
+      // Handle expansion (try to expand if we have retries left)
+      if (validation.action === 'expand' && attempts < MAX_WORD_COUNT_RETRIES) {
+        console.log(`[generateWithAI] Attempting to expand content from ${validation.wordCount} to ${settings.minWordCount}+ words`)
+        await options.checkCancelled?.()
+        try {
+          const expandedContent = await expandContent(
+            aiConfig,
+            currentContent,
+            validation.wordCount,
+            settings.minWordCount + 100, // Target slightly above minimum
+            topic,
+            options.usage
+          )
+          
+          // Update result with expanded content
+          result.optimizedContent = expandedContent
+          result.content = expandedContent
+          result.wordCount = countWords(expandedContent)
+          currentContent = expandedContent
+          
+          // Re-validate after expansion
+          const revalidation = validateWordCount(expandedContent, settings.minWordCount, settings.maxWordCount)
+          if (revalidation.isValid || revalidation.action === 'accept') {
+            console.log(`[generateWithAI] ✅ Word count ACCEPTED after expansion (${result.wordCount} words)`)
+            result.wordCountMet = true
+            result.generationAttempts = attempts
+            return result
+          }
+          
+          console.log(`[generateWithAI] Expansion result: ${result.wordCount} words, need more`)
+        } catch (expandError) {
+          console.warn(`[generateWithAI] Expansion failed:`, expandError)
+          // Continue to next attempt
+        }
+      }
+      
+      // If regeneration is needed and we have retries left, continue loop
+      if (validation.action === 'regenerate') {
+        console.log(`[generateWithAI] Content too short (${validation.wordCount} words), regenerating...`)
+        // Loop will continue with fresh generation
+      }
+      
+    } catch (err) {
+      console.error(`[generateWithAI] Attempt ${attempts} failed:`, err)
+      if (isCancellationError(err) || attempts >= MAX_WORD_COUNT_RETRIES || (hasFallback && shouldFallBack(err))) {
+        throw err
+      }
+      // Small delay before retry
+      await new Promise(r => setTimeout(r, 1000))
+    }
+  }
+  
+  // Return best effort after max retries
+  if (lastResult) {
+    console.log(`[generateWithAI] ⚠️ Returning best effort after ${attempts} attempts. Words: ${lastResult.wordCount}`)
+    lastResult.wordCountMet = lastResult.wordCount >= settings.minWordCount * 0.9 && 
+                              lastResult.wordCount <= settings.maxWordCount * 1.1
+    lastResult.generationAttempts = attempts
+    return lastResult
+  }
+  
+  throw new Error('AI_GENERATION_FAILED: Could not generate content after maximum retry attempts')
+}
@@ -0,0 +1,184 @@
+// ============================================================================
+// OPTIMIZE-CONTENT SOURCE POST - ENTERPRISE SOTA v18.0.0
+// ============================================================================
+// Loads the live WordPress post a job is optimizing (through
+// fetch-page-content) and reduces it to source material - clean text, its
+// heading outline and internal links - so a full rewrite keeps the post's
+// facts, examples and voice instead of starting from the title alone.
+// ============================================================================
+
+import { countWords, type SourcePostOptions } from './processor.ts'
+import type { SourceLink, SourceMaterial, SourcePost } from '../_shared/pipeline-types.ts'
+import { stripHtml } from '../_shared/utils.ts'
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const SOURCE_FETCH_TIMEOUT_MS = 30000
+const MAX_SOURCE_CHARS = 12000
+const MAX_SOURCE_LINKS = 30
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#039;': "'", '&#39;': "'",
+  '&nbsp;': ' ', '&#8217;': '\u2019', '&#8216;': '\u2018', '&#8220;': '\u201c', '&#8221;': '\u201d',
+  '&#8211;': '\u2013', '&#8212;': '\u2014', '&hellip;': '\u2026', '&#8230;': '\u2026',
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(?:[a-z]+|#\d+);/gi, entity => HTML_ENTITIES[entity.toLowerCase()] ?? entity)
+}
+
+// Block-level HTML to plain text with paragraph breaks, "#" heading markers
+// and "-" list items; embeds, scripts, block comments and shortcodes dropped
+function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|iframe|svg)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/\[\/?[a-z][\w-]*(?:\s[^\]]*)?\]/gi, ' ')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${stripHtml(inner)}\n\n`)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<t[dh][^>]*>/gi, ' | ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|ul|ol|table|tr|blockquote|figure|section)>/gi, '\n\n')
+    .replace(/<[^>]*>/g, ' ')
+
+  return decodeEntities(text)
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return ''
+  }
+}
+
+// Links to the post's own site as absolute URLs; in-page anchors and
+// mailto/tel links are skipped
+function extractInternalLinks(html: string, siteUrl: string): SourceLink[] {
+  const base = /^https?:\/\//i.test(siteUrl) ? siteUrl : `https://${siteUrl}`
+  const siteHost = hostOf(base)
+  const links: SourceLink[] = []
+  const seen = new Set<string>()
+
+  for (const match of html.matchAll(/<a\s[^>]*href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+    const rawHref = match[1].trim()
+    if (!rawHref || rawHref.startsWith('#') || /^(mailto|tel|javascript):/i.test(rawHref)) continue
+
+    let href: string
+    try {
+      href = new URL(rawHref, base).toString()
+    } catch {
+      continue
+    }
+    if (hostOf(href) !== siteHost || seen.has(href)) continue
+
+    seen.add(href)
+    links.push({ anchor: decodeEntities(stripHtml(match[2])) || href, href })
+    if (links.length >= MAX_SOURCE_LINKS) break
+  }
+
+  return links
+}
+
+// ============================================================================
+// SOURCE POST
+// ============================================================================
+
+export async function fetchSourcePost(options: SourcePostOptions): Promise<SourcePost> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('SERVER_ERROR: Supabase URL or service role key is not configured.')
+  }
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), SOURCE_FETCH_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/fetch-page-content`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${serviceKey}`,
+      },
+      body: JSON.stringify({
+        siteUrl: options.siteUrl,
+        pageUrl: options.pageUrl,
+        postId: options.postId,
+        postType: options.postType,
+        username: options.username,
+        passwordCredentialId: options.passwordCredentialId,
+        ownerId: options.ownerId,
+      }),
+      signal: controller.signal,
+    })
+
+    const data = await response.json().catch(() => null)
+    if (!data?.success || !data.content) {
+      const reason = data?.error || data?.message || `fetch-page-content returned ${response.status}`
+      throw new Error(`SOURCE_FETCH_FAILED: Could not load the existing post - ${reason}`)
+    }
+
+    const content = data.content
+    if (!String(content.content || '').trim()) {
+      throw new Error('SOURCE_EMPTY: The existing post has no content to optimize.')
+    }
+
+    console.log(`[Source] Loaded post ${content.id} "${content.title}" (${content.wordCount} words)`)
+    return {
+      id: content.id,
+      title: stripHtml(String(content.title || '')),
+      content: String(content.content),
+      excerpt: String(content.excerpt || ''),
+      slug: content.slug,
+      status: content.status,
+      modified: content.modified,
+      wordCount: content.wordCount || countWords(content.content),
+    }
+  } catch (err) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      throw new Error(`SOURCE_FETCH_FAILED: fetch-page-content timed out after ${SOURCE_FETCH_TIMEOUT_MS / 1000}s.`)
+    }
+    throw err
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+// ============================================================================
+// SOURCE MATERIAL
+// ============================================================================
+
+export function buildSourceMaterial(source: SourcePost, siteUrl: string): SourceMaterial {
+  const headings = Array.from(source.content.matchAll(/<h([23])[^>]*>([\s\S]*?)<\/h\1>/gi))
+    .map(match => `H${match[1]}: ${decodeEntities(stripHtml(match[2]))}`)
+    .filter(heading => heading.length > 4)
+
+  let text = htmlToText(source.content)
+  const truncated = text.length > MAX_SOURCE_CHARS
+  if (truncated) {
+    // Cut at a paragraph break so the model never sees half a sentence
+    const cut = text.lastIndexOf('\n\n', MAX_SOURCE_CHARS)
+    text = text.slice(0, cut > MAX_SOURCE_CHARS / 2 ? cut : MAX_SOURCE_CHARS)
+  }
+
+  return {
+    title: source.title,
+    headings,
+    text,
+    internalLinks: extractInternalLinks(source.content, siteUrl),
+    wordCount: source.wordCount,
+    truncated,
+  }
+}
@@ -0,0 +1,634 @@
+// ============================================================================
+// OPTIMIZE-CONTENT SURGICAL MODE - ENTERPRISE SOTA v18.0.0
+// ============================================================================
+// Improves an existing post in place instead of writing a new one:
+//   1. start from the live post (source-content.ts)
+//   2. audit its H2 sections and pick the weak ones
+//   3. rewrite only those sections, keeping media, embeds and links intact
+//   4. fill in missing alt text, TOC, key takeaways and FAQs
+// The output is a ContentPatch - a list of independent edits against the
+// original HTML - plus the HTML with every edit applied.
+// ============================================================================
+
+import {
+  callAIJson,
+  countWords,
+  type AIConfig,
+  type CancellationCheck,
+  type ContentSettings,
+  type GeneratedContent,
+  type SurgicalOptions,
+  type UsageTotals,
+} from './processor.ts'
+import type {
+  ArticleComponent,
+  ContentOutline,
+  FaqBlock,
+  InsertBlockOperation,
+  InsertableBlock,
+  KeyTakeawaysBlock,
+  OutlineSection,
+  PatchOperation,
+  ReplaceSectionOperation,
+  SectionVerdict,
+  SerpBrief,
+  SetAltTextOperation,
+  SourcePost,
+  SurgicalPlan,
+} from '../_shared/pipeline-types.ts'
+import {
+  renderFAQ,
+  renderTableOfContents,
+  renderTakeaways,
+  type ContentFormat,
+} from '../_shared/WordPressContentRenderer.ts'
+import {
+  renderFAQBlock,
+  renderTableOfContentsBlock,
+  renderTakeawaysBlock,
+} from '../_shared/GutenbergBlockRenderer.ts'
+import {
+  renderFAQThemed,
+  renderTableOfContentsThemed,
+  renderTakeawaysThemed,
+} from '../_shared/ThemedContentRenderer.ts'
+import { slugify, stripHtml } from '../_shared/utils.ts'
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const AUDIT_MAX_TOKENS = 2048
+const REWRITE_MAX_TOKENS = 4096
+const ALT_TEXT_MAX_TOKENS = 2048
+const MAX_SECTION_REWRITES = 5
+const MAX_ALT_TEXT_IMAGES = 20
+const THIN_SECTION_WORDS = 120
+const MIN_TOC_HEADINGS = 3
+
+// A section starts at each H2, including the Gutenberg comment that opens it
+const SECTION_START = /(?:<!--\s*wp:heading\b[^>]*-->\s*)?<h2[\s>]/gi
+const SECTION_HEADING = /^((?:<!--\s*wp:heading\b[^>]*-->\s*)?<h2[^>]*>([\s\S]*?)<\/h2>(?:\s*<!--\s*\/wp:heading\s*-->)?)/i
+
+// Elements a rewrite must carry over untouched: media, embeds, scripts,
+// Gutenberg block delimiters and shortcodes
+const PROTECTED_ELEMENTS = /<figure\b[\s\S]*?<\/figure>|<img\b[^>]*>|<iframe\b[\s\S]*?<\/iframe>|<video\b[\s\S]*?<\/video>|<audio\b[\s\S]*?<\/audio>|<script\b[\s\S]*?<\/script>|<style\b[\s\S]*?<\/style>|<!--[\s\S]*?-->|\[\/?[a-z][\w-]*(?:\s[^\]]*)?\]/gi
+const MEDIA_ELEMENT = /^<(figure|img|iframe|video|audio)\b/i
+
+// Markers of blocks the post already has, from hand-written headings or the
+// usual TOC/FAQ plugins
+const EXISTING_BLOCK_PATTERNS: Record<InsertableBlock, RegExp> = {
+  toc: /table of contents|\bez-toc|rank-math-toc|wp:yoast-seo\/table-of-contents|\bid=["']toc["']/i,
+  key_takeaways: /key takeaways|tl;?dr|<h[2-4][^>]*>\s*(?:in\s+)?summary\s*<\//i,
+  faq: /frequently asked questions|<h[2-4][^>]*>[^<]*\bfaqs?\b|wp:yoast\/faq-block|wp:rank-math\/faq-block|schema-faq/i,
+}
+
+export interface SourceSection {
+  index: number
+  heading: string
+  headingHtml: string
+  bodyHtml: string
+  html: string
+  wordCount: number
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function getAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))
+  return match ? (match[1] ?? match[2] ?? match[3] ?? '') : null
+}
+
+function setAttribute(tag: string, name: string, value: string): string {
+  const attribute = `${name}="${escapeAttribute(value)}"`
+  const existing = new RegExp(`\\s${name}\\s*=\\s*(?:"[^"]*"|'[^']*'|[^\\s>]+)`, 'i')
+  if (existing.test(tag)) return tag.replace(existing, ` ${attribute}`)
+  return tag.replace(/\s*(\/?)>$/, ` ${attribute}$1>`)
+}
+
+function extractHrefs(html: string): string[] {
+  return Array.from(html.matchAll(/<a\s[^>]*>/gi))
+    .map(match => getAttribute(match[0], 'href'))
+    .filter((href): href is string => Boolean(href))
+}
+
+// Splits post HTML at each H2. Concatenating the sections' html gives back
+// the original string exactly, so a section can be swapped out in place.
+export function splitSourceSections(html: string): SourceSection[] {
+  const starts = Array.from(html.matchAll(SECTION_START)).map(match => match.index ?? 0)
+  if (starts[0] !== 0) starts.unshift(0)
+
+  return starts.map((start, i) => {
+    const part = html.slice(start, starts[i + 1] ?? html.length)
+    const headingMatch = part.match(SECTION_HEADING)
+    const headingHtml = headingMatch?.[1] || ''
+
+    return {
+      index: i,
+      heading: headingMatch ? stripHtml(headingMatch[2]) : 'Introduction',
+      headingHtml,
+      bodyHtml: part.slice(headingHtml.length),
+      html: part,
+      wordCount: countWords(part),
+    }
+  })
+}
+
+// The post's existing structure as an outline, so quality scoring can judge
+// coverage against the headings the post already has
+export function outlineFromSections(title: string, sections: SourceSection[]): ContentOutline {
+  const toOutline = (section: SourceSection): OutlineSection => ({
+    heading: section.heading, level: 2, objective: '', keyPoints: [],
+  })
+  const headed = sections.filter(section => section.headingHtml)
+
+  return {
+    title,
+    intro: { heading: 'Introduction', level: 2, objective: '', keyPoints: [] },
+    sections: headed.map(toOutline),
+    conclusion: { heading: 'Conclusion', level: 2, objective: '', keyPoints: [] },
+  }
+}
+
+export function findMissingBlocks(html: string, settings: ContentSettings): InsertableBlock[] {
+  const wanted: InsertableBlock[] = []
+  const headingCount = splitSourceSections(html).filter(section => section.headingHtml).length
+
+  if (settings.enableKeyTakeaways !== false) wanted.push('key_takeaways')
+  if (settings.enableToc !== false && headingCount >= MIN_TOC_HEADINGS) wanted.push('toc')
+  if (settings.enableFaqs !== false) wanted.push('faq')
+
+  return wanted.filter(block => !EXISTING_BLOCK_PATTERNS[block].test(html))
+}
+
+// ============================================================================
+// AUDIT - Which sections are weak
+// ============================================================================
+
+function buildAuditPrompt(topic: string, sections: SourceSection[], brief: SerpBrief): string {
+  const sectionList = sections
+    .filter(section => section.wordCount > 0)
+    .map(section => {
+      const thin = section.wordCount < THIN_SECTION_WORDS ? ' [THIN]' : ''
+      return `[${section.index}] "${section.heading}" (${section.wordCount} words)${thin}
+${stripHtml(section.bodyHtml).slice(0, 600)}`
+    })
+    .join('\n\n')
+
+  return `You are an SEO editor auditing an existing article. The article stays as it is except for its weakest sections, which will be rewritten.
+
+TOPIC: ${topic}
+SEARCH INTENT: ${brief.searchIntent}
+ENTITIES SEARCHERS EXPECT: ${brief.topEntities.join(', ') || 'n/a'}
+QUESTIONS SEARCHERS ASK: ${brief.paaQuestions.join(' | ') || 'n/a'}
+
+SECTIONS (index, heading, length, opening text):
+${sectionList}
+
+Mark a section "rewrite" only when it is thin, outdated, vague, off-intent or misses entities it should cover. Sections that already do their job are "keep". Rewrite at most ${MAX_SECTION_REWRITES} sections.
+
+Respond ONLY with valid JSON (no markdown code blocks):
+{
+  "sections": [{ "index": 0, "action": "keep | rewrite", "reason": "One sentence on what is wrong or why it is fine" }],
+  "metaDescription": "Improved meta description (150-160 characters)"
+}`
+}
+
+export async function runSurgicalAudit(
+  aiConfig: AIConfig,
+  topic: string,
+  source: SourcePost,
+  brief: SerpBrief,
+  settings: ContentSettings,
+  usage: UsageTotals
+): Promise<SurgicalPlan> {
+  const sections = splitSourceSections(source.content)
+  const raw = await callAIJson(aiConfig, buildAuditPrompt(topic, sections, brief), { maxTokens: AUDIT_MAX_TOKENS, usage })
+
+  const answers = new Map<number, { action: string; reason: string }>()
+  for (const item of Array.isArray(raw.sections) ? raw.sections : []) {
+    if (!item || typeof item !== 'object') continue
+    const entry = item as Record<string, unknown>
+    answers.set(Number(entry.index), {
+      action: String(entry.action || '').toLowerCase(),
+      reason: String(entry.reason || '').trim(),
+    })
+  }
+
+  let rewrites = 0
+  const verdicts: SectionVerdict[] = sections.map((section) => {
+    const answer = answers.get(section.index)
+    const rewrite = answer?.action === 'rewrite' && section.wordCount > 0 && rewrites < MAX_SECTION_REWRITES
+    if (rewrite) rewrites++
+
+    return {
+      index: section.index,
+      heading: section.heading,
+      wordCount: section.wordCount,
+      action: rewrite ? 'rewrite' : 'keep',
+      reason: answer?.reason || (rewrite ? 'Weak section' : 'No issues found'),
+    }
+  })
+
+  const metaDescription = String(raw.metaDescription || '').trim()
+  const missingBlocks = findMissingBlocks(source.content, settings)
+
+  console.log(`[Surgical] Audit: ${rewrites}/${sections.length} sections to rewrite, missing blocks: ${missingBlocks.join(', ') || 'none'}`)
+  return {
+    sections: verdicts,
+    missingBlocks,
+    ...(metaDescription ? { metaDescription: metaDescription.slice(0, 160) } : {}),
+  }
+}
+
+// ============================================================================
+// SECTION REWRITES - Media and embeds are masked so they survive verbatim
+// ============================================================================
+
+interface MaskedHtml {
+  html: string
+  tokens: Array<{ token: string; value: string; isMedia: boolean }>
+}
+
+function maskProtected(html: string): MaskedHtml {
+  const tokens: MaskedHtml['tokens'] = []
+  const masked = html.replace(PROTECTED_ELEMENTS, (value) => {
+    const token = `[[KEEP_${tokens.length}]]`
+    tokens.push({ token, value, isMedia: MEDIA_ELEMENT.test(value) })
+    return token
+  })
+  return { html: masked, tokens }
+}
+
+// Null when a token that must be kept went missing or was duplicated
+function restoreProtected(html: string, masked: MaskedHtml, preserveImages: boolean): string | null {
+  let restored = html
+  for (const { token, value, isMedia } of masked.tokens) {
+    const occurrences = restored.split(token).length - 1
+    if (occurrences > 1) return null
+    if (occurrences === 0) {
+      if (isMedia && !preserveImages) continue
+      return null
+    }
+    restored = restored.replace(token, () => value)
+  }
+  return restored
+}
+
+function buildRewritePrompt(
+  topic: string,
+  section: SourceSection,
+  verdict: SectionVerdict,
+  masked: MaskedHtml,
+  brief: SerpBrief,
+  targetWords: number
+): string {
+  return `You are an SEO editor improving ONE section of an existing article. The rest of the article is not changing.
+
+TOPIC: ${topic}
+SECTION HEADING: ${section.heading}
+WHAT IS WRONG: ${verdict.reason}
+ENTITIES SEARCHERS EXPECT: ${brief.topEntities.join(', ') || 'n/a'}
+
+CURRENT SECTION BODY (HTML):
+${masked.html}
+
+Rewrite the section body to roughly ${targetWords} words. Rules:
+- Return only the body; the heading stays as it is
+- Keep every placeholder like [[KEEP_0]] exactly once, in a sensible position - they are images, embeds and blocks
+- Keep every <a href="..."> link with the same href; you may adjust its anchor text
+- Use the same kinds of HTML elements the section already uses (p, ul, ol, h3, strong, ...)
+
+Respond ONLY with valid JSON (no markdown code blocks):
+{ "html": "<p>...</p>" }`
+}
+
+async function rewriteSection(
+  aiConfig: AIConfig,
+  topic: string,
+  section: SourceSection,
+  verdict: SectionVerdict,
+  brief: SerpBrief,
+  targetWords: number,
+  options: SurgicalOptions,
+  usage: UsageTotals
+): Promise<ReplaceSectionOperation | null> {
+  const masked = maskProtected(section.bodyHtml)
+  const raw = await callAIJson(aiConfig, buildRewritePrompt(topic, section, verdict, masked, brief, targetWords), {
+    maxTokens: REWRITE_MAX_TOKENS,
+    usage,
+  })
+
+  const rewritten = String(raw.html || '').trim()
+  if (!rewritten) {
+    console.warn(`[Surgical] ⚠️ Empty rewrite for "${section.heading}", keeping the original`)
+    return null
+  }
+
+  const restored = restoreProtected(rewritten, masked, options.preserveImages)
+  if (restored === null) {
+    console.warn(`[Surgical] ⚠️ Rewrite of "${section.heading}" dropped protected elements, keeping the original`)
+    return null
+  }
+
+  const keptHrefs = new Set(extractHrefs(restored))
+  const lostLinks = extractHrefs(section.bodyHtml).filter(href => !keptHrefs.has(href))
+  if (lostLinks.length > 0) {
+    console.warn(`[Surgical] ⚠️ Rewrite of "${section.heading}" dropped ${lostLinks.length} link(s), keeping the original`)
+    return null
+  }
+
+  // Keep the whitespace that separated this section from the next one
+  const trailing = section.bodyHtml.match(/\s*$/)?.[0] || ''
+  const leading = section.bodyHtml.match(/^\s*/)?.[0] || ''
+
+  return {
+    op: 'replace_section',
+    id: `section-${section.index}`,
+    sectionIndex: section.index,
+    heading: section.heading,
+    reason: verdict.reason,
+    before: section.html,
+    after: `${section.headingHtml}${leading}${restored}${trailing}`,
+  }
+}
+
+// ============================================================================
+// ALT TEXT
+// ============================================================================
+
+interface ImageNeedingAlt {
+  src: string
+  alt: string
+  context: string
+}
+
+// Missing, empty or filename-like alt text ("IMG_2041.jpg", "image-3")
+function needsAltText(alt: string | null): boolean {
+  if (!alt || !alt.trim()) return true
+  return /\.(jpe?g|png|gif|webp|svg|avif)$/i.test(alt.trim()) || /^(img|image|dsc|photo|screenshot)[-_ ]?\d*$/i.test(alt.trim())
+}
+
+function findImagesNeedingAlt(html: string): ImageNeedingAlt[] {
+  const images: ImageNeedingAlt[] = []
+  const seen = new Set<string>()
+
+  for (const match of html.matchAll(/<img\b[^>]*>/gi)) {
+    const src = getAttribute(match[0], 'src')
+    const alt = getAttribute(match[0], 'alt')
+    if (!src || seen.has(src) || !needsAltText(alt)) continue
+    seen.add(src)
+
+    const before = stripHtml(html.slice(Math.max(0, (match.index ?? 0) - 800), match.index))
+    images.push({ src, alt: alt || '', context: before.slice(-300) })
+    if (images.length >= MAX_ALT_TEXT_IMAGES) break
+  }
+
+  return images
+}
+
+async function generateAltText(
+  aiConfig: AIConfig,
+  topic: string,
+  html: string,
+  usage: UsageTotals
+): Promise<SetAltTextOperation[]> {
+  const images = findImagesNeedingAlt(html)
+  if (images.length === 0) return []
+
+  const prompt = `You are writing image alt text for an article about "${topic}". Describe what each image most likely shows, using its file name and the text before it. Keep each under 125 characters and do not start with "Image of".
+
+IMAGES:
+${images.map((image, i) => `[${i}] file: ${image.src.split('/').pop()}
+text before it: ${image.context || 'n/a'}`).join('\n\n')}
+
+Respond ONLY with valid JSON (no markdown code blocks):
+{ "images": [{ "index": 0, "alt": "Alt text" }] }`
+
+  try {
+    const raw = await callAIJson(aiConfig, prompt, { maxTokens: ALT_TEXT_MAX_TOKENS, usage })
+    const operations: SetAltTextOperation[] = []
+
+    for (const item of Array.isArray(raw.images) ? raw.images : []) {
+      if (!item || typeof item !== 'object') continue
+      const entry = item as Record<string, unknown>
+      const image = images[Number(entry.index)]
+      const alt = String(entry.alt || '').trim().slice(0, 125)
+      if (!image || !alt) continue
+      operations.push({ op: 'set_alt_text', id: `alt-${operations.length}`, src: image.src, before: image.alt, after: alt })
+    }
+
+    console.log(`[Surgical] Alt text for ${operations.length}/${images.length} images`)
+    return operations
+  } catch (err) {
+    // Alt text is a nice-to-have; the section rewrites still stand without it
+    console.warn('[Surgical] ⚠️ Alt text generation failed:', err instanceof Error ? err.message : err)
+    return []
+  }
+}
+
+// ============================================================================
+// REWRITE STAGE
+// ============================================================================
+
+export async function runSurgicalRewrite(
+  aiConfig: AIConfig,
+  topic: string,
+  source: SourcePost,
+  plan: SurgicalPlan,
+  brief: SerpBrief,
+  settings: ContentSettings,
+  options: SurgicalOptions,
+  checkCancelled: CancellationCheck,
+  usage: UsageTotals
+): Promise<PatchOperation[]> {
+  const sections = splitSourceSections(source.content)
+  const headedCount = Math.max(1, sections.filter(section => section.headingHtml).length)
+  const operations: PatchOperation[] = []
+
+  for (const verdict of plan.sections.filter(item => item.action === 'rewrite')) {
+    const section = sections[verdict.index]
+    if (!section) continue
+
+    await checkCancelled()
+    const targetWords = Math.max(section.wordCount, Math.round(settings.minWordCount / headedCount), THIN_SECTION_WORDS * 2)
+    const operation = await rewriteSection(aiConfig, topic, section, verdict, brief, targetWords, options, usage)
+    if (operation) {
+      operations.push(operation)
+      console.log(`[Surgical] ✅ Rewrote "${section.heading}" (${section.wordCount} → ${countWords(operation.after)} words)`)
+    }
+  }
+
+  if (options.optimizeAltText) {
+    await checkCancelled()
+    operations.push(...await generateAltText(aiConfig, topic, source.content, usage))
+  }
+
+  return operations
+}
+
+// ============================================================================
+// BLOCK INSERTS
+// ============================================================================
+
+// Inserted blocks follow the site's content format so they stay editable in
+// the block editor on sites that publish blocks, and pick up the site's
+// design tokens on sites that publish themed classes
+export function buildInsertOperations(
+  html: string,
+  missingBlocks: InsertableBlock[],
+  enrichmentBlocks: ArticleComponent[],
+  format: ContentFormat = 'classic'
+): InsertBlockOperation[] {
+  const operations: InsertBlockOperation[] = []
+  const findBlock = (type: string) => enrichmentBlocks.find(block => block.type === type)
+  const renderers = {
+    classic: { takeaways: renderTakeaways, toc: renderTableOfContents, faq: renderFAQ },
+    themed: { takeaways: renderTakeawaysThemed, toc: renderTableOfContentsThemed, faq: renderFAQThemed },
+    blocks: { takeaways: renderTakeawaysBlock, toc: renderTableOfContentsBlock, faq: renderFAQBlock },
+  }[format]
+
+  const takeaways = findBlock('key_takeaways') as KeyTakeawaysBlock | undefined
+  if (missingBlocks.includes('key_takeaways') && takeaways && takeaways.items.length > 0) {
+    operations.push({
+      op: 'insert_block', id: 'insert-key-takeaways', block: 'key_takeaways', position: 'after_intro',
+      html: renderers.takeaways(
+        takeaways.items.map(item => item.title ? `${item.title}: ${item.description}` : item.description)
+      ),
+    })
+  }
+
+  if (missingBlocks.includes('toc')) {
+    const used = new Set<string>()
+    const anchors = splitSourceSections(html)
+      .filter(section => section.headingHtml)
+      .map((section) => {
+        const openTag = section.headingHtml.match(/<h2[^>]*>/i)?.[0] || ''
+        let id = getAttribute(openTag, 'id') || slugify(section.heading) || `section-${section.index}`
+        if (used.has(id)) id = `${id}-${section.index}`
+        used.add(id)
+        return { heading: section.heading, id }
+      })
+
+    if (anchors.length >= MIN_TOC_HEADINGS) {
+      operations.push({
+        op: 'insert_block', id: 'insert-toc', block: 'toc', position: 'after_intro',
+        html: renderers.toc(
+          anchors.map(anchor => ({ type: 'heading' as const, content: anchor.heading })),
+          anchors.map(anchor => anchor.id)
+        ),
+        anchors,
+      })
+    }
+  }
+
+  const faq = findBlock('faq') as FaqBlock | undefined
+  if (missingBlocks.includes('faq') && faq && faq.items.length > 0) {
+    operations.push({
+      op: 'insert_block', id: 'insert-faq', block: 'faq', position: 'end',
+      html: renderers.faq(faq.items),
+    })
+  }
+
+  return operations
+}
+
+// ============================================================================
+// PATCH APPLICATION
+// ============================================================================
+
+function addHeadingIds(html: string, anchors: Array<{ heading: string; id: string }>): string {
+  return html.replace(/<h2\b[^>]*>([\s\S]*?)<\/h2>/gi, (element, inner: string) => {
+    const openTag = element.match(/^<h2\b[^>]*>/i)?.[0] || ''
+    if (getAttribute(openTag, 'id')) return element
+    const anchor = anchors.find(item => item.heading === stripHtml(inner))
+    return anchor ? element.replace(openTag, setAttribute(openTag, 'id', anchor.id)) : element
+  })
+}
+
+// Applies operations in a fixed order - section rewrites, alt text, inserts -
+// so any subset of a patch produces the same result for the edits it keeps
+export function applyContentPatch(html: string, operations: PatchOperation[]): string {
+  let result = html
+
+  for (const operation of operations) {
+    if (operation.op !== 'replace_section') continue
+    const at = result.indexOf(operation.before)
+    if (at === -1) {
+      console.warn(`[Surgical] ⚠️ Section "${operation.heading}" changed since the patch was made, skipping`)
+      continue
+    }
+    result = result.slice(0, at) + operation.after + result.slice(at + operation.before.length)
+  }
+
+  const altTexts = new Map<string, string>()
+  for (const operation of operations) {
+    if (operation.op === 'set_alt_text') altTexts.set(operation.src, operation.after)
+  }
+  if (altTexts.size > 0) {
+    result = result.replace(/<img\b[^>]*>/gi, (tag) => {
+      const alt = altTexts.get(getAttribute(tag, 'src') || '')
+      return alt ? setAttribute(tag, 'alt', alt) : tag
+    })
+  }
+
+  for (const operation of operations) {
+    if (operation.op !== 'insert_block') continue
+    if (operation.anchors) result = addHeadingIds(result, operation.anchors)
+
+    if (operation.position === 'end') {
+      result = `${result.trimEnd()}\n${operation.html}\n`
+      continue
+    }
+
+    // After the intro = right before the first H2
+    const firstHeading = Array.from(result.matchAll(SECTION_START))[0]?.index
+    result = firstHeading === undefined
+      ? `${result.trimEnd()}\n${operation.html}\n`
+      : `${result.slice(0, firstHeading)}${operation.html}\n${result.slice(firstHeading)}`
+  }
+
+  return result
+}
+
+// ============================================================================
+// DRAFT - The patched post in the shape the rest of the pipeline expects
+// ============================================================================
+
+export function buildSurgicalDraft(
+  source: SourcePost,
+  plan: SurgicalPlan,
+  html: string,
+  settings: ContentSettings
+): GeneratedContent {
+  const wordCount = countWords(html)
+  const excerpt = stripHtml(source.excerpt)
+
+  return {
+    title: source.title,
+    optimizedTitle: source.title,
+    optimizedContent: html,
+    content: html,
+    wordCount,
+    qualityScore: 0,
+    seoScore: 0,
+    readabilityScore: 0,
+    metaDescription: plan.metaDescription || excerpt.slice(0, 160),
+    h1: source.title,
+    h2s: splitSourceSections(html).filter(section => section.headingHtml).map(section => section.heading),
+    sections: [],
+    excerpt,
+    author: 'AI Content Expert',
+    publishedAt: new Date().toISOString(),
+    targetWordCount: { min: settings.minWordCount, max: settings.maxWordCount },
+    wordCountMet: wordCount >= settings.minWordCount,
+    generationAttempts: 1,
+    mode: 'surgical',
+  }
+}
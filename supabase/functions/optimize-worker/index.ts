@@ -0,0 +1,160 @@
+// ============================================================================
+// OPTIMIZE-WORKER EDGE FUNCTION
+// ============================================================================
+// Drains the optimization queue. Invoked by optimize-content right after a job
+// is enqueued and by a pg_cron sweep every minute, so jobs whose worker died
+// (expired lease) are picked up again. The HTTP response returns immediately;
+// the queue is processed in the background with EdgeRuntime.waitUntil.
+// Both callers send the service role key; a signed-in user's token is refused,
+// since the worker decrypts credentials from every owner's vault.
+// ============================================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { processJob } from '../optimize-content/pipeline.ts'
+import type { OptimizeJobPayload } from '../optimize-content/processor.ts'
+import {
+  claimNextJob,
+  releaseJob,
+  startHeartbeat,
+  type QueuedJob,
+} from '../_shared/job-queue.ts'
+import { isServiceRoleRequest } from '../_shared/auth.ts'
+import { revealEntryKey, vaultError } from '../_shared/vault.ts'
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void }
+
+// Stop claiming new jobs after this long; a claimed job may still run past it
+const WORKER_BUDGET_MS = 120000
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+function jsonResponse(data: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status
+  })
+}
+
+// ============================================================================
+// JOB EXECUTION
+// ============================================================================
+
+// Only fails a job this worker still holds; once the lease has lapsed another
+// worker may have reclaimed it, or it may have been cancelled
+async function failJob(supabase: SupabaseClient, job: QueuedJob, workerId: string, code: string, message: string): Promise<void> {
+  const { error } = await supabase.from('jobs').update({
+    status: 'failed',
+    error_message: `${code}: ${message}`,
+    current_step: `Failed - ${code}`,
+    completed_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  }).eq('id', job.id).eq('locked_by', workerId).eq('status', 'running')
+  if (error) {
+    console.error(`[optimize-worker] Could not mark job ${job.id} failed:`, error)
+  }
+  await releaseJob(supabase, job.id, workerId)
+}
+
+// The job row holds vault ids only. AI keys are decrypted for this run and
+// never written back; the live post's password is decrypted by
+// fetch-page-content, which needs to know whose vault to look in.
+async function unlockPayload(job: QueuedJob, payload: OptimizeJobPayload): Promise<OptimizeJobPayload> {
+  const ownerId = job.owner_id
+  if (!ownerId) return payload
+
+  const usedBy = `optimize-worker:${job.id}`
+  const primary = await revealEntryKey(ownerId, payload.aiConfig, usedBy)
+  const fallbacks = await Promise.all((payload.aiConfig.fallbacks || []).map(entry => revealEntryKey(ownerId, entry, usedBy)))
+
+  return {
+    ...payload,
+    aiConfig: { ...primary, fallbacks },
+    source: payload.source && { ...payload.source, ownerId },
+  }
+}
+
+async function runJob(supabase: SupabaseClient, job: QueuedJob, workerId: string): Promise<void> {
+  const payload = job.payload as unknown as OptimizeJobPayload | null
+
+  if (!payload?.aiConfig || !payload.contentSettings) {
+    console.error(`[optimize-worker] Job ${job.id} has no usable payload`)
+    await failJob(supabase, job, workerId, 'INVALID_JOB_PAYLOAD', 'Job was queued without AI configuration.')
+    return
+  }
+
+  let unlocked: OptimizeJobPayload
+  try {
+    unlocked = await unlockPayload(job, payload)
+  } catch (err) {
+    const { error, message } = vaultError(err)
+    console.error(`[optimize-worker] Job ${job.id} credentials unavailable: ${error}`)
+    await failJob(supabase, job, workerId, error, message)
+    return
+  }
+
+  const heartbeat = startHeartbeat(supabase, job.id, workerId)
+  try {
+    await processJob(supabase, job.id, unlocked, heartbeat.signal)
+  } finally {
+    heartbeat.stop()
+    await releaseJob(supabase, job.id, workerId)
+  }
+}
+
+async function drainQueue(supabase: SupabaseClient, workerId: string): Promise<void> {
+  const deadline = Date.now() + WORKER_BUDGET_MS
+  let processed = 0
+
+  while (Date.now() < deadline) {
+    const job = await claimNextJob(supabase, workerId)
+    if (!job) break
+
+    try {
+      await runJob(supabase, job, workerId)
+    } catch (err) {
+      // processJob records its own failures; this only guards the loop
+      console.error(`[optimize-worker] Unexpected error on job ${job.id}:`, err)
+    }
+    processed++
+  }
+
+  console.log(`[optimize-worker] ${workerId} finished, processed ${processed} job(s)`)
+}
+
+// ============================================================================
+// MAIN REQUEST HANDLER
+// ============================================================================
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+  if (!supabaseUrl || !supabaseKey) {
+    return jsonResponse({ success: false, error: 'SERVER_ERROR', message: 'Server configuration error.' }, 500)
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return jsonResponse({ success: false, error: 'UNAUTHORIZED', message: 'Only the job queue can start a worker.' }, 401)
+  }
+
+  const body = await req.json().catch(() => ({}))
+  const workerId = `optimize-worker-${crypto.randomUUID().slice(0, 8)}`
+  console.log(`[optimize-worker] ${workerId} started (trigger: ${body.trigger || 'unknown'})`)
+
+  const supabase = createClient(supabaseUrl, supabaseKey, {
+    auth: { persistSession: false }
+  })
+
+  EdgeRuntime.waitUntil(drainQueue(supabase, workerId))
+
+  return jsonResponse({ success: true, workerId, message: 'Worker started' }, 202)
+})
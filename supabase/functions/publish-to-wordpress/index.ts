@@ -4,7 +4,18 @@
 // ============================================================================
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { authenticateRequest } from '../_shared/auth.ts'
+import { resolvePostTypeEndpoint } from '../_shared/wp-post-types.ts'
+import { snapshotPost } from '../_shared/wp-revisions.ts'
+import { resolveTerms, type Taxonomy, type TermResolution } from '../_shared/wp-terms.ts'
+import { checkSiteScope, readSiteId } from '../_shared/site-scope.ts'
+import { revealCredential, vaultError } from '../_shared/vault.ts'
+import { hasBlockMarkup, htmlToBlocks } from '../_shared/GutenbergBlockRenderer.ts'
+import { embedThemeStylesheet, hasThemeClasses } from '../_shared/ThemedContentRenderer.ts'
+import { toContentFormat } from '../_shared/WordPressContentRenderer.ts'
+
+// WordPress `date` field: site-local wall-clock time, no timezone suffix
+const SITE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -45,6 +56,26 @@ function errorResponse(
   }, status)
 }
 
+// ============================================================================
+// HELPER: Current status of an existing post
+// ============================================================================
+
+async function fetchPostStatus(postUrl: string, auth: string): Promise<string | null> {
+  try {
+    const response = await fetch(`${postUrl}?context=edit&_fields=status`, {
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Accept': 'application/json',
+      },
+    })
+    if (!response.ok) return null
+    const post = await response.json()
+    return typeof post.status === 'string' ? post.status : null
+  } catch {
+    return null
+  }
+}
+
 // ============================================================================
 // MAIN HANDLER
 // ============================================================================
@@ -59,13 +90,22 @@ serve(async (req: Request): Promise<Response> => {
   console.log('[publish-to-wordpress] Timestamp:', new Date().toISOString())
 
   try {
+    // Page updates and revision snapshots are written as the caller
+    const caller = await authenticateRequest(req)
+    if ('error' in caller) {
+      return errorResponse(caller.error, caller.message, {}, caller.status)
+    }
+    const { supabase } = caller
+
     const body = await req.json()
     
     console.log('[publish-to-wordpress] Request body keys:', Object.keys(body))
     console.log('[publish-to-wordpress] Title:', body.title?.slice(0, 50))
     console.log('[publish-to-wordpress] Content length:', body.content?.length || 0)
     console.log('[publish-to-wordpress] Status:', body.status)
+    console.log('[publish-to-wordpress] Scheduled date (site time):', body.date)
     console.log('[publish-to-wordpress] Post ID (for update):', body.postId)
+    console.log('[publish-to-wordpress] Post type:', body.postType || 'post')
 
     // ========================================================================
     // VALIDATION
@@ -87,75 +127,41 @@ serve(async (req: Request): Promise<Response> => {
       )
     }
 
-    // ========================================================================
-    // GET WORDPRESS CREDENTIALS
-    // ========================================================================
-
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
-
-    if (!supabaseUrl || !supabaseKey) {
+    // Scheduled posts need a publish date in the site's timezone, the way
+    // WordPress reads the `date` field
+    if (body.status === 'future' && !body.date) {
       return errorResponse(
-        'SERVER_CONFIG_ERROR',
-        'Server configuration error. Please contact support.',
-        {},
-        500
+        'SCHEDULE_DATE_MISSING',
+        'A publish date is required to schedule a post.',
+        { fix: 'Pick a date and time in the schedule dialog' }
+      )
+    }
+    if (body.date && !SITE_DATE_PATTERN.test(body.date)) {
+      return errorResponse(
+        'SCHEDULE_DATE_INVALID',
+        `"${body.date}" is not a site-local date (expected YYYY-MM-DDTHH:MM:SS).`,
+        { date: body.date }
       )
     }
 
-    const supabase = createClient(supabaseUrl, supabaseKey, {
-      auth: { persistSession: false }
-    })
+    // ========================================================================
+    // GET WORDPRESS CREDENTIALS
+    // ========================================================================
 
-    // Try to get WordPress config from the request body first, then from database
+    // The password itself stays in the vault until the scope check passes
     let wpUrl = body.wpUrl || body.siteUrl
-    let wpUsername = body.wpUsername || body.username
-    let wpPassword = body.wpPassword || body.applicationPassword || body.appPassword
-
-    // If not in request body, get from database
-    if (!wpUrl || !wpUsername || !wpPassword) {
-      console.log('[publish-to-wordpress] Fetching WordPress credentials from database...')
-      
-      const { data: sites, error: sitesError } = await supabase
-        .from('sites')
-        .select('*')
-        .limit(1)
-        .single()
-
-      if (sitesError) {
-        console.error('[publish-to-wordpress] Database error:', sitesError)
-        return errorResponse(
-          'DATABASE_ERROR',
-          'Failed to fetch WordPress configuration from database.',
-          { error: sitesError.message },
-          500
-        )
-      }
-
-      if (!sites) {
-        return errorResponse(
-          'WORDPRESS_NOT_CONFIGURED',
-          'No WordPress site configured. Go to Configuration → WordPress to set up your site.',
-          { fix: 'Configure WordPress in the Configuration tab' }
-        )
-      }
-
-      wpUrl = sites.wp_url
-      wpUsername = sites.wp_username
-      wpPassword = sites.wp_app_password
-
-      console.log('[publish-to-wordpress] Found site:', wpUrl)
-    }
+    const wpUsername = body.wpUsername || body.username
+    const passwordCredentialId = body.passwordCredentialId
 
     // Validate WordPress credentials
-    if (!wpUrl || !wpUsername || !wpPassword) {
+    if (!wpUrl || !wpUsername || !passwordCredentialId) {
       return errorResponse(
         'WORDPRESS_CREDENTIALS_MISSING',
         'WordPress URL, username, or application password is missing.',
         {
           hasUrl: !!wpUrl,
           hasUsername: !!wpUsername,
-          hasPassword: !!wpPassword,
+          hasPassword: !!passwordCredentialId,
           fix: 'Go to Configuration → WordPress → Enter all required fields',
         }
       )
@@ -170,40 +176,111 @@ serve(async (req: Request): Promise<Response> => {
 
     console.log('[publish-to-wordpress] WordPress URL:', wpUrl)
     console.log('[publish-to-wordpress] Username:', wpUsername)
-    console.log('[publish-to-wordpress] Password length:', wpPassword?.length || 0)
+
+    // The page, job and target blog must all be the active site's
+    const scopeViolation = await checkSiteScope(supabase, readSiteId(body.siteId), {
+      siteUrl: wpUrl,
+      pageId: body.pageId,
+      jobId: body.jobId,
+    })
+    if (scopeViolation) {
+      return errorResponse(scopeViolation.error, scopeViolation.message, {}, scopeViolation.status)
+    }
 
     // ========================================================================
     // PREPARE WORDPRESS API REQUEST
     // ========================================================================
 
-    const auth = btoa(`${wpUsername}:${wpPassword}`)
+    let wpPassword: string
+    try {
+      wpPassword = await revealCredential(caller.userId, passwordCredentialId, 'publish-to-wordpress')
+    } catch (err) {
+      const { error, message } = vaultError(err)
+      return errorResponse(error, message, {
+        fix: 'Go to Configuration → WordPress → Test Connection to save the application password again',
+      }, error === 'CREDENTIAL_NOT_FOUND' ? 400 : 500)
+    }
+    const auth = btoa(`${wpUsername}:${wpPassword.replace(/\s+/g, '')}`)
     const isUpdate = !!body.postId
-    
+    const postType = body.postType || 'post'
+
+    // Pages and custom post types have their own REST base
+    let endpoint: string
+    try {
+      endpoint = await resolvePostTypeEndpoint(wpUrl, postType, `Basic ${auth}`)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      const coded = message.match(/^([A-Z_]+):\s*([\s\S]*)$/)
+      return errorResponse(
+        coded?.[1] || 'POST_TYPE_NOT_FOUND',
+        coded?.[2] || message,
+        { postType, fix: 'Make sure the post type is registered with show_in_rest' }
+      )
+    }
+
     const apiUrl = isUpdate 
-      ? `${wpUrl}/wp-json/wp/v2/posts/${body.postId}`
-      : `${wpUrl}/wp-json/wp/v2/posts`
+      ? `${endpoint}/${body.postId}`
+      : endpoint
     
     const method = isUpdate ? 'PUT' : 'POST'
 
+    // Sites set to the blocks format get native editor blocks instead of one
+    // Classic block; content that already has block markup is left alone.
+    // Themed content gets the stylesheet for the site's current design tokens.
+    const contentFormat = toContentFormat(body.contentFormat)
+    let content = body.content
+    if (contentFormat === 'blocks') {
+      content = htmlToBlocks(body.content)
+      console.log(`[publish-to-wordpress] Content format: blocks (${hasBlockMarkup(body.content) ? 'mixed input' : 'converted from HTML'})`)
+    } else if (contentFormat === 'themed' && hasThemeClasses(body.content)) {
+      content = embedThemeStylesheet(body.content, body.designTokens)
+      console.log('[publish-to-wordpress] Content format: themed (stylesheet embedded)')
+    }
+
     // Build post data
     const postData: Record<string, unknown> = {
       title: body.title,
-      content: body.content,
+      content,
       status: body.status || 'draft',
     }
 
     // Add optional fields if provided
+    if (body.date) {
+      postData.date = body.date
+    }
     if (body.excerpt) {
       postData.excerpt = body.excerpt
     }
     if (body.slug) {
       postData.slug = body.slug
     }
-    if (body.categories && Array.isArray(body.categories)) {
-      postData.categories = body.categories
-    }
-    if (body.tags && Array.isArray(body.tags)) {
-      postData.tags = body.tags
+    // Categories and tags may be names; WordPress only takes term IDs.
+    // Only posts carry these two taxonomies.
+    const terms: Partial<Record<Taxonomy, TermResolution>> = {}
+    const taxonomies: Taxonomy[] = ['categories', 'tags']
+    for (const taxonomy of taxonomies) {
+      const values = body[taxonomy]
+      if (!Array.isArray(values) || values.length === 0) continue
+
+      if (postType !== 'post') {
+        console.warn(`[publish-to-wordpress] Ignoring ${taxonomy}: post type "${postType}" does not use them`)
+        continue
+      }
+
+      try {
+        const resolution = await resolveTerms(wpUrl, `Basic ${auth}`, taxonomy, values, body.createMissingTerms === true)
+        terms[taxonomy] = resolution
+        postData[taxonomy] = resolution.ids
+        console.log(`[publish-to-wordpress] ${taxonomy}: ${resolution.ids.length} resolved, ${resolution.created.length} created, ${resolution.missing.length} missing`)
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err)
+        const coded = message.match(/^([A-Z_]+):\s*([\s\S]*)$/)
+        return errorResponse(
+          coded?.[1] || 'TERM_RESOLUTION_FAILED',
+          coded?.[2] || message,
+          { taxonomy, fix: 'Check that the WordPress user can manage categories and tags' }
+        )
+      }
     }
     if (body.featuredMediaId) {
       postData.featured_media = body.featuredMediaId
@@ -225,6 +302,46 @@ serve(async (req: Request): Promise<Response> => {
     console.log('[publish-to-wordpress] Method:', method)
     console.log('[publish-to-wordpress] Post status:', postData.status)
 
+    // ========================================================================
+    // SNAPSHOT THE CURRENT POST (updates only)
+    // ========================================================================
+
+    let revisionId: string | undefined
+
+    if (isUpdate) {
+      // WordPress has no scheduled updates: 'future' on a live post would
+      // unpublish it until the date comes round
+      if (postData.status === 'future') {
+        const liveStatus = await fetchPostStatus(`${endpoint}/${body.postId}`, auth)
+        if (liveStatus === 'publish') {
+          return errorResponse(
+            'POST_ALREADY_LIVE',
+            `Post ${body.postId} is already published; WordPress cannot schedule changes to a live post.`,
+            { postId: body.postId, fix: 'Publish the update now or save it as a draft' }
+          )
+        }
+      }
+
+      try {
+        revisionId = await snapshotPost(supabase, { wpUrl, auth, endpoint }, {
+          siteUrl: wpUrl,
+          postId: Number(body.postId),
+          postType,
+          pageId: body.pageId,
+          jobId: body.jobId,
+          reason: 'publish',
+        })
+      } catch (err) {
+        // Never overwrite a post that could not be backed up first
+        const message = err instanceof Error ? err.message : String(err)
+        return errorResponse(
+          'SNAPSHOT_FAILED',
+          message.replace(/^SNAPSHOT_FAILED:\s*/, ''),
+          { postId: body.postId, fix: 'Check that the post still exists and the user can edit it' }
+        )
+      }
+    }
+
     // ========================================================================
     // CALL WORDPRESS API
     // ========================================================================
@@ -265,7 +382,7 @@ serve(async (req: Request): Promise<Response> => {
       } else if (wpResponse.status === 404) {
         errorCode = 'WORDPRESS_API_NOT_FOUND'
         errorMessage = 'WordPress REST API not found. Make sure REST API is enabled.'
-        fix = 'Check if /wp-json/wp/v2/posts is accessible on your site'
+        fix = `Check if ${endpoint.slice(wpUrl.length)} is accessible on your site`
       } else if (wpResponse.status === 500) {
         errorCode = 'WORDPRESS_SERVER_ERROR'
         errorMessage = 'WordPress server error. There may be a plugin conflict or server issue.'
@@ -309,14 +426,46 @@ serve(async (req: Request): Promise<Response> => {
     console.log('[publish-to-wordpress] Post URL:', post.link)
     console.log('[publish-to-wordpress] Status:', post.status)
 
+    // date_gmt is the moment WordPress will make a scheduled post live
+    const scheduledFor = post.status === 'future' && post.date_gmt ? `${post.date_gmt}Z` : null
+    // The sitemap's lastmod for this post starts from here; a later one means
+    // it was edited in WordPress after this version went out
+    const modifiedAt = post.modified_gmt ? `${post.modified_gmt}Z` : new Date().toISOString()
+
+    // Keep the page row in step with WordPress so the queue and the schedule
+    // calendar reflect what was sent
+    if (body.pageId) {
+      const { error: pageError } = await supabase
+        .from('pages')
+        .update({
+          post_id: post.id,
+          status: post.status === 'future' ? 'scheduled' : post.status === 'publish' ? 'published' : 'completed',
+          scheduled_for: scheduledFor,
+          optimized_at: modifiedAt,
+          wp_modified: modifiedAt,
+          stale_since: null,
+          gone_since: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', body.pageId)
+      if (pageError) {
+        console.error('[publish-to-wordpress] Could not update page row:', pageError)
+      }
+    }
+
     return jsonResponse({
       success: true,
-      message: isUpdate ? 'Post updated successfully!' : 'Post published successfully!',
+      message: scheduledFor
+        ? `Post scheduled for ${post.date} (site time).`
+        : isUpdate ? 'Post updated successfully!' : 'Post published successfully!',
       postId: post.id,
       postUrl: post.link,
       editUrl: `${wpUrl}/wp-admin/post.php?post=${post.id}&action=edit`,
       status: post.status,
+      scheduledFor,
       title: post.title?.rendered || body.title,
+      revisionId,
+      terms,
     })
 
   } catch (err) {
@@ -0,0 +1,200 @@
+// ============================================================================
+// RESTORE-REVISION EDGE FUNCTION
+// ============================================================================
+// Rolls a WordPress post back to a snapshot in post_revisions. The post as it
+// is right now is snapshotted first (reason 'rollback'), so a rollback can be
+// undone the same way.
+// ============================================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { authenticateRequest } from '../_shared/auth.ts'
+import { resolvePostTypeEndpoint } from '../_shared/wp-post-types.ts'
+import { revisionToPostData, snapshotPost, type PostRevisionRow } from '../_shared/wp-revisions.ts'
+import { checkSiteScope, readSiteId } from '../_shared/site-scope.ts'
+import { revealCredential, vaultError } from '../_shared/vault.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+function jsonResponse(data: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status
+  })
+}
+
+function normalizeSiteUrl(url: string): string {
+  const trimmed = url.trim()
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+  return withScheme.replace(/\/+$/, '')
+}
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await authenticateRequest(req)
+    if ('error' in caller) {
+      return jsonResponse({ success: false, error: caller.error, message: caller.message }, caller.status)
+    }
+    const { supabase } = caller
+
+    const { revisionId, siteId, siteUrl, username, passwordCredentialId } = await req.json()
+
+    if (!revisionId) {
+      return jsonResponse({ success: false, error: 'MISSING_REVISION_ID', message: 'revisionId is required.' }, 400)
+    }
+    if (!siteUrl || !username || !passwordCredentialId) {
+      return jsonResponse({
+        success: false,
+        error: 'WORDPRESS_CREDENTIALS_MISSING',
+        message: 'WordPress URL, username, or application password is missing.',
+      }, 400)
+    }
+
+    const scopeViolation = await checkSiteScope(supabase, readSiteId(siteId), { siteUrl, revisionId })
+    if (scopeViolation) {
+      return jsonResponse({ success: false, error: scopeViolation.error, message: scopeViolation.message }, scopeViolation.status)
+    }
+
+    const { data: revision, error: revisionError } = await supabase
+      .from('post_revisions')
+      .select('*')
+      .eq('id', revisionId)
+      .maybeSingle()
+
+    if (revisionError) {
+      return jsonResponse({ success: false, error: 'DATABASE_ERROR', message: revisionError.message }, 500)
+    }
+    if (!revision) {
+      return jsonResponse({ success: false, error: 'REVISION_NOT_FOUND', message: `Revision ${revisionId} not found.` }, 404)
+    }
+
+    const row = revision as PostRevisionRow
+    const wpUrl = normalizeSiteUrl(siteUrl)
+    if (normalizeSiteUrl(row.site_url) !== wpUrl) {
+      return jsonResponse({
+        success: false,
+        error: 'SITE_MISMATCH',
+        message: `This snapshot belongs to ${row.site_url}, not the connected site ${wpUrl}.`,
+      })
+    }
+
+    let applicationPassword: string
+    try {
+      applicationPassword = await revealCredential(caller.userId, passwordCredentialId, 'restore-revision')
+    } catch (err) {
+      return jsonResponse({ success: false, ...vaultError(err) }, 400)
+    }
+    const auth = btoa(`${username}:${applicationPassword.replace(/\s+/g, '')}`)
+    let endpoint: string
+    try {
+      endpoint = await resolvePostTypeEndpoint(wpUrl, row.post_type, `Basic ${auth}`)
+    } catch (err) {
+      return jsonResponse({
+        success: false,
+        error: 'POST_TYPE_NOT_FOUND',
+        message: err instanceof Error ? err.message.replace(/^[A-Z_]+:\s*/, '') : `Post type ${row.post_type} is unavailable.`,
+      })
+    }
+    const target = { wpUrl, auth, endpoint }
+
+    // Back up what is live now before putting the old version back
+    let backupRevisionId: string
+    try {
+      backupRevisionId = await snapshotPost(supabase, target, {
+        siteUrl: row.site_url,
+        postId: row.post_id,
+        postType: row.post_type,
+        pageId: row.page_id,
+        reason: 'rollback',
+      })
+    } catch (err) {
+      return jsonResponse({
+        success: false,
+        error: 'SNAPSHOT_FAILED',
+        message: err instanceof Error ? err.message.replace(/^SNAPSHOT_FAILED:\s*/, '') : 'Could not back up the current post.',
+      })
+    }
+
+    const wpResponse = await fetch(`${endpoint}/${row.post_id}`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Basic ${target.auth}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify(revisionToPostData(row)),
+    })
+
+    if (!wpResponse.ok) {
+      const errorText = await wpResponse.text()
+      console.error(`[restore-revision] WordPress returned ${wpResponse.status}:`, errorText.slice(0, 500))
+      return jsonResponse({
+        success: false,
+        error: wpResponse.status === 401 ? 'WORDPRESS_AUTH_FAILED' : 'WORDPRESS_API_ERROR',
+        message: `WordPress rejected the rollback (HTTP ${wpResponse.status}).`,
+        backupRevisionId,
+      }, wpResponse.status >= 500 ? 502 : 400)
+    }
+
+    const post = await wpResponse.json()
+    const restoredAt = new Date().toISOString()
+
+    const { error: markError } = await supabase
+      .from('post_revisions')
+      .update({ restored_at: restoredAt })
+      .eq('id', row.id)
+    if (markError) {
+      console.error('[restore-revision] Could not mark revision restored:', markError)
+    }
+
+    // The rollback may have put a schedule back or taken one away
+    if (row.page_id) {
+      const { error: pageError } = await supabase
+        .from('pages')
+        .update({
+          wp_status: post.status,
+          scheduled_for: post.status === 'future' && post.date_gmt ? `${post.date_gmt}Z` : null,
+          updated_at: restoredAt,
+        })
+        .eq('id', row.page_id)
+      if (pageError) {
+        console.error('[restore-revision] Could not update page row:', pageError)
+      }
+    }
+
+    await supabase.from('activity_log').insert({
+      page_id: row.page_id,
+      job_id: row.job_id,
+      type: 'info',
+      message: `Rolled back post ${row.post_id} to the snapshot from ${row.created_at}`,
+      details: { revisionId: row.id, backupRevisionId, postUrl: post.link },
+    })
+
+    console.log(`[restore-revision] ✅ Post ${row.post_id} restored from revision ${row.id} (backup ${backupRevisionId})`)
+
+    return jsonResponse({
+      success: true,
+      message: 'Post restored from snapshot.',
+      postId: post.id,
+      postUrl: post.link,
+      revisionId: row.id,
+      backupRevisionId,
+      restoredAt,
+    })
+
+  } catch (err) {
+    console.error('[restore-revision] Request error:', err)
+    return jsonResponse({
+      success: false,
+      error: 'REQUEST_ERROR',
+      message: err instanceof Error ? err.message : 'An unexpected error occurred',
+    }, 500)
+  }
+})
@@ -0,0 +1,94 @@
+// ============================================================================
+// RESUME-JOB EDGE FUNCTION
+// ============================================================================
+// Re-queues a failed or cancelled optimization job. The pipeline skips every
+// stage whose output is already on the job row, so work restarts from the
+// last completed stage instead of from scratch.
+// ============================================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { authenticateRequest } from '../_shared/auth.ts'
+import { requeueJob, triggerWorker } from '../_shared/job-queue.ts'
+import { checkSiteScope, readSiteId } from '../_shared/site-scope.ts'
+
+const WORKER_FUNCTION = 'optimize-worker'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+function jsonResponse(data: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status
+  })
+}
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await authenticateRequest(req)
+    if ('error' in caller) {
+      return jsonResponse({ success: false, error: caller.error, message: caller.message }, caller.status)
+    }
+    const { supabase } = caller
+
+    const { jobId, siteId } = await req.json()
+
+    if (!jobId) {
+      return jsonResponse({ success: false, error: 'MISSING_JOB_ID', message: 'jobId is required.' }, 400)
+    }
+
+    const scopeViolation = await checkSiteScope(supabase, readSiteId(siteId), { jobId })
+    if (scopeViolation) {
+      return jsonResponse({ success: false, error: scopeViolation.error, message: scopeViolation.message }, scopeViolation.status)
+    }
+
+    const { requeued, status, stage, locked, error } = await requeueJob(supabase, jobId)
+
+    if (error) {
+      return jsonResponse({ success: false, error: 'DATABASE_ERROR', message: error }, 500)
+    }
+
+    if (!requeued) {
+      if (!status) {
+        return jsonResponse({ success: false, error: 'JOB_NOT_FOUND', message: `Job ${jobId} not found.` }, 404)
+      }
+      return jsonResponse({
+        success: false,
+        error: 'JOB_NOT_RESUMABLE',
+        message: locked
+          ? 'The job is still stopping. Try resuming again in a minute.'
+          : status === 'failed' || status === 'cancelled'
+            ? 'Job was created before resumable jobs and cannot be resumed. Start a new optimization.'
+            : `Only failed or cancelled jobs can be resumed (job is ${status}).`,
+        jobId,
+        status,
+      })
+    }
+
+    const workerTriggered = await triggerWorker(WORKER_FUNCTION, { trigger: 'resume', jobId })
+    console.log(`[resume-job] Job ${jobId} requeued from stage ${stage} (worker triggered: ${workerTriggered})`)
+
+    return jsonResponse({
+      success: true,
+      jobId,
+      status: 'queued',
+      resumeFromStage: stage,
+      message: 'Job re-queued. Completed stages will be skipped.',
+    }, 202)
+
+  } catch (err) {
+    console.error('[resume-job] Request error:', err)
+    return jsonResponse({
+      success: false,
+      error: 'REQUEST_ERROR',
+      message: err instanceof Error ? err.message : 'An unexpected error occurred',
+    }, 500)
+  }
+})
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authenticateRequest } from "../_shared/auth.ts";
+import { revealCredential } from "../_shared/vault.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,7 +12,8 @@ interface SerpRequest {
   query: string;
   gl?: string; // Country code (e.g., 'us', 'uk')
   hl?: string; // Language code (e.g., 'en', 'es')
-  serperApiKey: string;
+  // Vault id of the Serper key; it is only decrypted on a cache miss
+  serperCredentialId: string;
 }
 
 interface OrganicResult {
@@ -48,12 +51,22 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // serp_cache is shared between users and has no RLS policies, so it is
+  // read and written with the service role once the caller is signed in
   const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
   const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
   const supabase = createClient(supabaseUrl, supabaseKey);
 
   try {
-    const { query, gl = 'us', hl = 'en', serperApiKey }: SerpRequest = await req.json();
+    const caller = await authenticateRequest(req);
+    if ('error' in caller) {
+      return new Response(
+        JSON.stringify({ success: false, error: caller.message }),
+        { status: caller.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { query, gl = 'us', hl = 'en', serperCredentialId }: SerpRequest = await req.json();
 
     if (!query) {
       return new Response(
@@ -62,7 +75,7 @@ serve(async (req) => {
       );
     }
 
-    if (!serperApiKey) {
+    if (!serperCredentialId) {
       return new Response(
         JSON.stringify({ success: false, error: 'Serper API key is required. Add it in Configuration → AI Provider.' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -94,6 +107,8 @@ serve(async (req) => {
 
     console.log(`[SERP] Cache miss, calling Serper API...`);
 
+    const serperApiKey = await revealCredential(caller.userId, serperCredentialId, 'serp-analysis');
+
     // Call Serper API
     const serperResponse = await fetch('https://google.serper.dev/search', {
       method: 'POST',
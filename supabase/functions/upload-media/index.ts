@@ -0,0 +1,162 @@
+// ============================================================================
+// UPLOAD-MEDIA EDGE FUNCTION
+// ============================================================================
+// Pushes an image (from a URL or from the browser as base64) into the
+// WordPress media library with title, caption and alt text. When no alt text
+// is given and an AI config is, the configured provider writes it from the
+// file name, caption and article context. Returns the attachment ID for
+// featured_media and ready-to-embed image block markup.
+// ============================================================================
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { callAI, type AIConfig } from '../optimize-content/processor.ts'
+import { loadMediaFile, renderMediaFigure, uploadMedia, type MediaFile } from '../_shared/wp-media.ts'
+import { authenticateRequest } from '../_shared/auth.ts'
+import { checkSiteScope, readSiteId } from '../_shared/site-scope.ts'
+import { revealCredential, revealEntryKey } from '../_shared/vault.ts'
+
+const ALT_TEXT_MAX_TOKENS = 256
+const ALT_TEXT_MAX_LENGTH = 125
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface AltTextContext {
+  topic?: string
+  keyword?: string
+  surroundingText?: string
+}
+
+function jsonResponse(data: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status
+  })
+}
+
+function normalizeSiteUrl(url: string): string {
+  const trimmed = url.trim()
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+  return withScheme.replace(/\/+$/, '')
+}
+
+function codedError(err: unknown, fallbackCode: string): { error: string; message: string } {
+  const message = err instanceof Error ? err.message : String(err)
+  const coded = message.match(/^([A-Z_]+):\s*([\s\S]*)$/)
+  return { error: coded?.[1] || fallbackCode, message: coded?.[2] || message }
+}
+
+// The text model cannot see the image, so it works from everything said about it
+async function generateAltText(
+  aiConfig: AIConfig,
+  file: MediaFile,
+  title: string | undefined,
+  caption: string | undefined,
+  context: AltTextContext
+): Promise<string> {
+  const prompt = `You are writing image alt text for a web page${context.topic ? ` about "${context.topic}"` : ''}. Describe what the image most likely shows, using the details below. Keep it under ${ALT_TEXT_MAX_LENGTH} characters, do not start with "Image of", and answer with the alt text only.
+
+FILE NAME: ${file.filename}
+${title ? `TITLE: ${title}\n` : ''}${caption ? `CAPTION: ${caption}\n` : ''}${context.keyword ? `FOCUS KEYWORD: ${context.keyword}\n` : ''}${context.surroundingText ? `TEXT AROUND THE IMAGE: ${context.surroundingText.slice(0, 600)}\n` : ''}`
+
+  const raw = await callAI(aiConfig, prompt, { maxTokens: ALT_TEXT_MAX_TOKENS })
+  return raw.trim().replace(/^["']|["']$/g, '').split('\n')[0].slice(0, ALT_TEXT_MAX_LENGTH).trim()
+}
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await authenticateRequest(req)
+    if ('error' in caller) {
+      return jsonResponse({ success: false, error: caller.error, message: caller.message }, caller.status)
+    }
+
+    const body = await req.json()
+    const { siteUrl, username, passwordCredentialId } = body
+
+    if (!siteUrl || !username || !passwordCredentialId) {
+      return jsonResponse({
+        success: false,
+        error: 'WORDPRESS_CREDENTIALS_MISSING',
+        message: 'WordPress URL, username, or application password is missing.',
+      }, 400)
+    }
+    if (!body.sourceUrl && !body.data) {
+      return jsonResponse({ success: false, error: 'MEDIA_SOURCE_MISSING', message: 'Send either sourceUrl or data.' }, 400)
+    }
+
+    const scopeViolation = await checkSiteScope(caller.supabase, readSiteId(body.siteId), { siteUrl })
+    if (scopeViolation) {
+      return jsonResponse({ success: false, error: scopeViolation.error, message: scopeViolation.message }, scopeViolation.status)
+    }
+
+    let file: MediaFile
+    try {
+      file = await loadMediaFile({
+        sourceUrl: body.sourceUrl,
+        data: body.data,
+        filename: body.filename,
+        mimeType: body.mimeType,
+      })
+    } catch (err) {
+      return jsonResponse({ success: false, ...codedError(err, 'MEDIA_FETCH_FAILED') }, 400)
+    }
+
+    const title: string | undefined = body.title?.trim() || undefined
+    const caption: string | undefined = body.caption?.trim() || undefined
+    let altText: string | undefined = body.altText?.trim() || undefined
+    let altTextGenerated = false
+
+    if (!altText && body.aiConfig?.provider) {
+      try {
+        const aiConfig = await revealEntryKey(caller.userId, body.aiConfig as AIConfig, 'upload-media')
+        altText = await generateAltText(aiConfig, file, title, caption, body.context || {})
+        altTextGenerated = Boolean(altText)
+        console.log(`[upload-media] Generated alt text: "${altText}"`)
+      } catch (err) {
+        // An upload without alt text beats no upload; the title stands in below
+        console.warn('[upload-media] ⚠️ Alt text generation failed:', err instanceof Error ? err.message : err)
+      }
+    }
+
+    const wpUrl = normalizeSiteUrl(siteUrl)
+    const applicationPassword = await revealCredential(caller.userId, passwordCredentialId, 'upload-media')
+    const authHeader = `Basic ${btoa(`${username}:${applicationPassword.replace(/\s+/g, '')}`)}`
+
+    let media
+    try {
+      media = await uploadMedia(wpUrl, authHeader, file, {
+        title,
+        caption,
+        altText: altText || title,
+        postId: body.postId ? Number(body.postId) : undefined,
+      })
+    } catch (err) {
+      const { error, message } = codedError(err, 'MEDIA_UPLOAD_FAILED')
+      return jsonResponse({ success: false, error, message }, error === 'MEDIA_FORBIDDEN' ? 403 : 502)
+    }
+
+    return jsonResponse({
+      success: true,
+      message: `Uploaded ${file.filename} to the media library.`,
+      mediaId: media.id,
+      media,
+      altTextGenerated,
+      html: renderMediaFigure(media),
+    })
+
+  } catch (err) {
+    console.error('[upload-media] Request error:', err)
+    return jsonResponse({
+      success: false,
+      error: 'REQUEST_ERROR',
+      message: err instanceof Error ? err.message : 'An unexpected error occurred',
+    }, 500)
+  }
+})
@@ -1,16 +1,35 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  CUSTOM_PROVIDER,
+  buildCustomHeaders,
+  resolveChatCompletionsUrl,
+  validateCustomEndpoint,
+} from "../_shared/custom-endpoint.ts";
+import { providerFetch } from "../_shared/ai-fixtures.ts";
+import { MOCK_BASE_URL, MOCK_PROVIDER, isMockEndpoint, mockChatCompletion } from "../_shared/mock-provider.ts";
+import { authenticateRequest } from "../_shared/auth.ts";
+import { readSiteId } from "../_shared/site-scope.ts";
+import { revealCredential, storeCredential, vaultError, type CredentialMetadata } from "../_shared/vault.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-type AIProvider = 'google' | 'openai' | 'anthropic' | 'groq' | 'openrouter';
+type HostedProvider = 'google' | 'openai' | 'anthropic' | 'groq' | 'openrouter';
+type AIProvider = HostedProvider | typeof CUSTOM_PROVIDER | typeof MOCK_PROVIDER;
 
 interface AIValidationRequest {
   provider: AIProvider;
-  apiKey: string;
+  // A newly typed key, or the vault id of the saved one when re-testing
+  apiKey?: string;
+  apiKeyCredentialId?: string;
   model: string;
+  siteId?: string;
+  // Custom OpenAI-compatible endpoint only
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  apiKeyHeader?: string;
 }
 
 interface AIValidationResponse {
@@ -24,11 +43,13 @@ interface AIValidationResponse {
     contextWindow?: number;
     pricing?: string;
   };
+  // Where a newly typed key was saved; the app keeps this instead
+  credential?: CredentialMetadata;
   error?: string;
   errorCode?: string;
 }
 
-const PROVIDER_CONFIGS: Record<AIProvider, { 
+const PROVIDER_CONFIGS: Record<HostedProvider, { 
   name: string;
   testEndpoint: string;
   buildRequest: (apiKey: string, model: string) => { headers: HeadersInit; body?: string };
@@ -118,7 +139,8 @@ async function fetchWithTimeout(url: string, options: RequestInit, timeoutMs: nu
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
   
   try {
-    const response = await fetch(url, {
+    if (isMockEndpoint(url)) return mockChatCompletion(options);
+    const response = await providerFetch(url, {
       ...options,
       signal: controller.signal,
     });
@@ -134,12 +156,42 @@ serve(async (req) => {
   }
 
   try {
-    const { provider, apiKey, model }: AIValidationRequest = await req.json();
+    const caller = await authenticateRequest(req);
+    if ('error' in caller) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: caller.message,
+          provider: 'unknown',
+          model: 'unknown',
+          error: caller.message,
+          errorCode: caller.error
+        } as AIValidationResponse),
+        { status: caller.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { provider, apiKey: typedKey, apiKeyCredentialId, model, siteId, baseUrl, headers: customHeaders, apiKeyHeader }: AIValidationRequest = await req.json();
+    const isCustom = provider === CUSTOM_PROVIDER;
+    const isMock = provider === MOCK_PROVIDER;
 
     console.log(`[AI Validation] Validating ${provider} with model ${model}`);
 
-    // Validate inputs
-    if (!provider || !apiKey || !model) {
+    let apiKey = typedKey || '';
+    if (!apiKey && apiKeyCredentialId) {
+      try {
+        apiKey = await revealCredential(caller.userId, apiKeyCredentialId, 'validate-ai-provider');
+      } catch (err) {
+        const { error, message } = vaultError(err);
+        return new Response(
+          JSON.stringify({ success: false, message, provider, model, error: message, errorCode: error } as AIValidationResponse),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // Validate inputs (custom endpoints may run without a key)
+    if (!provider || (!apiKey && !isCustom && !isMock) || !model) {
       return new Response(
         JSON.stringify({
           success: false,
@@ -153,7 +205,37 @@ serve(async (req) => {
       );
     }
 
-    const config = PROVIDER_CONFIGS[provider];
+    if (isCustom) {
+      const endpointError = validateCustomEndpoint({ baseUrl, headers: customHeaders, apiKeyHeader });
+      if (endpointError) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            message: 'Invalid custom endpoint',
+            provider,
+            model,
+            error: endpointError,
+            errorCode: 'INVALID_BASE_URL'
+          } as AIValidationResponse),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const config = isCustom || isMock
+      ? {
+          name: isMock ? 'Mock (offline)' : 'Custom endpoint',
+          testEndpoint: resolveChatCompletionsUrl(isMock ? MOCK_BASE_URL : baseUrl!),
+          buildRequest: (key: string, m: string) => ({
+            headers: buildCustomHeaders(key, { headers: customHeaders, apiKeyHeader }),
+            body: JSON.stringify({
+              model: m,
+              messages: [{ role: 'user', content: 'Hi' }],
+              max_tokens: 1,
+            }),
+          }),
+        }
+      : PROVIDER_CONFIGS[provider];
     if (!config) {
       return new Response(
         JSON.stringify({
@@ -169,7 +251,7 @@ serve(async (req) => {
     }
 
     // Build test request
-    const { headers, body } = config.buildRequest(apiKey, model);
+    const { headers, body } = config.buildRequest(apiKey || '', model);
     let testUrl = config.testEndpoint;
     
     // For Google, model is in URL
@@ -186,8 +268,22 @@ serve(async (req) => {
         method: 'POST',
         headers,
         body,
-      }, 8000);
+      }, isCustom ? 20000 : 8000); // self-hosted models may need to load first
     } catch (err) {
+      if (isCustom && err instanceof TypeError) {
+        // DNS failure, refused connection, bad TLS - the server isn't reachable
+        return new Response(
+          JSON.stringify({
+            success: false,
+            message: 'Endpoint unreachable',
+            provider: config.name,
+            model,
+            error: `Could not reach ${new URL(testUrl).host}. The endpoint must be reachable from the public internet.`,
+            errorCode: 'ENDPOINT_UNREACHABLE'
+          } as AIValidationResponse),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
       if (err instanceof Error && err.name === 'AbortError') {
         console.log(`[AI Validation] Request timed out for ${provider}`);
         return new Response(
@@ -259,13 +355,32 @@ serve(async (req) => {
 
     console.log(`[AI Validation] Success for ${provider}/${model}`);
 
+    // A key that just worked is kept in the vault, so the app never has to
+    // hold it again
+    let credential: CredentialMetadata | undefined;
+    if (typedKey && !isMock) {
+      try {
+        credential = await storeCredential(caller.userId, {
+          kind: 'ai_api_key',
+          secret: typedKey,
+          siteId: readSiteId(siteId),
+          provider,
+        });
+      } catch (err) {
+        console.error('[AI Validation] Could not save the key:', err);
+      }
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
-        message: `${config.name} API key validated successfully`,
+        message: isCustom
+          ? `Custom endpoint responded with model ${model}`
+          : `${config.name} API key validated successfully`,
         provider: config.name,
         model,
         modelInfo,
+        credential,
       } as AIValidationResponse),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -2,6 +2,7 @@
 // Enterprise Content Validation Engine
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticateRequest } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -59,6 +60,14 @@ serve(async (req) => {
   }
 
   try {
+    const caller = await authenticateRequest(req);
+    if ('error' in caller) {
+      return new Response(
+        JSON.stringify({ success: false, error: caller.message }),
+        { status: caller.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const { optimization, minQualityScore = 75, minWordCount = 1500, targetKeyword }: ValidationRequest = await req.json();
 
     const checks: ValidationCheck[] = [];
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.90.0';
+import { authenticateRequest } from '../_shared/auth.ts';
+import { listPostTypes, type PostTypeInfo } from '../_shared/wp-post-types.ts';
+import { revealCredential, storeCredential, vaultError, type CredentialMetadata } from '../_shared/vault.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,7 +11,9 @@ const corsHeaders = {
 interface WordPressValidationRequest {
   siteUrl: string;
   username: string;
-  applicationPassword: string;
+  // A newly typed password, or the vault id of the saved one when re-testing
+  applicationPassword?: string;
+  passwordCredentialId?: string;
 }
 
 interface WordPressValidationResponse {
@@ -21,6 +25,8 @@ interface WordPressValidationResponse {
     description: string;
     url: string;
     version?: string;
+    gmtOffset?: number;
+    timezone?: string;
   };
   userInfo?: {
     id: number;
@@ -34,6 +40,9 @@ interface WordPressValidationResponse {
     canPublish: boolean;
     canManageOptions: boolean;
   };
+  postTypes?: PostTypeInfo[];
+  // Where a newly typed password was saved; the app keeps this instead
+  credential?: CredentialMetadata;
   error?: string;
   errorCode?: string;
 }
@@ -45,10 +54,37 @@ serve(async (req) => {
   }
 
   try {
-    const { siteUrl, username, applicationPassword }: WordPressValidationRequest = await req.json();
+    // The site row is saved for the signed-in user
+    const caller = await authenticateRequest(req);
+    if ('error' in caller) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: caller.message,
+          error: caller.message,
+          errorCode: caller.error,
+        } as WordPressValidationResponse),
+        { status: caller.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { siteUrl, username, applicationPassword: typedPassword, passwordCredentialId }: WordPressValidationRequest = await req.json();
 
     console.log('[WordPress Validation] Starting validation for:', siteUrl);
 
+    let applicationPassword = typedPassword || '';
+    if (!applicationPassword && passwordCredentialId) {
+      try {
+        applicationPassword = await revealCredential(caller.userId, passwordCredentialId, 'validate-wordpress');
+      } catch (err) {
+        const { error, message } = vaultError(err);
+        return new Response(
+          JSON.stringify({ success: false, message, error: message, errorCode: error } as WordPressValidationResponse),
+          { status: error === 'CREDENTIAL_NOT_FOUND' ? 404 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
     // Validate inputs
     if (!siteUrl || !username || !applicationPassword) {
       return new Response(
@@ -155,20 +191,28 @@ serve(async (req) => {
     const canEdit = postsResponse.ok;
     console.log('[WordPress Validation] Can edit posts:', canEdit);
 
+    // Step 4: Discover post types (pages, products, docs...) that can be optimized
+    let postTypes: PostTypeInfo[] = [];
+    try {
+      postTypes = await listPostTypes(normalizedUrl, authHeader);
+      console.log('[WordPress Validation] Post types:', postTypes.map(type => type.slug).join(', '));
+    } catch (typesError) {
+      console.warn('[WordPress Validation] Could not list post types:', typesError);
+    }
+
     // Determine capabilities
     const capabilities = userData.capabilities || {};
     const canPublish = capabilities.publish_posts === true || capabilities.edit_published_posts === true;
     const canManageOptions = capabilities.manage_options === true;
 
     // Save to database
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { supabase, userId } = caller;
 
-    // Upsert site in wp_sites table
+    // Upsert site in wp_sites table; each user has their own row per URL
     const { data: siteData, error: dbError } = await supabase
       .from('wp_sites')
       .upsert({
+        owner_id: userId,
         site_url: normalizedUrl,
         username: username,
         site_name: rootData.name || 'Unknown',
@@ -178,10 +222,11 @@ serve(async (req) => {
           canPublish,
           canManageOptions,
           userRoles: userData.roles || [],
+          postTypes: postTypes.map(type => type.slug),
         },
         connected_at: new Date().toISOString(),
       }, {
-        onConflict: 'site_url',
+        onConflict: 'owner_id,site_url',
       })
       .select()
       .single();
@@ -193,6 +238,21 @@ serve(async (req) => {
 
     console.log('[WordPress Validation] Site saved to database:', siteData?.id);
 
+    // A password that just worked is kept in the vault under its site, so
+    // the app never has to hold it again
+    let credential: CredentialMetadata | undefined;
+    if (typedPassword && siteData?.id) {
+      try {
+        credential = await storeCredential(userId, {
+          kind: 'wordpress_password',
+          secret: typedPassword.replace(/\s+/g, ''),
+          siteId: siteData.id,
+        });
+      } catch (err) {
+        console.error('[WordPress Validation] Could not save the password:', err);
+      }
+    }
+
     // Log activity
     if (siteData?.id) {
       await supabase.from('activity_log').insert({
@@ -213,6 +273,8 @@ serve(async (req) => {
         description: rootData.description || '',
         url: rootData.url || normalizedUrl,
         version: rootData.version,
+        gmtOffset: Number(rootData.gmt_offset) || 0,
+        timezone: rootData.timezone_string || undefined,
       },
       userInfo: {
         id: userData.id,
@@ -225,7 +287,9 @@ serve(async (req) => {
         canEdit,
         canPublish,
         canManageOptions,
-      }
+      },
+      postTypes,
+      credential,
     };
 
     console.log('[WordPress Validation] Validation successful');
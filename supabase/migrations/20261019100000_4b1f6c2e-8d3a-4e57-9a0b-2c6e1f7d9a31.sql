@@ -0,0 +1,90 @@
+-- Durable job queue for optimize-content
+-- Jobs are enqueued with status 'queued' and claimed by optimize-worker under a
+-- time-limited lease that the worker extends with heartbeats.
+
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS payload JSONB,
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3,
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TRIGGER update_jobs_updated_at
+  BEFORE UPDATE ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_created_at ON public.jobs(status, created_at);
+
+-- Claim the oldest runnable job: either queued, or running with an expired
+-- lease (its worker died). Jobs that have used up their attempts are failed.
+CREATE OR REPLACE FUNCTION public.claim_next_job(
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 90
+)
+RETURNS SETOF public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.jobs
+  SET status = 'failed',
+      error_message = 'WORKER_LEASE_EXPIRED: The worker stopped responding and the job ran out of attempts.',
+      current_step = 'Failed - WORKER_LEASE_EXPIRED',
+      completed_at = NOW(),
+      locked_by = NULL,
+      locked_until = NULL
+  WHERE status = 'running'
+    AND locked_until IS NOT NULL
+    AND locked_until < NOW()
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE public.jobs j
+  SET status = 'running',
+      locked_by = p_worker_id,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW(),
+      attempts = j.attempts + 1,
+      started_at = COALESCE(j.started_at, NOW())
+  WHERE j.id = (
+    SELECT id FROM public.jobs
+    WHERE attempts < max_attempts
+      AND (
+        status = 'queued'
+        OR (status = 'running' AND locked_until IS NOT NULL AND locked_until < NOW())
+      )
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_next_job(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_next_job(TEXT, INTEGER) TO service_role;
+
+-- Sweep the queue every minute so jobs are picked up even when the enqueue
+-- trigger was lost or a worker died mid-job. Reads the project URL and service
+-- role key from Vault secrets 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'optimize-worker-tick',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/optimize-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('trigger', 'cron')
+  );
+  $$
+);
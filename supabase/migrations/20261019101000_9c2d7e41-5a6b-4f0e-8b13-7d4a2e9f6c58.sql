@@ -0,0 +1,10 @@
+-- Staged content pipeline: each stage persists its output on the job row so a
+-- failure in a later stage keeps the work done before it.
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS stage TEXT DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS serp_brief JSONB,
+  ADD COLUMN IF NOT EXISTS content_outline JSONB,
+  ADD COLUMN IF NOT EXISTS draft JSONB,
+  ADD COLUMN IF NOT EXISTS drafted_sections JSONB,
+  ADD COLUMN IF NOT EXISTS enrichment_blocks JSONB,
+  ADD COLUMN IF NOT EXISTS seo_score JSONB;
@@ -0,0 +1,5 @@
+-- Provider fallback chain: record which provider/model actually drafted the
+-- content, since it may differ from the primary one configured.
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS ai_provider TEXT,
+  ADD COLUMN IF NOT EXISTS ai_model TEXT;
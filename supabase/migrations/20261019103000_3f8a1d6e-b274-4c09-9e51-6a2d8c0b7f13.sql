@@ -0,0 +1,6 @@
+-- Surgical optimization: the live post the job started from, the audit of its
+-- sections and the patch of edits made against it.
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS source_post JSONB,
+  ADD COLUMN IF NOT EXISTS surgical_plan JSONB,
+  ADD COLUMN IF NOT EXISTS content_patch JSONB;
@@ -0,0 +1,27 @@
+-- WordPress revision snapshots: what a post looked like right before this app
+-- overwrote it, so any update (or rollback) can be undone.
+CREATE TABLE IF NOT EXISTS public.post_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id UUID REFERENCES public.pages(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL,
+  site_url TEXT NOT NULL,
+  post_id INTEGER NOT NULL,
+  -- 'publish' when taken before a publish-to-wordpress update,
+  -- 'rollback' when taken before restoring an older snapshot
+  reason TEXT NOT NULL DEFAULT 'publish',
+  title TEXT NOT NULL DEFAULT '',
+  content TEXT NOT NULL DEFAULT '',
+  excerpt TEXT NOT NULL DEFAULT '',
+  slug TEXT,
+  seo_meta JSONB NOT NULL DEFAULT '{}'::jsonb,
+  post_modified TEXT,
+  restored_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_revisions_page_id_created_at
+  ON public.post_revisions(page_id, created_at DESC);
+
+ALTER TABLE public.post_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on post_revisions" ON public.post_revisions FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,4 @@
+-- Revisions remember which post type they came from so a rollback writes to
+-- the right REST endpoint (pages and custom post types included).
+ALTER TABLE public.post_revisions
+  ADD COLUMN IF NOT EXISTS post_type TEXT NOT NULL DEFAULT 'post';
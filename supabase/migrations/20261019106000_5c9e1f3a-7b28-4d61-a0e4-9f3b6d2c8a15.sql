@@ -0,0 +1,9 @@
+-- Scheduled publishing: when a page is sent to WordPress with status 'future',
+-- the UTC time WordPress will make it live is kept here so the strategy
+-- calendar can show what goes out when.
+ALTER TABLE public.pages
+  ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_pages_scheduled_for
+  ON public.pages (scheduled_for)
+  WHERE scheduled_for IS NOT NULL;
@@ -0,0 +1,17 @@
+-- Multi-site workspace: jobs carry the site they were queued for, so a
+-- queue, a cancel or a resume can be checked against the active site even
+-- when the job has no page (Quick Optimize runs by URL).
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES public.wp_sites(id) ON DELETE CASCADE;
+
+UPDATE public.jobs AS j
+SET site_id = p.site_id
+FROM public.pages AS p
+WHERE j.page_id = p.id
+  AND j.site_id IS NULL
+  AND p.site_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_site_id_created_at ON public.jobs(site_id, created_at DESC);
+
+-- Each site's page queue is read on its own
+CREATE INDEX IF NOT EXISTS idx_pages_site_id_created_at ON public.pages(site_id, created_at DESC);
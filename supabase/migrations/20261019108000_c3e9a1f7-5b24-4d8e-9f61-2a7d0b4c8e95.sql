@@ -0,0 +1,95 @@
+-- Per-user data. Every row belongs to the auth user who created it: owner_id
+-- defaults to auth.uid(), so inserts through a signed-in client (the app, or
+-- an edge function forwarding the caller's JWT) fill it in. The worker and
+-- cron run as the service role, which bypasses these policies.
+ALTER TABLE public.wp_sites
+  ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE public.pages
+  ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE public.activity_log
+  ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE public.post_revisions
+  ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_wp_sites_owner_id ON public.wp_sites(owner_id);
+CREATE INDEX IF NOT EXISTS idx_pages_owner_id ON public.pages(owner_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_owner_id ON public.jobs(owner_id);
+CREATE INDEX IF NOT EXISTS idx_activity_log_owner_id ON public.activity_log(owner_id);
+CREATE INDEX IF NOT EXISTS idx_post_revisions_owner_id ON public.post_revisions(owner_id);
+
+-- Rows from before sign-in existed have no owner and are visible to nobody.
+-- Hand them to an account once it exists, then let children follow the site:
+--   UPDATE public.wp_sites SET owner_id = '<user id>' WHERE owner_id IS NULL;
+--   (and rerun the statements below)
+UPDATE public.pages AS p SET owner_id = s.owner_id
+FROM public.wp_sites AS s
+WHERE p.site_id = s.id AND p.owner_id IS NULL AND s.owner_id IS NOT NULL;
+
+UPDATE public.jobs AS j SET owner_id = s.owner_id
+FROM public.wp_sites AS s
+WHERE j.site_id = s.id AND j.owner_id IS NULL AND s.owner_id IS NOT NULL;
+
+UPDATE public.activity_log AS a SET owner_id = s.owner_id
+FROM public.wp_sites AS s
+WHERE a.site_id = s.id AND a.owner_id IS NULL AND s.owner_id IS NOT NULL;
+
+UPDATE public.post_revisions AS r SET owner_id = p.owner_id
+FROM public.pages AS p
+WHERE r.page_id = p.id AND r.owner_id IS NULL AND p.owner_id IS NOT NULL;
+
+-- Two customers may connect the same blog; each gets their own row
+ALTER TABLE public.wp_sites DROP CONSTRAINT IF EXISTS wp_sites_site_url_key;
+ALTER TABLE public.wp_sites ADD CONSTRAINT wp_sites_owner_id_site_url_key UNIQUE (owner_id, site_url);
+
+-- Replace the development "allow all" policies
+DROP POLICY IF EXISTS "Allow all operations on wp_sites" ON public.wp_sites;
+DROP POLICY IF EXISTS "Allow all operations on pages" ON public.pages;
+DROP POLICY IF EXISTS "Allow all operations on jobs" ON public.jobs;
+DROP POLICY IF EXISTS "Allow all operations on activity_log" ON public.activity_log;
+DROP POLICY IF EXISTS "Allow all operations on post_revisions" ON public.post_revisions;
+
+-- True when the site is missing (legacy rows) or the caller owns it; keeps
+-- pages, jobs and log entries from pointing at another customer's site
+CREATE OR REPLACE FUNCTION public.owns_site(target_site_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT target_site_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.wp_sites WHERE id = target_site_id AND owner_id = auth.uid());
+$$;
+
+REVOKE ALL ON FUNCTION public.owns_site(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.owns_site(UUID) TO authenticated;
+
+CREATE POLICY "Owners manage their sites" ON public.wp_sites
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners manage their pages" ON public.pages
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid() AND public.owns_site(site_id));
+
+CREATE POLICY "Owners manage their jobs" ON public.jobs
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid() AND public.owns_site(site_id));
+
+CREATE POLICY "Owners manage their activity" ON public.activity_log
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid() AND public.owns_site(site_id));
+
+CREATE POLICY "Owners manage their revisions" ON public.post_revisions
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+-- serp_cache keeps no policies: it holds public search results shared by
+-- everyone and is only read and written by edge functions as the service role.
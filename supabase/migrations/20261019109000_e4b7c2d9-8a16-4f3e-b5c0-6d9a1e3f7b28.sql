@@ -0,0 +1,44 @@
+-- Credential vault. WordPress application passwords and AI, Serper and
+-- NeuronWriter keys are stored AES-GCM encrypted with a key that only edge
+-- functions hold (CREDENTIAL_ENCRYPTION_KEY). The app keeps the row id and a
+-- hint, sends the id, and functions decrypt the secret when they need it.
+CREATE TABLE public.credentials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL for workspace-wide keys (NeuronWriter, keys saved before a site connected)
+  site_id UUID REFERENCES public.wp_sites(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('wordpress_password', 'ai_api_key', 'serper_api_key', 'neuronwriter_api_key')),
+  -- AI provider for ai_api_key, '' otherwise
+  provider TEXT NOT NULL DEFAULT '',
+  ciphertext TEXT NOT NULL,
+  iv TEXT NOT NULL,
+  -- Last four characters, for "••••abcd" in the UI
+  hint TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  rotated_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  last_used_by TEXT,
+  -- Saving a new secret for the same slot rotates it in place, so every
+  -- profile and queued job holding the id picks up the new value
+  CONSTRAINT credentials_slot_key UNIQUE NULLS NOT DISTINCT (owner_id, site_id, kind, provider)
+);
+
+CREATE INDEX idx_credentials_owner_id ON public.credentials(owner_id);
+CREATE INDEX idx_credentials_site_id ON public.credentials(site_id);
+
+ALTER TABLE public.credentials ENABLE ROW LEVEL SECURITY;
+
+-- Owners may list and delete their credentials but never read the encrypted
+-- columns; writes go through the credential-vault function
+REVOKE ALL ON public.credentials FROM anon, authenticated;
+GRANT SELECT (id, owner_id, site_id, kind, provider, hint, created_at, rotated_at, last_used_at, last_used_by)
+  ON public.credentials TO authenticated;
+GRANT DELETE ON public.credentials TO authenticated;
+
+CREATE POLICY "Owners list their credentials" ON public.credentials
+  FOR SELECT TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Owners delete their credentials" ON public.credentials
+  FOR DELETE TO authenticated
+  USING (owner_id = auth.uid());
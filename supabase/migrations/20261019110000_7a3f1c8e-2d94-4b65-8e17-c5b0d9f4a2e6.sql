@@ -0,0 +1,10 @@
+-- What the crawl found on each queued page: headings, meta description,
+-- images, links and schema, as read by analyze-pages. score_before is scored
+-- from it; rows the analysis hasn't reached yet have analyzed_at NULL.
+ALTER TABLE public.pages
+  ADD COLUMN IF NOT EXISTS analysis JSONB,
+  ADD COLUMN IF NOT EXISTS analyzed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_pages_site_unanalyzed
+  ON public.pages(site_id, created_at)
+  WHERE analyzed_at IS NULL;
@@ -0,0 +1,14 @@
+-- Incremental re-crawls. A crawl records each URL's sitemap <lastmod>, and
+-- analyze-pages records the modified time the page itself reports. Publishing
+-- an optimized version stamps optimized_at with WordPress's modified time, so
+-- a later edit in WordPress shows up as a newer lastmod and marks the page
+-- stale. URLs that drop out of the sitemap are marked gone, not deleted, so
+-- their history stays in the queue.
+ALTER TABLE public.pages
+  ADD COLUMN IF NOT EXISTS lastmod TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS wp_modified TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS optimized_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS stale_since TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS gone_since TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_pages_site_url ON public.pages(site_id, url);
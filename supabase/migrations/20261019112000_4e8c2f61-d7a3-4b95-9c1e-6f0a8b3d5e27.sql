@@ -0,0 +1,6 @@
+-- The robots.txt line that keeps a crawled URL out of search
+-- ("Disallow: /shop/" or "Noindex: /old/"), recorded by crawl-sitemap so the
+-- queue can warn before anything is optimized. A noindex robots meta tag or
+-- X-Robots-Tag header shows up in pages.analysis instead.
+ALTER TABLE public.pages
+  ADD COLUMN IF NOT EXISTS robots_rule TEXT;
@@ -0,0 +1,7 @@
+-- WordPress's own status for the post behind a queue row (publish, draft,
+-- future, pending, private). Filled in when pages are discovered through the
+-- REST API, which lists drafts and private posts a sitemap never shows.
+ALTER TABLE public.pages
+  ADD COLUMN IF NOT EXISTS wp_status TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_pages_site_post_id ON public.pages(site_id, post_id);
@@ -0,0 +1,9 @@
+-- publish-to-wordpress also sets terms, the featured image, the status and the
+-- date, so a snapshot has to keep them for a rollback to put them back.
+-- NULL means the post type does not carry the field (pages have no terms).
+ALTER TABLE public.post_revisions
+  ADD COLUMN IF NOT EXISTS categories INTEGER[],
+  ADD COLUMN IF NOT EXISTS tags INTEGER[],
+  ADD COLUMN IF NOT EXISTS featured_media INTEGER,
+  ADD COLUMN IF NOT EXISTS post_status TEXT,
+  ADD COLUMN IF NOT EXISTS post_date TEXT;